@@ -0,0 +1,55 @@
+import { AlertTriangle, Bell, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useRtpAlerts } from '@/hooks/use-rtp-alerts';
+import { RTP_DRIFT_LABELS } from '@/lib/rtp-monitor';
+
+const MONITOR_URL = '/v2/administrator/scratchs/rtp';
+
+// Sino de notificações do painel; hoje reúne os alertas de desvio de RTP
+export default function AdminNotifications() {
+  const { alerts, dismiss } = useRtpAlerts();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-neutral-300 hover:text-white" title="Notificações">
+          <Bell className="w-5 h-5" />
+          {alerts.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+              {alerts.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0 bg-neutral-800 border-neutral-700 text-white">
+        <div className="px-4 py-3 border-b border-neutral-700">
+          <p className="font-semibold text-sm">Notificações</p>
+        </div>
+        {alerts.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-neutral-400 text-center">Nenhum alerta no momento</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-neutral-700">
+            {alerts.map((alert) => (
+              <li key={alert.key} className="flex items-start gap-3 px-4 py-3">
+                <AlertTriangle className={`w-4 h-4 mt-0.5 shrink-0 ${alert.level === 'critical' ? 'text-red-400' : 'text-yellow-400'}`} />
+                <a href={`${MONITOR_URL}?card=${alert.cardId}`} className="flex-1 min-w-0 hover:underline">
+                  <p className="text-sm font-medium truncate">{alert.cardName}</p>
+                  <p className="text-xs text-neutral-400">{RTP_DRIFT_LABELS[alert.level]} · {alert.message}</p>
+                </a>
+                <button
+                  type="button"
+                  onClick={() => dismiss(alert.key)}
+                  className="text-neutral-500 hover:text-white"
+                  title="Dispensar"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
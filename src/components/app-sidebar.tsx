@@ -1,6 +1,7 @@
 import * as React from "react"
 import { GalleryVerticalEnd, Minus, Plus, Ticket } from "lucide-react"
 
+import AdminNotifications from "@/components/admin-notifications"
 import { SearchForm } from "@/components/search-form"
 import {
   Collapsible,
@@ -21,9 +22,17 @@ import {
   SidebarRail,
 } from "@/components/ui/sidebar"
 import { getAppColor } from "@/lib/colors"
+import { AdminPermission } from "@/lib/permissions"
+import { useAdminPermissions } from "@/hooks/use-admin-permissions"
 
-// This is sample data.
-const data = {
+interface NavItem {
+  title: string
+  url: string
+  permission?: AdminPermission
+}
+
+// Cada item só aparece para quem tem a permissão correspondente (sem permissão: todos os administradores)
+const data: { navMain: { title: string; url: string; items: NavItem[] }[] } = {
   navMain: [
     {
       title: "Performance",
@@ -32,6 +41,7 @@ const data = {
         {
           title: "Dashboard",
           url: "/v2/administrator/dashboard",
+          permission: "dashboard:view",
         },
       ],
     },
@@ -42,18 +52,42 @@ const data = {
         {
           title: "Usuários",
           url: "/v2/administrator/users",
+          permission: "users:view",
         },
         {
           title: "Depositos",
           url: "/v2/administrator/deposits",
+          permission: "deposits:view",
         },
         {
           title: "Saques",
           url: "/v2/administrator/withdrawals",
+          permission: "withdrawals:view",
+        },
+        {
+          title: "Regras de saque",
+          url: "/v2/administrator/withdrawals/rules",
+          permission: "withdrawals:review",
+        },
+        {
+          title: "Promoções",
+          url: "/v2/administrator/promotions",
+          permission: "promotions:manage",
+        },
+        {
+          title: "Conciliação",
+          url: "/v2/administrator/reconciliation",
+          permission: "reconciliation:view",
         },
         {
           title: "Raspadinhas",
           url: "/v2/administrator/scratchs",
+          permission: "scratchcards:view",
+        },
+        {
+          title: "Monitor de RTP",
+          url: "/v2/administrator/scratchs/rtp",
+          permission: "scratchcards:view",
         },
       ],
     },
@@ -61,21 +95,39 @@ const data = {
       title: "Configurações",
       url: "#",
       items: [
-        // {
-        //   title: "Informações",
-        //   url: "/v2/administrator/settings",
-        // },
+        {
+          title: "Informações",
+          url: "/v2/administrator/settings",
+          permission: "settings:credentials",
+        },
         {
           title: "Imagens",
           url: "/v2/administrator/settings/upload",
+          permission: "settings:images",
         },
         {
-          title: "Credenciais API",
+          title: "Gateways de pagamento",
           url: "/v2/administrator/settings/credentials",
+          permission: "settings:credentials",
         },
         {
           title: "Licença",
           url: "/v2/administrator/ggr",
+          permission: "license:view",
+        },
+        {
+          title: "Permissões",
+          url: "/v2/administrator/roles",
+          permission: "roles:manage",
+        },
+        {
+          title: "Auditoria",
+          url: "/v2/administrator/audit",
+          permission: "audit:view",
+        },
+        {
+          title: "Segurança",
+          url: "/v2/administrator/security",
         },
       ],
     },
@@ -85,6 +137,15 @@ const data = {
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const [openItems, setOpenItems] = React.useState<Record<string, boolean>>({})
   const [isClient, setIsClient] = React.useState(false)
+  const { can } = useAdminPermissions()
+
+  const navMain = React.useMemo(
+    () =>
+      data.navMain
+        .map((group) => ({ ...group, items: group.items.filter((item) => !item.permission || can(item.permission)) }))
+        .filter((group) => group.items.length > 0),
+    [can]
+  )
 
   React.useEffect(() => {
     setIsClient(true)
@@ -103,8 +164,8 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
     <Sidebar {...props}>
       <SidebarHeader>
         <SidebarMenu>
-          <SidebarMenuItem>
-            <SidebarMenuButton size="lg" asChild>
+          <SidebarMenuItem className="flex items-center gap-1">
+            <SidebarMenuButton size="lg" asChild className="flex-1">
               <a href="#">
                 <div className={`${getAppColor()} text-sidebar-primary-foreground flex aspect-square size-8 items-center justify-center rounded-lg`}>
                   <Ticket className="size-4" />
@@ -115,13 +176,14 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                 </div>
               </a>
             </SidebarMenuButton>
+            <AdminNotifications />
           </SidebarMenuItem>
         </SidebarMenu>
       </SidebarHeader>
       <SidebarContent>
         <SidebarGroup>
           <SidebarMenu>
-            {data.navMain.map((item) => (
+            {navMain.map((item) => (
               <Collapsible
                 key={item.title}
                 open={isClient ? (openItems[item.title] || false) : false}
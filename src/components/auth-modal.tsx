@@ -6,13 +6,15 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 import { getAppColor, getAppGradient } from '@/lib/colors';
-import { apiUrl } from '@/lib/api';
+import { api } from '@/lib/api';
+import { isTwoFactorChallenge } from '@/lib/two-factor';
+import type { User } from '@/lib/types';
 import { trackUserRegistration } from '@/lib/facebook-pixel';
 
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onAuthSuccess?: (user: any, token: string) => void;
+  onAuthSuccess?: (user: User, token: string) => void;
 }
 
 export default function AuthModal({ isOpen, onClose, onAuthSuccess }: AuthModalProps) {
@@ -97,38 +99,26 @@ export default function AuthModal({ isOpen, onClose, onAuthSuccess }: AuthModalP
   };
 
   const handleLogin = async () => {
-    const response = await fetch(apiUrl('/v1/api/auth/login'), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        identifier: formData.email,
-        password: formData.password,
-      }),
-    });
-
-    const data = await response.json();
+    const session = await api.auth.login(formData.email, formData.password);
 
-    if (!response.ok) {
-      throw new Error(data.message || 'Erro ao fazer login');
+    // Contas com verificação em duas etapas entram pelo painel administrativo
+    if (isTwoFactorChallenge(session)) {
+      throw new Error('Esta conta usa verificação em duas etapas. Acesse pelo painel administrativo.');
     }
 
-    if (data.success) {
-      // Usar AuthContext para fazer login
-      login(data.data.user, data.data.token);
-      
-      // Mostrar toast de sucesso
-      toast.success('Login realizado com sucesso!');
-      
-      // Chamar callback de sucesso se fornecido
-      if (onAuthSuccess) {
-        onAuthSuccess(data.data.user, data.data.token);
-      }
-      
-      // Fechar modal
-      onClose();
+    // Usar AuthContext para fazer login
+    login(session.user, session.token);
+    
+    // Mostrar toast de sucesso
+    toast.success('Login realizado com sucesso!');
+    
+    // Chamar callback de sucesso se fornecido
+    if (onAuthSuccess) {
+      onAuthSuccess(session.user, session.token);
     }
+    
+    // Fechar modal
+    onClose();
   };
 
   const handleRegister = async () => {
@@ -139,58 +129,38 @@ export default function AuthModal({ isOpen, onClose, onAuthSuccess }: AuthModalP
     // Remove formatação do CPF antes de enviar
     const cpfClean = formData.cpf.replace(/\D/g, '');
 
-    const registerData: any = {
+    const session = await api.auth.register({
       email: formData.email,
       cpf: cpfClean,
       password: formData.password,
-    };
-
-    if (inviteCode) {
-      registerData.invite_code = inviteCode;
-    }
-
-    const response = await fetch(apiUrl('/v1/api/auth/register'), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(registerData),
+      ...(inviteCode ? { invite_code: inviteCode } : {}),
     });
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.message || 'Erro ao criar conta');
+    // Usar AuthContext para fazer login
+    login(session.user, session.token);
+    
+    // Rastrear registro no Facebook Pixel com email e CPF
+    try {
+      await trackUserRegistration(
+        undefined, // name não é mais usado
+        formData.email, // capturar email
+        cpfClean, // capturar CPF limpo
+        inviteCode // código de convite se presente
+      );
+    } catch (pixelError) {
+      console.log('Erro ao rastrear registro no Facebook Pixel:', pixelError);
     }
-
-    if (data.success) {
-      // Usar AuthContext para fazer login
-      login(data.data.user, data.data.token);
-      
-      // Rastrear registro no Facebook Pixel com email e CPF
-      try {
-        await trackUserRegistration(
-          undefined, // name não é mais usado
-          formData.email, // capturar email
-          cpfClean, // capturar CPF limpo
-          inviteCode // código de convite se presente
-        );
-      } catch (pixelError) {
-        console.log('Erro ao rastrear registro no Facebook Pixel:', pixelError);
-      }
-      
-      // Mostrar toast de sucesso
-      toast.success('Conta criada com sucesso!');
-      
-      // Chamar callback de sucesso se fornecido
-      if (onAuthSuccess) {
-        onAuthSuccess(data.data.user, data.data.token);
-      }
-
-      
-      // Fechar modal
-      onClose();
+    
+    // Mostrar toast de sucesso
+    toast.success('Conta criada com sucesso!');
+    
+    // Chamar callback de sucesso se fornecido
+    if (onAuthSuccess) {
+      onAuthSuccess(session.user, session.token);
     }
+
+    // Fechar modal
+    onClose();
   };
 
   return (
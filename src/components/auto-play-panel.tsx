@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Repeat, Square, ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  AUTO_PLAY_MAX_ROUNDS,
+  AUTO_PLAY_ROUND_OPTIONS,
+  getSessionNet,
+  type AutoPlaySession,
+  type AutoPlaySettings,
+} from '@/lib/auto-play';
+
+interface AutoPlayPanelProps {
+  settings: AutoPlaySettings;
+  onSettingsChange: (settings: AutoPlaySettings) => void;
+  session: AutoPlaySession | null;
+  price: number;
+  // Impede iniciar uma sessão enquanto outra rodada está em andamento
+  disabled?: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const inputClassName = 'w-full bg-neutral-800 border border-neutral-600 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-neutral-400 disabled:opacity-50';
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const parseAmount = (value: string) => Math.max(0, parseFloat(value.replace(',', '.')) || 0);
+
+export default function AutoPlayPanel({
+  settings,
+  onSettingsChange,
+  session,
+  price,
+  disabled = false,
+  onStart,
+  onStop,
+}: AutoPlayPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isRunning = !!session?.running;
+
+  const update = (changes: Partial<AutoPlaySettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const renderSession = (current: AutoPlaySession) => {
+    const net = getSessionNet(current);
+    return (
+      <div className="grid grid-cols-3 gap-2">
+        <div className="bg-neutral-800 rounded-lg border border-neutral-600 p-2 text-center">
+          <p className="text-neutral-400 text-xs mb-1">Rodadas</p>
+          <p className="text-white font-semibold text-sm">{current.roundsPlayed}/{settings.rounds}</p>
+        </div>
+        <div className="bg-neutral-800 rounded-lg border border-neutral-600 p-2 text-center">
+          <p className="text-neutral-400 text-xs mb-1">Resultado</p>
+          <p className={`font-semibold text-sm ${net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {net >= 0 ? '+' : '-'}{formatCurrency(Math.abs(net))}
+          </p>
+        </div>
+        <div className="bg-neutral-800 rounded-lg border border-neutral-600 p-2 text-center">
+          <p className="text-neutral-400 text-xs mb-1">Saldo</p>
+          <p className="text-white font-semibold text-sm">{formatCurrency(Math.max(0, current.balance))}</p>
+        </div>
+      </div>
+    );
+  };
+
+  // Durante a sessão o painel fica sempre aberto, com o acompanhamento ao vivo
+  if (session && isRunning) {
+    return (
+      <div className="bg-neutral-700 rounded-lg border border-yellow-500/30 p-4 mb-4 sm:mb-6 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-white font-semibold text-sm">
+            <Repeat className="w-4 h-4 text-yellow-400 animate-pulse" />
+            Auto-play em andamento
+          </span>
+          <Button
+            size="sm"
+            onClick={onStop}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            <Square className="w-3 h-3 mr-1" />
+            Parar
+          </Button>
+        </div>
+        {renderSession(session)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-neutral-700 rounded-lg border border-neutral-600 mb-4 sm:mb-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center gap-2 text-white font-semibold text-sm">
+          <Repeat className="w-4 h-4 text-yellow-400" />
+          Auto-play
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-neutral-400" /> : <ChevronDown className="w-4 h-4 text-neutral-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 text-sm">
+          {session && (
+            <div className="space-y-2">
+              <p className="text-neutral-300 text-xs font-medium">Última sessão</p>
+              {renderSession(session)}
+              {session.stopReason && (
+                <p className="text-yellow-400 text-xs">{session.stopReason}</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="autoPlayRounds" className="text-neutral-400 text-xs mb-1 block">Rodadas</label>
+            <div className="flex flex-wrap gap-2">
+              {AUTO_PLAY_ROUND_OPTIONS.map((rounds) => (
+                <button
+                  key={rounds}
+                  type="button"
+                  onClick={() => update({ rounds })}
+                  disabled={disabled}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors disabled:opacity-50 ${
+                    settings.rounds === rounds
+                      ? 'bg-yellow-500 border-yellow-400 text-white'
+                      : 'bg-neutral-800 border-neutral-600 text-neutral-300 hover:bg-neutral-600'
+                  }`}
+                >
+                  {rounds}
+                </button>
+              ))}
+              <input
+                id="autoPlayRounds"
+                type="number"
+                min={1}
+                max={AUTO_PLAY_MAX_ROUNDS}
+                value={settings.rounds}
+                onChange={(e) => update({ rounds: Math.min(AUTO_PLAY_MAX_ROUNDS, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                disabled={disabled}
+                className={`${inputClassName} w-24`}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="autoPlayStopLoss" className="text-neutral-400 text-xs mb-1 block">Parar ao perder (R$)</label>
+              <input
+                id="autoPlayStopLoss"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Sem limite"
+                value={settings.stopLoss || ''}
+                onChange={(e) => update({ stopLoss: parseAmount(e.target.value) })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="autoPlayStopOnWin" className="text-neutral-400 text-xs mb-1 block">Parar ao ganhar um prêmio de (R$)</label>
+              <input
+                id="autoPlayStopOnWin"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Sem limite"
+                value={settings.stopOnWin || ''}
+                onChange={(e) => update({ stopOnWin: parseAmount(e.target.value) })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-neutral-300 text-sm">Pular animação</span>
+            <Switch
+              checked={settings.skipAnimation}
+              onCheckedChange={(checked) => update({ skipAnimation: checked })}
+              disabled={disabled}
+            />
+          </label>
+
+          <Button
+            onClick={onStart}
+            disabled={disabled}
+            className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-white font-semibold"
+          >
+            <Repeat className="w-4 h-4 mr-2" />
+            Iniciar auto-play ({settings.rounds}x de {formatCurrency(price)})
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { Gift, Lock } from 'lucide-react';
+import { getAppColor, getAppColorText } from '@/lib/colors';
+import { getRolloverProgress, getWalletBalances } from '@/lib/bonus';
+import type { Wallet } from '@/lib/types';
+
+interface BonusBalanceProps {
+  wallet: Wallet | null | undefined;
+}
+
+const formatAmount = (value: number, symbol = 'R$') => `${symbol} ${value.toFixed(2).replace('.', ',')}`;
+
+// Saldo sacável, bônus bloqueado e progresso do rollover do jogador
+export default function BonusBalance({ wallet }: BonusBalanceProps) {
+  const balances = getWalletBalances(wallet);
+  const rollover = getRolloverProgress(wallet);
+  const symbol = wallet?.symbol || 'R$';
+
+  if (balances.bonus <= 0 && !rollover) return null;
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-neutral-500/20 pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="text-neutral-400 text-xs">Sacável</p>
+          <p className="text-white text-sm font-semibold">{formatAmount(balances.withdrawable, symbol)}</p>
+        </div>
+        <div>
+          <p className="text-neutral-400 text-xs flex items-center gap-1">
+            <Gift className="w-3 h-3" />
+            Bônus
+          </p>
+          <p className={`${getAppColorText()} text-sm font-semibold`}>{formatAmount(balances.bonus, symbol)}</p>
+        </div>
+      </div>
+
+      {rollover && (
+        <div>
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="text-neutral-400 flex items-center gap-1">
+              <Lock className="w-3 h-3" />
+              Rollover
+            </span>
+            <span className="text-neutral-300">{Math.floor(rollover.percent)}%</span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-neutral-700 overflow-hidden">
+            <div
+              className={`h-full ${getAppColor()} transition-all duration-500`}
+              style={{ width: `${Math.min(100, rollover.percent)}%` }}
+            />
+          </div>
+          <p className="text-neutral-500 text-xs mt-1">
+            Aposte mais {formatAmount(rollover.remaining, symbol)} para liberar o bônus
+            ({formatAmount(rollover.wagered, symbol)} de {formatAmount(rollover.total, symbol)})
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,462 @@
+import { useState, useEffect, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Smartphone, CheckCircle, Copy, Timer, AlertCircle, RotateCcw, Gift, X } from "lucide-react";
+import { toast } from "sonner";
+import { QRCodeCanvas } from "qrcode.react";
+import { getAppColor, getAppColorText, getAppColorSvg, getAppGradient } from '@/lib/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDepositFlow } from '@/hooks/use-deposit-flow';
+import { api, getErrorMessage } from '@/lib/api';
+import { calculateDepositBonus, getPromoCodeIssue, isFirstDeposit, normalizePromoCode } from '@/lib/bonus';
+import {
+  DEPOSIT_MIN_AMOUNT,
+  DEPOSIT_QUICK_AMOUNTS,
+  formatCountdown,
+  parseDepositAmount,
+} from '@/lib/deposit-flow';
+import type { DepositPayment, PromoCode } from '@/lib/types';
+
+interface DepositFlowProps {
+  // Chamado ao fechar a partir de um estado final (modal)
+  onClose?: () => void;
+  // Chamado quando o pagamento é confirmado
+  onPaid?: () => void;
+  // Conteúdo exibido acima da escolha do valor (ex.: banner do modal)
+  amountHeader?: ReactNode;
+}
+
+// Destaques exibidos nos valores rápidos
+const QUICK_AMOUNT_BADGES: Record<number, string> = {
+  20: 'Popular',
+  40: '✨ Recomendado',
+  80: '+Querido',
+  100: '+Chances',
+};
+
+const formatAmount = (value: number | string) =>
+  `R$ ${parseFloat(String(value)).toFixed(2).replace('.', ',')}`;
+
+function PaymentDetails({ payment }: { payment: DepositPayment }) {
+  const copyPixCode = async () => {
+    try {
+      await navigator.clipboard.writeText(payment.payment.qrCode);
+      toast.success('Código PIX copiado!');
+    } catch (error) {
+      toast.error('Erro ao copiar código');
+    }
+  };
+
+  return (
+    <>
+      {/* QR Code PIX */}
+      <div className="flex flex-col items-center mb-3 sm:mb-4">
+        <div className="w-[140px] h-[140px] sm:w-[180px] sm:h-[180px] flex items-center justify-center">
+          <QRCodeCanvas value={payment.payment.qrCode} size={140} bgColor="#18181b" fgColor={getAppColorSvg()} includeMargin={true} />
+        </div>
+        <span className="text-neutral-400 text-xs mt-2">Escaneie o QR Code com o app do seu banco</span>
+      </div>
+
+      {/* PIX Code */}
+      <div className="mb-4 sm:mb-6">
+        <Label className="text-white font-medium mb-2 sm:mb-3 block">
+          Código PIX (Copia e Cola)
+        </Label>
+        <div className="space-y-2 sm:space-y-3">
+          <textarea
+            value={payment.payment.qrCode}
+            readOnly
+            className="w-full h-16 sm:h-24 p-2 sm:p-3 bg-neutral-800 border border-neutral-600 rounded-lg text-white text-xs resize-none pointer-events-none select-none"
+          />
+          <Button
+            onClick={copyPixCode}
+            className={`${getAppGradient()} w-full text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2`}
+          >
+            <Copy className="w-4 h-4" />
+            Copiar Código PIX
+          </Button>
+        </div>
+      </div>
+
+      {/* Instructions */}
+      <div className="space-y-2 sm:space-y-3 mb-4 sm:mb-6">
+        {[
+          'Abra o app do seu banco e escolha a opção PIX',
+          'Selecione "Pix Copia e Cola" e cole o código acima',
+          'Confirme o pagamento e aguarde a aprovação',
+        ].map((instruction, index) => (
+          <div key={index} className="flex items-start gap-2 sm:gap-3">
+            <div className={`w-5 h-5 sm:w-6 sm:h-6 ${getAppColor()} rounded-full flex items-center justify-center text-white text-xs font-bold mt-0.5`}>
+              {index + 1}
+            </div>
+            <p className="text-neutral-300 text-xs sm:text-sm">
+              {instruction}
+            </p>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+interface PromoCodeFieldProps {
+  amount: number;
+  promo: PromoCode | null;
+  issue: string | null;
+  disabled?: boolean;
+  onChange: (promo: PromoCode | null) => void;
+}
+
+// Campo do código promocional com a prévia do bônus para o valor escolhido
+function PromoCodeField({ amount, promo, issue, disabled, onChange }: PromoCodeFieldProps) {
+  const { token } = useAuth();
+  const [code, setCode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const applyCode = async () => {
+    const normalized = normalizePromoCode(code);
+    if (!normalized || !token) return;
+
+    setChecking(true);
+    setError('');
+    try {
+      onChange(await api.promoCodes.validate(token, normalized));
+      setCode('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Código promocional inválido'));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (promo) {
+    const preview = calculateDepositBonus(promo, amount);
+
+    return (
+      <div className={`p-3 rounded-lg border ${issue ? 'bg-amber-500/10 border-amber-500/20' : 'bg-green-500/10 border-green-500/20'}`}>
+        <div className="flex items-center gap-2">
+          <Gift className={`w-4 h-4 ${issue ? 'text-amber-400' : 'text-green-400'}`} />
+          <span className="text-white text-xs sm:text-sm font-semibold">{promo.code}</span>
+          <span className="text-neutral-400 text-xs">
+            {parseFloat(promo.percentage)}% até {formatAmount(promo.max_bonus)}
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="ml-auto text-neutral-400 hover:text-white"
+            aria-label="Remover código promocional"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {promo.description && <p className="text-neutral-400 text-xs mt-1">{promo.description}</p>}
+        <p className={`text-xs mt-2 ${issue ? 'text-amber-400' : 'text-green-400'}`}>
+          {issue
+            ? `${issue} O depósito será feito sem bônus.`
+            : amount > 0
+              ? `Bônus de ${formatAmount(preview.bonus)} · rollover de ${formatAmount(preview.rollover)} (${parseFloat(promo.rollover_multiplier)}x)`
+              : 'Escolha o valor para ver o bônus.'
+          }
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1 sm:space-y-2">
+      <Label htmlFor="promoCode" className="text-white font-medium">
+        Código promocional
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="promoCode"
+          type="text"
+          placeholder="Opcional"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.toUpperCase());
+            setError('');
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && applyCode()}
+          disabled={disabled || checking}
+          className="bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500 focus:ring-yellow-500/20 text-sm sm:text-base uppercase"
+        />
+        <Button
+          type="button"
+          onClick={applyCode}
+          disabled={!code.trim() || disabled || checking}
+          variant="outline"
+          className="bg-neutral-800 border-neutral-600 text-white hover:bg-neutral-700"
+        >
+          {checking ? 'Verificando...' : 'Aplicar'}
+        </Button>
+      </div>
+      {error && <p className="text-red-400 text-xs sm:text-sm">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Depósito PIX completo: escolha do valor, geração do código, espera pelo
+ * pagamento e estados finais. Usado pelo DepositModal e pela página de depósito.
+ */
+export default function DepositFlow({ onClose, onPaid, amountHeader }: DepositFlowProps) {
+  const { user } = useAuth();
+  const { state, secondsLeft, generate, reset } = useDepositFlow();
+  const [customAmount, setCustomAmount] = useState('');
+  const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
+  const [promo, setPromo] = useState<PromoCode | null>(null);
+
+  useEffect(() => {
+    if (state.step === 'paid') onPaid?.();
+  }, [state.step]);
+
+  const handleQuickAmountSelect = (amount: number) => {
+    setSelectedAmount(amount);
+    setCustomAmount(amount.toString());
+  };
+
+  const handleCustomAmountChange = (value: string) => {
+    const cleanValue = value.replace(/[^0-9.,]/g, '');
+    setCustomAmount(cleanValue);
+    setSelectedAmount(null);
+  };
+
+  const currentAmount = parseDepositAmount(customAmount);
+  const promoIssue = promo ? getPromoCodeIssue(promo, currentAmount, isFirstDeposit(user)) : null;
+  // Código inválido para este depósito não é enviado; o depósito segue sem bônus
+  const promoCode = promo && !promoIssue ? promo.code : undefined;
+
+  if (state.step === 'awaiting' || state.step === 'paid') {
+    const isPaid = state.step === 'paid';
+
+    return (
+      <div>
+        {/* Amount */}
+        <div className="text-center mb-4 sm:mb-6">
+          <p className="text-neutral-400 text-xs sm:text-sm mb-1">Valor do depósito</p>
+          <p className="text-xl sm:text-2xl font-bold text-white">
+            {formatAmount(state.payment.deposit.amount)}
+          </p>
+          {parseFloat(state.payment.deposit.bonus_amount || '0') > 0 && (
+            <p className="text-green-400 text-xs sm:text-sm font-medium mt-1">
+              + {formatAmount(state.payment.deposit.bonus_amount || '0')} de bônus ({state.payment.deposit.promo_code})
+            </p>
+          )}
+        </div>
+
+        {/* Timer */}
+        {!isPaid && (
+          <div className="flex items-center justify-center gap-2 mb-4 sm:mb-6 p-2 sm:p-3 bg-amber-500/10 rounded-lg border border-amber-500/20">
+            <Timer className="w-4 h-4 text-amber-400" />
+            <span className="text-amber-400 text-xs sm:text-sm font-medium">
+              Expira em: {formatCountdown(secondsLeft)}
+            </span>
+          </div>
+        )}
+
+        {!isPaid && <PaymentDetails payment={state.payment} />}
+
+        {/* Status */}
+        <div className={`p-3 sm:p-4 ${isPaid ? 'bg-green-500/10 border-green-500/20' : 'bg-neutral-700/20 border-neutral-400/20'} rounded-lg border`}>
+          <div className="flex items-center gap-2 mb-1 sm:mb-2">
+            <div className={`w-2 h-2 ${isPaid ? 'bg-green-400' : getAppColor()} rounded-full ${isPaid ? '' : 'animate-pulse'}`} />
+            <span className={`${isPaid ? 'text-green-400' : getAppColorText()} text-xs sm:text-sm font-medium`}>
+              {isPaid ? 'Pagamento aprovado!' : 'Aguardando pagamento'}
+            </span>
+          </div>
+          <p className="text-neutral-300 text-xs">
+            {isPaid
+              ? 'Seu saldo foi creditado com sucesso.'
+              : 'O saldo será creditado automaticamente após a confirmação do pagamento'
+            }
+          </p>
+        </div>
+
+        {isPaid && (
+          <div className="flex flex-col sm:flex-row gap-2 mt-4">
+            <Button
+              onClick={reset}
+              variant="outline"
+              className="flex-1 bg-neutral-800 border-neutral-600 text-white hover:bg-neutral-700"
+            >
+              Fazer outro depósito
+            </Button>
+            {onClose && (
+              <Button onClick={onClose} className={`${getAppGradient()} flex-1 text-white font-semibold`}>
+                Fechar
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Código expirado ou recusado depois de gerado: permite gerar outro com o mesmo valor
+  const retryPayment = state.step === 'expired' || state.step === 'failed' ? state.payment : null;
+
+  if (retryPayment) {
+    const isExpired = state.step === 'expired';
+
+    return (
+      <div className="space-y-4">
+        <div className="text-center">
+          <p className="text-neutral-400 text-xs sm:text-sm mb-1">Valor do depósito</p>
+          <p className="text-xl sm:text-2xl font-bold text-white">
+            {formatAmount(retryPayment.deposit.amount)}
+          </p>
+        </div>
+
+        <div className={`p-3 sm:p-4 rounded-lg border ${isExpired ? 'bg-amber-500/10 border-amber-500/20' : 'bg-red-500/10 border-red-500/20'}`}>
+          <div className="flex items-center gap-2 mb-1 sm:mb-2">
+            <AlertCircle className={`w-4 h-4 ${isExpired ? 'text-amber-400' : 'text-red-400'}`} />
+            <span className={`text-xs sm:text-sm font-medium ${isExpired ? 'text-amber-400' : 'text-red-400'}`}>
+              {isExpired ? 'Código PIX expirado' : 'Pagamento não concluído'}
+            </span>
+          </div>
+          <p className="text-neutral-300 text-xs">
+            {isExpired
+              ? 'O prazo para pagamento terminou. Gere um novo código para continuar.'
+              : state.step === 'failed' ? state.error : ''
+            }
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            onClick={() => generate(parseFloat(retryPayment.deposit.amount), retryPayment.deposit.promo_code || undefined)}
+            className={`${getAppGradient()} flex-1 text-white font-semibold`}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Gerar novo código
+          </Button>
+          <Button
+            onClick={reset}
+            variant="outline"
+            className="flex-1 bg-neutral-800 border-neutral-600 text-white hover:bg-neutral-700"
+          >
+            Alterar valor
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isGenerating = state.step === 'generating';
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {amountHeader}
+
+      {state.step === 'failed' && (
+        <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+          <p className="text-red-400 text-xs sm:text-sm">{state.error}</p>
+        </div>
+      )}
+
+      {/* Quick Amounts */}
+      <div>
+        <Label className="text-white font-medium mb-2 sm:mb-3 block">
+          Valores Rápidos
+        </Label>
+        <div className="grid grid-cols-3 gap-2 sm:gap-3">
+          {DEPOSIT_QUICK_AMOUNTS.map((amount) => {
+            const badge = QUICK_AMOUNT_BADGES[amount];
+
+            return (
+              <button
+                key={amount}
+                onClick={() => handleQuickAmountSelect(amount)}
+                disabled={isGenerating}
+                className={`p-2 sm:p-3 rounded-lg border transition-all duration-300 relative ${
+                  selectedAmount === amount
+                    ? `${getAppGradient()} border-neutral-400/30 text-white`
+                    : 'bg-neutral-700 border-neutral-600 text-neutral-300 hover:bg-neutral-600 hover:border-neutral-500'
+                }`}
+              >
+                {badge && (
+                  <div className={`absolute -top-1 -right-1 ${getAppColor()} backdrop-blur-sm text-white text-[7px] sm:text-[10px] px-1 py-0.5 sm:px-1.5 sm:py-0.5 rounded-full font-bold border border-neutral-400/30`}>
+                    {badge}
+                  </div>
+                )}
+                <div className="text-center">
+                  <p className="text-xs sm:text-sm font-semibold">R$ {amount}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Custom Amount */}
+      <div className="space-y-1 sm:space-y-2">
+        <Label htmlFor="customAmount" className="text-white font-medium">
+          Ou digite o valor desejado
+        </Label>
+        <div className="relative">
+          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400 font-medium">
+            R$
+          </span>
+          <Input
+            id="customAmount"
+            type="text"
+            placeholder="0,00"
+            value={customAmount}
+            onChange={(e) => handleCustomAmountChange(e.target.value)}
+            disabled={isGenerating}
+            className="pl-8 sm:pl-10 bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500 focus:ring-yellow-500/20 text-sm sm:text-base"
+          />
+        </div>
+        <p className="text-neutral-500 text-xs sm:text-sm">
+          Valor mínimo: {formatAmount(DEPOSIT_MIN_AMOUNT)}
+        </p>
+      </div>
+
+      <PromoCodeField
+        amount={currentAmount}
+        promo={promo}
+        issue={promoIssue}
+        disabled={isGenerating}
+        onChange={setPromo}
+      />
+
+      {/* Payment Method */}
+      <div className="p-3 sm:p-4 bg-neutral-700/20 rounded-lg border border-neutral-400/20">
+        <div className="flex items-center gap-2 sm:gap-3 mb-1 sm:mb-2">
+          <div className={`w-7 h-7 sm:w-8 sm:h-8 ${getAppColor()} rounded-lg flex items-center justify-center`}>
+            <Smartphone className="w-4 h-4 text-white" />
+          </div>
+          <div>
+            <h3 className="text-white font-semibold text-xs sm:text-sm">PIX</h3>
+            <p className="text-yellow-400 text-[10px] sm:text-xs">Aprovação instantânea</p>
+          </div>
+          <CheckCircle className="w-4 h-4 text-green-400 ml-auto" />
+        </div>
+        <p className="text-neutral-300 text-[10px] sm:text-xs">
+          Pagamento processado automaticamente em até 2 minutos
+        </p>
+      </div>
+
+      {/* Generate Payment Button */}
+      <Button
+        onClick={() => generate(currentAmount, promoCode)}
+        disabled={!customAmount || currentAmount < DEPOSIT_MIN_AMOUNT || isGenerating}
+        className={`${getAppGradient()} w-full text-white font-semibold py-2 sm:py-3 px-4 rounded-lg transition-all duration-300 shadow-lg hover:shadow-xl border border-neutral-400/20 disabled:border-neutral-600/20 text-sm sm:text-base`}
+      >
+        {isGenerating ? (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            Gerando Pagamento...
+          </div>
+        ) : (
+          `Gerar Pagamento PIX - ${formatAmount(currentAmount)}`
+        )}
+      </Button>
+    </div>
+  );
+}
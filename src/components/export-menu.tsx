@@ -0,0 +1,91 @@
+import { Fragment } from 'react';
+import { Download, FileSpreadsheet, FileText, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ExportFormat } from '@/lib/export';
+import type { ExportProgress, ExportScope } from '@/hooks/use-table-export';
+
+interface ExportMenuProps {
+  exporting: ExportFormat | null;
+  progress: ExportProgress | null;
+  // Sem paginação na API, só a visão atual é oferecida
+  canExportAll?: boolean;
+  disabled?: boolean;
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+  onCancel: () => void;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; icon: typeof FileText }> = [
+  { format: 'csv', label: 'CSV', icon: FileText },
+  { format: 'xlsx', label: 'Excel (XLSX)', icon: FileSpreadsheet },
+];
+
+export default function ExportMenu({ exporting, progress, canExportAll = true, disabled, onExport, onCancel }: ExportMenuProps) {
+  if (exporting) {
+    return (
+      <div className="flex items-center gap-2">
+        <Button variant="outline" disabled className="bg-neutral-700 border-neutral-600 text-white">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          {progress
+            ? `Exportando página ${progress.page} de ${Math.max(progress.pages, 1)}`
+            : `Gerando ${exporting.toUpperCase()}...`}
+        </Button>
+        {progress && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCancel}
+            className="text-neutral-400 hover:text-white"
+            title="Cancelar exportação"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const scopes: Array<{ scope: ExportScope; label: string }> = canExportAll
+    ? [{ scope: 'current', label: 'Visão atual' }, { scope: 'all', label: 'Todas as páginas' }]
+    : [{ scope: 'current', label: 'Visão atual' }];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Exportar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 bg-neutral-800 border-neutral-700 text-white">
+        {scopes.map(({ scope, label }, index) => (
+          <Fragment key={scope}>
+            {index > 0 && <DropdownMenuSeparator className="bg-neutral-700" />}
+            <DropdownMenuLabel className="text-neutral-400 text-xs">{label}</DropdownMenuLabel>
+            {FORMATS.map(({ format, label: formatLabel, icon: Icon }) => (
+              <DropdownMenuItem
+                key={format}
+                onClick={() => onExport(format, scope)}
+                className="text-white focus:bg-neutral-700 focus:text-white"
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {formatLabel}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ShieldCheck, RefreshCw, Copy, ChevronDown, ChevronUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { api, getErrorMessage } from '@/lib/api';
+import { getAppColorText } from '@/lib/colors';
+import { generateClientSeed } from '@/lib/provably-fair';
+import type { FairnessSeeds } from '@/lib/types';
+
+interface FairnessPanelProps {
+  token: string | null;
+  // Incrementado pela página após cada rodada para buscar o novo nonce
+  refreshKey: number;
+  disabled?: boolean;
+}
+
+export default function FairnessPanel({ token, refreshKey, disabled = false }: FairnessPanelProps) {
+  const [seeds, setSeeds] = useState<FairnessSeeds | null>(null);
+  const [clientSeed, setClientSeed] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSeeds = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await api.fairness.getSeeds(token);
+      setSeeds(data);
+      setClientSeed(data.client_seed);
+    } catch (error) {
+      console.error('Erro ao buscar seeds:', error);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchSeeds();
+  }, [fetchSeeds, refreshKey]);
+
+  const handleRotate = async () => {
+    if (!token || !clientSeed.trim()) return;
+    setIsSaving(true);
+    try {
+      const data = await api.fairness.rotateSeeds(token, clientSeed.trim());
+      setSeeds(data);
+      setClientSeed(data.client_seed);
+      toast.success('Seeds atualizadas! A server seed anterior foi revelada.');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao trocar as seeds'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('Copiado!');
+    } catch (error) {
+      toast.error('Erro ao copiar');
+    }
+  };
+
+  if (!token) return null;
+
+  return (
+    <div className="bg-neutral-800 rounded-lg border border-neutral-700 mb-6 sm:mb-8">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="flex items-center gap-2 text-white font-semibold text-sm">
+          <ShieldCheck className={`w-4 h-4 ${getAppColorText()}`} />
+          Jogo justo
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-neutral-400" /> : <ChevronDown className="w-4 h-4 text-neutral-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 text-sm">
+          <p className="text-neutral-400 text-xs">
+            O resultado de cada rodada é calculado a partir da server seed, da sua client seed e do nonce.
+            O hash da server seed é exibido antes de você jogar e a seed é revelada quando você troca o par.
+          </p>
+
+          {!seeds ? (
+            <div className="flex justify-center py-4">
+              <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div>
+                <p className="text-neutral-400 text-xs mb-1">Hash da server seed (SHA-256)</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 bg-neutral-700 border border-neutral-600 rounded px-2 py-1.5 text-xs text-white font-mono break-all">
+                    {seeds.server_seed_hash}
+                  </code>
+                  <button type="button" onClick={() => handleCopy(seeds.server_seed_hash)} className="text-neutral-400 hover:text-white">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-2 items-end">
+                <div>
+                  <label htmlFor="clientSeed" className="text-neutral-400 text-xs mb-1 block">Client seed</label>
+                  <div className="flex gap-2">
+                    <input
+                      id="clientSeed"
+                      value={clientSeed}
+                      onChange={(e) => setClientSeed(e.target.value)}
+                      maxLength={64}
+                      disabled={disabled || isSaving}
+                      className="flex-1 bg-neutral-700 border border-neutral-600 rounded px-2 py-1.5 text-xs text-white font-mono focus:outline-none focus:border-neutral-400"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setClientSeed(generateClientSeed())}
+                      disabled={disabled || isSaving}
+                      title="Gerar aleatória"
+                      className="text-neutral-400 hover:text-white disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={handleRotate}
+                  disabled={disabled || isSaving || !clientSeed.trim()}
+                  className="bg-neutral-700 hover:bg-neutral-600 text-white border border-neutral-600"
+                >
+                  {isSaving ? 'Trocando...' : 'Trocar seeds'}
+                </Button>
+              </div>
+
+              <p className="text-neutral-400 text-xs">
+                Próxima rodada usa o nonce <span className="text-white font-mono">{seeds.nonce}</span>
+              </p>
+
+              {seeds.previous && (
+                <div className="bg-neutral-700/50 border border-neutral-600 rounded p-3 space-y-1">
+                  <p className="text-neutral-300 text-xs font-medium">Par anterior (revelado)</p>
+                  <p className="text-neutral-400 text-xs break-all">
+                    Server seed: <span className="text-white font-mono">{seeds.previous.server_seed}</span>
+                  </p>
+                  <p className="text-neutral-400 text-xs break-all">
+                    Client seed: <span className="text-white font-mono">{seeds.previous.client_seed}</span> · Rodadas: {seeds.previous.nonce}
+                  </p>
+                </div>
+              )}
+
+              <Link href="/v1/profile/fairness" className={`inline-block text-xs font-medium ${getAppColorText()} hover:underline`}>
+                Verificar rodadas anteriores
+              </Link>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,19 @@
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
-import { Ticket, HelpCircle, User, Wallet, LogOut, Settings, ChevronDown, RefreshCw, X, CreditCard, Shield, Lock, CheckCircle, AlertCircle, Smartphone, QrCode, Copy, Timer, ArrowLeft, Users } from "lucide-react";
+import { Ticket, HelpCircle, User, Wallet, LogOut, Settings, ChevronDown, RefreshCw, Users } from "lucide-react";
 import { useState, useEffect } from "react";
 import AuthModal from "@/components/auth-modal";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import DepositModal from "@/components/deposit-modal";
 import { getAppColor, getAppColorText } from "@/lib/colors";
-import { apiUrl } from '@/lib/api';
+import { api } from '@/lib/api';
 
 
 export default function Header() {
-    const { user, login, logout, updateUser, token } = useAuth();
-    const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+    const { user, logout, updateUser, token, isAuthModalOpen, openAuthModal, closeAuthModal } = useAuth();
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
     const [isDepositModalOpen, setIsDepositModalOpen] = useState(false);
-    const [customAmount, setCustomAmount] = useState('');
-    const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
-    const [isGeneratingPayment, setIsGeneratingPayment] = useState(false);
-    const [paymentData, setPaymentData] = useState<any>(null);
-    const [showPaymentModal, setShowPaymentModal] = useState(false);
-    
-    const quickAmounts = [10, 25, 50, 100, 200, 500];
 
     // Estado para logo dinâmica
     const [logoUrl, setLogoUrl] = useState<string | null>(null);
@@ -33,13 +23,8 @@ export default function Header() {
         const fetchLogo = async () => {
             setLogoLoading(true);
             try {
-                const response = await fetch(apiUrl('/v1/api/setting'));
-                const data = await response.json();
-                if (response.ok && data.data && data.data[0]?.plataform_logo) {
-                    setLogoUrl(data.data[0].plataform_logo);
-                } else {
-                    setLogoUrl(null);
-                }
+                const setting = await api.settings.get();
+                setLogoUrl(setting.plataform_logo || null);
             } catch (err) {
                 setLogoUrl(null);
             } finally {
@@ -54,34 +39,14 @@ export default function Header() {
         if (!token) return;
         
         try {
-            const response = await fetch(apiUrl('/v1/api/users/profile'), {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'Content-Type': 'application/json',
-                },
-            });
-
-            const data = await response.json();
-
-            if (response.ok && data.success) {
-                // Atualizar o contexto de autenticação com os dados atualizados
-                updateUser(data.data);
-            }
+            const profile = await api.users.getProfile(token);
+            // Atualizar o contexto de autenticação com os dados atualizados
+            updateUser(profile);
         } catch (error) {
             console.error('Erro ao atualizar saldo do usuário:', error);
         }
     };
 
-    // Atualizar saldo periodicamente quando o usuário estiver logado
-    useEffect(() => {
-        if (user && token) {
-            // Atualizar saldo a cada 10 segundos
-            const interval = setInterval(refreshUserBalance, 10000);
-            return () => clearInterval(interval);
-        }
-    }, [user, token]);
-
     // Fechar menu do usuário ao clicar fora
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -104,74 +69,6 @@ export default function Header() {
         window.location.reload();
     };
 
-    const handleAuthSuccess = (userData: any, token: string) => {
-        login(userData, token);
-        setIsAuthModalOpen(false);
-    };
-
-    // Funções para o modal de depósito
-    const handleQuickAmountSelect = (amount: number) => {
-        setSelectedAmount(amount);
-        setCustomAmount(amount.toString());
-    };
-    
-    const handleCustomAmountChange = (value: string) => {
-        const cleanValue = value.replace(/[^0-9.,]/g, '');
-        setCustomAmount(cleanValue);
-        setSelectedAmount(null);
-    };
-
-    const handleGeneratePayment = async () => {
-        const amount = parseFloat(customAmount.replace(',', '.'));
-        
-        if (!amount || amount < 1) {
-            toast.error('Por favor, insira um valor válido (mínimo R$ 1,00)');
-            return;
-        }
-
-        if (!token) {
-            toast.error('Erro de autenticação');
-            return;
-        }
-        
-        setIsGeneratingPayment(true);
-        
-        try {
-            const response = await fetch(apiUrl('/v1/api/deposits/create'), {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    amount: amount,
-                    paymentMethod: 'PIX',
-                    gateway: 'pixup'
-                })
-            });
-
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(data.message || 'Erro ao gerar pagamento');
-            }
-
-            if (data.success) {
-                setPaymentData(data.data);
-                setShowPaymentModal(true);
-                toast.success('Pagamento PIX gerado com sucesso!');
-            }
-        } catch (error: any) {
-            toast.error(error.message || 'Erro ao gerar pagamento PIX');
-            console.error('Erro ao gerar pagamento:', error);
-        } finally {
-            setIsGeneratingPayment(false);
-        }
-    };
-    
-    const getCurrentAmount = () => {
-        return parseFloat(customAmount.replace(',', '.')) || 0;
-    };
     return (
     <div
     className="w-screen border-b bg-neutral-900 border-neutral-800">
@@ -354,13 +251,13 @@ export default function Header() {
                         <Button 
                             variant="ghost" 
                             className="text-neutral-300 hover:text-white hover:bg-neutral-800/50 cursor-pointer"
-                            onClick={() => setIsAuthModalOpen(true)}
+                            onClick={openAuthModal}
                         >
                             Login
                         </Button>
                         <Button 
                             className={`${getAppColor()}  text-white cursor-pointer hover:bg-neutral-800/50`}
-                            onClick={() => setIsAuthModalOpen(true)}
+                            onClick={openAuthModal}
                         >
                             Registrar
                         </Button>
@@ -372,118 +269,14 @@ export default function Header() {
         {/* Auth Modal */}
         <AuthModal 
             isOpen={isAuthModalOpen} 
-            onClose={() => setIsAuthModalOpen(false)}
-            onAuthSuccess={handleAuthSuccess}
+            onClose={closeAuthModal}
         />
 
         {/* Deposit Modal */}
         <DepositModal
           isOpen={isDepositModalOpen}
           onClose={() => setIsDepositModalOpen(false)}
-          token={token}
-          updateUser={updateUser}
         />
-
-        {/* Payment Modal */}
-        {paymentData && (
-            <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-                <div className="bg-neutral-900 rounded-2xl shadow-2xl max-w-md w-full border border-neutral-700">
-                    <div className="p-6">
-                        {/* Header */}
-                        <div className="flex items-center justify-between mb-6">
-                            <h2 className="text-xl font-bold text-white">Pagamento PIX</h2>
-                            <button
-                                onClick={() => {
-                                    setShowPaymentModal(false);
-                                    setPaymentData(null);
-                                    setIsDepositModalOpen(false);
-                                    setCustomAmount('');
-                                    setSelectedAmount(null);
-                                }}
-                                className="text-neutral-400 hover:text-white transition-colors"
-                            >
-                                <X size={20} />
-                            </button>
-                        </div>
-
-                        {/* Amount */}
-                        <div className="text-center mb-6">
-                            <p className="text-neutral-400 text-sm mb-1">Valor do depósito</p>
-                            <p className="text-2xl font-bold text-white">
-                                R$ {parseFloat(paymentData.deposit.amount).toFixed(2).replace('.', ',')}
-                            </p>
-                        </div>
-
-                        {/* PIX Code */}
-                        <div className="mb-6">
-                            <Label className="text-white font-medium mb-3 block">
-                                Código PIX (Copia e Cola)
-                            </Label>
-                            <div className="space-y-3">
-                                <textarea
-                                    value={paymentData.payment.qrCode}
-                                    readOnly
-                                    className="w-full h-20 p-3 bg-neutral-800 border border-neutral-600 rounded-lg text-white text-xs resize-none pointer-events-none select-none"
-                                />
-                                <Button
-                                    onClick={async () => {
-                                        try {
-                                            await navigator.clipboard.writeText(paymentData.payment.qrCode);
-                                            toast.success('Código PIX copiado!');
-                                        } catch (error) {
-                                            toast.error('Erro ao copiar código');
-                                        }
-                                    }}
-                                    className="w-full bg-yellow-500 hover:bg-yellow-600 text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
-                                >
-                                    <Copy className="w-4 h-4" />
-                                    Copiar Código PIX
-                                </Button>
-                            </div>
-                        </div>
-
-                        {/* Instructions */}
-                        <div className="space-y-2 mb-6">
-                            <div className="flex items-start gap-2">
-                                <div className="w-5 h-5 bg-yellow-500 rounded-full flex items-center justify-center text-white text-xs font-bold mt-0.5">
-                                    1
-                                </div>
-                                <p className="text-neutral-300 text-xs">
-                                    Abra o app do seu banco e escolha a opção PIX
-                                </p>
-                            </div>
-                            <div className="flex items-start gap-2">
-                                <div className="w-5 h-5 bg-yellow-500 rounded-full flex items-center justify-center text-white text-xs font-bold mt-0.5">
-                                    2
-                                </div>
-                                <p className="text-neutral-300 text-xs">
-                                    Selecione "Pix Copia e Cola" e cole o código acima
-                                </p>
-                            </div>
-                            <div className="flex items-start gap-2">
-                                <div className="w-5 h-5 bg-yellow-500 rounded-full flex items-center justify-center text-white text-xs font-bold mt-0.5">
-                                    3
-                                </div>
-                                <p className="text-neutral-300 text-xs">
-                                    Confirme o pagamento e aguarde a aprovação
-                                </p>
-                            </div>
-                        </div>
-
-                        {/* Status */}
-                        <div className="p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/20">
-                            <div className="flex items-center gap-2 mb-1">
-                                <div className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse" />
-                                <span className="text-yellow-400 text-xs font-medium">Aguardando pagamento</span>
-                            </div>
-                            <p className="text-neutral-300 text-xs">
-                                O saldo será creditado automaticamente após a confirmação
-                            </p>
-                        </div>
-                    </div>
-                </div>
-            </div>
-        )}
     </div>
     )
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import Image from 'next/image';
+import { AlertTriangle } from 'lucide-react';
+import type { GamePrize, GameResult } from '@/lib/types';
+
+interface MultiPlaySummaryProps {
+  results: GameResult[];
+  // Quantidade de boxes pedida pelo jogador; pode ser maior que results.length
+  requested: number;
+  price: number;
+  // Motivo da interrupção antes de abrir todas as boxes
+  stopReason: string | null;
+  resolveImageUrl: (url: string | null) => string;
+}
+
+interface PrizeCount {
+  prize: GamePrize;
+  count: number;
+}
+
+const formatCurrency = (value: number) =>
+  `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function MultiPlaySummary({ results, requested, price, stopReason, resolveImageUrl }: MultiPlaySummaryProps) {
+  const totalSpent = results.length * price;
+  const totalWon = results.reduce((sum, result) =>
+    result.isWinner && result.prize?.type !== 'PRODUCT' ? sum + (parseFloat(result.amountWon) || 0) : sum, 0);
+  const net = totalWon - totalSpent;
+
+  const prizes = results.reduce<PrizeCount[]>((list, result) => {
+    if (!result.isWinner || !result.prize) return list;
+    const existing = list.find((item) => item.prize.id === result.prize?.id);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      list.push({ prize: result.prize, count: 1 });
+    }
+    return list;
+  }, []);
+
+  return (
+    <div className="space-y-4">
+      {stopReason && (
+        <div className="flex items-start gap-2 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+          <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
+          <p className="text-yellow-400 text-sm">
+            {stopReason} Foram abertas {results.length} de {requested} boxes.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 sm:gap-3">
+        <div className="bg-neutral-800 rounded-lg border border-neutral-600 p-3 text-center">
+          <p className="text-neutral-400 text-xs mb-1">Total gasto</p>
+          <p className="text-white font-semibold text-sm sm:text-base">{formatCurrency(totalSpent)}</p>
+        </div>
+        <div className="bg-neutral-800 rounded-lg border border-neutral-600 p-3 text-center">
+          <p className="text-neutral-400 text-xs mb-1">Total ganho</p>
+          <p className="text-green-400 font-semibold text-sm sm:text-base">{formatCurrency(totalWon)}</p>
+        </div>
+        <div className="bg-neutral-800 rounded-lg border border-neutral-600 p-3 text-center">
+          <p className="text-neutral-400 text-xs mb-1">Resultado</p>
+          <p className={`font-semibold text-sm sm:text-base ${net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {net >= 0 ? '+' : '-'}{formatCurrency(Math.abs(net))}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-white font-semibold text-sm mb-2">Prêmios obtidos</h3>
+        {prizes.length === 0 ? (
+          <p className="text-neutral-400 text-sm">Nenhum prêmio desta vez. Continue tentando!</p>
+        ) : (
+          <div className="space-y-2">
+            {prizes.map(({ prize, count }) => (
+              <div key={prize.id} className="flex items-center gap-3 bg-neutral-800 rounded-lg border border-neutral-600 p-2">
+                <div className="w-10 h-10 relative flex-shrink-0">
+                  <Image
+                    src={resolveImageUrl(prize.image_url) || '/50_money.webp'}
+                    alt={prize.name}
+                    fill
+                    className="object-contain"
+                    onError={(e) => {
+                      const target = e.target as HTMLImageElement;
+                      target.src = '/50_money.webp';
+                    }}
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white text-sm font-medium truncate">
+                    {prize.type === 'PRODUCT' ? prize.product_name || prize.name : prize.name}
+                  </p>
+                  <p className="text-neutral-400 text-xs">
+                    {prize.type === 'PRODUCT' ? 'Produto · disponível no inventário' : formatCurrency(parseFloat(prize.value || '0'))}
+                  </p>
+                </div>
+                <span className="text-yellow-400 font-bold text-sm">{count}x</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { solvePrizeTable, type SolverResult } from '@/lib/prize-solver';
+
+interface PrizeSolverDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prêmios ativos, com o valor pago de cada um
+  prizes: Array<{ name: string; payout: number }>;
+  price: number;
+  targetRtp: number;
+  // Taxa de acerto sugerida ao abrir, em %
+  initialHitRate: number;
+  // Probabilidades na mesma ordem de `prizes`
+  onApply: (probabilities: number[]) => void;
+}
+
+interface BoundsDraft {
+  min: string;
+  max: string;
+}
+
+const DEFAULT_HIT_RATE = 30;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+const inputClassName = 'bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500';
+
+export default function PrizeSolverDialog({
+  open,
+  onOpenChange,
+  prizes,
+  price,
+  targetRtp,
+  initialHitRate,
+  onApply,
+}: PrizeSolverDialogProps) {
+  const [hitRate, setHitRate] = useState('');
+  const [enforceRarity, setEnforceRarity] = useState(true);
+  const [bounds, setBounds] = useState<BoundsDraft[]>([]);
+  const [result, setResult] = useState<SolverResult | null>(null);
+
+  // Cada abertura começa da tabela atual do formulário
+  useEffect(() => {
+    if (!open) return;
+    setHitRate(String(initialHitRate > 0 && initialHitRate <= 100 ? Number(initialHitRate.toFixed(2)) : DEFAULT_HIT_RATE));
+    setBounds(prizes.map(() => ({ min: '', max: '' })));
+    setResult(null);
+  }, [open]);
+
+  const updateBounds = (index: number, field: keyof BoundsDraft, value: string) => {
+    setBounds(bounds.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+    setResult(null);
+  };
+
+  const handleSolve = () => {
+    setResult(solvePrizeTable({
+      price,
+      targetRtp,
+      hitRate: parseFloat(hitRate) || 0,
+      enforceRarity,
+      prizes: prizes.map((prize, index) => ({
+        name: prize.name,
+        payout: prize.payout,
+        minProbability: parseFloat(bounds[index]?.min) || 0,
+        maxProbability: bounds[index]?.max ? parseFloat(bounds[index].max) : 100,
+      })),
+    }));
+  };
+
+  const handleApply = () => {
+    if (!result?.feasible) return;
+    onApply(result.probabilities);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-bold text-white flex items-center gap-2">
+            <Wand2 className="w-5 h-5" />
+            Ajustar probabilidades
+          </DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Calcula as chances de cada prêmio para atingir o RTP alvo de {formatPercentage(targetRtp)} com a
+            raspadinha a {formatCurrency(price)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="solver_hit_rate" className="text-neutral-300">Taxa de acerto (%)</Label>
+            <Input
+              id="solver_hit_rate"
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              value={hitRate}
+              onChange={(e) => {
+                setHitRate(e.target.value);
+                setResult(null);
+              }}
+              className={inputClassName}
+            />
+            <p className="text-neutral-500 text-xs">Chance de ganhar algum prêmio por rodada</p>
+          </div>
+          <div className="flex items-start space-x-2 pt-8">
+            <Switch
+              id="solver_rarity"
+              checked={enforceRarity}
+              onCheckedChange={(checked) => {
+                setEnforceRarity(checked);
+                setResult(null);
+              }}
+            />
+            <Label htmlFor="solver_rarity" className="text-neutral-300 leading-5">
+              Prêmios maiores nunca mais prováveis que os menores
+            </Label>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-neutral-400 text-left border-b border-neutral-700">
+                <th className="py-2 font-medium">Prêmio</th>
+                <th className="py-2 font-medium text-right">Valor pago</th>
+                <th className="py-2 px-2 font-medium w-28">Mín. (%)</th>
+                <th className="py-2 px-2 font-medium w-28">Máx. (%)</th>
+                <th className="py-2 font-medium text-right">Resultado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {prizes.map((prize, index) => (
+                <tr key={index} className="border-b border-neutral-700/50 text-neutral-300">
+                  <td className="py-2">{prize.name || `Prêmio ${index + 1}`}</td>
+                  <td className="py-2 text-right">{formatCurrency(prize.payout)}</td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      max="100"
+                      placeholder="0"
+                      value={bounds[index]?.min ?? ''}
+                      onChange={(e) => updateBounds(index, 'min', e.target.value)}
+                      className={`h-8 ${inputClassName}`}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      max="100"
+                      placeholder="100"
+                      value={bounds[index]?.max ?? ''}
+                      onChange={(e) => updateBounds(index, 'max', e.target.value)}
+                      className={`h-8 ${inputClassName}`}
+                    />
+                  </td>
+                  <td className="py-2 text-right text-white font-medium">
+                    {result?.feasible ? `${result.probabilities[index].toString().replace('.', ',')}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {result && (result.feasible ? (
+          <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+            <p className="text-green-400 text-sm">
+              RTP de {formatPercentage(result.rtp)} com taxa de acerto de {formatPercentage(result.hitRate)}.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 space-y-1">
+            {result.reasons.map((reason) => (
+              <p key={reason} className="text-red-400 text-sm flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                {reason}
+              </p>
+            ))}
+          </div>
+        ))}
+
+        <div className="flex gap-3 pt-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSolve}
+            className="flex-1 bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+          >
+            Calcular
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={!result?.feasible}
+            className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white"
+          >
+            Aplicar probabilidades
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
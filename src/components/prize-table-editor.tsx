@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Gift, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  PRIZE_TYPE_LABELS,
+  RTP_TOLERANCE,
+  createPrizeDraft,
+  getPrizeTableStats,
+  type PrizeDraft,
+  type PrizeType,
+} from '@/lib/prize-table';
+
+interface PrizeTableEditorProps {
+  prizes: PrizeDraft[];
+  onChange: (prizes: PrizeDraft[]) => void;
+  price: number;
+  targetRtp: number;
+  // RTP teórico da tabela salva, para comparar com o da edição
+  savedRtp: number | null;
+  disabled?: boolean;
+  // Ajusta a URL das imagens salvas, como no restante da página
+  getImageUrl?: (url: string | null) => string | null;
+}
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+const getRtpColor = (rtp: number | null, targetRtp: number) => {
+  if (rtp === null) return 'text-neutral-400';
+  if (rtp >= 100) return 'text-red-400';
+  return Math.abs(rtp - targetRtp) <= RTP_TOLERANCE ? 'text-green-400' : 'text-yellow-400';
+};
+
+const inputClassName = 'bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500';
+
+// Miniatura da imagem escolhida no input, ou da imagem salva
+function PrizeImagePreview({ file, url, alt }: { file: File | null; url: string | null; alt: string }) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setObjectUrl(null);
+      return;
+    }
+    const created = URL.createObjectURL(file);
+    setObjectUrl(created);
+    return () => URL.revokeObjectURL(created);
+  }, [file]);
+
+  const src = objectUrl || url;
+  return (
+    <div className="relative w-16 h-16 bg-neutral-700 rounded-lg overflow-hidden flex items-center justify-center shrink-0">
+      {src ? (
+        <Image src={src} alt={alt} fill className="object-cover" unoptimized={Boolean(objectUrl)} />
+      ) : (
+        <Gift className="w-6 h-6 text-neutral-500" />
+      )}
+    </div>
+  );
+}
+
+export default function PrizeTableEditor({
+  prizes,
+  onChange,
+  price,
+  targetRtp,
+  savedRtp,
+  disabled,
+  getImageUrl = (url) => url,
+}: PrizeTableEditorProps) {
+  const stats = getPrizeTableStats(prizes, price);
+
+  const updatePrize = <K extends keyof PrizeDraft>(key: string, field: K, value: PrizeDraft[K]) => {
+    onChange(prizes.map((prize) => (prize.key === key ? { ...prize, [field]: value } : prize)));
+  };
+
+  // Prêmios novos saem da lista; os salvos ficam marcados para exclusão até salvar
+  const removePrize = (prize: PrizeDraft) => {
+    onChange(prize.id ? prizes.map((item) => (item.key === prize.key ? { ...item, removed: true } : item)) : prizes.filter((item) => item.key !== prize.key));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* RTP em tempo real */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-neutral-700/50 border border-neutral-600 rounded-lg p-4">
+        <div>
+          <p className="text-neutral-400 text-xs font-medium">RTP teórico</p>
+          <p className={`text-xl font-bold ${getRtpColor(stats.rtp, targetRtp)}`}>
+            {stats.rtp === null ? '-' : formatPercentage(stats.rtp)}
+          </p>
+          <p className="text-neutral-500 text-xs">
+            Alvo {formatPercentage(targetRtp)}
+            {savedRtp !== null && ` · salvo ${formatPercentage(savedRtp)}`}
+          </p>
+        </div>
+        <div>
+          <p className="text-neutral-400 text-xs font-medium">Probabilidade total</p>
+          <p className={`text-xl font-bold ${stats.totalProbability > 100 ? 'text-red-400' : 'text-white'}`}>
+            {formatPercentage(stats.totalProbability)}
+          </p>
+          <p className="text-neutral-500 text-xs">Sem prêmio: {formatPercentage(stats.lossProbability)}</p>
+        </div>
+        <div>
+          <p className="text-neutral-400 text-xs font-medium">Pagamento esperado</p>
+          <p className="text-xl font-bold text-white">R$ {stats.expectedPayout.toFixed(2).replace('.', ',')}</p>
+          <p className="text-neutral-500 text-xs">por rodada</p>
+        </div>
+        <div>
+          <p className="text-neutral-400 text-xs font-medium">Prêmios ativos</p>
+          <p className="text-xl font-bold text-white">{stats.activePrizes}</p>
+          <p className="text-neutral-500 text-xs">Maior: R$ {stats.maxPayout.toFixed(2).replace('.', ',')}</p>
+        </div>
+      </div>
+
+      {prizes.map((prize, index) => (
+        <div
+          key={prize.key}
+          className={`border rounded-lg p-4 space-y-4 ${
+            prize.removed ? 'border-red-500/30 bg-red-500/5 opacity-60' : 'border-neutral-600 bg-neutral-700/50'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="bg-yellow-500/10 text-yellow-400 border-yellow-500/20">Prêmio {index + 1}</Badge>
+              {!prize.id && <Badge className="bg-blue-500/10 text-blue-400 border-blue-500/20">Novo</Badge>}
+              {prize.removed && <Badge className="bg-red-500/10 text-red-400 border-red-500/20">Será excluído</Badge>}
+            </div>
+            <div className="flex items-center gap-3">
+              {!prize.removed && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`prize_active_${prize.key}`}
+                    checked={prize.is_active}
+                    onCheckedChange={(checked) => updatePrize(prize.key, 'is_active', checked)}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor={`prize_active_${prize.key}`} className="text-neutral-300 text-sm">Ativo</Label>
+                </div>
+              )}
+              {prize.removed ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updatePrize(prize.key, 'removed', false)}
+                  disabled={disabled}
+                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Desfazer
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => removePrize(prize)}
+                  disabled={disabled}
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  title="Excluir prêmio"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {!prize.removed && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-neutral-300">Nome do Prêmio *</Label>
+                  <Input
+                    value={prize.name}
+                    onChange={(e) => updatePrize(prize.key, 'name', e.target.value)}
+                    placeholder="Ex: R$ 100,00"
+                    className={inputClassName}
+                    disabled={disabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-neutral-300">Tipo de Prêmio *</Label>
+                  <Select
+                    value={prize.type}
+                    onValueChange={(value) => updatePrize(prize.key, 'type', value as PrizeType)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      {(Object.keys(PRIZE_TYPE_LABELS) as PrizeType[]).map((type) => (
+                        <SelectItem key={type} value={type} className="text-white hover:bg-neutral-600">
+                          {PRIZE_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-neutral-300">Descrição *</Label>
+                <Input
+                  value={prize.description}
+                  onChange={(e) => updatePrize(prize.key, 'description', e.target.value)}
+                  placeholder="Ex: Prêmio em dinheiro"
+                  className={inputClassName}
+                  disabled={disabled}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {prize.type === 'MONEY' ? (
+                  <div className="space-y-2 md:col-span-2">
+                    <Label className="text-neutral-300">Valor (R$) *</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={prize.value}
+                      onChange={(e) => updatePrize(prize.key, 'value', e.target.value)}
+                      placeholder="100.00"
+                      className={inputClassName}
+                      disabled={disabled}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-neutral-300">Nome do Produto *</Label>
+                      <Input
+                        value={prize.product_name}
+                        onChange={(e) => updatePrize(prize.key, 'product_name', e.target.value)}
+                        placeholder="Ex: iPhone 15 128GB"
+                        className={inputClassName}
+                        disabled={disabled}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-neutral-300">Valor de Resgate (R$) *</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={prize.redemption_value}
+                        onChange={(e) => updatePrize(prize.key, 'redemption_value', e.target.value)}
+                        placeholder="500.00"
+                        className={inputClassName}
+                        disabled={disabled}
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label className="text-neutral-300">Probabilidade (%) *</Label>
+                  <Input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    max="100"
+                    value={prize.probability}
+                    onChange={(e) => updatePrize(prize.key, 'probability', e.target.value)}
+                    placeholder="5.0"
+                    className={inputClassName}
+                    disabled={disabled}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <PrizeImagePreview file={prize.image} url={getImageUrl(prize.image_url)} alt={prize.name} />
+                <div className="space-y-2 flex-1">
+                  <Label className="text-neutral-300">
+                    {prize.id ? 'Substituir imagem' : 'Imagem do Prêmio *'}
+                  </Label>
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => updatePrize(prize.key, 'image', e.target.files?.[0] || null)}
+                    className={inputClassName}
+                    disabled={disabled}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        onClick={() => onChange([...prizes, createPrizeDraft()])}
+        disabled={disabled}
+        className="w-full bg-yellow-600 hover:bg-yellow-700 text-white"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Adicionar Prêmio
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { REASON_MIN_LENGTH } from '@/lib/audit';
+
+interface ReasonFieldProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Campo de motivo usado dentro de modais que já existem (ajuste de saldo, edição, exclusão)
+export function ReasonField({ id = 'reason', value, onChange, disabled }: ReasonFieldProps) {
+  const remaining = REASON_MIN_LENGTH - value.trim().length;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-white font-medium">Motivo</Label>
+      <Textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Descreva o motivo desta ação (fica registrado na auditoria)"
+        className="bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400"
+        disabled={disabled}
+      />
+      {remaining > 0 && (
+        <p className="text-neutral-500 text-xs">Mínimo de {REASON_MIN_LENGTH} caracteres ({remaining} restantes)</p>
+      )}
+    </div>
+  );
+}
+
+export interface ReasonDialogProps {
+  open: boolean;
+  title: string;
+  description?: string;
+  confirmLabel?: string;
+  destructive?: boolean;
+  onConfirm: (reason: string) => void;
+  onCancel: () => void;
+}
+
+// Confirmação de ação privilegiada que pede o motivo antes de prosseguir
+export function ReasonDialog({
+  open,
+  title,
+  description,
+  confirmLabel = 'Confirmar',
+  destructive = false,
+  onConfirm,
+  onCancel,
+}: ReasonDialogProps) {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="bg-neutral-800 border-neutral-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white">{title}</DialogTitle>
+          {description && (
+            <DialogDescription className="text-neutral-400">{description}</DialogDescription>
+          )}
+        </DialogHeader>
+
+        <ReasonField value={reason} onChange={setReason} />
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+          >
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => onConfirm(reason.trim())}
+            disabled={reason.trim().length < REASON_MIN_LENGTH}
+            className={destructive ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-yellow-600 hover:bg-yellow-700 text-white'}
+          >
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState, useCallback } from 'react';
+import Image from 'next/image';
+import {
+  RARITY_COLORS,
+  getPrizeValue,
+  getReelCellWidth,
+  getReelOffset,
+  type RouletteReel,
+} from '@/lib/roulette-reel';
+
+interface RouletteTrackProps {
+  reel: RouletteReel;
+  // Falso enquanto a faixa é desenhada na posição inicial, antes do deslocamento final
+  released: boolean;
+  spinning: boolean;
+  duration: number;
+  // Destaca a casa vencedora depois que a roleta para
+  revealed: boolean;
+  // Versão reduzida usada no modo de várias boxes
+  compact?: boolean;
+  resolveImageUrl: (url: string | null) => string;
+}
+
+export default function RouletteTrack({
+  reel,
+  released,
+  spinning,
+  duration,
+  revealed,
+  compact = false,
+  resolveImageUrl,
+}: RouletteTrackProps) {
+  const [viewportWidth, setViewportWidth] = useState(0);
+
+  // Mede a janela visível para dimensionar as casas e centralizar a parada
+  const measureViewport = useCallback((node: HTMLDivElement | null) => {
+    if (!node) return;
+    setViewportWidth(node.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setViewportWidth(entry.contentRect.width));
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  const cellWidth = getReelCellWidth(viewportWidth, compact ? 3 : undefined);
+  const offset = released ? getReelOffset(reel.stopIndex, cellWidth, viewportWidth, reel.jitter) : 0;
+
+  return (
+    <div className="relative w-full">
+      {/* Pointer */}
+      <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20">
+        <div className={compact
+          ? 'w-0 h-0 border-l-[10px] border-l-transparent border-r-[10px] border-r-transparent border-b-[14px] border-b-yellow-500 drop-shadow-lg'
+          : 'w-0 h-0 border-l-[15px] border-l-transparent border-r-[15px] border-r-transparent border-b-[20px] border-b-yellow-500 drop-shadow-lg'}
+        ></div>
+      </div>
+
+      {/* Roulette Track */}
+      <div
+        ref={measureViewport}
+        className={`relative ${compact ? 'h-16' : 'h-24'} bg-neutral-800 rounded-lg border-2 border-neutral-600 overflow-hidden`}
+      >
+        <div
+          className="absolute top-0 left-0 h-full flex transition-transform ease-out"
+          style={{
+            transform: `translateX(-${offset}px)`,
+            transitionDuration: spinning ? `${duration}ms` : '0ms',
+            transitionTimingFunction: 'cubic-bezier(0.25, 0.46, 0.45, 0.94)'
+          }}
+        >
+          {reel.cells.map((cell) => (
+            <div
+              key={cell.index}
+              style={{ width: cellWidth }}
+              className={`flex-shrink-0 h-full flex flex-col items-center justify-center ${compact ? 'p-1' : 'p-2'} border-r border-neutral-600 bg-gradient-to-br ${cell.prize ? RARITY_COLORS[cell.rarity] : 'from-neutral-700 to-neutral-800'} ${cell.isWinning && revealed ? 'ring-4 ring-inset ring-yellow-400 ring-opacity-75' : ''}`}
+            >
+              {cell.prize ? (
+                <>
+                  <div className={`${compact ? 'w-6 h-6' : 'w-8 h-8'} relative mb-1`}>
+                    <Image
+                      src={resolveImageUrl(cell.prize.image_url) || '/50_money.webp'}
+                      alt={cell.prize.name}
+                      fill
+                      className="object-contain"
+                      onError={(e) => {
+                        const target = e.target as HTMLImageElement;
+                        target.src = '/50_money.webp';
+                      }}
+                    />
+                  </div>
+                  <p className={`text-white ${compact ? 'text-[10px]' : 'text-xs'} font-bold text-center leading-tight`}>
+                    {cell.prize.type === 'MONEY' ? `R$ ${getPrizeValue(cell.prize).toFixed(0)}` : (cell.prize.product_name || cell.prize.name).substring(0, 8)}
+                  </p>
+                </>
+              ) : (
+                <p className={`text-neutral-400 ${compact ? 'text-[10px]' : 'text-xs'} font-semibold text-center leading-tight`}>
+                  Sem prêmio
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, FlaskConical, Loader2, X } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRtpSimulation } from '@/hooks/use-rtp-simulation';
+import {
+  SIMULATION_PLAYER_OPTIONS,
+  SIMULATION_PLAYS_PER_PLAYER_OPTIONS,
+  getSimulationStats,
+  getSimulationWarnings,
+  type SimulationPrize,
+} from '@/lib/rtp-simulation';
+
+interface RtpSimulatorPanelProps {
+  price: number;
+  targetRtp: number;
+  // Prêmios ativos, já com o valor pago de cada um
+  prizes: SimulationPrize[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+const formatCount = (value: number) => Math.round(value).toLocaleString('pt-BR');
+
+const tooltipStyle = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#ffffff',
+};
+
+export default function RtpSimulatorPanel({ price, targetRtp, prizes }: RtpSimulatorPanelProps) {
+  const [players, setPlayers] = useState(1_000);
+  const [playsPerPlayer, setPlaysPerPlayer] = useState(50);
+  const [simulatedKey, setSimulatedKey] = useState('');
+  const { running, progress, result, error, run, cancel } = useRtpSimulation();
+
+  const stats = getSimulationStats(prizes, price);
+  const warnings = getSimulationWarnings(stats, targetRtp, prizes.length);
+  const canSimulate = stats.rtp !== null && stats.totalProbability <= 100;
+  // Identifica a tabela simulada, para avisar quando o resultado ficou desatualizado
+  const inputKey = JSON.stringify({ price, prizes, players, playsPerPlayer });
+
+  const outcomeData = useMemo(
+    () => result?.outcomes.map((bucket) => ({
+      label: formatCurrency(bucket.from),
+      range: `${formatCurrency(bucket.from)} a ${formatCurrency(bucket.to)}`,
+      players: bucket.players,
+      positive: bucket.from + bucket.to > 0,
+    })) ?? [],
+    [result],
+  );
+
+  const handleSimulate = () => {
+    setSimulatedKey(inputKey);
+    run({ price, prizes, players, playsPerPlayer });
+  };
+
+  return (
+    <Card className="bg-neutral-800 border-neutral-700">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-yellow-400" />
+              Simulador de RTP
+            </CardTitle>
+            <CardDescription className="text-neutral-400">
+              Confira o retorno da tabela de prêmios antes de criar a raspadinha
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-neutral-700/50 border border-neutral-600 rounded-lg p-4">
+          <div>
+            <p className="text-neutral-400 text-xs font-medium">RTP teórico</p>
+            <p className="text-xl font-bold text-white">{stats.rtp === null ? '-' : formatPercentage(stats.rtp)}</p>
+            <p className="text-neutral-500 text-xs">Alvo {formatPercentage(targetRtp)}</p>
+          </div>
+          <div>
+            <p className="text-neutral-400 text-xs font-medium">Pagamento esperado</p>
+            <p className="text-xl font-bold text-white">{formatCurrency(stats.expectedPayout)}</p>
+            <p className="text-neutral-500 text-xs">por rodada de {formatCurrency(price)}</p>
+          </div>
+          <div>
+            <p className="text-neutral-400 text-xs font-medium">Margem da casa</p>
+            <p className="text-xl font-bold text-white">{stats.rtp === null ? '-' : formatPercentage(100 - stats.rtp)}</p>
+            <p className="text-neutral-500 text-xs">Chance de prêmio: {formatPercentage(stats.totalProbability)}</p>
+          </div>
+          <div>
+            <p className="text-neutral-400 text-xs font-medium">Maior fatia do RTP</p>
+            <p className="text-xl font-bold text-white">
+              {stats.dominantPrize ? formatPercentage(stats.dominantPrize.share * 100) : '-'}
+            </p>
+            <p className="text-neutral-500 text-xs truncate">{stats.dominantPrize?.name || 'Nenhum prêmio'}</p>
+          </div>
+        </div>
+
+        {warnings.length > 0 ? (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 space-y-1">
+            {warnings.map((warning) => (
+              <p key={warning} className="text-yellow-300 text-sm flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+            <p className="text-green-400 text-sm flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              RTP teórico dentro do alvo
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Jogadores</Label>
+            <Select value={String(players)} onValueChange={(value) => setPlayers(Number(value))} disabled={running}>
+              <SelectTrigger className="w-36 bg-neutral-700 border-neutral-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-700 border-neutral-600">
+                {SIMULATION_PLAYER_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)} className="text-white hover:bg-neutral-600">
+                    {formatCount(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-neutral-300">Rodadas por jogador</Label>
+            <Select value={String(playsPerPlayer)} onValueChange={(value) => setPlaysPerPlayer(Number(value))} disabled={running}>
+              <SelectTrigger className="w-36 bg-neutral-700 border-neutral-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-700 border-neutral-600">
+                {SIMULATION_PLAYS_PER_PLAYER_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)} className="text-white hover:bg-neutral-600">
+                    {formatCount(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {running ? (
+            <Button type="button" variant="outline" onClick={cancel} className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              {formatPercentage(progress * 100)}
+              <X className="w-4 h-4 ml-2" />
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={handleSimulate}
+              disabled={!canSimulate}
+              className="bg-yellow-600 hover:bg-yellow-700 text-white"
+            >
+              Simular {formatCount(players * playsPerPlayer)} rodadas
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-6">
+            {simulatedKey !== inputKey && !running && (
+              <p className="text-neutral-400 text-sm">A tabela mudou desde a última simulação. Simule novamente para atualizar.</p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-neutral-400">RTP simulado</p>
+                <p className="text-white font-medium">{formatPercentage(result.rtp)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Lucro da casa</p>
+                <p className={`font-medium ${result.houseProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatCurrency(result.houseProfit)}
+                </p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Jogadores no lucro</p>
+                <p className="text-white font-medium">{formatPercentage(result.playersInProfit)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Rodadas premiadas</p>
+                <p className="text-white font-medium">{formatPercentage(result.hitRate)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Pior jogador</p>
+                <p className="text-white font-medium">{formatCurrency(result.worstPlayer)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Jogador mediano</p>
+                <p className="text-white font-medium">{formatCurrency(result.medianPlayer)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Melhor jogador</p>
+                <p className="text-white font-medium">{formatCurrency(result.bestPlayer)}</p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Total apostado</p>
+                <p className="text-white font-medium">{formatCurrency(result.totalWagered)}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-white font-medium mb-2">Resultado dos jogadores</h4>
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={outcomeData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="label" stroke="#9ca3af" fontSize={11} />
+                    <YAxis stroke="#9ca3af" fontSize={12} />
+                    <Tooltip
+                      formatter={(value: number) => [formatCount(value), 'Jogadores']}
+                      labelFormatter={(_, payload) => payload?.[0]?.payload?.range ?? ''}
+                      contentStyle={tooltipStyle}
+                    />
+                    <Bar dataKey="players">
+                      {outcomeData.map((bucket) => (
+                        <Cell key={bucket.label} fill={bucket.positive ? '#10b981' : '#ef4444'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div>
+                <h4 className="text-white font-medium mb-2">Lucro acumulado da casa</h4>
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={result.profitCurve}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="plays" stroke="#9ca3af" fontSize={11} tickFormatter={formatCount} />
+                    <YAxis stroke="#9ca3af" fontSize={12} tickFormatter={(value) => formatCurrency(value)} width={90} />
+                    <Tooltip
+                      formatter={(value: number) => [formatCurrency(value), 'Lucro']}
+                      labelFormatter={(value) => `${formatCount(Number(value))} rodadas`}
+                      contentStyle={tooltipStyle}
+                    />
+                    <ReferenceLine y={0} stroke="#6b7280" />
+                    <Line type="monotone" dataKey="profit" stroke="#eab308" dot={false} strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-neutral-400 text-left border-b border-neutral-700">
+                    <th className="py-2 font-medium">Prêmio</th>
+                    <th className="py-2 font-medium text-right">Saídas</th>
+                    <th className="py-2 font-medium text-right">Esperado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.prizeHits.map((prize, index) => (
+                    <tr key={index} className="border-b border-neutral-700/50 text-neutral-300">
+                      <td className="py-2">{prize.name || `Prêmio ${index + 1}`}</td>
+                      <td className="py-2 text-right">{formatCount(prize.hits)}</td>
+                      <td className="py-2 text-right">{formatCount(prize.expectedHits)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,408 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, BarChart3, ChevronLeft, ChevronRight, DollarSign, Loader2, TrendingUp, Trophy, Users } from 'lucide-react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { api, getErrorMessage } from '@/lib/api';
+import { buildDailyPerformance, getPerformanceTotals, getPrizeHitRates } from '@/lib/card-analytics';
+import type { Pagination, ScratchCard, ScratchCardAnalytics, ScratchCardPlayerStats } from '@/lib/types';
+
+interface ScratchCardAnalyticsPanelProps {
+  scratchCard: ScratchCard;
+}
+
+const PERIOD_OPTIONS = [7, 30, 90];
+const PLAYERS_PAGE_SIZE = 10;
+
+const formatCurrency = (value: string | number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(typeof value === 'string' ? parseFloat(value) || 0 : value);
+
+const formatPercentage = (value: number, digits = 2) => `${value.toFixed(digits).replace('.', ',')}%`;
+
+const formatCount = (value: number) => Math.round(value).toLocaleString('pt-BR');
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const tooltipStyle = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#ffffff',
+};
+
+// Tabela de jogadores usada no ranking de ganhadores e na lista completa; o email e o
+// link para o cadastro só aparecem para quem pode ver usuários
+function PlayersTable({ players, showUserDetails }: { players: ScratchCardPlayerStats[]; showUserDetails: boolean }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-neutral-400 text-left border-b border-neutral-700">
+            <th className="px-6 py-3 font-medium">Jogador</th>
+            <th className="px-6 py-3 font-medium text-right">Jogos</th>
+            <th className="px-6 py-3 font-medium text-right">Apostado</th>
+            <th className="px-6 py-3 font-medium text-right">Ganho</th>
+            <th className="px-6 py-3 font-medium text-right">Resultado</th>
+            <th className="px-6 py-3 font-medium text-right">Maior prêmio</th>
+            <th className="px-6 py-3 font-medium">Último jogo</th>
+          </tr>
+        </thead>
+        <tbody>
+          {players.map((player) => {
+            const net = (parseFloat(player.total_won) || 0) - (parseFloat(player.total_bet) || 0);
+            return (
+              <tr key={player.user.id} className="border-b border-neutral-700/50 hover:bg-neutral-700/30">
+                <td className="px-6 py-3">
+                  {showUserDetails ? (
+                    <>
+                      <a href={`/v2/administrator/users/details/${player.user.id}`} className="text-white font-medium hover:underline">
+                        {player.user.username}
+                      </a>
+                      <p className="text-neutral-500 text-xs">{player.user.email}</p>
+                    </>
+                  ) : (
+                    <span className="text-white font-medium">{player.user.username}</span>
+                  )}
+                </td>
+                <td className="px-6 py-3 text-neutral-300 text-right">{formatCount(player.games_played)}</td>
+                <td className="px-6 py-3 text-neutral-300 text-right">{formatCurrency(player.total_bet)}</td>
+                <td className="px-6 py-3 text-neutral-300 text-right">{formatCurrency(player.total_won)}</td>
+                <td className={`px-6 py-3 text-right font-medium ${net > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatCurrency(net)}
+                </td>
+                <td className="px-6 py-3 text-neutral-300 text-right">{formatCurrency(player.biggest_win)}</td>
+                <td className="px-6 py-3 text-neutral-400">{formatDate(player.last_played_at)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ScratchCardAnalyticsPanel({ scratchCard }: ScratchCardAnalyticsPanelProps) {
+  const { token } = useAuth();
+  const { can } = useAdminPermissions();
+  const showUserDetails = can('users:view');
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<ScratchCardAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Incrementado pelo "Tentar novamente" para refazer a consulta
+  const [analyticsAttempt, setAnalyticsAttempt] = useState(0);
+
+  const [players, setPlayers] = useState<ScratchCardPlayerStats[]>([]);
+  const [playersPagination, setPlayersPagination] = useState<Pagination>({ page: 1, limit: PLAYERS_PAGE_SIZE, total: 0, pages: 0 });
+  const [playersLoading, setPlayersLoading] = useState(true);
+  const [playersError, setPlayersError] = useState('');
+  const [playersPage, setPlayersPage] = useState(1);
+  const [playersAttempt, setPlayersAttempt] = useState(0);
+
+  // Respostas de um período ou página anterior são descartadas
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    setLoading(true);
+    setError('');
+    api.admin.scratchCards.getAnalytics(token, scratchCard.id, days)
+      .then((data) => {
+        if (!cancelled) setAnalytics(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err, 'Erro ao carregar o desempenho da raspadinha'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, scratchCard.id, days, analyticsAttempt]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    setPlayersLoading(true);
+    setPlayersError('');
+    api.admin.scratchCards.getPlayers(token, scratchCard.id, { page: playersPage, limit: PLAYERS_PAGE_SIZE, days })
+      .then((data) => {
+        if (cancelled) return;
+        setPlayers(data.players || []);
+        setPlayersPagination(data.pagination);
+      })
+      .catch((err) => {
+        if (!cancelled) setPlayersError(getErrorMessage(err, 'Erro ao carregar os jogadores'));
+      })
+      .finally(() => {
+        if (!cancelled) setPlayersLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, scratchCard.id, days, playersPage, playersAttempt]);
+
+  // Um período novo volta para a primeira página de jogadores
+  const handleDaysChange = (value: string) => {
+    setDays(Number(value));
+    setPlayersPage(1);
+  };
+
+  const daily = useMemo(() => buildDailyPerformance(analytics?.daily || []), [analytics]);
+  const totals = getPerformanceTotals(daily);
+  const hitRates = useMemo(
+    () => getPrizeHitRates(scratchCard.prizes || [], analytics?.prize_hits || [], totals.games),
+    [scratchCard.prizes, analytics, totals.games],
+  );
+
+  const summary = [
+    { title: 'Jogos', value: formatCount(totals.games), icon: BarChart3, color: 'text-blue-400' },
+    { title: 'Receita', value: formatCurrency(totals.revenue), icon: DollarSign, color: 'text-green-400' },
+    { title: 'Prêmios pagos', value: formatCurrency(totals.payouts), icon: Trophy, color: 'text-yellow-400' },
+    {
+      title: 'Lucro',
+      value: formatCurrency(totals.profit),
+      icon: TrendingUp,
+      color: 'text-blue-400',
+      valueColor: totals.profit >= 0 ? 'text-green-400' : 'text-red-400',
+      detail: totals.rtp === null ? undefined : `RTP ${formatPercentage(totals.rtp)}`,
+    },
+    { title: 'Jogadores únicos', value: formatCount(analytics?.unique_players ?? 0), icon: Users, color: 'text-purple-400' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-neutral-400 text-sm">Desempenho da raspadinha no período selecionado</p>
+        <Select value={String(days)} onValueChange={handleDaysChange}>
+          <SelectTrigger className="w-40 bg-neutral-700 border-neutral-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-neutral-700 border-neutral-600">
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)} className="text-white hover:bg-neutral-600">
+                Últimos {option} dias
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+          <Loader2 className="w-8 h-8 text-neutral-400 animate-spin mx-auto mb-4" />
+          <p className="text-neutral-400">Carregando desempenho...</p>
+        </Card>
+      ) : error ? (
+        <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+          <p className="text-red-400 text-sm mb-4">{error}</p>
+          <Button onClick={() => setAnalyticsAttempt((attempt) => attempt + 1)} className="bg-yellow-600 hover:bg-yellow-700">
+            Tentar novamente
+          </Button>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            {summary.map((item) => (
+              <Card key={item.title} className="bg-neutral-800 border-neutral-700 p-4">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-neutral-400 text-xs font-medium">{item.title}</p>
+                    <p className={`text-lg font-bold truncate ${item.valueColor ?? 'text-white'}`}>{item.value}</p>
+                    {item.detail && <p className="text-neutral-500 text-xs">{item.detail}</p>}
+                  </div>
+                  <item.icon className={`w-6 h-6 shrink-0 ${item.color}`} />
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          {daily.length === 0 ? (
+            <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+              <p className="text-neutral-400 text-sm">Nenhum jogo no período</p>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <Card className="bg-neutral-800 border-neutral-700 p-6">
+                <h3 className="text-lg font-semibold text-white mb-4">Jogos por dia</h3>
+                <ResponsiveContainer width="100%" height={280}>
+                  <BarChart data={daily}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} tickFormatter={formatDay} />
+                    <YAxis stroke="#9ca3af" fontSize={12} tickFormatter={formatCount} />
+                    <Tooltip
+                      labelFormatter={(value) => formatDay(String(value))}
+                      formatter={(value: number, name: string) => [formatCount(value), name]}
+                      contentStyle={tooltipStyle}
+                    />
+                    <Legend />
+                    <Bar dataKey="games" fill="#3b82f6" name="Jogos" />
+                    <Bar dataKey="players" fill="#8b5cf6" name="Jogadores" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Card>
+
+              <Card className="bg-neutral-800 border-neutral-700 p-6">
+                <h3 className="text-lg font-semibold text-white mb-4">Receita, prêmios e lucro</h3>
+                <ResponsiveContainer width="100%" height={280}>
+                  <AreaChart data={daily}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} tickFormatter={formatDay} />
+                    <YAxis stroke="#9ca3af" fontSize={12} tickFormatter={(value) => formatCurrency(value)} width={90} />
+                    <Tooltip
+                      labelFormatter={(value) => formatDay(String(value))}
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                      contentStyle={tooltipStyle}
+                    />
+                    <Legend />
+                    <Area type="monotone" dataKey="revenue" name="Receita" stroke="#10b981" fill="#10b981" fillOpacity={0.2} />
+                    <Area type="monotone" dataKey="payouts" name="Prêmios pagos" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.2} />
+                    <Area type="monotone" dataKey="profit" name="Lucro" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.1} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </Card>
+            </div>
+          )}
+
+          {/* Probabilidade configurada x frequência observada */}
+          <Card className="bg-neutral-800 border-neutral-700">
+            <div className="p-6 border-b border-neutral-700">
+              <h3 className="text-lg font-semibold text-white">Saídas por prêmio</h3>
+              <p className="text-neutral-400 text-sm">
+                Frequência observada em {formatCount(totals.games)} jogos comparada à probabilidade configurada hoje
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-neutral-400 text-left border-b border-neutral-700">
+                    <th className="px-6 py-3 font-medium">Prêmio</th>
+                    <th className="px-6 py-3 font-medium text-right">Configurada</th>
+                    <th className="px-6 py-3 font-medium text-right">Observada</th>
+                    <th className="px-6 py-3 font-medium text-right">Saídas</th>
+                    <th className="px-6 py-3 font-medium text-right">Esperado</th>
+                    <th className="px-6 py-3 font-medium text-right">Total pago</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {hitRates.map((row) => (
+                    <tr key={row.prize.id} className="border-b border-neutral-700/50 hover:bg-neutral-700/30">
+                      <td className="px-6 py-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-white font-medium">{row.prize.name}</span>
+                          {!row.prize.is_active && (
+                            <Badge className="bg-neutral-500/10 text-neutral-400 border-neutral-500/20">Inativo</Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3 text-neutral-300 text-right">{formatPercentage(row.configured, 4)}</td>
+                      <td className={`px-6 py-3 text-right font-medium ${row.outsideExpected ? 'text-yellow-400' : 'text-white'}`}>
+                        <span className="inline-flex items-center gap-1">
+                          {row.outsideExpected && (
+                            <span title="Fora da variação esperada (95%)">
+                              <AlertTriangle className="w-3.5 h-3.5" />
+                            </span>
+                          )}
+                          {formatPercentage(row.observed, 4)}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 text-neutral-300 text-right">{formatCount(row.hits)}</td>
+                      <td className="px-6 py-3 text-neutral-400 text-right">{formatCount(row.expectedHits)}</td>
+                      <td className="px-6 py-3 text-neutral-300 text-right">{formatCurrency(row.totalPaid)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          <Card className="bg-neutral-800 border-neutral-700">
+            <div className="p-6 border-b border-neutral-700">
+              <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-yellow-400" />
+                Maiores ganhadores
+              </h3>
+              <p className="text-neutral-400 text-sm">Jogadores com maior resultado líquido no período</p>
+            </div>
+            {analytics && analytics.top_winners.length > 0 ? (
+              <PlayersTable players={analytics.top_winners} showUserDetails={showUserDetails} />
+            ) : (
+              <p className="p-6 text-neutral-400 text-sm text-center">Nenhum ganhador no período</p>
+            )}
+          </Card>
+        </>
+      )}
+
+      <Card className="bg-neutral-800 border-neutral-700">
+        <div className="p-6 border-b border-neutral-700">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Users className="w-5 h-5 text-purple-400" />
+            Jogadores
+          </h3>
+          <p className="text-neutral-400 text-sm">
+            {playersPagination.total > 0
+              ? `${formatCount(playersPagination.total)} jogadores distintos no período, dos que mais jogaram aos que menos jogaram`
+              : 'Jogadores distintos no período'}
+          </p>
+        </div>
+        {playersLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="w-6 h-6 text-neutral-400 animate-spin mx-auto" />
+          </div>
+        ) : playersError ? (
+          <div className="p-8 text-center">
+            <p className="text-red-400 text-sm mb-4">{playersError}</p>
+            <Button onClick={() => setPlayersAttempt((attempt) => attempt + 1)} className="bg-yellow-600 hover:bg-yellow-700">
+              Tentar novamente
+            </Button>
+          </div>
+        ) : players.length === 0 ? (
+          <p className="p-6 text-neutral-400 text-sm text-center">Nenhum jogador no período</p>
+        ) : (
+          <PlayersTable players={players} showUserDetails={showUserDetails} />
+        )}
+        {!playersLoading && !playersError && playersPagination.pages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-neutral-700">
+            <div className="text-sm text-neutral-400">
+              Página {playersPagination.page} de {playersPagination.pages}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPlayersPage(playersPagination.page - 1)}
+                disabled={playersPagination.page <= 1}
+                className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Anterior
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPlayersPage(playersPagination.page + 1)}
+                disabled={playersPagination.page >= playersPagination.pages}
+                className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600 disabled:opacity-50"
+              >
+                Próxima
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
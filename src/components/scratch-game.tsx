@@ -0,0 +1,119 @@
+import Image from "next/image";
+import { useState } from "react";
+import Scratch from "react-scratchcard-v4";
+import { useMeasure } from "react-use";
+import { Button } from "@/components/ui/button";
+import { buildScratchGrid, ScratchGridPrize, ScratchGridResult } from "@/lib/scratch-grid";
+
+interface ScratchGameProps {
+  prizes: ScratchGridPrize[];
+  result: ScratchGridResult;
+  onComplete: () => void;
+  // Percentual raspado a partir do qual o resultado é revelado
+  finishPercent?: number;
+  resolveImageUrl?: (url: string | null) => string;
+}
+
+// Formata o rótulo de cada símbolo da grade
+const getPrizeLabel = (prize: ScratchGridPrize) => {
+  if (prize.type === 'MONEY') {
+    return `R$ ${parseFloat(prize.value || '0').toFixed(0)}`;
+  }
+  return (prize.product_name || prize.name).substring(0, 12);
+};
+
+export default function ScratchGame({
+  prizes,
+  result,
+  onComplete,
+  finishPercent = 70,
+  resolveImageUrl = (url) => url || '',
+}: ScratchGameProps) {
+  const [containerRef, { width }] = useMeasure<HTMLDivElement>();
+  const [revealed, setRevealed] = useState(false);
+
+  // A grade é gerada uma única vez na montagem para não mudar durante a raspagem
+  const [cells] = useState(() => buildScratchGrid(prizes, result));
+  const size = Math.floor(width);
+
+  const handleReveal = () => {
+    if (revealed) return;
+    setRevealed(true);
+    onComplete();
+  };
+
+  return (
+    <div className="w-full max-w-sm sm:max-w-md mx-auto">
+      <div ref={containerRef} className="relative w-full aspect-square rounded-lg overflow-hidden border-2 border-yellow-500/30 bg-neutral-800 select-none">
+        {/* Grade de prêmios */}
+        <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 gap-1.5 p-2">
+          {cells.map((cell) => (
+            <div
+              key={cell.index}
+              className={`flex flex-col items-center justify-center rounded-md border bg-gradient-to-br from-neutral-600 to-neutral-700 p-1 transition-all duration-500 ${
+                revealed && cell.isWinning
+                  ? 'border-yellow-400 ring-2 ring-yellow-400 scale-105'
+                  : 'border-neutral-500'
+              } ${revealed && result.isWinner && !cell.isWinning ? 'opacity-50' : ''}`}
+            >
+              {cell.prize ? (
+                <>
+                  <div className="relative w-3/5 aspect-square">
+                    <Image
+                      src={resolveImageUrl(cell.prize.image_url) || '/50_money.webp'}
+                      alt={cell.prize.name}
+                      fill
+                      className="object-contain"
+                      onError={(e) => {
+                        const target = e.target as HTMLImageElement;
+                        target.src = '/50_money.webp';
+                      }}
+                    />
+                  </div>
+                  <p className="text-white text-[10px] sm:text-xs font-bold text-center leading-tight mt-1 truncate w-full">
+                    {getPrizeLabel(cell.prize)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-neutral-400 text-[10px] sm:text-xs font-semibold text-center">
+                  Sem prêmio
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Camada de raspagem */}
+        {size > 0 && !revealed && (
+          <div className="absolute inset-0 cursor-pointer touch-none">
+            <Scratch
+              key={size}
+              width={size}
+              height={size}
+              image="/raspe_aqui.webp"
+              finishPercent={finishPercent}
+              brushSize={Math.max(20, Math.round(size / 14))}
+              onComplete={handleReveal}
+            />
+          </div>
+        )}
+      </div>
+
+      {!revealed && (
+        <div className="text-center mt-3">
+          <p className="text-neutral-400 text-xs sm:text-sm mb-2">
+            Raspe a cartela e encontre 3 símbolos iguais para ganhar!
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleReveal}
+            className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600 text-xs sm:text-sm"
+          >
+            Revelar tudo
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
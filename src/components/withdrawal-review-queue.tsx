@@ -0,0 +1,326 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Check, X, ChevronDown, ChevronRight, Keyboard, Loader2, ShieldAlert } from 'lucide-react';
+import { WITHDRAWAL_RISK_COLORS, WITHDRAWAL_RISK_LABELS, type WithdrawalRisk } from '@/lib/withdrawal-risk';
+import type { UserSummary, Withdrawal } from '@/lib/types';
+
+type QueueWithdrawal = Withdrawal & { user: UserSummary };
+
+interface WithdrawalReviewQueueProps {
+  withdrawals: QueueWithdrawal[];
+  risks: Record<string, WithdrawalRisk>;
+  riskLoading: boolean;
+  canReview: boolean;
+  processing: boolean;
+  onApprove: (ids: string[]) => void;
+  onReject: (ids: string[]) => void;
+}
+
+const SHORTCUTS: Array<[string, string]> = [
+  ['↑/↓ ou K/J', 'navegar'],
+  ['X ou Espaço', 'selecionar'],
+  ['Shift+X', 'selecionar todos'],
+  ['Enter', 'detalhes'],
+  ['A', 'aprovar'],
+  ['R', 'rejeitar'],
+  ['Esc', 'limpar seleção'],
+];
+
+const formatCurrency = (amount: string, symbol = 'R$') =>
+  `${symbol} ${parseFloat(amount).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Atalhos não disparam enquanto o revisor digita ou com um modal aberto
+const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable;
+};
+
+/**
+ * Fila de saques pendentes ordenada pelo risco, com seleção múltipla e atalhos de teclado.
+ * As ações em lote são executadas pela página, que pede o motivo uma única vez.
+ */
+export default function WithdrawalReviewQueue({
+  withdrawals,
+  risks,
+  riskLoading,
+  canReview,
+  processing,
+  onApprove,
+  onReject,
+}: WithdrawalReviewQueueProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  // Maior risco primeiro; empate pelo pedido mais antigo
+  const queue = useMemo(
+    () => [...withdrawals].sort((a, b) => {
+      const byRisk = (risks[b.id]?.score ?? -1) - (risks[a.id]?.score ?? -1);
+      return byRisk !== 0 ? byRisk : new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    }),
+    [withdrawals, risks]
+  );
+
+  // Descarta da seleção os pedidos que saíram da fila
+  useEffect(() => {
+    setSelected((prev) => {
+      const ids = new Set(queue.map((withdrawal) => withdrawal.id));
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+    setFocusedIndex((prev) => Math.min(prev, Math.max(0, queue.length - 1)));
+  }, [queue]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected((prev) => (prev.size === queue.length ? new Set() : new Set(queue.map((withdrawal) => withdrawal.id))));
+  };
+
+  // Ação sobre a seleção ou, sem seleção, sobre o pedido em foco
+  const getTargetIds = () => {
+    if (selected.size > 0) return [...selected];
+    const focused = queue[focusedIndex];
+    return focused ? [focused.id] : [];
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target) || document.querySelector('[role="dialog"]')) return;
+      if (event.metaKey || event.ctrlKey || event.altKey || queue.length === 0) return;
+      // Espaço e Enter já acionam o botão ou checkbox em foco
+      if ((event.key === ' ' || event.key === 'Enter') && (event.target as HTMLElement | null)?.tagName === 'BUTTON') return;
+
+      const focused = queue[focusedIndex];
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'j':
+          event.preventDefault();
+          setFocusedIndex((prev) => Math.min(prev + 1, queue.length - 1));
+          break;
+        case 'ArrowUp':
+        case 'k':
+          event.preventDefault();
+          setFocusedIndex((prev) => Math.max(prev - 1, 0));
+          break;
+        case ' ':
+        case 'x':
+          event.preventDefault();
+          if (focused) toggleSelected(focused.id);
+          break;
+        case 'X':
+          event.preventDefault();
+          toggleAll();
+          break;
+        case 'Enter':
+          if (focused) setExpandedId((prev) => (prev === focused.id ? null : focused.id));
+          break;
+        case 'Escape':
+          setSelected(new Set());
+          break;
+        case 'a':
+        case 'A':
+          if (canReview && !processing) onApprove(getTargetIds());
+          break;
+        case 'r':
+        case 'R':
+          if (canReview && !processing) onReject(getTargetIds());
+          break;
+        case '?':
+          setShowShortcuts((prev) => !prev);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const selectedTotal = queue
+    .filter((withdrawal) => selected.has(withdrawal.id))
+    .reduce((total, withdrawal) => total + parseFloat(withdrawal.amount), 0);
+
+  return (
+    <Card className="bg-neutral-800 border-neutral-700">
+      <div className="p-6 border-b border-neutral-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-neutral-400" />
+            Fila de revisão
+            {riskLoading && <Loader2 className="w-4 h-4 text-neutral-400 animate-spin" />}
+          </h3>
+          <p className="text-neutral-400 text-sm">
+            {queue.length === 0
+              ? 'Nenhum saque aguardando revisão'
+              : `${queue.length} pendentes, ordenados pelo risco`}
+            {selected.size > 0 && ` · ${selected.size} selecionados (${formatCurrency(selectedTotal.toString())})`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowShortcuts((prev) => !prev)}
+            className="text-neutral-400 hover:text-white hover:bg-neutral-700"
+            title="Atalhos de teclado (?)"
+          >
+            <Keyboard className="w-4 h-4" />
+          </Button>
+          {canReview && (
+            <>
+              <Button
+                size="sm"
+                onClick={() => onApprove([...selected])}
+                disabled={selected.size === 0 || processing}
+                className="bg-green-600 hover:bg-green-700 text-white"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Aprovar selecionados
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => onReject([...selected])}
+                disabled={selected.size === 0 || processing}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Rejeitar selecionados
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {showShortcuts && (
+        <div className="px-6 py-3 border-b border-neutral-700 flex flex-wrap gap-x-6 gap-y-1 text-xs text-neutral-400">
+          {SHORTCUTS.map(([keys, action]) => (
+            <span key={keys}>
+              <kbd className="px-1.5 py-0.5 rounded bg-neutral-700 text-neutral-200 font-mono">{keys}</kbd> {action}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {queue.length > 0 && (
+        <div className="divide-y divide-neutral-700">
+          <div className="px-6 py-2 flex items-center gap-4 text-neutral-400 text-xs">
+            <Checkbox
+              checked={selected.size > 0 && selected.size === queue.length}
+              onCheckedChange={toggleAll}
+              disabled={!canReview}
+            />
+            <span>Selecionar todos</span>
+          </div>
+
+          {queue.map((withdrawal, index) => {
+            const risk = risks[withdrawal.id];
+            const isExpanded = expandedId === withdrawal.id;
+            const isFocused = index === focusedIndex;
+
+            return (
+              <div
+                key={withdrawal.id}
+                onClick={() => setFocusedIndex(index)}
+                className={`px-6 py-3 transition-colors ${isFocused ? 'bg-neutral-700/50 ring-1 ring-inset ring-yellow-500/40' : 'hover:bg-neutral-700/30'}`}
+              >
+                <div className="flex items-center gap-4">
+                  <Checkbox
+                    checked={selected.has(withdrawal.id)}
+                    onCheckedChange={() => toggleSelected(withdrawal.id)}
+                    disabled={!canReview}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : withdrawal.id)}
+                    className="text-neutral-400 hover:text-white"
+                    title="Ver fatores de risco"
+                  >
+                    {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </button>
+                  <div className="w-24">
+                    {risk ? (
+                      <>
+                        <Badge className={WITHDRAWAL_RISK_COLORS[risk.level]}>
+                          {risk.score} · {WITHDRAWAL_RISK_LABELS[risk.level]}
+                        </Badge>
+                        {risk.unverified.length > 0 && (
+                          <p className="text-amber-400 text-[10px] mt-1 leading-tight" title={risk.unverified.join(' · ')}>
+                            {risk.unverified[0]}{risk.unverified.length > 1 && ` +${risk.unverified.length - 1}`}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-neutral-500 text-xs">{riskLoading ? 'Calculando...' : 'Sem dados'}</span>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">
+                      {withdrawal.user.username}
+                      <span className="text-neutral-500 font-normal text-sm"> · {withdrawal.user.email}</span>
+                    </p>
+                    <p className="text-neutral-400 text-xs truncate">
+                      {risk && risk.factors.length > 0
+                        ? risk.factors.map((factor) => factor.label).join(' · ')
+                        : `${withdrawal.pix_type}: ${withdrawal.pix_key}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-green-400 font-medium">{formatCurrency(withdrawal.amount, withdrawal.symbol)}</p>
+                    <p className="text-neutral-500 text-xs">{formatDate(withdrawal.created_at)}</p>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 ml-14 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div className="space-y-1 text-neutral-400">
+                      <p>Chave PIX ({withdrawal.pix_type}): <span className="text-neutral-200 font-mono">{withdrawal.pix_key}</span></p>
+                      <p>Documento: <span className="text-neutral-200 font-mono">{withdrawal.document}</span></p>
+                      <p>ID: <span className="text-neutral-200 font-mono text-xs">{withdrawal.id}</span></p>
+                    </div>
+                    <div className="space-y-1">
+                      {risk && risk.unverified.length > 0 && (
+                        <p className="text-amber-400 text-xs">
+                          Pontuação parcial: {risk.unverified.join(', ')}.
+                        </p>
+                      )}
+                      {!risk ? (
+                        <p className="text-neutral-500">Não foi possível calcular o risco deste pedido.</p>
+                      ) : risk.factors.length === 0 ? (
+                        <p className="text-green-400">Nenhum fator de risco identificado.</p>
+                      ) : (
+                        risk.factors.map((factor) => (
+                          <div key={factor.id} className="flex items-start justify-between gap-3">
+                            <div>
+                              <p className="text-neutral-200">{factor.label}</p>
+                              <p className="text-neutral-500 text-xs">{factor.detail}</p>
+                            </div>
+                            <span className="text-neutral-400 text-xs whitespace-nowrap">+{factor.points}</span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
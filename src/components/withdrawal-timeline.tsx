@@ -0,0 +1,122 @@
+import { Check, Clock, Search, X } from 'lucide-react';
+import { WITHDRAWAL_STATUS_COLORS, WITHDRAWAL_STATUS_LABELS, getWithdrawalStatus } from '@/lib/withdrawal';
+import { PIX_KEY_TYPE_LABELS } from '@/lib/pix-key';
+import type { PixKeyType, Withdrawal } from '@/lib/types';
+
+interface WithdrawalTimelineProps {
+  withdrawals: Withdrawal[];
+  // Quantidade de solicitações exibidas, das mais recentes para as mais antigas
+  limit?: number;
+}
+
+type StepState = 'done' | 'current' | 'upcoming' | 'failed';
+
+interface TimelineStep {
+  label: string;
+  date: string | null;
+  state: StepState;
+}
+
+const STEP_STYLES: Record<StepState, string> = {
+  done: 'bg-green-500 text-white border-green-500',
+  current: 'bg-blue-500/20 text-blue-400 border-blue-500 animate-pulse',
+  upcoming: 'bg-neutral-800 text-neutral-500 border-neutral-600',
+  failed: 'bg-red-500 text-white border-red-500',
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const getSteps = (withdrawal: Withdrawal): TimelineStep[] => {
+  const status = getWithdrawalStatus(withdrawal);
+  const finishedAt = withdrawal.processed_at || withdrawal.reviewed_at || null;
+
+  return [
+    { label: 'Solicitado', date: withdrawal.created_at, state: 'done' },
+    {
+      label: 'Em análise',
+      date: null,
+      state: status === 'PENDING' ? 'upcoming' : status === 'UNDER_REVIEW' ? 'current' : 'done',
+    },
+    status === 'REJECTED'
+      ? { label: 'Rejeitado', date: finishedAt, state: 'failed' }
+      : { label: 'Pago', date: status === 'PAID' ? finishedAt : null, state: status === 'PAID' ? 'done' : 'upcoming' },
+  ];
+};
+
+const StepIcon = ({ state }: { state: StepState }) => {
+  if (state === 'done') return <Check className="w-3 h-3" />;
+  if (state === 'failed') return <X className="w-3 h-3" />;
+  if (state === 'current') return <Search className="w-3 h-3" />;
+  return <Clock className="w-3 h-3" />;
+};
+
+// Acompanhamento das solicitações de saque: solicitado → em análise → pago ou rejeitado
+export default function WithdrawalTimeline({ withdrawals, limit = 5 }: WithdrawalTimelineProps) {
+  const recent = [...withdrawals]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, limit);
+
+  if (recent.length === 0) {
+    return <p className="text-neutral-400 text-sm text-center py-6">Você ainda não solicitou nenhum saque</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {recent.map((withdrawal) => {
+        const status = getWithdrawalStatus(withdrawal);
+        const steps = getSteps(withdrawal);
+
+        return (
+          <div key={withdrawal.id} className="p-4 bg-neutral-700/50 rounded-lg border border-neutral-600">
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <div>
+                <p className="text-white font-semibold">
+                  {withdrawal.symbol || 'R$'} {parseFloat(withdrawal.amount).toFixed(2)}
+                </p>
+                <p className="text-neutral-400 text-xs">
+                  {PIX_KEY_TYPE_LABELS[withdrawal.pix_type as PixKeyType] || withdrawal.pix_type}: {withdrawal.pix_key}
+                </p>
+              </div>
+              <span className={`text-sm font-medium ${WITHDRAWAL_STATUS_COLORS[status]}`}>{WITHDRAWAL_STATUS_LABELS[status]}</span>
+            </div>
+
+            <ol className="grid grid-cols-3 gap-2">
+              {steps.map((step, index) => (
+                <li key={step.label} className="relative flex flex-col items-center text-center">
+                  {index > 0 && (
+                    <span
+                      className={`absolute top-3 right-1/2 w-full h-0.5 ${
+                        step.state === 'upcoming' ? 'bg-neutral-600' : step.state === 'failed' ? 'bg-red-500' : 'bg-green-500'
+                      }`}
+                    />
+                  )}
+                  <span className={`relative z-10 w-6 h-6 rounded-full border-2 flex items-center justify-center ${STEP_STYLES[step.state]}`}>
+                    <StepIcon state={step.state} />
+                  </span>
+                  <span className={`mt-2 text-xs font-medium ${step.state === 'upcoming' ? 'text-neutral-500' : 'text-neutral-200'}`}>
+                    {step.label}
+                  </span>
+                  {step.date && <span className="text-neutral-500 text-[10px]">{formatDate(step.date)}</span>}
+                </li>
+              ))}
+            </ol>
+
+            {status === 'REJECTED' && (
+              <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <p className="text-red-400 text-xs">
+                  <span className="font-semibold">Motivo:</span> {withdrawal.rejection_reason || 'Não informado'}
+                </p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,42 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-interface User {
-  id: string;
-  email: string;
-  phone: string;
-  cpf: string;
-  username: string;
-  full_name: string;
-  is_admin: boolean;
-  total_scratchs: number;
-  total_wins: number;
-  total_losses: number;
-  total_deposit: string;
-  total_withdraw: string;
-  created_at: string;
-  updated_at: string;
-  wallet: {
-    id: string;
-    userId: string;
-    balance: string;
-    currency: string;
-    symbol: string;
-    status: boolean;
-    created_at: string;
-    updated_at: string;
-  }[];
-  inviteCode: {
-    id: string;
-    userId: string;
-    code: string;
-    commission_rate: string;
-    total_invites: number;
-    total_commission: string;
-    is_active: boolean;
-    created_at: string;
-    updated_at: string;
-  };
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useRouter } from 'next/router';
+import { toast } from 'sonner';
+import { setUnauthorizedHandler } from '@/lib/api';
+import { endAdminSession } from '@/lib/admin-session';
+import { getTokenExpiration } from '@/lib/jwt';
+import type { User } from '@/lib/types';
+
+// Antecedência com que o usuário é avisado de que a sessão vai expirar (ms)
+const SESSION_WARNING_BEFORE = 2 * 60 * 1000;
+
+// Maior atraso aceito por setTimeout; tokens mais longos não agendam timers
+const MAX_TIMER_DELAY = 2147483647;
+
+// Página para onde o jogador volta depois de entrar novamente
+const RETURN_TO_KEY = 'auth_return_to';
+
+const ADMIN_PATH = '/v2/administrator';
 
 interface AuthContextType {
   user: User | null;
@@ -45,6 +24,11 @@ interface AuthContextType {
   logout: () => void;
   updateUser: (userData: User) => void;
   isLoading: boolean;
+  expiresAt: number | null;
+  isAuthModalOpen: boolean;
+  openAuthModal: () => void;
+  closeAuthModal: () => void;
+  expireSession: (message?: string) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -62,9 +46,29 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+
+  // Token atual acessível fora do ciclo de renderização (handler de 401, timers)
+  const tokenRef = useRef<string | null>(null);
+
+  const applySession = useCallback((userData: User, authToken: string) => {
+    tokenRef.current = authToken;
+    setUser(userData);
+    setToken(authToken);
+    setExpiresAt(getTokenExpiration(authToken));
+  }, []);
+
+  const resetSession = useCallback(() => {
+    tokenRef.current = null;
+    setUser(null);
+    setToken(null);
+    setExpiresAt(null);
+  }, []);
 
   useEffect(() => {
     // Verificar se há dados de autenticação salvos no localStorage
@@ -72,32 +76,45 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     const savedUser = localStorage.getItem('user');
 
     if (savedToken && savedUser) {
-      try {
-        const userData = JSON.parse(savedUser);
-        setToken(savedToken);
-        setUser(userData);
-      } catch (error) {
-        console.error('Erro ao parsear dados do usuário:', error);
+      const expiration = getTokenExpiration(savedToken);
+
+      if (expiration !== null && expiration <= Date.now()) {
+        // Token vencido enquanto a página estava fechada
         localStorage.removeItem('token');
         localStorage.removeItem('user');
+      } else {
+        try {
+          applySession(JSON.parse(savedUser), savedToken);
+        } catch (error) {
+          console.error('Erro ao parsear dados do usuário:', error);
+          localStorage.removeItem('token');
+          localStorage.removeItem('user');
+        }
       }
     }
-    
+
     setIsLoading(false);
-  }, []);
+  }, [applySession]);
 
   const login = (userData: User, authToken: string) => {
-    setUser(userData);
-    setToken(authToken);
+    applySession(userData, authToken);
     localStorage.setItem('token', authToken);
     localStorage.setItem('user', JSON.stringify(userData));
+    setIsAuthModalOpen(false);
+
+    // Devolver o jogador à página em que estava quando a sessão expirou
+    const returnTo = sessionStorage.getItem(RETURN_TO_KEY);
+    sessionStorage.removeItem(RETURN_TO_KEY);
+    if (returnTo && returnTo !== router.asPath) {
+      router.push(returnTo);
+    }
   };
 
   const logout = () => {
-    setUser(null);
-    setToken(null);
+    resetSession();
     localStorage.removeItem('token');
     localStorage.removeItem('user');
+    endAdminSession();
   };
 
   const updateUser = (userData: User) => {
@@ -105,6 +122,108 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     localStorage.setItem('user', JSON.stringify(userData));
   };
 
+  const openAuthModal = () => {
+    setIsAuthModalOpen(true);
+  };
+
+  const closeAuthModal = () => {
+    setIsAuthModalOpen(false);
+    sessionStorage.removeItem(RETURN_TO_KEY);
+  };
+
+  // Encerra a sessão atual e pede um novo login, lembrando a página atual
+  const expireSession = useCallback((message = 'Sua sessão expirou. Faça login novamente.') => {
+    if (!tokenRef.current) return;
+
+    resetSession();
+    localStorage.removeItem('token');
+    localStorage.removeItem('user');
+    endAdminSession();
+    toast.error(message, { id: 'session-expired' });
+
+    const returnTo = router.asPath;
+    if (router.pathname.startsWith(`${ADMIN_PATH}/`)) {
+      router.push({ pathname: ADMIN_PATH, query: { redirect: returnTo } });
+      return;
+    }
+
+    sessionStorage.setItem(RETURN_TO_KEY, returnTo);
+    setIsAuthModalOpen(true);
+  }, [resetSession, router]);
+
+  // Qualquer 401 de uma requisição feita com o token atual encerra a sessão
+  useEffect(() => {
+    setUnauthorizedHandler((_error, failedToken) => {
+      if (failedToken === tokenRef.current) {
+        expireSession();
+      }
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [expireSession]);
+
+  // Avisar antes da expiração e encerrar a sessão quando o token vencer
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const remaining = expiresAt - Date.now();
+    if (remaining > MAX_TIMER_DELAY) return;
+
+    const showWarning = () => {
+      toast.warning('Sua sessão está prestes a expirar', {
+        id: 'session-expiring',
+        description: 'Entre novamente para continuar jogando sem interrupções.',
+        duration: SESSION_WARNING_BEFORE,
+        action: {
+          label: 'Entrar novamente',
+          onClick: () => expireSession('Entre novamente para renovar sua sessão.'),
+        },
+      });
+    };
+
+    let warningTimer: NodeJS.Timeout | null = null;
+    if (remaining > SESSION_WARNING_BEFORE) {
+      warningTimer = setTimeout(showWarning, remaining - SESSION_WARNING_BEFORE);
+    } else if (remaining > 0) {
+      showWarning();
+    }
+
+    const expiryTimer = setTimeout(() => {
+      toast.dismiss('session-expiring');
+      expireSession();
+    }, Math.max(remaining, 0));
+
+    return () => {
+      if (warningTimer) clearTimeout(warningTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [expiresAt, expireSession]);
+
+  // Manter a sessão sincronizada entre abas do navegador
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage) return;
+      if (event.key !== null && event.key !== 'token' && event.key !== 'user') return;
+
+      const savedToken = localStorage.getItem('token');
+      const savedUser = localStorage.getItem('user');
+
+      if (!savedToken || !savedUser) {
+        resetSession();
+        return;
+      }
+
+      try {
+        applySession(JSON.parse(savedUser), savedToken);
+        setIsAuthModalOpen(false);
+      } catch (error) {
+        console.error('Erro ao sincronizar sessão entre abas:', error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [applySession, resetSession]);
+
   const value: AuthContextType = {
     user,
     token,
@@ -112,6 +231,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     updateUser,
     isLoading,
+    expiresAt,
+    isAuthModalOpen,
+    openAuthModal,
+    closeAuthModal,
+    expireSession,
   };
 
   return (
@@ -121,4 +245,4 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   );
 };
 
-export default AuthContext;
\ No newline at end of file
+export default AuthContext;
@@ -0,0 +1,151 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { api } from '@/lib/api';
+import {
+  REALTIME_POLL_INTERVAL,
+  connectRealtime,
+  type RealtimeEventMap,
+  type RealtimeEventType,
+  type RealtimeStatus,
+} from '@/lib/realtime';
+import type { User } from '@/lib/types';
+
+type RealtimeHandler<T extends RealtimeEventType> = (data: RealtimeEventMap[T]) => void;
+
+interface RealtimeContextType {
+  status: RealtimeStatus;
+  // Registra um ouvinte para um tipo de evento e devolve a função que o remove
+  subscribe: <T extends RealtimeEventType>(type: T, handler: RealtimeHandler<T>) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// Escuta um tipo de evento enquanto o componente estiver montado
+export const useRealtimeEvent = <T extends RealtimeEventType>(type: T, handler: RealtimeHandler<T>) => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribe(type, (data) => handlerRef.current(data)), [subscribe, type]);
+};
+
+const formatAmount = (value: string) => `R$ ${parseFloat(value || '0').toFixed(2).replace('.', ',')}`;
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children }) => {
+  const { user, token, updateUser } = useAuth();
+  const [status, setStatus] = useState<RealtimeStatus>('idle');
+  const listenersRef = useRef(new Map<RealtimeEventType, Set<(data: unknown) => void>>());
+
+  // Valores atuais acessíveis nos handlers do stream, que vivem entre renderizações
+  const userRef = useRef<User | null>(user);
+  userRef.current = user;
+  const updateUserRef = useRef(updateUser);
+  updateUserRef.current = updateUser;
+
+  const subscribe = useCallback(<T extends RealtimeEventType>(type: T, handler: RealtimeHandler<T>) => {
+    const listeners = listenersRef.current.get(type) || new Set();
+    listeners.add(handler as (data: unknown) => void);
+    listenersRef.current.set(type, listeners);
+    return () => {
+      listeners.delete(handler as (data: unknown) => void);
+    };
+  }, []);
+
+  const refreshProfile = useCallback(async (authToken: string) => {
+    try {
+      updateUserRef.current(await api.users.getProfile(authToken));
+    } catch (error) {
+      console.error('Erro ao atualizar saldo do usuário:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+
+    // Efeitos globais de cada evento; páginas e componentes podem ouvir os mesmos eventos
+    const handleEvent = <T extends RealtimeEventType>(type: T, data: RealtimeEventMap[T]) => {
+      switch (type) {
+        case 'balance.changed': {
+          const current = userRef.current;
+          const change = data as RealtimeEventMap['balance.changed'];
+          if (current?.wallet?.[0]) {
+            const [wallet, ...others] = current.wallet;
+            updateUserRef.current({
+              ...current,
+              wallet: [
+                {
+                  ...wallet,
+                  balance: change.balance,
+                  bonus: change.bonus ?? wallet.bonus,
+                  commission: change.commission ?? wallet.commission,
+                },
+                ...others,
+              ],
+            });
+          } else {
+            refreshProfile(token);
+          }
+          break;
+        }
+        case 'withdrawal.processed': {
+          const withdrawal = data as RealtimeEventMap['withdrawal.processed'];
+          if (withdrawal.status === 'APPROVED') {
+            toast.success(`Seu saque de ${formatAmount(withdrawal.amount)} foi aprovado!`);
+          } else {
+            toast.error(`Seu saque de ${formatAmount(withdrawal.amount)} foi recusado.`, {
+              description: withdrawal.reason,
+            });
+          }
+          refreshProfile(token);
+          break;
+        }
+        case 'prize.redemption': {
+          const redemption = data as RealtimeEventMap['prize.redemption'];
+          toast.info(`Resgate de "${redemption.prize_name}" atualizado: ${redemption.status}`);
+          break;
+        }
+        case 'deposit.paid':
+          refreshProfile(token);
+          break;
+      }
+
+      listenersRef.current.get(type)?.forEach((listener) => listener(data));
+    };
+
+    return connectRealtime({ token, onEvent: handleEvent, onStatusChange: setStatus });
+  }, [token, refreshProfile]);
+
+  // Sem o stream, o saldo volta a ser consultado periodicamente
+  useEffect(() => {
+    if (!token || status === 'connected' || status === 'idle') return;
+
+    const interval = setInterval(() => refreshProfile(token), REALTIME_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [token, status, refreshProfile]);
+
+  const value: RealtimeContextType = {
+    status,
+    subscribe,
+  };
+
+  return (
+    <RealtimeContext.Provider value={value}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
+
+export default RealtimeContext;
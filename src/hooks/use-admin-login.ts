@@ -0,0 +1,37 @@
+import { useCallback } from "react"
+import { useRouter } from "next/router"
+import { useAuth } from "@/contexts/AuthContext"
+import { startAdminSession } from "@/lib/admin-session"
+import { getAdminRoles, getDefaultAdminPath } from "@/lib/permissions"
+import { TWO_FACTOR_SETTINGS_PATH } from "@/lib/two-factor"
+import type { AuthSession } from "@/lib/types"
+
+// Etapa final do login do painel, comum ao login por senha e à verificação em duas etapas
+export function useAdminLogin() {
+  const router = useRouter()
+  const { login } = useAuth()
+
+  const completeLogin = useCallback(
+    async (session: AuthSession, redirect = "") => {
+      // Cookie httpOnly lido pelo middleware para liberar as rotas administrativas
+      await startAdminSession(session.token)
+      login(session.user, session.token)
+
+      // Administradores sem 2FA são levados primeiro à tela de ativação
+      if (!session.user.two_factor_enabled) {
+        router.push({ pathname: TWO_FACTOR_SETTINGS_PATH, query: { setup: "1" } })
+        return
+      }
+
+      // Voltar à página em que a sessão expirou ou seguir para a primeira área permitida
+      router.push(
+        redirect.startsWith("/v2/administrator/")
+          ? redirect
+          : getDefaultAdminPath(getAdminRoles(session.user))
+      )
+    },
+    [login, router]
+  )
+
+  return { completeLogin }
+}
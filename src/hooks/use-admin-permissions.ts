@@ -0,0 +1,15 @@
+import { useCallback, useMemo } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { AdminPermission, getAdminRoles, hasPermission } from "@/lib/permissions"
+
+export function useAdminPermissions() {
+  const { user } = useAuth()
+  const roles = useMemo(() => getAdminRoles(user), [user])
+
+  const can = useCallback(
+    (permission: AdminPermission) => hasPermission(roles, permission),
+    [roles]
+  )
+
+  return { roles, can }
+}
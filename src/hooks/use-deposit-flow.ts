@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from "react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { useRealtime, useRealtimeEvent } from "@/contexts/RealtimeContext"
+import { api, getErrorMessage } from "@/lib/api"
+import { trackDepositConfirmed, trackDepositInitiated } from "@/lib/facebook-pixel"
+import { getDepositRoute, isProviderUnavailable } from "@/lib/payment-providers"
+import {
+  DEPOSIT_EXPIRATION_SECONDS,
+  DEPOSIT_GATEWAY,
+  DEPOSIT_MIN_AMOUNT,
+  DEPOSIT_STATUS_POLL_INTERVAL,
+  INITIAL_DEPOSIT_FLOW_STATE,
+  depositFlowReducer,
+  getPaymentId,
+  getStatusEvent,
+  type DepositFlowState,
+} from "@/lib/deposit-flow"
+
+const getSecondsLeft = (expiresAt: number) =>
+  Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000))
+
+// Gateways na ordem de tentativa; sem rota cadastrada, usa o gateway padrão do ambiente
+const loadDepositRoute = async (token: string) => {
+  try {
+    const route = getDepositRoute(await api.paymentProviders.route(token))
+    if (route.length > 0) return route.map((provider) => ({ gateway: provider.kind, providerId: provider.id }))
+  } catch (error) {
+    console.error("Erro ao carregar gateways de pagamento:", error)
+  }
+  return [{ gateway: DEPOSIT_GATEWAY, providerId: undefined }]
+}
+
+const createDeposit = async (token: string, amount: number, promoCode?: string) => {
+  const route = await loadDepositRoute(token)
+  for (let index = 0; ; index++) {
+    try {
+      return await api.deposits.create(token, amount, { ...route[index], promoCode })
+    } catch (error) {
+      // Gateway fora do ar: tenta o próximo da rota
+      if (index === route.length - 1 || !isProviderUnavailable(error)) throw error
+      console.warn(`Gateway ${route[index].gateway} indisponível, tentando o próximo`)
+    }
+  }
+}
+
+// Conduz um depósito PIX do valor até a confirmação, expiração ou falha
+export function useDepositFlow() {
+  const { token, updateUser } = useAuth()
+  const { status: realtimeStatus } = useRealtime()
+  const [state, dispatch] = useReducer(depositFlowReducer, INITIAL_DEPOSIT_FLOW_STATE)
+  const [secondsLeft, setSecondsLeft] = useState(DEPOSIT_EXPIRATION_SECONDS)
+  // Último estado cujos efeitos já rodaram, para rastrear e avisar uma única vez
+  const handledStateRef = useRef<DepositFlowState | null>(null)
+
+  const generate = useCallback(async (amount: number, promoCode?: string) => {
+    if (!amount || amount < DEPOSIT_MIN_AMOUNT) {
+      toast.error(`Por favor, insira um valor válido (mínimo R$ ${DEPOSIT_MIN_AMOUNT.toFixed(2).replace(".", ",")})`)
+      return
+    }
+    if (!token) {
+      toast.error("Erro de autenticação")
+      return
+    }
+
+    dispatch({ type: "GENERATE", amount })
+    try {
+      const payment = await createDeposit(token, amount, promoCode)
+      dispatch({ type: "GENERATED", payment, expiresAt: Date.now() + DEPOSIT_EXPIRATION_SECONDS * 1000 })
+      toast.success("Pagamento PIX gerado com sucesso!")
+      trackDepositInitiated(amount).catch((error) => console.error("Erro ao rastrear depósito iniciado:", error))
+    } catch (error) {
+      const message = getErrorMessage(error, "Erro ao gerar pagamento PIX")
+      dispatch({ type: "FAILED", error: message })
+      toast.error(message)
+    }
+  }, [token])
+
+  const reset = useCallback(() => dispatch({ type: "RESET" }), [])
+
+  // Contagem regressiva até a expiração do código PIX
+  useEffect(() => {
+    if (state.step !== "awaiting") return
+
+    const tick = () => {
+      const left = getSecondsLeft(state.expiresAt)
+      setSecondsLeft(left)
+      if (left === 0) dispatch({ type: "EXPIRED" })
+    }
+
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [state])
+
+  // Confirmação empurrada pelo stream em tempo real
+  useRealtimeEvent("deposit.paid", (data) => {
+    if (state.step !== "awaiting") return
+    const { payment, deposit } = state.payment
+    if (data.deposit_id === deposit?.id || (data.payment_id && data.payment_id === payment?.id)) {
+      dispatch({ type: "PAID" })
+    }
+  })
+
+  // Consulta o status do pagamento enquanto aguarda; com o stream conectado basta a consulta inicial
+  useEffect(() => {
+    if (state.step !== "awaiting" || !token) return
+
+    let cancelled = false
+    const paymentId = getPaymentId(state.payment)
+
+    const checkStatus = async () => {
+      try {
+        const { status } = await api.deposits.getStatus(token, paymentId)
+        const event = getStatusEvent(status)
+        if (event && !cancelled) dispatch(event)
+      } catch (error) {
+        console.error("Erro ao verificar status do pagamento:", error)
+      }
+    }
+
+    checkStatus()
+    const timer = realtimeStatus === "connected" ? null : setInterval(checkStatus, DEPOSIT_STATUS_POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      if (timer) clearInterval(timer)
+    }
+  }, [state, token, realtimeStatus])
+
+  // Efeitos dos estados finais
+  useEffect(() => {
+    if (handledStateRef.current === state) return
+    handledStateRef.current = state
+
+    if (state.step === "paid") {
+      toast.success("Pagamento aprovado! Seu saldo foi creditado com sucesso.")
+      trackDepositConfirmed(parseFloat(state.payment.deposit.amount))
+        .catch((error) => console.error("Erro ao rastrear depósito confirmado:", error))
+
+      if (token) {
+        api.users.getProfile(token)
+          .then(updateUser)
+          .catch((error) => console.error("Erro ao atualizar saldo do usuário:", error))
+      }
+    } else if (state.step === "expired") {
+      toast.error("Tempo para pagamento expirado")
+    }
+  }, [state, token, updateUser])
+
+  return { state, secondsLeft, generate, reset }
+}
@@ -0,0 +1,36 @@
+import { useCallback, useRef, useState } from "react"
+import type { ReasonDialogProps } from "@/components/reason-dialog"
+
+type PromptOptions = Pick<ReasonDialogProps, "title" | "description" | "confirmLabel" | "destructive">
+
+// Abre o ReasonDialog e resolve com o motivo digitado (ou null se cancelado)
+export function useReasonPrompt() {
+  const [options, setOptions] = useState<PromptOptions | null>(null)
+  const resolveRef = useRef<((reason: string | null) => void) | null>(null)
+
+  const promptReason = useCallback((next: PromptOptions) => {
+    resolveRef.current?.(null)
+    setOptions(next)
+    return new Promise<string | null>((resolve) => {
+      resolveRef.current = resolve
+    })
+  }, [])
+
+  const settle = (reason: string | null) => {
+    resolveRef.current?.(reason)
+    resolveRef.current = null
+    setOptions(null)
+  }
+
+  const dialogProps: ReasonDialogProps = {
+    open: options !== null,
+    title: options?.title ?? "",
+    description: options?.description,
+    confirmLabel: options?.confirmLabel,
+    destructive: options?.destructive,
+    onConfirm: (reason) => settle(reason),
+    onCancel: () => settle(null),
+  }
+
+  return { promptReason, dialogProps }
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { useAdminPermissions } from "@/hooks/use-admin-permissions"
+import { api } from "@/lib/api"
+import { DEFAULT_RTP_MONITOR_SETTINGS, RTP_ALERT_POLL_INTERVAL, getRtpAlerts, type RtpAlert } from "@/lib/rtp-monitor"
+
+// Alertas dispensados ficam no navegador; a chave inclui o nível, então um alerta volta se piorar
+const DISMISSED_STORAGE_KEY = "rtp_alerts_dismissed"
+// Alertas já avisados por toast nesta sessão, para não repetir a cada página do painel
+const NOTIFIED_STORAGE_KEY = "rtp_alerts_notified"
+
+const readKeys = (storage: Storage, key: string): string[] => {
+  try {
+    return JSON.parse(storage.getItem(key) || "[]")
+  } catch {
+    return []
+  }
+}
+
+const readDismissed = () => readKeys(localStorage, DISMISSED_STORAGE_KEY)
+
+// Verifica periodicamente o desvio de RTP das raspadinhas e avisa por toast os alertas novos
+export function useRtpAlerts() {
+  const { token } = useAuth()
+  const { can } = useAdminPermissions()
+  const enabled = Boolean(token) && can("scratchcards:view")
+  const [alerts, setAlerts] = useState<RtpAlert[]>([])
+  const [dismissed, setDismissed] = useState<string[]>([])
+
+  const refresh = useCallback(async () => {
+    if (!token) return
+    try {
+      const [cards, settings] = await Promise.all([
+        api.admin.scratchCards.list(token),
+        api.admin.rtpMonitor.getSettings(token).catch(() => DEFAULT_RTP_MONITOR_SETTINGS),
+      ])
+      const next = getRtpAlerts(cards || [], settings)
+      const hidden = readDismissed()
+      const notified = readKeys(sessionStorage, NOTIFIED_STORAGE_KEY)
+      next
+        .filter((alert) => !hidden.includes(alert.key) && !notified.includes(alert.key))
+        .forEach((alert) => {
+          toast.warning(`RTP fora da tolerância: ${alert.cardName}`, { description: alert.message })
+        })
+      sessionStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(next.map((alert) => alert.key)))
+      setAlerts(next)
+      // Descarta dispensas de alertas que já não existem
+      const kept = hidden.filter((key) => next.some((alert) => alert.key === key))
+      localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(kept))
+      setDismissed(kept)
+    } catch (error) {
+      console.error("Erro ao verificar o RTP das raspadinhas:", error)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (!enabled) return
+    refresh()
+    const interval = setInterval(refresh, RTP_ALERT_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [enabled, refresh])
+
+  const dismiss = useCallback((key: string) => {
+    const next = [...readDismissed().filter((item) => item !== key), key]
+    localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(next))
+    setDismissed(next)
+  }, [])
+
+  return {
+    alerts: alerts.filter((alert) => !dismissed.includes(alert.key)),
+    dismiss,
+    refresh,
+  }
+}
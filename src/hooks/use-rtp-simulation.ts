@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { SimulationInput, SimulationMessage, SimulationResult } from "@/lib/rtp-simulation"
+
+// Roda a simulação de RTP em um Web Worker. Cada execução usa um worker novo,
+// encerrado ao terminar, ao cancelar ou ao desmontar o componente.
+export function useRtpSimulation() {
+  const workerRef = useRef<Worker | null>(null)
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<SimulationResult | null>(null)
+  const [error, setError] = useState("")
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setRunning(false)
+  }, [])
+
+  useEffect(() => stop, [stop])
+
+  const run = useCallback((input: SimulationInput) => {
+    stop()
+    setError("")
+    setProgress(0)
+    setRunning(true)
+
+    const worker = new Worker(new URL("../workers/rtp-simulation.worker.ts", import.meta.url))
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<SimulationMessage>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        setProgress(message.done / message.total)
+        return
+      }
+      if (message.type === "result") setResult(message.result)
+      else setError(message.message)
+      stop()
+    }
+    worker.onerror = () => {
+      setError("Erro ao executar a simulação")
+      stop()
+    }
+    worker.postMessage(input)
+  }, [stop])
+
+  const reset = useCallback(() => {
+    stop()
+    setResult(null)
+    setError("")
+  }, [stop])
+
+  return { running, progress, result, error, run, cancel: stop, reset }
+}
@@ -0,0 +1,83 @@
+import { useCallback, useRef, useState } from "react"
+import { toast } from "sonner"
+import { getErrorMessage } from "@/lib/api"
+import { createTableExport, downloadBlob, getFileDateSuffix, type ExportColumn, type ExportFormat } from "@/lib/export"
+import type { Pagination } from "@/lib/types"
+
+// Tamanho das páginas buscadas ao exportar todas as páginas
+export const EXPORT_PAGE_SIZE = 100
+
+export type ExportScope = "current" | "all"
+
+export interface ExportProgress {
+  page: number
+  pages: number
+  rows: number
+}
+
+interface UseTableExportOptions<T> {
+  // Nome base do arquivo, sem data nem extensão
+  filename: string
+  sheetName?: string
+  columns: ExportColumn<T>[]
+  // Linhas exibidas na tela, já com os filtros aplicados
+  rows: T[]
+  // Busca uma página aplicando os mesmos filtros da tela; sem ela, só a visão atual é exportada
+  fetchPage?: (page: number, limit: number) => Promise<{ rows: T[]; pagination: Pagination }>
+}
+
+// Exporta a tabela em CSV ou XLSX. "Todas as páginas" busca uma página por vez e
+// converte as linhas conforme chegam, devolvendo o controle ao navegador entre elas.
+export function useTableExport<T>({ filename, sheetName, columns, rows, fetchPage }: UseTableExportOptions<T>) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+  const [progress, setProgress] = useState<ExportProgress | null>(null)
+  const cancelledRef = useRef(false)
+
+  const exportTable = useCallback(async (format: ExportFormat, scope: ExportScope) => {
+    if (exporting) return
+    cancelledRef.current = false
+    setExporting(format)
+    setProgress(null)
+
+    try {
+      const file = createTableExport(format, columns, sheetName)
+      let total = 0
+
+      if (scope === "all" && fetchPage) {
+        for (let page = 1, pages = 1; page <= pages; page++) {
+          const result = await fetchPage(page, EXPORT_PAGE_SIZE)
+          if (cancelledRef.current) {
+            toast.info("Exportação cancelada")
+            return
+          }
+          pages = result.pagination.pages
+          file.add(result.rows)
+          total += result.rows.length
+          setProgress({ page, pages, rows: total })
+          await new Promise((resolve) => setTimeout(resolve, 0))
+        }
+      } else {
+        file.add(rows)
+        total = rows.length
+      }
+
+      if (total === 0) {
+        toast.error("Nenhum registro para exportar")
+        return
+      }
+      downloadBlob(file.finish(), `${filename}-${getFileDateSuffix()}.${format}`)
+      toast.success(`${total} registro${total === 1 ? "" : "s"} exportado${total === 1 ? "" : "s"}`)
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Erro ao exportar os dados"))
+    } finally {
+      setExporting(null)
+      setProgress(null)
+    }
+  }, [exporting, columns, sheetName, fetchPage, rows, filename])
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true
+  }, [])
+
+  return { exporting, progress, canExportAll: Boolean(fetchPage), exportTable, cancel }
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react"
+import { api } from "@/lib/api"
+import {
+  RISK_ADJUSTMENT_WINDOW_DAYS,
+  getWithdrawalRiskSignals,
+  normalizeWithdrawalKey,
+  scoreWithdrawalRisk,
+  type WithdrawalRisk,
+} from "@/lib/withdrawal-risk"
+import type { AdminUserDetails, BalanceAdjustment, Withdrawal, WithdrawalKeyUsage } from "@/lib/types"
+
+const uniqueKeys = (pending: Withdrawal[], field: "pix_key" | "document") =>
+  [...new Set(pending.map((withdrawal) => normalizeWithdrawalKey(withdrawal[field])).filter(Boolean))]
+
+// Calcula o risco dos pedidos pendentes; recalcula a cada nova lista (`pending` deve vir memoizado)
+export function useWithdrawalRisk(token: string | null, pending: Withdrawal[]) {
+  const [risks, setRisks] = useState<Record<string, WithdrawalRisk>>({})
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!token || pending.length === 0) {
+      setRisks({})
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+
+      // Um pedido por jogador; a fila costuma ter vários saques do mesmo jogador
+      const details = new Map<string, AdminUserDetails>()
+      const userIds = [...new Set(pending.map((withdrawal) => withdrawal.userId))]
+      await Promise.all(userIds.map(async (userId) => {
+        try {
+          details.set(userId, await api.admin.users.get(token, userId))
+        } catch (error) {
+          console.error("Erro ao carregar detalhes do jogador:", error)
+        }
+      }))
+
+      // Sem a consulta, os fatores de chave compartilhada ficam de fora
+      let keyUsage: WithdrawalKeyUsage[] | null = null
+      try {
+        keyUsage = await api.admin.withdrawals.getKeyUsage(token, {
+          pix_keys: uniqueKeys(pending, "pix_key"),
+          documents: uniqueKeys(pending, "document"),
+        })
+      } catch (error) {
+        console.error("Erro ao verificar chaves compartilhadas:", error)
+      }
+
+      // Sem a consulta, o fator de ajustes fica de fora e o pedido é marcado como não verificado
+      let adjustments: BalanceAdjustment[] | null = null
+      try {
+        adjustments = await api.admin.withdrawals.getBalanceAdjustments(token, {
+          user_ids: userIds,
+          from: new Date(Date.now() - RISK_ADJUSTMENT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        })
+      } catch (error) {
+        console.error("Erro ao carregar ajustes de saldo:", error)
+      }
+
+      if (cancelled) return
+
+      const next: Record<string, WithdrawalRisk> = {}
+      pending.forEach((withdrawal) => {
+        const userDetails = details.get(withdrawal.userId)
+        if (userDetails) {
+          next[withdrawal.id] = scoreWithdrawalRisk(getWithdrawalRiskSignals(withdrawal, userDetails, keyUsage, adjustments))
+        }
+      })
+      setRisks(next)
+      setLoading(false)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [token, pending])
+
+  return { risks, loading }
+}
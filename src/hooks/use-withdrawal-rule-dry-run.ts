@@ -0,0 +1,96 @@
+import { useCallback, useRef, useState } from "react"
+import { api, getErrorMessage } from "@/lib/api"
+import { groupAdjustmentDates, type WithdrawalRuleContext } from "@/lib/withdrawal-rules"
+import type { BalanceAdjustment, UserSummary, Withdrawal } from "@/lib/types"
+
+// Saques analisados no simulador
+export const DRY_RUN_WITHDRAWAL_LIMIT = 100
+// Quanto antes do saque mais antigo buscar ajustes de saldo, se a página não informar a maior janela das regras
+const DRY_RUN_ADJUSTMENT_LOOKBACK_HOURS = 7 * 24
+// Consultas simultâneas de cadastro de jogador
+const USER_LOOKUP_CONCURRENCY = 5
+
+export interface DryRunSample {
+  withdrawal: Withdrawal & { user: UserSummary }
+  context: WithdrawalRuleContext
+}
+
+// Executa `task` para cada item com no máximo `limit` chamadas em andamento
+const forEachWithConcurrency = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>) => {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
+
+// Carrega os saques recentes com os dados que as regras avaliam, para o modo de simulação
+export function useWithdrawalRuleDryRun(token: string | null) {
+  const [samples, setSamples] = useState<DryRunSample[] | null>(null)
+  // Saques deixados de fora porque o cadastro do jogador não pôde ser carregado
+  const [skipped, setSkipped] = useState(0)
+  const [adjustmentsAvailable, setAdjustmentsAvailable] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  // A data de criação da conta não muda, então vale entre simulações
+  const createdAtRef = useRef(new Map<string, string>())
+
+  const load = useCallback(async (lookbackHours = DRY_RUN_ADJUSTMENT_LOOKBACK_HOURS) => {
+    if (!token) return
+    setLoading(true)
+    setError("")
+
+    try {
+      const { withdrawals } = await api.admin.withdrawals.list(token, { page: 1, limit: DRY_RUN_WITHDRAWAL_LIMIT })
+
+      // Data de criação da conta de cada jogador
+      const createdAt = createdAtRef.current
+      const missing = [...new Set(withdrawals.map((withdrawal) => withdrawal.userId))].filter((userId) => !createdAt.has(userId))
+      await forEachWithConcurrency(missing, USER_LOOKUP_CONCURRENCY, async (userId) => {
+        try {
+          createdAt.set(userId, (await api.admin.users.get(token, userId)).created_at)
+        } catch (err) {
+          console.error("Erro ao carregar detalhes do jogador:", err)
+        }
+      })
+
+      // Mesma fonte da fila de revisão; sem ela a condição de ajustes não é avaliada
+      let adjustments: BalanceAdjustment[] | null = []
+      if (withdrawals.length > 0) {
+        const oldest = Math.min(...withdrawals.map((withdrawal) => new Date(withdrawal.created_at).getTime()))
+        try {
+          adjustments = await api.admin.withdrawals.getBalanceAdjustments(token, {
+            user_ids: [...new Set(withdrawals.map((withdrawal) => withdrawal.userId))],
+            from: new Date(oldest - lookbackHours * 60 * 60 * 1000).toISOString(),
+          })
+        } catch (err) {
+          console.error("Erro ao carregar ajustes de saldo:", err)
+          adjustments = null
+        }
+      }
+      const adjustmentDates = adjustments ? groupAdjustmentDates(adjustments) : null
+
+      setAdjustmentsAvailable(adjustments !== null)
+      setSkipped(withdrawals.filter((withdrawal) => !createdAt.has(withdrawal.userId)).length)
+      setSamples(withdrawals
+        .filter((withdrawal) => createdAt.has(withdrawal.userId))
+        .map((withdrawal) => ({
+          withdrawal,
+          context: {
+            amount: parseFloat(withdrawal.amount) || 0,
+            accountCreatedAt: createdAt.get(withdrawal.userId) as string,
+            requestedAt: withdrawal.created_at,
+            adjustmentDates: adjustmentDates ? adjustmentDates.get(withdrawal.userId) || [] : null,
+          },
+        })))
+    } catch (err) {
+      setError(getErrorMessage(err, "Erro ao carregar saques para simulação"))
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  return { samples, skipped, adjustmentsAvailable, loading, error, load }
+}
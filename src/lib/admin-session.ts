@@ -0,0 +1,102 @@
+// Sessão administrativa em cookie httpOnly assinado (HMAC-SHA256).
+// Usado pelo middleware (edge) e pela rota /api/admin/session; só depende de Web Crypto.
+
+import type { AdminRole } from '@/lib/types';
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+
+// Duração padrão quando o token da API não informa `exp` (segundos)
+export const ADMIN_SESSION_MAX_AGE = 8 * 60 * 60;
+
+export interface AdminSession {
+  sub: string;
+  exp: number;
+  roles: AdminRole[];
+  // 2FA ativado; sem ele o middleware só libera a tela de ativação
+  two_factor: boolean;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const getSecret = () => process.env.ADMIN_SESSION_SECRET || null;
+
+const getKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+/**
+ * Gera o valor do cookie `payload.assinatura`. Retorna null quando
+ * ADMIN_SESSION_SECRET não está configurado.
+ */
+export const signAdminSession = async (session: AdminSession): Promise<string | null> => {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Valida assinatura e expiração do cookie; qualquer falha resulta em null
+export const verifyAdminSession = async (value: string | undefined): Promise<AdminSession | null> => {
+  const secret = getSecret();
+  if (!secret || !value) return null;
+
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const session: AdminSession = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof session.exp !== 'number' || session.exp * 1000 <= Date.now()) return null;
+    if (!Array.isArray(session.roles)) return null;
+
+    // Cookies anteriores ao campo contam como sem 2FA
+    return { ...session, two_factor: session.two_factor === true };
+  } catch {
+    return null;
+  }
+};
+
+// Chamadas do navegador para abrir/encerrar a sessão administrativa. Abrir de novo
+// com a sessão ativa regrava o cookie, por exemplo depois de ativar o 2FA
+export const startAdminSession = async (token: string) => {
+  const response = await fetch('/api/admin/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(data?.message || 'Erro ao iniciar sessão administrativa');
+  }
+};
+
+export const endAdminSession = async () => {
+  try {
+    await fetch('/api/admin/session', { method: 'DELETE' });
+  } catch (error) {
+    console.error('Erro ao encerrar sessão administrativa:', error);
+  }
+};
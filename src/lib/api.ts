@@ -1,7 +1,476 @@
+import type {
+  AdminRole,
+  AdminStats,
+  AdminUser,
+  AdminUserDetails,
+  AffiliatesData,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuthSession,
+  BalanceAdjustment,
+  Deposit,
+  DepositPayment,
+  DepositStatus,
+  FairnessSeeds,
+  FinancialHistory,
+  Game,
+  License,
+  LoginResult,
+  LicenseUsage,
+  Pagination,
+  PaymentProvider,
+  PaymentProviderInput,
+  PaymentProviderTestResult,
+  PaymentRoute,
+  PendingRedemptions,
+  PixKeyType,
+  PlayResult,
+  PluggouCredentials,
+  PromoCode,
+  PromoCodeInput,
+  RtpHistoryPoint,
+  RtpMonitorSettings,
+  ScratchCard,
+  ScratchCardAnalytics,
+  ScratchCardPlayerStats,
+  Setting,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  UserSummary,
+  Wallet,
+  Withdrawal,
+  WithdrawalAutoApprovalRule,
+  WithdrawalAutoApprovalRuleInput,
+  WithdrawalKeyUsage,
+} from '@/lib/types';
+
 // Configuração da API
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_DOMAIN;
 
+// Tempo máximo de espera por uma resposta da API (ms)
+export const API_TIMEOUT = 15000;
+
 // Função utilitária para construir URLs da API
 export const apiUrl = (endpoint: string): string => {
   return `${API_BASE_URL}${endpoint}`;
-}; 
\ No newline at end of file
+};
+
+// Envelope padrão das respostas da API
+export interface ApiEnvelope<T> {
+  success: boolean;
+  message: string;
+  data: T;
+  pagination?: Pagination;
+  count?: number;
+}
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'invalid_response';
+
+// Erro tipado lançado por todas as chamadas do cliente
+export class ApiError extends Error {
+  readonly status: number;
+  readonly kind: ApiErrorKind;
+  readonly body: unknown;
+
+  constructor(message: string, kind: ApiErrorKind, status = 0, body: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.body = body;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  token?: string | null;
+  body?: unknown;
+  query?: Record<string, QueryValue>;
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+type UnauthorizedHandler = (error: ApiError, token: string) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+/**
+ * Registra quem deve ser avisado quando uma requisição autenticada recebe 401.
+ * O AuthProvider usa isso para encerrar a sessão e pedir um novo login.
+ */
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+  unauthorizedHandler = handler;
+};
+
+const buildQuery = (query?: Record<string, QueryValue>) => {
+  if (!query) return '';
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.append(key, String(value));
+    }
+  });
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+/**
+ * Executa uma requisição à API e devolve o envelope `{ success, message, data }`.
+ * Lança `ApiError` para falhas HTTP, `success: false`, timeout ou erro de rede.
+ */
+export async function apiRequest<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<ApiEnvelope<T>> {
+  const { method = 'GET', token, body, query, timeout = API_TIMEOUT, signal } = options;
+
+  const headers: Record<string, string> = {};
+  const isFormData = typeof FormData !== 'undefined' && body instanceof FormData;
+
+  if (body !== undefined && !isFormData) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const abortFromCaller = () => controller.abort();
+  signal?.addEventListener('abort', abortFromCaller);
+
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(`${endpoint}${buildQuery(query)}`), {
+      method,
+      headers,
+      body: body === undefined ? undefined : isFormData ? (body as FormData) : JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new ApiError('Tempo de resposta do servidor esgotado. Tente novamente.', 'timeout');
+    }
+    throw new ApiError('Erro de conexão com o servidor.', 'network', 0, error);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+
+  let payload: ApiEnvelope<T> | null = null;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = null;
+  }
+
+  if (!response.ok) {
+    const message = payload?.message || (response.status === 401
+      ? 'Sessão inválida ou expirada. Faça login novamente.'
+      : `Erro na requisição: ${response.status}`);
+    const error = new ApiError(message, 'http', response.status, payload);
+    if (error.isUnauthorized && token) {
+      unauthorizedHandler?.(error, token);
+    }
+    throw error;
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new ApiError('Resposta inválida do servidor.', 'invalid_response', response.status);
+  }
+
+  if (payload.success === false) {
+    throw new ApiError(payload.message || 'Erro ao processar a requisição.', 'http', response.status, payload);
+  }
+
+  return payload;
+}
+
+// Atalho para quando somente o campo `data` do envelope interessa
+const request = async <T>(endpoint: string, options?: ApiRequestOptions): Promise<T> => {
+  const payload = await apiRequest<T>(endpoint, options);
+  return payload.data;
+};
+
+// Normaliza a mensagem de qualquer erro capturado em um bloco catch
+export const getErrorMessage = (error: unknown, fallback = 'Ocorreu um erro. Tente novamente.') => {
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+};
+
+export const api = {
+  auth: {
+    login: (identifier: string, password: string) =>
+      request<LoginResult>('/v1/api/auth/login', { method: 'POST', body: { identifier, password } }),
+    // Segundo passo do login de contas com 2FA: código do app ou código de recuperação
+    verifyTwoFactor: (challengeToken: string, body: { code: string } | { recovery_code: string }) =>
+      request<AuthSession>('/v1/api/auth/2fa/verify', { method: 'POST', body: { challenge_token: challengeToken, ...body } }),
+    register: (body: { email: string; cpf: string; password: string; invite_code?: string }) =>
+      request<AuthSession>('/v1/api/auth/register', { method: 'POST', body }),
+  },
+
+  users: {
+    getProfile: (token: string) =>
+      request<User>('/v1/api/users/profile', { token }),
+    getFinancialHistory: (token: string) =>
+      request<FinancialHistory>('/v1/api/users/financial-history', { token }),
+    getGameHistory: (token: string, limit = 10) =>
+      request<Game[]>('/v1/api/users/game-history', { token, query: { limit } }),
+    getGame: (token: string, gameId: string) =>
+      request<Game>(`/v1/api/users/game-history/${gameId}`, { token }),
+    getInvitedUsers: (token: string) =>
+      request<AffiliatesData>('/v1/api/users/invited-users', { token }),
+    withdraw: (token: string, body: { amount: number; pix_key: string; pix_type: PixKeyType; document: string }) =>
+      apiRequest<{ withdraw: Withdrawal; wallet: Wallet }>('/v1/api/users/withdraw', { method: 'POST', token, body }),
+    getPendingRedemptions: (token: string) =>
+      request<PendingRedemptions>('/v1/api/users/redemptions/pending', { token }),
+    chooseRedemption: (token: string, gameId: string, choice: 'money' | 'product') =>
+      request<unknown>('/v1/api/users/redemptions/choose', { method: 'POST', token, body: { gameId, choice } }),
+  },
+
+  scratchCards: {
+    list: () =>
+      request<ScratchCard[]>('/v1/api/scratchcards'),
+    get: (id: string, token?: string | null) =>
+      request<ScratchCard>(`/v1/api/scratchcards/${id}`, { token }),
+    play: (token: string, scratchCardId: string) =>
+      request<PlayResult>('/v1/api/scratchcards/play', { method: 'POST', token, body: { scratchCardId } }),
+  },
+
+  // Seeds do jogo justo; trocar a client seed revela a server seed atual e gera um novo par
+  fairness: {
+    getSeeds: (token: string) =>
+      request<FairnessSeeds>('/v1/api/fairness/seeds', { token }),
+    rotateSeeds: (token: string, clientSeed: string) =>
+      request<FairnessSeeds>('/v1/api/fairness/seeds/rotate', { method: 'POST', token, body: { client_seed: clientSeed } }),
+  },
+
+  deposits: {
+    // `providerId` escolhe um gateway cadastrado; `gateway` é o tipo, aceito também pela API antiga
+    create: (token: string, amount: number, options: { gateway?: string; providerId?: string; promoCode?: string } = {}) =>
+      request<DepositPayment>('/v1/api/deposits/create', {
+        method: 'POST',
+        token,
+        body: {
+          amount,
+          paymentMethod: 'PIX',
+          gateway: options.gateway,
+          provider_id: options.providerId,
+          promo_code: options.promoCode,
+        },
+      }),
+    getStatus: (token: string, paymentId: string) =>
+      request<{ status: DepositStatus | string }>(`/v1/api/deposits/${paymentId}/status`, { token }),
+  },
+
+  // Gateways ativos na ordem em que o depósito deve tentá-los
+  paymentProviders: {
+    route: (token: string) =>
+      request<PaymentRoute[]>('/v1/api/payment-providers/route', { token }),
+  },
+
+  // Consulta um código promocional antes do depósito; a API valida de novo ao criar o depósito
+  promoCodes: {
+    validate: (token: string, code: string) =>
+      request<PromoCode>('/v1/api/promo-codes/validate', { method: 'POST', token, body: { code } }),
+  },
+
+  settings: {
+    get: async (token?: string | null) => {
+      const settings = await request<Setting[]>('/v1/api/setting', { token });
+      return settings[0] || {};
+    },
+    update: (token: string, body: Partial<Setting>) =>
+      request<Setting>('/v1/api/setting/update', { method: 'POST', token, body }),
+    upload: (token: string, formData: FormData) =>
+      request<Setting>('/v1/api/setting/upload', { method: 'POST', token, body: formData }),
+    updateCredentials: (token: string, body: PluggouCredentials, reason: string) =>
+      request<Setting>('/v1/api/setting/credentials', { method: 'PUT', token, body: { ...body, reason } }),
+  },
+
+  license: {
+    getCurrent: (token: string) =>
+      request<License>('/v1/api/license/current', { token }),
+    getUsage: async (token: string, params?: { page: number; limit?: number }) => {
+      const payload = await apiRequest<LicenseUsage[]>('/v1/api/license/usage', {
+        token,
+        query: params && { page: params.page, limit: params.limit ?? 10 },
+      });
+      return { usage: payload.data, pagination: payload.pagination };
+    },
+    addCredits: (token: string, credits: number) =>
+      request<License>('/v1/api/license/credits', { method: 'PATCH', token, body: { credits } }),
+    addEarnings: (token: string, amount: number) =>
+      request<License>('/v1/api/license/earnings', { method: 'PATCH', token, body: { amount } }),
+  },
+
+  admin: {
+    getStats: (token: string) =>
+      request<AdminStats>('/v1/api/admin/stats', { token }),
+
+    twoFactor: {
+      getStatus: (token: string) =>
+        request<TwoFactorStatus>('/v1/api/admin/2fa', { token }),
+      setup: (token: string) =>
+        request<TwoFactorSetup>('/v1/api/admin/2fa/setup', { method: 'POST', token }),
+      enable: (token: string, code: string) =>
+        request<{ recovery_codes: string[] }>('/v1/api/admin/2fa/enable', { method: 'POST', token, body: { code } }),
+      disable: (token: string, code: string) =>
+        request<unknown>('/v1/api/admin/2fa/disable', { method: 'POST', token, body: { code } }),
+      regenerateRecoveryCodes: (token: string, code: string) =>
+        request<{ recovery_codes: string[] }>('/v1/api/admin/2fa/recovery-codes', { method: 'POST', token, body: { code } }),
+    },
+
+    users: {
+      list: (token: string, params: { page: number; limit?: number; search?: string }) =>
+        request<{ users: AdminUser[]; pagination: Pagination }>('/v1/api/admin/users', {
+          token,
+          query: { page: params.page, limit: params.limit ?? 20, search: params.search ?? '' },
+        }),
+      // Somente administradores, sem paginação; alimenta filtros por administrador
+      listAdmins: (token: string) =>
+        request<AdminUser[]>('/v1/api/admin/users/admins', { token }),
+      get: (token: string, userId: string) =>
+        request<AdminUserDetails>(`/v1/api/admin/users/${userId}`, { token }),
+      // O saldo não é editável aqui; alterações de saldo passam por `adjustBalance`
+      update: (token: string, userId: string, body: { username: string; email: string; is_active: boolean }, reason: string) =>
+        request<AdminUser>(`/v1/api/admin/users/${userId}`, { method: 'PUT', token, body: { ...body, reason } }),
+      toggleStatus: (token: string, userId: string, reason: string) =>
+        request<AdminUser>(`/v1/api/admin/users/${userId}/toggle-status`, { method: 'PATCH', token, body: { reason } }),
+      adjustBalance: (token: string, userId: string, amount: number, reason: string) =>
+        request<unknown>('/v1/api/admin/users/adjust-balance', { method: 'POST', token, body: { userId, amount, reason } }),
+      updateRoles: (token: string, userId: string, roles: AdminRole[], reason: string) =>
+        request<AdminUser>(`/v1/api/admin/users/${userId}/roles`, { method: 'PUT', token, body: { roles, reason } }),
+    },
+
+    affiliates: {
+      getInvitedUsers: (token: string, userId: string) =>
+        request<any[]>(`/v1/api/admin/affiliates/${userId}/invited-users`, { token }),
+      editCommission: (token: string, userId: string, commissionRate: number, reason: string) =>
+        request<unknown>('/v1/api/admin/affiliates/edit-commission', {
+          method: 'POST',
+          token,
+          body: { userId, commission_rate: commissionRate, reason },
+        }),
+      toggleInfluencer: (token: string, userId: string, isInfluencer: boolean, reason: string) =>
+        request<unknown>('/v1/api/admin/affiliates/toggle-influencer', { method: 'POST', token, body: { userId, isInfluencer, reason } }),
+    },
+
+    deposits: {
+      list: (token: string, params: { page: number; limit?: number }) =>
+        request<{ deposits: Array<Deposit & { user: UserSummary }>; pagination: Pagination }>('/v1/api/admin/deposits', {
+          token,
+          query: { page: params.page, limit: params.limit ?? 20 },
+        }),
+    },
+
+    withdrawals: {
+      list: (token: string, params: { page: number; limit?: number }) =>
+        request<{ withdrawals: Array<Withdrawal & { user: UserSummary }>; pagination: Pagination }>('/v1/api/admin/withdrawals', {
+          token,
+          query: { page: params.page, limit: params.limit ?? 20 },
+        }),
+      approve: (token: string, withdrawalId: string, reason: string) =>
+        request<Withdrawal>(`/v1/api/admin/withdrawals/${withdrawalId}/approve`, { method: 'PATCH', token, body: { reason } }),
+      reject: (token: string, withdrawalId: string, reason: string) =>
+        request<Withdrawal>(`/v1/api/admin/withdrawals/${withdrawalId}/reject`, { method: 'POST', token, body: { reason } }),
+      // Quem mais usou as chaves PIX e documentos informados, em qualquer saque
+      getKeyUsage: (token: string, body: { pix_keys: string[]; documents: string[] }) =>
+        request<WithdrawalKeyUsage[]>('/v1/api/admin/withdrawals/key-usage', { method: 'POST', token, body }),
+      // Todos os ajustes de saldo dos jogadores desde `from`, sem paginação; não exige acesso à auditoria
+      getBalanceAdjustments: (token: string, body: { user_ids: string[]; from: string }) =>
+        request<BalanceAdjustment[]>('/v1/api/admin/withdrawals/balance-adjustments', { method: 'POST', token, body }),
+    },
+
+    promoCodes: {
+      list: (token: string) =>
+        request<PromoCode[]>('/v1/api/admin/promo-codes', { token }),
+      create: (token: string, body: PromoCodeInput, reason: string) =>
+        request<PromoCode>('/v1/api/admin/promo-codes', { method: 'POST', token, body: { ...body, reason } }),
+      update: (token: string, id: string, body: Partial<PromoCodeInput>, reason: string) =>
+        request<PromoCode>(`/v1/api/admin/promo-codes/${id}`, { method: 'PUT', token, body: { ...body, reason } }),
+      remove: (token: string, id: string, reason: string) =>
+        request<unknown>(`/v1/api/admin/promo-codes/${id}`, { method: 'DELETE', token, body: { reason } }),
+    },
+
+    paymentProviders: {
+      list: (token: string) =>
+        request<PaymentProvider[]>('/v1/api/admin/payment-providers', { token }),
+      create: (token: string, body: PaymentProviderInput, reason: string) =>
+        request<PaymentProvider>('/v1/api/admin/payment-providers', { method: 'POST', token, body: { ...body, reason } }),
+      update: (token: string, id: string, body: Partial<PaymentProviderInput>, reason: string) =>
+        request<PaymentProvider>(`/v1/api/admin/payment-providers/${id}`, { method: 'PUT', token, body: { ...body, reason } }),
+      remove: (token: string, id: string, reason: string) =>
+        request<unknown>(`/v1/api/admin/payment-providers/${id}`, { method: 'DELETE', token, body: { reason } }),
+      // Testa a conexão com as credenciais informadas; com `id`, segredos omitidos vêm do gateway salvo
+      test: (token: string, body: { id?: string; kind: PaymentProviderInput['kind']; credentials: Record<string, string> }) =>
+        request<PaymentProviderTestResult>('/v1/api/admin/payment-providers/test', { method: 'POST', token, body }),
+    },
+
+    // Regras de aprovação automática; a API registra cada aprovação com a regra aplicada
+    withdrawalRules: {
+      list: (token: string) =>
+        request<WithdrawalAutoApprovalRule[]>('/v1/api/admin/withdrawal-rules', { token }),
+      create: (token: string, body: WithdrawalAutoApprovalRuleInput, reason: string) =>
+        request<WithdrawalAutoApprovalRule>('/v1/api/admin/withdrawal-rules', { method: 'POST', token, body: { ...body, reason } }),
+      update: (token: string, id: string, body: Partial<WithdrawalAutoApprovalRuleInput>, reason: string) =>
+        request<WithdrawalAutoApprovalRule>(`/v1/api/admin/withdrawal-rules/${id}`, { method: 'PUT', token, body: { ...body, reason } }),
+      remove: (token: string, id: string, reason: string) =>
+        request<unknown>(`/v1/api/admin/withdrawal-rules/${id}`, { method: 'DELETE', token, body: { reason } }),
+    },
+
+    scratchCards: {
+      list: (token: string, includeInactive = false) =>
+        request<ScratchCard[]>('/v1/api/scratchcards/admin/all', { token, query: { includeInactive } }),
+      create: (token: string, formData: FormData) =>
+        request<ScratchCard>('/v1/api/scratchcards/admin/create', { method: 'POST', token, body: formData }),
+      update: (
+        token: string,
+        id: string,
+        body: Partial<Omit<ScratchCard, 'price' | 'target_rtp'>> & { price?: number; target_rtp?: number },
+        reason: string
+      ) =>
+        request<ScratchCard>(`/v1/api/scratchcards/admin/${id}`, { method: 'PUT', token, body: { ...body, reason } }),
+      // Substitui a tabela de prêmios de uma vez (ver buildPrizesFormData); a API aplica tudo ou nada
+      updatePrizes: (token: string, id: string, formData: FormData, reason: string) => {
+        formData.append('reason', reason);
+        return request<ScratchCard>(`/v1/api/scratchcards/admin/${id}/prizes`, { method: 'PUT', token, body: formData });
+      },
+      remove: (token: string, id: string, reason: string) =>
+        request<unknown>(`/v1/api/scratchcards/admin/${id}`, { method: 'DELETE', token, body: { reason } }),
+      toggleFeatured: (token: string, scratchCardId: string, isFeatured: boolean, reason: string) =>
+        request<unknown>('/v1/api/admin/scratchcards/toggle-featured', { method: 'POST', token, body: { scratchCardId, isFeatured, reason } }),
+      // Um ponto por dia, do mais antigo ao mais recente
+      getRtpHistory: (token: string, id: string, days = 30) =>
+        request<RtpHistoryPoint[]>(`/v1/api/scratchcards/admin/${id}/rtp-history`, { token, query: { days } }),
+      getAnalytics: (token: string, id: string, days = 30) =>
+        request<ScratchCardAnalytics>(`/v1/api/scratchcards/admin/${id}/analytics`, { token, query: { days } }),
+      // Jogadores distintos da raspadinha, dos que mais jogaram para os que menos jogaram
+      getPlayers: (token: string, id: string, params: { page: number; limit?: number; days?: number }) =>
+        request<{ players: ScratchCardPlayerStats[]; pagination: Pagination }>(`/v1/api/scratchcards/admin/${id}/players`, {
+          token,
+          query: { ...params, limit: params.limit ?? 20 },
+        }),
+    },
+
+    rtpMonitor: {
+      getSettings: (token: string) =>
+        request<RtpMonitorSettings>('/v1/api/admin/rtp-monitor/settings', { token }),
+      updateSettings: (token: string, body: RtpMonitorSettings, reason: string) =>
+        request<RtpMonitorSettings>('/v1/api/admin/rtp-monitor/settings', { method: 'PUT', token, body: { ...body, reason } }),
+    },
+
+    // Trilha das ações privilegiadas, registrada pela API junto com o motivo informado
+    auditLogs: {
+      list: (token: string, params: { page: number; limit?: number } & AuditLogFilters) =>
+        request<{ logs: AuditLogEntry[]; pagination: Pagination }>('/v1/api/admin/audit-logs', {
+          token,
+          query: { ...params, limit: params.limit ?? 20 },
+        }),
+    },
+  },
+};
@@ -0,0 +1,72 @@
+// Ações registradas na auditoria do painel e regras do motivo exigido em cada uma.
+
+import type { AuditAction, AuditEntityType } from '@/lib/types';
+
+// Tamanho mínimo do motivo para evitar notas vazias como "ok"
+export const REASON_MIN_LENGTH = 10;
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'user.balance_adjust',
+  'user.update',
+  'user.status_toggle',
+  'user.roles_update',
+  'affiliate.commission_edit',
+  'affiliate.influencer_toggle',
+  'withdrawal.approve',
+  'withdrawal.reject',
+  'scratchcard.update',
+  'scratchcard.feature_toggle',
+  'scratchcard.delete',
+  'settings.credentials_update',
+  'promocode.create',
+  'promocode.update',
+  'promocode.delete',
+  'withdrawal.auto_approve',
+  'withdrawal_rule.create',
+  'withdrawal_rule.update',
+  'withdrawal_rule.delete',
+  'payment_provider.create',
+  'payment_provider.update',
+  'payment_provider.delete',
+  'scratchcard.prizes_update',
+  'settings.rtp_monitor_update',
+];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.balance_adjust': 'Ajuste de saldo',
+  'user.update': 'Usuário editado',
+  'user.status_toggle': 'Conta ativada/suspensa',
+  'user.roles_update': 'Papéis de administrador',
+  'affiliate.commission_edit': 'Comissão de afiliado',
+  'affiliate.influencer_toggle': 'Modo influencer',
+  'withdrawal.approve': 'Saque aprovado',
+  'withdrawal.reject': 'Saque rejeitado',
+  'scratchcard.update': 'Raspadinha editada',
+  'scratchcard.feature_toggle': 'Destaque de raspadinha',
+  'scratchcard.delete': 'Raspadinha excluída',
+  'settings.credentials_update': 'Credenciais de pagamento',
+  'promocode.create': 'Código promocional criado',
+  'promocode.update': 'Código promocional editado',
+  'promocode.delete': 'Código promocional excluído',
+  'withdrawal.auto_approve': 'Saque aprovado automaticamente',
+  'withdrawal_rule.create': 'Regra de saque criada',
+  'withdrawal_rule.update': 'Regra de saque editada',
+  'withdrawal_rule.delete': 'Regra de saque excluída',
+  'payment_provider.create': 'Gateway de pagamento criado',
+  'payment_provider.update': 'Gateway de pagamento editado',
+  'payment_provider.delete': 'Gateway de pagamento excluído',
+  'scratchcard.prizes_update': 'Prêmios de raspadinha editados',
+  'settings.rtp_monitor_update': 'Monitoramento de RTP',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: 'Usuário',
+  withdrawal: 'Saque',
+  scratchcard: 'Raspadinha',
+  setting: 'Configuração',
+  promocode: 'Código promocional',
+  withdrawal_rule: 'Regra de saque',
+  payment_provider: 'Gateway de pagamento',
+};
+
+export const isValidReason = (reason: string) => reason.trim().length >= REASON_MIN_LENGTH;
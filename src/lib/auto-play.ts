@@ -0,0 +1,99 @@
+// Sessões de auto-play do modo roleta: configuração, acompanhamento e regras de parada
+
+export interface AutoPlaySettings {
+  rounds: number;
+  // Perda líquida máxima da sessão, em R$. 0 desativa o limite
+  stopLoss: number;
+  // Encerra a sessão quando um único prêmio atingir este valor, em R$. 0 desativa
+  stopOnWin: number;
+  skipAnimation: boolean;
+}
+
+export interface AutoPlaySession {
+  running: boolean;
+  roundsPlayed: number;
+  spent: number;
+  won: number;
+  // Saldo estimado a partir do saldo inicial, das cobranças e dos prêmios em dinheiro
+  balance: number;
+  stopReason: string | null;
+}
+
+// Resultado mínimo de uma rodada retornado por /v1/api/scratchcards/play
+interface AutoPlayRoundResult {
+  isWinner: boolean;
+  amountWon: string;
+  prize: { type: string } | null;
+}
+
+export const AUTO_PLAY_ROUND_OPTIONS = [10, 25, 50, 100];
+
+export const AUTO_PLAY_MAX_ROUNDS = 500;
+
+export const DEFAULT_AUTO_PLAY_SETTINGS: AutoPlaySettings = {
+  rounds: 10,
+  stopLoss: 0,
+  stopOnWin: 0,
+  skipAnimation: false,
+};
+
+export const createAutoPlaySession = (balance: number): AutoPlaySession => ({
+  running: true,
+  roundsPlayed: 0,
+  spent: 0,
+  won: 0,
+  balance,
+  stopReason: null,
+});
+
+export const getSessionNet = (session: AutoPlaySession) => session.won - session.spent;
+
+// Valor em dinheiro creditado pela rodada; produtos vão para o inventário
+const getMoneyWon = (result: AutoPlayRoundResult) =>
+  result.isWinner && result.prize?.type !== 'PRODUCT' ? parseFloat(result.amountWon) || 0 : 0;
+
+export const recordAutoPlayRound = (
+  session: AutoPlaySession,
+  result: AutoPlayRoundResult,
+  price: number
+): AutoPlaySession => {
+  const won = getMoneyWon(result);
+  return {
+    ...session,
+    roundsPlayed: session.roundsPlayed + 1,
+    spent: session.spent + price,
+    won: session.won + won,
+    balance: session.balance - price + won,
+  };
+};
+
+/**
+ * Motivo para não jogar a próxima rodada, ou null para continuar.
+ * A primeira rodada não é barrada pelo saldo estimado: o servidor decide.
+ */
+export const getAutoPlayStopReason = (
+  session: AutoPlaySession,
+  settings: AutoPlaySettings,
+  price: number
+): string | null => {
+  if (session.roundsPlayed >= settings.rounds) {
+    return 'Todas as rodadas foram jogadas.';
+  }
+  if (session.roundsPlayed > 0 && session.balance < price) {
+    return 'Saldo insuficiente para continuar.';
+  }
+  // A próxima cobrança não pode ultrapassar o limite de perda
+  if (settings.stopLoss > 0 && session.spent - session.won + price > settings.stopLoss) {
+    return 'Limite de perda atingido.';
+  }
+  return null;
+};
+
+// Motivo para encerrar a sessão depois de uma rodada premiada, ou null
+export const getWinStopReason = (result: AutoPlayRoundResult, settings: AutoPlaySettings): string | null => {
+  const won = parseFloat(result.amountWon) || 0;
+  if (settings.stopOnWin > 0 && result.isWinner && won >= settings.stopOnWin) {
+    return `Prêmio de R$ ${won.toFixed(2).replace('.', ',')} atingiu o limite de parada.`;
+  }
+  return null;
+};
@@ -0,0 +1,101 @@
+// Bônus de depósito por código promocional e progresso do rollover
+//
+// O bônus é `percentage`% do depósito, limitado a `max_bonus`. Para liberá-lo é preciso
+// apostar (depósito + bônus) × `rollover_multiplier`; a API credita o bônus em wallet.bonus
+// e mantém o valor que falta apostar em wallet.rollover. Os cálculos daqui servem para
+// pré-visualização: o valor creditado é sempre o calculado pela API.
+
+import type { PromoCode, PromoCodeKind, User, Wallet } from '@/lib/types';
+
+export const PROMO_CODE_KIND_LABELS: Record<PromoCodeKind, string> = {
+  FIRST_DEPOSIT: 'Primeiro depósito',
+  DEPOSIT: 'Qualquer depósito',
+};
+
+export interface DepositBonusPreview {
+  bonus: number;
+  rollover: number;
+}
+
+const toNumber = (value: string | number | null | undefined) => {
+  const parsed = typeof value === 'number' ? value : parseFloat(value || '0');
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Códigos são comparados sem espaços e em maiúsculas
+export const normalizePromoCode = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+export const isFirstDeposit = (user: Pick<User, 'total_deposit'> | null | undefined) =>
+  toNumber(user?.total_deposit) <= 0;
+
+/**
+ * Motivo pelo qual o código não vale para este depósito, ou null quando vale.
+ * Sem valor informado, só as regras que independem do valor são verificadas.
+ */
+export const getPromoCodeIssue = (
+  promo: PromoCode,
+  amount: number,
+  firstDeposit: boolean,
+  now = Date.now(),
+): string | null => {
+  if (!promo.is_active) return 'Este código não está mais ativo.';
+  if (promo.expires_at && new Date(promo.expires_at).getTime() <= now) return 'Este código expirou.';
+  if (promo.max_uses !== null && promo.uses >= promo.max_uses) return 'Este código atingiu o limite de usos.';
+  if (promo.kind === 'FIRST_DEPOSIT' && !firstDeposit) return 'Este código vale apenas para o primeiro depósito.';
+
+  const minDeposit = toNumber(promo.min_deposit);
+  if (amount > 0 && amount < minDeposit) {
+    return `Depósito mínimo para este código: R$ ${minDeposit.toFixed(2).replace('.', ',')}`;
+  }
+  return null;
+};
+
+export const calculateDepositBonus = (
+  promo: Pick<PromoCode, 'percentage' | 'max_bonus' | 'rollover_multiplier'>,
+  amount: number,
+): DepositBonusPreview => {
+  if (amount <= 0) return { bonus: 0, rollover: 0 };
+
+  const percentageBonus = (amount * toNumber(promo.percentage)) / 100;
+  const maxBonus = toNumber(promo.max_bonus);
+  const bonus = roundCents(maxBonus > 0 ? Math.min(percentageBonus, maxBonus) : percentageBonus);
+  const rollover = roundCents((amount + bonus) * toNumber(promo.rollover_multiplier));
+
+  return { bonus, rollover };
+};
+
+export interface RolloverProgress {
+  total: number;
+  remaining: number;
+  wagered: number;
+  // 0 a 100
+  percent: number;
+}
+
+// Progresso do rollover do bônus ativo, ou null quando não há exigência pendente
+export const getRolloverProgress = (wallet: Wallet | null | undefined): RolloverProgress | null => {
+  const remaining = toNumber(wallet?.rollover);
+  if (remaining <= 0) return null;
+
+  // Sem o total informado pela API, o progresso parte do que ainda falta
+  const total = Math.max(toNumber(wallet?.rollover_total), remaining);
+  const wagered = roundCents(total - remaining);
+
+  return { total, remaining, wagered, percent: total > 0 ? (wagered / total) * 100 : 0 };
+};
+
+export interface WalletBalances {
+  // Saldo real, que pode ser sacado
+  withdrawable: number;
+  // Bônus bloqueado até completar o rollover
+  bonus: number;
+  total: number;
+}
+
+export const getWalletBalances = (wallet: Wallet | null | undefined): WalletBalances => {
+  const withdrawable = toNumber(wallet?.balance);
+  const bonus = toNumber(wallet?.bonus);
+  return { withdrawable, bonus, total: withdrawable + bonus };
+};
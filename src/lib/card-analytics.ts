@@ -0,0 +1,89 @@
+// Desempenho de uma raspadinha: séries diárias e saídas observadas de cada prêmio
+//
+// A frequência observada de um prêmio segue uma binomial com a probabilidade
+// configurada. Um prêmio é marcado quando as saídas ficam fora de ±1,96 desvios
+// padrão do esperado (95%), o que aponta tabela alterada no período ou problema
+// no sorteio, e não apenas sorte.
+
+import type { Prize, ScratchCardDailyStats, ScratchCardPrizeHits } from '@/lib/types';
+
+export interface DailyPerformancePoint {
+  date: string;
+  games: number;
+  revenue: number;
+  payouts: number;
+  profit: number;
+  players: number;
+}
+
+export interface PerformanceTotals {
+  games: number;
+  revenue: number;
+  payouts: number;
+  profit: number;
+  // RTP do período, em %; null sem receita
+  rtp: number | null;
+}
+
+export interface PrizeHitRate {
+  prize: Prize;
+  hits: number;
+  expectedHits: number;
+  // Em %
+  configured: number;
+  observed: number;
+  totalPaid: number;
+  outsideExpected: boolean;
+}
+
+const CONFIDENCE_Z = 1.96;
+
+export const buildDailyPerformance = (daily: ScratchCardDailyStats[]): DailyPerformancePoint[] =>
+  daily.map((day) => {
+    const revenue = parseFloat(day.revenue) || 0;
+    const payouts = parseFloat(day.payouts) || 0;
+    return {
+      date: day.date,
+      games: day.games_played,
+      revenue,
+      payouts,
+      profit: revenue - payouts,
+      players: day.unique_players,
+    };
+  });
+
+export const getPerformanceTotals = (points: DailyPerformancePoint[]): PerformanceTotals => {
+  const totals = points.reduce(
+    (sum, point) => ({
+      games: sum.games + point.games,
+      revenue: sum.revenue + point.revenue,
+      payouts: sum.payouts + point.payouts,
+    }),
+    { games: 0, revenue: 0, payouts: 0 },
+  );
+  return {
+    ...totals,
+    profit: totals.revenue - totals.payouts,
+    rtp: totals.revenue > 0 ? (totals.payouts / totals.revenue) * 100 : null,
+  };
+};
+
+// Compara a probabilidade configurada de cada prêmio com a frequência observada em `games` jogos
+export const getPrizeHitRates = (prizes: Prize[], hits: ScratchCardPrizeHits[], games: number): PrizeHitRate[] =>
+  prizes.map((prize) => {
+    const entry = hits.find((item) => item.prize_id === prize.id);
+    const count = entry?.hits ?? 0;
+    const probability = (parseFloat(prize.probability) || 0) / 100;
+    const expectedHits = probability * games;
+    const margin = CONFIDENCE_Z * Math.sqrt(games * probability * (1 - probability));
+
+    return {
+      prize,
+      hits: count,
+      expectedHits,
+      configured: probability * 100,
+      observed: games > 0 ? (count / games) * 100 : 0,
+      totalPaid: parseFloat(entry?.total_paid || '0') || 0,
+      outsideExpected: games > 0 && Math.abs(count - expectedHits) > Math.max(margin, 1),
+    };
+  });
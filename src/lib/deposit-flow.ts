@@ -0,0 +1,90 @@
+// Fluxo de depósito PIX: máquina de estados compartilhada pelo header, pelo modal e pela página de depósito
+//
+// amount → generating → awaiting → paid | expired | failed
+// Qualquer estado final volta para "amount" com RESET.
+
+import type { DepositPayment, DepositStatus } from '@/lib/types';
+
+export const DEPOSIT_MIN_AMOUNT = 10;
+
+export const DEPOSIT_QUICK_AMOUNTS = [10, 20, 40, 80, 100, 200];
+
+// Validade do código PIX gerado
+export const DEPOSIT_EXPIRATION_SECONDS = 15 * 60;
+
+export const DEPOSIT_STATUS_POLL_INTERVAL = 5000;
+
+// Gateway usado quando não há gateways cadastrados no painel (ver src/lib/payment-providers.ts)
+export const DEPOSIT_GATEWAY = process.env.NEXT_PUBLIC_GATEWAY_DEFAULT || 'pixup';
+
+export type DepositFlowState =
+  | { step: 'amount' }
+  | { step: 'generating'; amount: number }
+  | { step: 'awaiting'; payment: DepositPayment; expiresAt: number }
+  | { step: 'paid'; payment: DepositPayment }
+  | { step: 'expired'; payment: DepositPayment }
+  | { step: 'failed'; error: string; payment: DepositPayment | null };
+
+export type DepositFlowStep = DepositFlowState['step'];
+
+export type DepositFlowEvent =
+  | { type: 'GENERATE'; amount: number }
+  | { type: 'GENERATED'; payment: DepositPayment; expiresAt: number }
+  | { type: 'PAID' }
+  | { type: 'EXPIRED' }
+  | { type: 'FAILED'; error: string }
+  | { type: 'RESET' };
+
+export const INITIAL_DEPOSIT_FLOW_STATE: DepositFlowState = { step: 'amount' };
+
+/**
+ * Transições válidas do fluxo. Eventos fora de ordem (por exemplo, uma
+ * resposta de status que chega depois da expiração) são ignorados.
+ */
+export const depositFlowReducer = (state: DepositFlowState, event: DepositFlowEvent): DepositFlowState => {
+  switch (event.type) {
+    case 'GENERATE':
+      return state.step === 'amount' || state.step === 'expired' || state.step === 'failed'
+        ? { step: 'generating', amount: event.amount }
+        : state;
+    case 'GENERATED':
+      return state.step === 'generating'
+        ? { step: 'awaiting', payment: event.payment, expiresAt: event.expiresAt }
+        : state;
+    case 'PAID':
+      return state.step === 'awaiting' ? { step: 'paid', payment: state.payment } : state;
+    case 'EXPIRED':
+      return state.step === 'awaiting' ? { step: 'expired', payment: state.payment } : state;
+    case 'FAILED':
+      if (state.step === 'generating') return { step: 'failed', error: event.error, payment: null };
+      if (state.step === 'awaiting') return { step: 'failed', error: event.error, payment: state.payment };
+      return state;
+    case 'RESET':
+      return INITIAL_DEPOSIT_FLOW_STATE;
+  }
+};
+
+// Evento correspondente ao status retornado por /v1/api/deposits/{id}/status
+export const getStatusEvent = (status: DepositStatus | string): DepositFlowEvent | null => {
+  switch (status) {
+    case 'PAID':
+      return { type: 'PAID' };
+    case 'EXPIRED':
+      return { type: 'EXPIRED' };
+    case 'FAILED':
+      return { type: 'FAILED', error: 'O pagamento não foi concluído.' };
+    default:
+      return null;
+  }
+};
+
+// Identificador usado na consulta de status do pagamento
+export const getPaymentId = (payment: DepositPayment) => payment.payment?.id || payment.deposit?.id;
+
+export const parseDepositAmount = (value: string) => parseFloat(value.replace(',', '.')) || 0;
+
+export const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,145 @@
+// Exportação de dados do painel para arquivos baixados pelo navegador
+
+import { createXlsxWriter, type XlsxCellStyle, type XlsxCellValue } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Como o valor é escrito: no CSV em formato pt-BR, no XLSX como número ou data da planilha
+export type ExportValueType = 'text' | 'integer' | 'decimal' | 'currency' | 'percent' | 'date';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  // Sem tipo, o valor é exportado como veio. Números aceitam número ou string
+  // numérica, percentuais são frações (0.95 = 95%) e datas aceitam ISO 8601
+  type?: ExportValueType;
+}
+
+// Separador aceito pelo Excel em português sem precisar do assistente de importação
+const CSV_SEPARATOR = ';';
+
+// No CSV, texto iniciado por =, +, -, @, tab ou CR seria lido como fórmula pela
+// planilha; o apóstrofo na frente faz o Excel mostrar o conteúdo como texto. O XLSX
+// não precisa disso: as células de texto são inlineStr, nunca avaliadas como fórmula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const neutralizeFormula = <V extends ExportValue>(value: V): V | string =>
+  typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+const escapeCsvValue = (value: ExportValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toNumber = (value: ExportValue) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toDate = (value: ExportValue) => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Sem separador de milhar, para o Excel em português ler a célula como número
+const formatCsvNumber = (value: number, fractionDigits?: number) =>
+  (fractionDigits === undefined ? String(value) : value.toFixed(fractionDigits)).replace('.', ',');
+
+const formatCsvValue = (value: ExportValue, type?: ExportValueType): ExportValue => {
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (!type || type === 'text') return neutralizeFormula(value);
+
+  if (type === 'date') {
+    const date = toDate(value);
+    if (!date) return neutralizeFormula(value);
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} `
+      + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  const number = toNumber(value);
+  if (number === null) return neutralizeFormula(value);
+  if (type === 'currency') return formatCsvNumber(number, 2);
+  if (type === 'percent') return `${formatCsvNumber(Math.round(number * 10000) / 100)}%`;
+  return formatCsvNumber(number);
+};
+
+const XLSX_STYLES: Record<ExportValueType, XlsxCellStyle> = {
+  text: 'general',
+  integer: 'integer',
+  decimal: 'general',
+  currency: 'decimal',
+  percent: 'percent',
+  date: 'date',
+};
+
+const toXlsxValue = (value: ExportValue, type?: ExportValueType): XlsxCellValue => {
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (!type || type === 'text') return value;
+  if (type === 'date') return toDate(value) ?? value;
+  return toNumber(value) ?? value;
+};
+
+const toCsvLine = <T>(row: T, columns: ExportColumn<T>[]) =>
+  columns.map((column) => escapeCsvValue(formatCsvValue(column.value(row), column.type))).join(CSV_SEPARATOR);
+
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  [
+    columns.map((column) => escapeCsvValue(column.header)).join(CSV_SEPARATOR),
+    ...rows.map((row) => toCsvLine(row, columns)),
+  ].join('\r\n');
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (content: BlobPart, filename: string, type: string) =>
+  downloadBlob(new Blob([content], { type }), filename);
+
+// O BOM faz o Excel abrir o arquivo como UTF-8 (acentos)
+export const downloadCsv = <T>(rows: T[], columns: ExportColumn<T>[], filename: string) =>
+  downloadFile(`\uFEFF${toCsv(rows, columns)}`, filename, 'text/csv;charset=utf-8');
+
+export const downloadJson = (data: unknown, filename: string) =>
+  downloadFile(JSON.stringify(data, null, 2), filename, 'application/json');
+
+// Sufixo de data para nomes de arquivo (AAAA-MM-DD)
+export const getFileDateSuffix = (date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Arquivo de exportação montado em partes, para exportações grandes que chegam
+ * página por página: cada chamada de `add` converte só as linhas recebidas.
+ */
+export const createTableExport = <T>(format: ExportFormat, columns: ExportColumn<T>[], sheetName?: string) => {
+  if (format === 'xlsx') {
+    const writer = createXlsxWriter(
+      columns.map((column) => ({ header: column.header, style: XLSX_STYLES[column.type ?? 'text'] })),
+      sheetName,
+    );
+    return {
+      add: (rows: T[]) => writer.addRows(rows.map((row) => columns.map((column) => toXlsxValue(column.value(row), column.type)))),
+      finish: () => writer.finish(),
+    };
+  }
+
+  const parts: string[] = [`\uFEFF${columns.map((column) => escapeCsvValue(column.header)).join(CSV_SEPARATOR)}`];
+  return {
+    add: (rows: T[]) => {
+      if (rows.length > 0) parts.push(rows.map((row) => `\r\n${toCsvLine(row, columns)}`).join(''));
+    },
+    finish: () => new Blob(parts, { type: 'text/csv;charset=utf-8' }),
+  };
+};
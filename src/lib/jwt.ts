@@ -0,0 +1,37 @@
+// Leitura do payload de tokens JWT no cliente (sem validar a assinatura)
+
+interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  [key: string]: unknown;
+}
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const decodeJwt = (token: string): JwtPayload | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    return JSON.parse(decodeBase64Url(payload));
+  } catch {
+    return null;
+  }
+};
+
+// Momento de expiração do token em milissegundos, ou null quando não há `exp`
+export const getTokenExpiration = (token: string): number | null => {
+  const payload = decodeJwt(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+export const isTokenExpired = (token: string, now = Date.now()) => {
+  const expiration = getTokenExpiration(token);
+  return expiration !== null && expiration <= now;
+};
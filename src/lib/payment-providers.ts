@@ -0,0 +1,137 @@
+// Registro dos gateways PIX suportados e roteamento dos depósitos
+//
+// Cada tipo de gateway declara o formulário das suas credenciais. A API guarda os
+// gateways cadastrados; o depósito vai para o gateway ativo de menor prioridade e,
+// se ele estiver fora do ar, para os seguintes marcados como failover.
+
+import { ApiError } from '@/lib/api';
+import type { PaymentProvider, PaymentProviderKind, PaymentRoute } from '@/lib/types';
+
+export interface ProviderCredentialField {
+  key: string;
+  label: string;
+  type: 'text' | 'secret' | 'url' | 'select';
+  placeholder?: string;
+  options?: Array<{ value: string; label: string }>;
+  required: boolean;
+  // Valor inicial no cadastro de um novo gateway
+  defaultValue?: string;
+}
+
+export interface ProviderDefinition {
+  kind: PaymentProviderKind;
+  label: string;
+  description: string;
+  fields: ProviderCredentialField[];
+  // Gateways de teste não podem ficar ativos em produção
+  testOnly?: boolean;
+}
+
+// Caminho das rotas do gateway simulado (src/pages/api/dev/pix-mock)
+export const MOCK_PROVIDER_PATH = '/api/dev/pix-mock';
+
+export const MOCK_PROVIDER_BEHAVIORS = {
+  manual: 'Aguardar confirmação manual',
+  auto: 'Pagar automaticamente após 10 segundos',
+  fail: 'Recusar cobranças (testar failover)',
+} as const;
+
+export type MockProviderBehavior = keyof typeof MOCK_PROVIDER_BEHAVIORS;
+
+export const PROVIDER_DEFINITIONS: Record<PaymentProviderKind, ProviderDefinition> = {
+  pluggou: {
+    kind: 'pluggou',
+    label: 'Pluggou',
+    description: 'Cobranças e transferências PIX pela API da Pluggou.',
+    fields: [
+      { key: 'api_key', label: 'API Key', type: 'secret', placeholder: 'Digite a chave da API', required: true },
+      { key: 'organization_id', label: 'Organization ID', type: 'text', placeholder: 'Digite o ID da organização', required: true },
+      { key: 'base_url', label: 'Base URL', type: 'url', placeholder: 'https://api.pluggou.com', required: true },
+    ],
+  },
+  pixup: {
+    kind: 'pixup',
+    label: 'PixUp',
+    description: 'Cobranças e transferências PIX pela API da PixUp (BSPay).',
+    fields: [
+      { key: 'client_id', label: 'Client ID', type: 'text', placeholder: 'Digite o client ID', required: true },
+      { key: 'client_secret', label: 'Client Secret', type: 'secret', placeholder: 'Digite o client secret', required: true },
+      { key: 'base_url', label: 'Base URL', type: 'url', placeholder: 'https://api.pixupbr.com', required: true },
+    ],
+  },
+  mock: {
+    kind: 'mock',
+    label: 'Simulado (testes)',
+    description: 'Gateway local para desenvolvimento: gera cobranças fictícias e confirma o pagamento sem movimentar dinheiro.',
+    testOnly: true,
+    fields: [
+      { key: 'base_url', label: 'Base URL', type: 'url', placeholder: `http://localhost:3000${MOCK_PROVIDER_PATH}`, required: true },
+      {
+        key: 'behavior',
+        label: 'Comportamento',
+        type: 'select',
+        required: true,
+        defaultValue: 'manual',
+        options: (Object.keys(MOCK_PROVIDER_BEHAVIORS) as MockProviderBehavior[]).map((value) => ({
+          value,
+          label: MOCK_PROVIDER_BEHAVIORS[value],
+        })),
+      },
+    ],
+  },
+};
+
+export const PROVIDER_KINDS = Object.keys(PROVIDER_DEFINITIONS) as PaymentProviderKind[];
+
+export const getDefaultCredentials = (kind: PaymentProviderKind) =>
+  Object.fromEntries(PROVIDER_DEFINITIONS[kind].fields.map((field) => [field.key, field.defaultValue ?? '']));
+
+// Motivo para o gateway não poder ser ativado, ou null; vale para o formulário e para o botão de ativar
+export const getEnableIssue = (kind: PaymentProviderKind) =>
+  PROVIDER_DEFINITIONS[kind].testOnly && process.env.NODE_ENV === 'production'
+    ? 'O gateway simulado não pode ficar ativo em produção'
+    : null;
+
+/**
+ * Valida o formulário de credenciais. Em gateways já salvos (`keepSecrets`),
+ * segredos em branco mantêm o valor atual.
+ */
+export const getCredentialsIssue = (kind: PaymentProviderKind, credentials: Record<string, string>, keepSecrets = false) => {
+  for (const field of PROVIDER_DEFINITIONS[kind].fields) {
+    const value = (credentials[field.key] || '').trim();
+    if (!value) {
+      if (field.required && !(keepSecrets && field.type === 'secret')) return `Informe ${field.label}`;
+      continue;
+    }
+    if (field.type === 'url' && !/^https?:\/\/[^\s]+$/i.test(value)) return `${field.label} deve ser uma URL http(s)`;
+    if (field.type === 'select' && !field.options?.some((option) => option.value === value)) return `${field.label} inválido`;
+  }
+  return null;
+};
+
+// Remove segredos em branco para que a API mantenha os valores salvos
+export const getCredentialsPayload = (kind: PaymentProviderKind, credentials: Record<string, string>) =>
+  Object.fromEntries(
+    PROVIDER_DEFINITIONS[kind].fields
+      .map((field) => [field.key, (credentials[field.key] || '').trim(), field.type] as const)
+      .filter(([, value, type]) => value !== '' || type !== 'secret')
+      .map(([key, value]) => [key, value])
+  );
+
+export const sortProviders = <T extends Pick<PaymentProvider, 'priority' | 'name'>>(providers: T[]) =>
+  [...providers].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+
+/**
+ * Ordem de tentativa dos depósitos: o gateway ativo de menor prioridade e, em
+ * seguida, os demais ativos marcados como failover.
+ */
+export const getDepositRoute = <T extends PaymentRoute & { enabled?: boolean }>(providers: T[]): T[] => {
+  const [primary, ...others] = sortProviders(providers.filter((provider) => provider.enabled !== false));
+  return primary ? [primary, ...others.filter((provider) => provider.failover)] : [];
+};
+
+// Gateway fora do ar: a cobrança não foi criada e o próximo gateway pode ser tentado.
+// Timeouts (inclusive o 504 do gateway) ficam de fora porque a cobrança pode ter sido
+// criada mesmo sem resposta.
+export const isProviderUnavailable = (error: unknown) =>
+  error instanceof ApiError && error.kind === 'http' && [502, 503].includes(error.status);
@@ -0,0 +1,121 @@
+// Papéis administrativos e permissões de cada área do painel.
+// Sem dependências de navegador: também é usado pelo middleware (edge).
+
+import type { AdminRole } from '@/lib/types';
+
+export type AdminPermission =
+  | 'dashboard:view'
+  | 'users:view'
+  | 'users:edit'
+  | 'users:balance'
+  | 'affiliates:edit'
+  | 'deposits:view'
+  | 'withdrawals:view'
+  | 'withdrawals:review'
+  | 'promotions:manage'
+  | 'reconciliation:view'
+  | 'scratchcards:view'
+  | 'scratchcards:edit'
+  | 'settings:images'
+  | 'settings:credentials'
+  | 'license:view'
+  | 'license:edit'
+  | 'roles:manage'
+  | 'audit:view';
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'finance', 'support', 'content'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Proprietário',
+  finance: 'Financeiro',
+  support: 'Suporte',
+  content: 'Conteúdo',
+};
+
+export const ADMIN_ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Acesso total, incluindo credenciais, licença/GGR, permissões e auditoria.',
+  finance: 'Aprova e rejeita saques, consulta depósitos, gerencia códigos promocionais, concilia o gateway e acompanha o dashboard.',
+  support: 'Consulta usuários e seus detalhes.',
+  content: 'Gerencia raspadinhas, prêmios e imagens da plataforma.',
+};
+
+const ALL_PERMISSIONS: AdminPermission[] = [
+  'dashboard:view',
+  'users:view',
+  'users:edit',
+  'users:balance',
+  'affiliates:edit',
+  'deposits:view',
+  'withdrawals:view',
+  'withdrawals:review',
+  'promotions:manage',
+  'reconciliation:view',
+  'scratchcards:view',
+  'scratchcards:edit',
+  'settings:images',
+  'settings:credentials',
+  'license:view',
+  'license:edit',
+  'roles:manage',
+  'audit:view',
+];
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: ALL_PERMISSIONS,
+  finance: ['dashboard:view', 'users:view', 'deposits:view', 'withdrawals:view', 'withdrawals:review', 'promotions:manage', 'reconciliation:view'],
+  support: ['users:view'],
+  content: ['scratchcards:view', 'scratchcards:edit', 'settings:images'],
+};
+
+// Permissão exigida por cada rota do painel (vale o prefixo mais longo)
+const ADMIN_ROUTE_PERMISSIONS: Array<[string, AdminPermission]> = [
+  ['/v2/administrator/dashboard', 'dashboard:view'],
+  ['/v2/administrator/users', 'users:view'],
+  ['/v2/administrator/deposits', 'deposits:view'],
+  ['/v2/administrator/withdrawals', 'withdrawals:view'],
+  ['/v2/administrator/withdrawals/rules', 'withdrawals:review'],
+  ['/v2/administrator/promotions', 'promotions:manage'],
+  ['/v2/administrator/reconciliation', 'reconciliation:view'],
+  ['/v2/administrator/scratchs', 'scratchcards:view'],
+  ['/v2/administrator/scratchs/create', 'scratchcards:edit'],
+  ['/v2/administrator/settings/upload', 'settings:images'],
+  ['/v2/administrator/settings', 'settings:credentials'],
+  ['/v2/administrator/ggr', 'license:view'],
+  ['/v2/administrator/roles', 'roles:manage'],
+  ['/v2/administrator/audit', 'audit:view'],
+];
+
+const isAdminRole = (role: unknown): role is AdminRole =>
+  typeof role === 'string' && (ADMIN_ROLES as string[]).includes(role);
+
+/**
+ * Papéis efetivos de um usuário. Administradores criados antes dos papéis
+ * (apenas `is_admin`, sem `admin_roles`) continuam com acesso total.
+ */
+export const getAdminRoles = (user: { is_admin?: boolean; admin_roles?: string[] | null } | null | undefined): AdminRole[] => {
+  if (!user?.is_admin) return [];
+  const roles = (user.admin_roles || []).filter(isAdminRole);
+  return roles.length > 0 ? roles : ['owner'];
+};
+
+export const hasPermission = (roles: AdminRole[], permission: AdminPermission) =>
+  roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+
+export const getRoutePermission = (pathname: string): AdminPermission | null => {
+  const matches = ADMIN_ROUTE_PERMISSIONS.filter(([prefix]) =>
+    pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  if (matches.length === 0) return null;
+  return matches.reduce((best, route) => (route[0].length > best[0].length ? route : best))[1];
+};
+
+export const canAccessAdminPath = (roles: AdminRole[], pathname: string) => {
+  const permission = getRoutePermission(pathname);
+  return permission === null ? roles.length > 0 : hasPermission(roles, permission);
+};
+
+// Primeira página do painel que o usuário pode abrir (destino após o login)
+export const getDefaultAdminPath = (roles: AdminRole[]) => {
+  const route = ADMIN_ROUTE_PERMISSIONS.find(([, permission]) => hasPermission(roles, permission));
+  return route ? route[0] : '/v2/administrator/dashboard';
+};
@@ -0,0 +1,116 @@
+// Validação e normalização de chaves PIX por tipo
+//
+// A chave enviada à API é sempre a normalizada: CPF/CNPJ só com dígitos, telefone em
+// E.164 (+55DDNÚMERO), e-mail em minúsculas e chave aleatória (EVP) em UUID minúsculo.
+
+import type { PixKeyType } from '@/lib/types';
+
+export const PIX_KEY_TYPES: PixKeyType[] = ['CPF', 'CNPJ', 'PHONE', 'EMAIL', 'RANDOM'];
+
+export const PIX_KEY_TYPE_LABELS: Record<PixKeyType, string> = {
+  CPF: 'CPF',
+  CNPJ: 'CNPJ',
+  PHONE: 'Telefone',
+  EMAIL: 'E-mail',
+  RANDOM: 'Chave aleatória',
+};
+
+export const PIX_KEY_PLACEHOLDERS: Record<PixKeyType, string> = {
+  CPF: '000.000.000-00',
+  CNPJ: '00.000.000/0000-00',
+  PHONE: '(11) 91234-5678',
+  EMAIL: 'voce@exemplo.com',
+  RANDOM: '123e4567-e89b-12d3-a456-426614174000',
+};
+
+export type PixKeyValidation =
+  | { valid: true; normalized: string }
+  | { valid: false; error: string };
+
+const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+// Sequências repetidas (000..., 111...) passam no dígito verificador mas não são documentos válidos
+const isRepeatedSequence = (digits: string) => /^(\d)\1+$/.test(digits);
+
+const getCheckDigit = (digits: string, weights: number[]) => {
+  const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+export const isValidCpf = (value: string) => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || isRepeatedSequence(digits)) return false;
+
+  const first = getCheckDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = getCheckDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+};
+
+export const isValidCnpj = (value: string) => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || isRepeatedSequence(digits)) return false;
+
+  const first = getCheckDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = getCheckDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+};
+
+/**
+ * Telefone brasileiro em E.164. Aceita o número com ou sem +55, com DDD,
+ * fixo (8 dígitos) ou celular (9 dígitos começando com 9).
+ */
+export const normalizePhone = (value: string): string | null => {
+  let digits = onlyDigits(value);
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+    digits = digits.slice(2);
+  }
+  if (digits.length !== 10 && digits.length !== 11) return null;
+
+  const ddd = digits.slice(0, 2);
+  const number = digits.slice(2);
+  if (ddd[0] === '0' || ddd[1] === '0') return null;
+  if (number.length === 9 && number[0] !== '9') return null;
+  if (number.length === 8 && !/^[2-5]/.test(number)) return null;
+
+  return `+55${digits}`;
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+// Chave aleatória (EVP): UUID no formato 8-4-4-4-12
+const EVP_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export const validatePixKey = (type: PixKeyType, value: string): PixKeyValidation => {
+  const trimmed = value.trim();
+  if (!trimmed) return { valid: false, error: 'Digite sua chave PIX' };
+
+  switch (type) {
+    case 'CPF':
+      return isValidCpf(trimmed)
+        ? { valid: true, normalized: onlyDigits(trimmed) }
+        : { valid: false, error: 'CPF inválido' };
+    case 'CNPJ':
+      return isValidCnpj(trimmed)
+        ? { valid: true, normalized: onlyDigits(trimmed) }
+        : { valid: false, error: 'CNPJ inválido' };
+    case 'PHONE': {
+      const phone = normalizePhone(trimmed);
+      return phone
+        ? { valid: true, normalized: phone }
+        : { valid: false, error: 'Telefone inválido. Informe DDD e número' };
+    }
+    case 'EMAIL': {
+      const email = trimmed.toLowerCase();
+      return EMAIL_REGEX.test(email) && email.length <= 77
+        ? { valid: true, normalized: email }
+        : { valid: false, error: 'E-mail inválido' };
+    }
+    case 'RANDOM': {
+      const key = trimmed.toLowerCase();
+      return EVP_REGEX.test(key)
+        ? { valid: true, normalized: key }
+        : { valid: false, error: 'Chave aleatória inválida. Use o formato 123e4567-e89b-12d3-a456-426614174000' };
+    }
+  }
+};
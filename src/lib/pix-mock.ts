@@ -0,0 +1,99 @@
+// Gateway PIX simulado, usado apenas em desenvolvimento
+//
+// Cadastrado no painel como gateway "Simulado", recebe as cobranças em
+// /api/dev/pix-mock/charges e confirma o pagamento sozinho ou pela rota /pay.
+// Na confirmação, avisa o webhook informado na cobrança e publica deposit.paid no
+// servidor mock de tempo real. As cobranças ficam em memória (globalThis), como no mock de eventos.
+
+import { randomUUID } from 'crypto';
+import { emitRealtimeMockEvent } from '@/lib/realtime-mock';
+import type { MockProviderBehavior } from '@/lib/payment-providers';
+
+export type PixMockChargeStatus = 'PENDING' | 'PAID' | 'EXPIRED';
+
+export interface PixMockCharge {
+  id: string;
+  amount: string;
+  status: PixMockChargeStatus;
+  qr_code: string;
+  // Identificadores da plataforma, devolvidos no webhook
+  external_id: string | null;
+  user_id: string | null;
+  webhook_url: string | null;
+  created_at: string;
+  paid_at: string | null;
+}
+
+// Atraso da confirmação no comportamento "auto"
+export const PIX_MOCK_AUTO_PAY_DELAY = 10000;
+
+const globalForPixMock = globalThis as typeof globalThis & {
+  pixMockCharges?: Map<string, PixMockCharge>;
+};
+
+const charges = (globalForPixMock.pixMockCharges ??= new Map());
+
+export const isPixMockEnabled = () => process.env.NODE_ENV !== 'production';
+
+export const getPixMockCharge = (id: string) => charges.get(id) ?? null;
+
+// Payload no formato "copia e cola", sem validade fora do ambiente de testes
+const buildMockQrCode = (id: string, amount: string) =>
+  `00020126580014BR.GOV.BCB.PIX0136${id}5204000053039865404${amount}5802BR5913PIX SIMULADO6009SAO PAULO62070503***6304MOCK`;
+
+export const markPixMockChargePaid = async (id: string) => {
+  const charge = charges.get(id);
+  if (!charge || charge.status !== 'PENDING') return charge ?? null;
+
+  charge.status = 'PAID';
+  charge.paid_at = new Date().toISOString();
+
+  if (charge.webhook_url) {
+    try {
+      await fetch(charge.webhook_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: charge.id, external_id: charge.external_id, status: charge.status, amount: charge.amount }),
+      });
+    } catch (error) {
+      console.error('Erro ao chamar o webhook do gateway simulado:', error);
+    }
+  }
+
+  emitRealtimeMockEvent(
+    'deposit.paid',
+    { deposit_id: charge.external_id ?? charge.id, payment_id: charge.id, amount: charge.amount },
+    charge.user_id ?? undefined,
+  );
+  return charge;
+};
+
+export const createPixMockCharge = (params: {
+  amount: number;
+  behavior: MockProviderBehavior;
+  externalId?: string | null;
+  userId?: string | null;
+  webhookUrl?: string | null;
+}): PixMockCharge => {
+  const id = randomUUID();
+  const amount = params.amount.toFixed(2);
+  const charge: PixMockCharge = {
+    id,
+    amount,
+    status: 'PENDING',
+    qr_code: buildMockQrCode(id, amount),
+    external_id: params.externalId ?? null,
+    user_id: params.userId ?? null,
+    webhook_url: params.webhookUrl ?? null,
+    created_at: new Date().toISOString(),
+    paid_at: null,
+  };
+  charges.set(id, charge);
+
+  if (params.behavior === 'auto') {
+    setTimeout(() => {
+      markPixMockChargePaid(id);
+    }, PIX_MOCK_AUTO_PAY_DELAY);
+  }
+  return charge;
+};
@@ -0,0 +1,273 @@
+// Ajuste automático das probabilidades de uma tabela de prêmios
+//
+// O solver procura probabilidades que somem a taxa de acerto desejada e cujo
+// pagamento esperado dê o RTP alvo, respeitando os limites de cada prêmio. As
+// chances seguem uma lei de potência do valor pago (p ∝ valor^-α): com α ≥ 0 um
+// prêmio maior nunca fica mais provável que um menor (ordem de raridade). O RTP cai
+// à medida que α cresce, então α é encontrado por bisseção; os limites por prêmio
+// são aplicados a cada passo escalando os pesos até a soma bater com a taxa de acerto.
+// Com a ordem de raridade, os limites são antes propagados entre os prêmios para que
+// prender cada um ao seu intervalo não inverta a ordem. Por fim, as probabilidades
+// são arredondadas às casas do formulário e o erro do arredondamento é corrigido.
+
+export interface SolverPrize {
+  name: string;
+  // Valor pago ao jogador: dinheiro ou valor de resgate do produto
+  payout: number;
+  // Limites de probabilidade, em %
+  minProbability: number;
+  maxProbability: number;
+}
+
+export interface SolverInput {
+  price: number;
+  // RTP alvo, em %
+  targetRtp: number;
+  // Chance de ganhar algum prêmio por rodada, em %
+  hitRate: number;
+  prizes: SolverPrize[];
+  // Impede que um prêmio maior seja mais provável que um menor
+  enforceRarity: boolean;
+}
+
+export type SolverResult =
+  | { feasible: true; probabilities: number[]; rtp: number; hitRate: number }
+  | { feasible: false; reasons: string[] };
+
+// Casas decimais das probabilidades, como no campo do formulário (step 0.0001)
+const PROBABILITY_DECIMALS = 4;
+// Probabilidades arredondadas são tratadas como inteiros nesta escala
+const SCALE = 10 ** PROBABILITY_DECIMALS;
+// Diferença aceita entre o RTP obtido e o alvo, em pontos percentuais
+const RTP_PRECISION = 0.01;
+const MAX_EXPONENT = 12;
+const BISECTION_STEPS = 100;
+const MAX_REPAIR_STEPS = 200;
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const labelOf = (prize: SolverPrize, index: number) => prize.name.trim() || `Prêmio ${index + 1}`;
+
+// Problemas que impedem qualquer solução, antes de procurar α
+const getInputIssues = ({ price, targetRtp, hitRate, prizes, enforceRarity }: SolverInput) => {
+  const issues: string[] = [];
+
+  if (prizes.length === 0) return ['Adicione pelo menos um prêmio ativo'];
+  if (!(price > 0)) issues.push('Informe o preço da raspadinha');
+  if (!(targetRtp > 0)) issues.push('Informe o RTP alvo');
+  if (!(hitRate > 0) || hitRate > 100) issues.push('A taxa de acerto deve estar entre 0 e 100%');
+
+  prizes.forEach((prize, index) => {
+    if (!(prize.payout > 0)) issues.push(`Informe o valor de ${labelOf(prize, index)}`);
+    if (prize.minProbability < 0 || prize.maxProbability > 100 || prize.minProbability > prize.maxProbability) {
+      issues.push(`Os limites de probabilidade de ${labelOf(prize, index)} são inválidos`);
+    }
+  });
+  if (issues.length > 0) return issues;
+
+  const minSum = prizes.reduce((sum, prize) => sum + prize.minProbability, 0);
+  const maxSum = prizes.reduce((sum, prize) => sum + prize.maxProbability, 0);
+  if (minSum > hitRate) {
+    issues.push(`As probabilidades mínimas somam ${formatPercentage(minSum)}, acima da taxa de acerto de ${formatPercentage(hitRate)}`);
+  }
+  if (maxSum < hitRate) {
+    issues.push(`As probabilidades máximas somam ${formatPercentage(maxSum)}, abaixo da taxa de acerto de ${formatPercentage(hitRate)}`);
+  }
+
+  if (enforceRarity) {
+    // Um prêmio maior não pode exigir mais chance do que um menor aceita
+    prizes.forEach((larger, i) => {
+      prizes.forEach((smaller, j) => {
+        if (larger.payout > smaller.payout && larger.minProbability > smaller.maxProbability) {
+          issues.push(
+            `${labelOf(larger, i)} tem mínimo de ${formatPercentage(larger.minProbability)}, acima do máximo de ${formatPercentage(smaller.maxProbability)} de ${labelOf(smaller, j)}, que paga menos`,
+          );
+        }
+      });
+    });
+  }
+  return issues;
+};
+
+/**
+ * Probabilidades para um expoente α: pesos valor^-α escalados para somar a taxa
+ * de acerto, com cada prêmio preso aos seus limites. A escala é procurada em
+ * escala logarítmica porque os pesos podem variar muitas ordens de grandeza.
+ */
+const distribute = (prizes: SolverPrize[], hitRate: number, exponent: number) => {
+  const reference = Math.exp(prizes.reduce((sum, prize) => sum + Math.log(prize.payout), 0) / prizes.length);
+  const logWeights = prizes.map((prize) => -exponent * Math.log(prize.payout / reference));
+  const maxLog = Math.max(...logWeights);
+  const weights = logWeights.map((value) => Math.exp(value - maxLog));
+
+  const at = (logScale: number) =>
+    prizes.map((prize, index) => clamp(Math.exp(logScale) * weights[index], prize.minProbability, prize.maxProbability));
+
+  let low = -700;
+  let high = 700;
+  for (let step = 0; step < BISECTION_STEPS * 2; step++) {
+    const middle = (low + high) / 2;
+    const sum = at(middle).reduce((total, value) => total + value, 0);
+    if (sum < hitRate) low = middle;
+    else high = middle;
+  }
+  return at(high);
+};
+
+/**
+ * Limites compatíveis com a ordem de raridade: um prêmio não pode passar do máximo
+ * de nenhum prêmio menor nem ficar abaixo do mínimo de nenhum prêmio maior.
+ */
+const withRarityBounds = (prizes: SolverPrize[]): SolverPrize[] =>
+  prizes.map((prize) => ({
+    ...prize,
+    minProbability: Math.max(
+      prize.minProbability,
+      ...prizes.filter((other) => other.payout > prize.payout).map((other) => other.minProbability),
+    ),
+    maxProbability: Math.min(
+      prize.maxProbability,
+      ...prizes.filter((other) => other.payout < prize.payout).map((other) => other.maxProbability),
+    ),
+  }));
+
+const getRtp = (prizes: SolverPrize[], probabilities: number[], price: number) =>
+  probabilities.reduce((sum, probability, index) => sum + probability * prizes[index].payout, 0) / price;
+
+// Passa `amount` unidades de chance do prêmio `from` para o prêmio `to`
+const moveUnits = (units: number[], from: number, to: number, amount: number) =>
+  units.map((value, index) => (index === from ? value - amount : index === to ? value + amount : value));
+
+/**
+ * Arredonda as probabilidades às casas do formulário e corrige o erro: primeiro a
+ * soma volta à taxa de acerto, depois o RTP é aproximado do alvo passando chance
+ * entre pares de prêmios. Com prêmios altos uma única casa vale vários pontos de
+ * RTP, então o arredondamento sozinho pode afastar do alvo uma tabela viável.
+ * Devolve as probabilidades em unidades de SCALE, ou null se os limites não
+ * comportam a taxa de acerto nessa precisão.
+ */
+const roundToGrid = (prizes: SolverPrize[], probabilities: number[], input: SolverInput) => {
+  const { price, targetRtp, hitRate, enforceRarity } = input;
+  const lower = prizes.map((prize) => Math.ceil(prize.minProbability * SCALE - 1e-6));
+  const upper = prizes.map((prize) => Math.floor(prize.maxProbability * SCALE + 1e-6));
+  const rtpOf = (values: number[]) => getRtp(prizes, values, price) / SCALE;
+  const isValid = (values: number[]) =>
+    values.every((value, index) => value >= lower[index] && value <= upper[index])
+    && (!enforceRarity || values.every((value, i) =>
+      values.every((other, j) => !(prizes[j].payout > prizes[i].payout) || other <= value)));
+
+  let units = probabilities.map((probability, index) => clamp(Math.round(probability * SCALE), lower[index], upper[index]));
+  if (!isValid(units)) return null;
+
+  // Soma: uma unidade por vez, no prêmio que deixa o RTP mais perto do alvo
+  let missing = Math.round(hitRate * SCALE) - units.reduce((sum, value) => sum + value, 0);
+  while (missing !== 0) {
+    const direction = Math.sign(missing);
+    const candidates = units
+      .map((_, index) => units.map((value, i) => (i === index ? value + direction : value)))
+      .filter(isValid);
+    if (candidates.length === 0) return null;
+    units = candidates.reduce((best, candidate) =>
+      Math.abs(rtpOf(candidate) - targetRtp) < Math.abs(rtpOf(best) - targetRtp) ? candidate : best);
+    missing -= direction;
+  }
+
+  // RTP: a troca entre dois prêmios mantém a soma; fica a que mais reduz a distância ao alvo
+  for (let step = 0; step < MAX_REPAIR_STEPS; step++) {
+    const gap = targetRtp - rtpOf(units);
+    let best: number[] | null = null;
+    let bestGap = Math.abs(gap);
+
+    prizes.forEach((from, i) => {
+      prizes.forEach((to, j) => {
+        if (to.payout === from.payout) return;
+        // Variação do RTP por unidade passada de `from` para `to`
+        const perUnit = (to.payout - from.payout) / SCALE / price;
+        const wanted = Math.round(gap / perUnit);
+        if (wanted <= 0) return;
+
+        // Os passos válidos formam um intervalo a partir de zero: maior passo por bisseção
+        let low = 0;
+        let high = wanted;
+        while (low < high) {
+          const middle = Math.ceil((low + high) / 2);
+          if (isValid(moveUnits(units, i, j, middle))) low = middle;
+          else high = middle - 1;
+        }
+        if (low === 0) return;
+
+        const candidate = moveUnits(units, i, j, low);
+        const candidateGap = Math.abs(targetRtp - rtpOf(candidate));
+        if (candidateGap < bestGap) {
+          best = candidate;
+          bestGap = candidateGap;
+        }
+      });
+    });
+
+    if (!best) break;
+    units = best;
+  }
+  return units;
+};
+
+export const solvePrizeTable = (input: SolverInput): SolverResult => {
+  const issues = getInputIssues(input);
+  if (issues.length > 0) return { feasible: false, reasons: issues };
+
+  const { price, targetRtp, hitRate, enforceRarity } = input;
+  const prizes = enforceRarity ? withRarityBounds(input.prizes) : input.prizes;
+  // α maior concentra a chance nos prêmios baratos e reduz o RTP
+  let low = enforceRarity ? 0 : -MAX_EXPONENT;
+  let high = MAX_EXPONENT;
+  const maxRtp = getRtp(prizes, distribute(prizes, hitRate, low), price);
+  const minRtp = getRtp(prizes, distribute(prizes, hitRate, high), price);
+
+  if (targetRtp > maxRtp + RTP_PRECISION || targetRtp < minRtp - RTP_PRECISION) {
+    return {
+      feasible: false,
+      reasons: [
+        `Com essa taxa de acerto e esses limites o RTP fica entre ${formatPercentage(minRtp)} e ${formatPercentage(maxRtp)}`,
+        targetRtp > maxRtp
+          ? 'Aumente a taxa de acerto, os valores dos prêmios ou os limites máximos para chegar ao alvo'
+          : 'Reduza a taxa de acerto, os valores dos prêmios ou os limites mínimos para chegar ao alvo',
+      ],
+    };
+  }
+
+  let probabilities = distribute(prizes, hitRate, low);
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const middle = (low + high) / 2;
+    probabilities = distribute(prizes, hitRate, middle);
+    const rtp = getRtp(prizes, probabilities, price);
+    if (Math.abs(rtp - targetRtp) < RTP_PRECISION / 10) break;
+    if (rtp > targetRtp) low = middle;
+    else high = middle;
+  }
+
+  const units = roundToGrid(prizes, probabilities, input);
+  if (!units) {
+    return {
+      feasible: false,
+      reasons: [`Os limites por prêmio não comportam a taxa de acerto com ${PROBABILITY_DECIMALS} casas decimais`],
+    };
+  }
+
+  const rounded = units.map((value) => value / SCALE);
+  const rtp = getRtp(prizes, rounded, price);
+  if (Math.abs(rtp - targetRtp) > RTP_PRECISION * 10) {
+    return {
+      feasible: false,
+      reasons: [`O melhor ajuste encontrado dá RTP de ${formatPercentage(rtp)}; afrouxe os limites por prêmio`],
+    };
+  }
+
+  return {
+    feasible: true,
+    probabilities: rounded,
+    rtp,
+    hitRate: units.reduce((sum, value) => sum + value, 0) / SCALE,
+  };
+};
@@ -0,0 +1,237 @@
+// Edição da tabela de prêmios de uma raspadinha e cálculo do RTP teórico
+//
+// O RTP teórico soma, entre os prêmios ativos, probabilidade × valor pago e divide
+// pelo preço da raspadinha. Prêmios de produto contam pelo valor de resgate, que é
+// o que a plataforma paga quando o jogador troca o produto por saldo.
+
+import type { Prize } from '@/lib/types';
+
+export type PrizeType = 'MONEY' | 'PRODUCT';
+
+export const PRIZE_TYPE_LABELS: Record<PrizeType, string> = {
+  MONEY: 'Dinheiro',
+  PRODUCT: 'Produto',
+};
+
+// Prêmio no formulário de edição; os números ficam como texto, como nos inputs
+export interface PrizeDraft {
+  // Chave local do formulário; prêmios já salvos usam o próprio id
+  key: string;
+  id: string | null;
+  name: string;
+  description: string;
+  type: PrizeType;
+  value: string;
+  product_name: string;
+  redemption_value: string;
+  probability: string;
+  is_active: boolean;
+  image_url: string | null;
+  // Nova imagem escolhida; null mantém a atual
+  image: File | null;
+  removed: boolean;
+}
+
+export interface PrizeTableStats {
+  // Soma das probabilidades dos prêmios ativos, em %
+  totalProbability: number;
+  // Chance de não ganhar nada, em %
+  lossProbability: number;
+  // Retorno esperado por rodada em relação ao preço, em %; null sem preço válido
+  rtp: number | null;
+  expectedPayout: number;
+  activePrizes: number;
+  maxPayout: number;
+}
+
+export interface PrizeChange {
+  kind: 'added' | 'removed' | 'updated';
+  name: string;
+  details: string[];
+}
+
+// Diferença entre o RTP teórico e o alvo considerada aceitável, em pontos percentuais
+export const RTP_TOLERANCE = 2;
+
+const parseAmount = (value: string | null | undefined) => parseFloat(value || '0') || 0;
+
+const formatAmount = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+const formatProbability = (value: number) => `${Number(value.toFixed(4)).toString().replace('.', ',')}%`;
+
+let draftSequence = 0;
+
+export const toPrizeDraft = (prize: Prize): PrizeDraft => ({
+  key: prize.id,
+  id: prize.id,
+  name: prize.name,
+  description: prize.description || '',
+  type: prize.type === 'PRODUCT' ? 'PRODUCT' : 'MONEY',
+  value: prize.value || '',
+  product_name: prize.product_name || '',
+  redemption_value: prize.redemption_value || '',
+  probability: prize.probability || '0',
+  is_active: prize.is_active,
+  image_url: prize.image_url,
+  image: null,
+  removed: false,
+});
+
+export const createPrizeDraft = (): PrizeDraft => ({
+  key: `new-${++draftSequence}`,
+  id: null,
+  name: '',
+  description: '',
+  type: 'MONEY',
+  value: '',
+  product_name: '',
+  redemption_value: '',
+  probability: '0',
+  is_active: true,
+  image_url: null,
+  image: null,
+  removed: false,
+});
+
+// Valor pago pelo prêmio: o próprio valor em dinheiro ou o valor de resgate do produto
+export const getPrizePayout = (prize: Pick<PrizeDraft, 'type' | 'value' | 'redemption_value'>) =>
+  parseAmount(prize.type === 'MONEY' ? prize.value : prize.redemption_value);
+
+// Prêmios que entram no sorteio depois de salvar
+export const getActivePrizeDrafts = (prizes: PrizeDraft[]) => prizes.filter((prize) => !prize.removed && prize.is_active);
+
+export const getPrizeTableStats = (prizes: PrizeDraft[], price: number): PrizeTableStats => {
+  const active = getActivePrizeDrafts(prizes);
+  const totalProbability = active.reduce((sum, prize) => sum + parseAmount(prize.probability), 0);
+  const expectedPayout = active.reduce((sum, prize) => sum + (parseAmount(prize.probability) / 100) * getPrizePayout(prize), 0);
+
+  return {
+    totalProbability,
+    lossProbability: Math.max(0, 100 - totalProbability),
+    rtp: price > 0 ? (expectedPayout / price) * 100 : null,
+    expectedPayout,
+    activePrizes: active.length,
+    maxPayout: active.reduce((max, prize) => Math.max(max, getPrizePayout(prize)), 0),
+  };
+};
+
+/**
+ * Primeiro problema da tabela, ou null. Prêmios novos precisam de imagem; os
+ * existentes mantêm a atual se nenhuma for escolhida.
+ */
+export const getPrizeTableIssue = (prizes: PrizeDraft[]) => {
+  const kept = prizes.filter((prize) => !prize.removed);
+
+  for (const [index, prize] of kept.entries()) {
+    const label = prize.name.trim() || `Prêmio ${index + 1}`;
+    const probability = Number(prize.probability);
+    if (!prize.name.trim()) return `Informe o nome do prêmio ${index + 1}`;
+    if (!prize.description.trim()) return `Informe a descrição de ${label}`;
+    if (!Number.isFinite(probability) || probability < 0 || probability > 100) {
+      return `A probabilidade de ${label} deve estar entre 0 e 100%`;
+    }
+    if (prize.type === 'MONEY' && !(parseAmount(prize.value) > 0)) return `Informe o valor de ${label}`;
+    if (prize.type === 'PRODUCT') {
+      if (!prize.product_name.trim()) return `Informe o nome do produto de ${label}`;
+      if (!(parseAmount(prize.redemption_value) > 0)) return `Informe o valor de resgate de ${label}`;
+    }
+    if (!prize.id && !prize.image) return `Selecione a imagem de ${label}`;
+  }
+
+  if (getActivePrizeDrafts(prizes).length === 0) return 'A raspadinha precisa de pelo menos um prêmio ativo';
+  const { totalProbability } = getPrizeTableStats(prizes, 0);
+  if (totalProbability > 100) return 'A soma das probabilidades dos prêmios ativos não pode exceder 100%';
+  return null;
+};
+
+const describeChange = (label: string, before: string, after: string) => `${label}: ${before} → ${after}`;
+
+// Resumo do que muda em relação aos prêmios salvos, exibido antes de confirmar
+export const getPrizeChanges = (original: Prize[], drafts: PrizeDraft[]): PrizeChange[] => {
+  const changes: PrizeChange[] = [];
+
+  for (const draft of drafts) {
+    const saved = draft.id ? original.find((prize) => prize.id === draft.id) : undefined;
+
+    if (!saved) {
+      if (draft.removed) continue;
+      changes.push({
+        kind: 'added',
+        name: draft.name,
+        details: [
+          `${PRIZE_TYPE_LABELS[draft.type]} de ${formatAmount(getPrizePayout(draft))}`,
+          `Probabilidade de ${formatProbability(parseAmount(draft.probability))}`,
+          ...(draft.is_active ? [] : ['Criado desativado']),
+        ],
+      });
+      continue;
+    }
+
+    if (draft.removed) {
+      changes.push({ kind: 'removed', name: saved.name, details: [] });
+      continue;
+    }
+
+    const before = toPrizeDraft(saved);
+    const details: string[] = [];
+    if (draft.name.trim() !== before.name) details.push(describeChange('Nome', before.name, draft.name.trim()));
+    if (draft.description.trim() !== before.description) details.push('Descrição alterada');
+    if (draft.type !== before.type) {
+      details.push(describeChange('Tipo', PRIZE_TYPE_LABELS[before.type], PRIZE_TYPE_LABELS[draft.type]));
+    }
+    if (draft.type === 'PRODUCT' && draft.product_name.trim() !== before.product_name) {
+      details.push(describeChange('Produto', before.product_name || '-', draft.product_name.trim()));
+    }
+    if (getPrizePayout(draft) !== getPrizePayout(before)) {
+      details.push(describeChange('Valor pago', formatAmount(getPrizePayout(before)), formatAmount(getPrizePayout(draft))));
+    }
+    if (parseAmount(draft.probability) !== parseAmount(before.probability)) {
+      details.push(describeChange(
+        'Probabilidade',
+        formatProbability(parseAmount(before.probability)),
+        formatProbability(parseAmount(draft.probability)),
+      ));
+    }
+    if (draft.is_active !== before.is_active) details.push(draft.is_active ? 'Reativado' : 'Desativado');
+    if (draft.image) details.push('Imagem substituída');
+
+    if (details.length > 0) changes.push({ kind: 'updated', name: draft.name.trim() || saved.name, details });
+  }
+
+  return changes;
+};
+
+/**
+ * Corpo multipart da edição em lote. Cada prêmio com imagem nova aponta para a
+ * posição do arquivo em `prize_images`, como na criação da raspadinha.
+ */
+export const buildPrizesFormData = (drafts: PrizeDraft[]) => {
+  const formData = new FormData();
+  const images: File[] = [];
+
+  const prizes = drafts
+    .filter((prize) => !prize.removed)
+    .map((prize) => {
+      const imageIndex = prize.image ? images.push(prize.image) - 1 : null;
+      return {
+        ...(prize.id ? { id: prize.id } : {}),
+        name: prize.name.trim(),
+        description: prize.description.trim(),
+        type: prize.type,
+        ...(prize.type === 'MONEY'
+          ? { value: parseAmount(prize.value) }
+          : { product_name: prize.product_name.trim(), redemption_value: parseAmount(prize.redemption_value) }),
+        probability: parseAmount(prize.probability),
+        is_active: prize.is_active,
+        image_index: imageIndex,
+      };
+    });
+
+  formData.append('prizes', JSON.stringify(prizes));
+  formData.append(
+    'removed_prize_ids',
+    JSON.stringify(drafts.filter((prize) => prize.removed && prize.id).map((prize) => prize.id)),
+  );
+  images.forEach((image) => formData.append('prize_images', image));
+  return formData;
+};
@@ -0,0 +1,85 @@
+// Jogo justo (provably fair): recalcula no navegador o resultado de uma rodada.
+//
+// roll = HMAC-SHA256(server_seed, `${client_seed}:${nonce}`), primeiros 52 bits / 2^52
+// O prêmio é o primeiro da prize_table cuja probabilidade acumulada (em %) supera roll * 100;
+// se nenhum supera, a rodada não tem prêmio. A API usa exatamente a mesma regra.
+
+import type { FairnessPrizeWeight } from '@/lib/types';
+
+// Resolução da comparação: probabilidades em milionésimos de 1%, evitando erros de ponto flutuante
+const PROBABILITY_SCALE = 1_000_000;
+const ROLL_BITS = 52;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export const sha256Hex = async (value: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+
+export const hmacSha256Hex = async (key: string, message: string) => {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+};
+
+// Número em [0, 1) derivado das seeds e do nonce
+export const computeRoll = async (serverSeed: string, clientSeed: string, nonce: number) => {
+  const digest = await hmacSha256Hex(serverSeed, `${clientSeed}:${nonce}`);
+  return parseInt(digest.slice(0, ROLL_BITS / 4), 16) / 2 ** ROLL_BITS;
+};
+
+const toScaledProbability = (probability: string) =>
+  Math.round((parseFloat(probability) || 0) * PROBABILITY_SCALE);
+
+// Prêmio sorteado para um roll, ou null quando a rodada não premia
+export const pickPrize = (roll: number, prizeTable: FairnessPrizeWeight[]) => {
+  const target = Math.floor(roll * 100 * PROBABILITY_SCALE);
+  let cumulative = 0;
+
+  for (const entry of prizeTable) {
+    cumulative += toScaledProbability(entry.probability);
+    if (target < cumulative) return entry.prizeId;
+  }
+  return null;
+};
+
+export interface RoundVerification {
+  hashMatches: boolean;
+  computedHash: string;
+  roll: number;
+  prizeId: string | null;
+}
+
+export const verifyRound = async (params: {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  prizeTable: FairnessPrizeWeight[];
+}): Promise<RoundVerification> => {
+  const computedHash = await sha256Hex(params.serverSeed);
+  const roll = await computeRoll(params.serverSeed, params.clientSeed, params.nonce);
+
+  return {
+    hashMatches: computedHash === params.serverSeedHash.toLowerCase(),
+    computedHash,
+    roll,
+    prizeId: pickPrize(roll, params.prizeTable),
+  };
+};
+
+// Client seed aleatória sugerida ao jogador
+export const generateClientSeed = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
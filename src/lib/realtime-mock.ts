@@ -0,0 +1,82 @@
+// Servidor mock de eventos em tempo real, usado apenas em desenvolvimento
+//
+// Emite os tickets de /api/dev/realtime/ticket, guarda as conexões SSE abertas em
+// /api/dev/realtime/stream e entrega os eventos publicados em /api/dev/realtime/emit.
+// O registro fica em globalThis para sobreviver ao hot reload das API routes.
+
+import { randomBytes } from 'crypto';
+import type { ServerResponse } from 'http';
+import { decodeJwt } from '@/lib/jwt';
+import type { RealtimeEventMap, RealtimeEventType } from '@/lib/realtime';
+
+interface RealtimeMockClient {
+  userId: string | null;
+  res: ServerResponse;
+}
+
+interface RealtimeMockTicket {
+  userId: string | null;
+  expiresAt: number;
+}
+
+// Validade do ticket: só precisa durar até o EventSource abrir a conexão
+export const REALTIME_TICKET_TTL = 10 * 1000;
+
+const globalForRealtime = globalThis as typeof globalThis & {
+  realtimeMockClients?: Set<RealtimeMockClient>;
+  realtimeMockTickets?: Map<string, RealtimeMockTicket>;
+};
+
+const clients = (globalForRealtime.realtimeMockClients ??= new Set());
+const tickets = (globalForRealtime.realtimeMockTickets ??= new Map());
+
+export const isRealtimeMockEnabled = () => process.env.NODE_ENV !== 'production';
+
+// Identificador do usuário no token (sub ou id), sem validar a assinatura
+export const getTokenUserId = (token: string) => {
+  const payload = decodeJwt(token);
+  const id = payload?.sub ?? payload?.id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+};
+
+export const createRealtimeMockTicket = (userId: string | null) => {
+  const now = Date.now();
+  tickets.forEach((ticket, key) => {
+    if (ticket.expiresAt <= now) tickets.delete(key);
+  });
+  const ticket = randomBytes(24).toString('hex');
+  tickets.set(ticket, { userId, expiresAt: now + REALTIME_TICKET_TTL });
+  return ticket;
+};
+
+// Ticket de uso único: some na primeira leitura; null se não existe ou expirou
+export const consumeRealtimeMockTicket = (ticket: string) => {
+  const entry = tickets.get(ticket);
+  tickets.delete(ticket);
+  return entry && entry.expiresAt > Date.now() ? entry : null;
+};
+
+export const addRealtimeMockClient = (client: RealtimeMockClient) => {
+  clients.add(client);
+  return () => {
+    clients.delete(client);
+  };
+};
+
+/**
+ * Envia o evento aos clientes do usuário informado, ou a todos quando userId é omitido.
+ * Devolve quantos clientes receberam o evento.
+ */
+export const emitRealtimeMockEvent = <T extends RealtimeEventType>(
+  type: T,
+  data: RealtimeEventMap[T],
+  userId?: string,
+) => {
+  let delivered = 0;
+  clients.forEach((client) => {
+    if (userId && client.userId !== userId) return;
+    client.res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    delivered += 1;
+  });
+  return delivered;
+};
@@ -0,0 +1,145 @@
+// Canal de eventos em tempo real (SSE) do jogador logado
+//
+// O stream fica em `${base}/stream?ticket=...`, onde base é NEXT_PUBLIC_REALTIME_URL ou
+// `/v1/api/events` na API. O ticket vem de `POST ${base}/ticket` com o JWT no cabeçalho;
+// é de uso único e expira em segundos, então o JWT nunca aparece em URLs nem em logs de
+// proxy. Em desenvolvimento, NEXT_PUBLIC_REALTIME_URL=/api/dev/realtime usa o servidor
+// mock local (src/pages/api/dev/realtime).
+// Cada mensagem é um evento SSE nomeado (`event: deposit.paid`) com `data` em JSON.
+
+import { apiUrl, type ApiEnvelope } from '@/lib/api';
+
+export interface RealtimeEventMap {
+  'deposit.paid': { deposit_id: string; payment_id?: string; amount: string };
+  'withdrawal.processed': { withdrawal_id: string; amount: string; status: 'APPROVED' | 'REJECTED'; reason?: string };
+  'balance.changed': { balance: string; bonus?: string; commission?: string };
+  'prize.redemption': { game_id: string; prize_name: string; choice: 'MONEY' | 'PRODUCT'; status: string };
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+
+export const REALTIME_EVENT_TYPES: RealtimeEventType[] = [
+  'deposit.paid',
+  'withdrawal.processed',
+  'balance.changed',
+  'prize.redemption',
+];
+
+// idle: sem sessão; polling: o stream falhou repetidamente e os dados são consultados periodicamente
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'polling';
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Falhas seguidas antes de recorrer ao polling; as tentativas de reconexão continuam
+const FAILURES_BEFORE_POLLING = 3;
+
+// Intervalo do polling usado enquanto o stream não está conectado
+export const REALTIME_POLL_INTERVAL = 10000;
+
+export const isRealtimeEventType = (value: unknown): value is RealtimeEventType =>
+  typeof value === 'string' && (REALTIME_EVENT_TYPES as string[]).includes(value);
+
+const getRealtimeBaseUrl = () => process.env.NEXT_PUBLIC_REALTIME_URL || apiUrl('/v1/api/events');
+
+export const getRealtimeStreamUrl = (ticket: string) =>
+  `${getRealtimeBaseUrl()}/stream?ticket=${encodeURIComponent(ticket)}`;
+
+// Troca o JWT por um ticket do stream; cada conexão (e reconexão) pede um novo
+const requestStreamTicket = async (token: string, signal: AbortSignal) => {
+  const response = await fetch(`${getRealtimeBaseUrl()}/ticket`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+    signal,
+  });
+  const payload: ApiEnvelope<{ ticket: string }> | null = await response.json().catch(() => null);
+  if (!response.ok || !payload?.data?.ticket) {
+    throw new Error(payload?.message || `Erro ao obter ticket do stream: ${response.status}`);
+  }
+  return payload.data.ticket;
+};
+
+const getReconnectDelay = (failures: number) => {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** Math.max(0, failures - 1));
+  // Espalha as reconexões de vários clientes depois de uma queda do servidor
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+interface RealtimeConnectionOptions {
+  token: string;
+  onEvent: <T extends RealtimeEventType>(type: T, data: RealtimeEventMap[T]) => void;
+  onStatusChange: (status: RealtimeStatus) => void;
+}
+
+/**
+ * Abre o stream de eventos e reconecta com backoff exponencial quando ele cai.
+ * Devolve a função que encerra a conexão e cancela reconexões pendentes.
+ */
+export const connectRealtime = ({ token, onEvent, onStatusChange }: RealtimeConnectionOptions) => {
+  if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    onStatusChange('polling');
+    return () => {};
+  }
+
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let closed = false;
+  const ticketController = new AbortController();
+
+  const scheduleReconnect = () => {
+    failures += 1;
+    onStatusChange(failures >= FAILURES_BEFORE_POLLING ? 'polling' : 'reconnecting');
+    reconnectTimer = setTimeout(open, getReconnectDelay(failures));
+  };
+
+  const open = async () => {
+    onStatusChange(failures === 0 ? 'connecting' : failures >= FAILURES_BEFORE_POLLING ? 'polling' : 'reconnecting');
+
+    let ticket: string;
+    try {
+      ticket = await requestStreamTicket(token, ticketController.signal);
+    } catch (error) {
+      if (closed) return;
+      console.error('Erro ao obter ticket do stream:', error);
+      scheduleReconnect();
+      return;
+    }
+    if (closed) return;
+
+    source = new EventSource(getRealtimeStreamUrl(ticket));
+
+    source.onopen = () => {
+      failures = 0;
+      onStatusChange('connected');
+    };
+
+    REALTIME_EVENT_TYPES.forEach((type) => {
+      source?.addEventListener(type, (event) => {
+        try {
+          onEvent(type, JSON.parse((event as MessageEvent<string>).data));
+        } catch (error) {
+          console.error('Evento em tempo real inválido:', type, error);
+        }
+      });
+    });
+
+    // O EventSource reconecta sozinho sem backoff; a conexão é refeita aqui
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      if (closed) return;
+      scheduleReconnect();
+    };
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    ticketController.abort();
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    source?.close();
+    onStatusChange('idle');
+  };
+};
@@ -0,0 +1,403 @@
+// Conciliação entre o extrato do gateway PIX e os registros da plataforma
+//
+// O extrato é exportado do painel do gateway (CSV ou JSON) e casado com depósitos e
+// saques pelo id do pagamento; em seguida os valores são comparados. Registros só de
+// um dos lados, valores divergentes e ids repetidos são sinalizados para o financeiro.
+
+import { getWithdrawalStatus } from '@/lib/withdrawal';
+import type { Deposit, Withdrawal } from '@/lib/types';
+
+export type ReconciliationType = 'DEPOSIT' | 'WITHDRAWAL';
+
+export interface GatewayStatementEntry {
+  payment_id: string;
+  type: ReconciliationType;
+  amount: number;
+  status: string | null;
+  date: string | null;
+  // Linha do arquivo (CSV) ou posição na lista (JSON), para o financeiro localizar o lançamento
+  line: number;
+}
+
+export interface GatewayStatement {
+  entries: GatewayStatementEntry[];
+  // Linhas ignoradas por falta de id, valor ou tipo
+  errors: string[];
+}
+
+export type ReconciliationStatus =
+  | 'matched'
+  | 'amount_mismatch'
+  | 'status_mismatch'
+  | 'missing_in_platform'
+  | 'missing_in_gateway'
+  | 'duplicate';
+
+export interface PlatformRecord {
+  type: ReconciliationType;
+  record: Deposit | Withdrawal;
+  amount: number;
+  // Depósito pago ou saque aprovado
+  settled: boolean;
+}
+
+export interface ReconciliationItem {
+  status: ReconciliationStatus;
+  type: ReconciliationType;
+  payment_id: string;
+  gateway: GatewayStatementEntry | null;
+  platform: PlatformRecord | null;
+  difference: number;
+  detail: string;
+}
+
+export const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  matched: 'Conciliado',
+  amount_mismatch: 'Valor divergente',
+  status_mismatch: 'Status divergente',
+  missing_in_platform: 'Ausente na plataforma',
+  missing_in_gateway: 'Ausente no gateway',
+  duplicate: 'Duplicado',
+};
+
+export const RECONCILIATION_STATUS_COLORS: Record<ReconciliationStatus, string> = {
+  matched: 'bg-green-500/10 text-green-400 border-green-500/20',
+  amount_mismatch: 'bg-red-500/10 text-red-400 border-red-500/20',
+  status_mismatch: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  missing_in_platform: 'bg-red-500/10 text-red-400 border-red-500/20',
+  missing_in_gateway: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  duplicate: 'bg-purple-500/10 text-purple-400 border-purple-500/20',
+};
+
+export const RECONCILIATION_TYPE_LABELS: Record<ReconciliationType, string> = {
+  DEPOSIT: 'Depósito',
+  WITHDRAWAL: 'Saque',
+};
+
+// Diferença de arredondamento tolerada entre os valores (R$)
+export const AMOUNT_TOLERANCE = 0.01;
+
+// Nomes de coluna aceitos, já normalizados (minúsculas, sem acento e sem separadores)
+const COLUMN_ALIASES: Record<'payment_id' | 'type' | 'amount' | 'status' | 'date', string[]> = {
+  payment_id: ['paymentid', 'id', 'transactionid', 'txid', 'endtoendid', 'e2eid', 'externalid', 'idtransacao', 'identificador'],
+  type: ['type', 'tipo', 'direction', 'operation', 'operacao', 'kind', 'natureza'],
+  amount: ['amount', 'valor', 'value', 'total', 'grossamount', 'valorbruto'],
+  status: ['status', 'situacao', 'state'],
+  date: ['date', 'data', 'createdat', 'paidat', 'datahora', 'datetime', 'timestamp'],
+};
+
+const DEPOSIT_TYPES = ['deposit', 'deposito', 'cashin', 'pixin', 'in', 'credit', 'credito', 'entrada', 'charge', 'cobranca', 'recebimento'];
+const WITHDRAWAL_TYPES = ['withdrawal', 'withdraw', 'saque', 'cashout', 'pixout', 'out', 'debit', 'debito', 'saida', 'transfer', 'transferencia', 'payout'];
+
+const normalizeKey = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Converte valores como "1.234,56", "1234.56", "R$ 10,00" ou -25 em número.
+ * Com vírgula e ponto, o último separador é o decimal.
+ */
+export const parseStatementAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = value.replace(/[^0-9,.-]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) text = text.replace(/\./g, '').replace(',', '.');
+  else text = text.replace(/,/g, '');
+
+  const parsed = parseFloat(text);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseStatementType = (value: unknown, amount: number): ReconciliationType | null => {
+  const key = typeof value === 'string' ? normalizeKey(value) : '';
+  if (DEPOSIT_TYPES.includes(key)) return 'DEPOSIT';
+  if (WITHDRAWAL_TYPES.includes(key)) return 'WITHDRAWAL';
+  // Sem coluna de tipo, o sinal do valor indica a direção
+  if (!key) return amount < 0 ? 'WITHDRAWAL' : 'DEPOSIT';
+  return null;
+};
+
+const parseStatementDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  // dd/mm/aaaa [hh:mm[:ss]]
+  const brazilian = text.match(/^(\d{2})\/(\d{2})\/(\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  const date = brazilian
+    ? new Date(+brazilian[3], +brazilian[2] - 1, +brazilian[1], +(brazilian[4] || 0), +(brazilian[5] || 0), +(brazilian[6] || 0))
+    : new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Localiza em cada linha o valor das colunas conhecidas
+const toEntry = (row: Record<string, unknown>, line: number): GatewayStatementEntry | string => {
+  const fields: Partial<Record<keyof typeof COLUMN_ALIASES, unknown>> = {};
+  Object.entries(row).forEach(([column, value]) => {
+    const key = normalizeKey(column);
+    (Object.keys(COLUMN_ALIASES) as Array<keyof typeof COLUMN_ALIASES>).forEach((field) => {
+      if (fields[field] === undefined && COLUMN_ALIASES[field].includes(key)) fields[field] = value;
+    });
+  });
+
+  const paymentId = fields.payment_id === undefined || fields.payment_id === null ? '' : String(fields.payment_id).trim();
+  if (!paymentId) return `Linha ${line}: id do pagamento ausente`;
+
+  const amount = parseStatementAmount(fields.amount);
+  if (amount === null) return `Linha ${line}: valor inválido`;
+
+  const type = parseStatementType(fields.type, amount);
+  if (!type) return `Linha ${line}: tipo "${String(fields.type)}" não reconhecido`;
+
+  return {
+    payment_id: paymentId,
+    type,
+    amount: Math.abs(amount),
+    status: fields.status === undefined || fields.status === null || String(fields.status).trim() === '' ? null : String(fields.status).trim(),
+    date: parseStatementDate(fields.date),
+    line,
+  };
+};
+
+// Separa as colunas de uma linha CSV, respeitando aspas
+const splitCsvLine = (line: string, separator: string) => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+};
+
+const parseCsvRows = (text: string) => {
+  const lines = text.split(/\r?\n/);
+  const header = lines[0] || '';
+  // Extratos brasileiros costumam usar ";" porque a vírgula é o separador decimal
+  const separator = (header.match(/;/g) || []).length >= (header.match(/,/g) || []).length ? ';' : ',';
+  const columns = splitCsvLine(header, separator);
+
+  return lines.slice(1)
+    .map((line, index) => ({ line: index + 2, text: line }))
+    .filter(({ text: line }) => line.trim())
+    .map(({ line, text: content }) => {
+      const cells = splitCsvLine(content, separator);
+      const row: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        row[column] = cells[index];
+      });
+      return { line, row };
+    });
+};
+
+// Aceita uma lista de lançamentos ou um objeto com a lista em data, transactions ou items
+const parseJsonRows = (text: string) => {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed)
+    ? parsed
+    : [parsed?.data, parsed?.transactions, parsed?.items].find(Array.isArray);
+  if (!list) throw new Error('O JSON deve conter uma lista de lançamentos');
+  return (list as Array<Record<string, unknown>>).map((row, index) => ({ line: index + 1, row }));
+};
+
+/**
+ * Lê o extrato exportado pelo gateway. O formato é decidido pela extensão do
+ * arquivo ou, sem ela, pelo primeiro caractere do conteúdo.
+ */
+export const parseGatewayStatement = (text: string, filename = ''): GatewayStatement => {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  const isJson = /\.json$/i.test(filename) || (!/\.csv$/i.test(filename) && /^[[{]/.test(content));
+
+  let rows: Array<{ line: number; row: Record<string, unknown> }>;
+  try {
+    rows = isJson ? parseJsonRows(content) : parseCsvRows(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'formato desconhecido';
+    return { entries: [], errors: [`Não foi possível ler o arquivo: ${message}`] };
+  }
+
+  const entries: GatewayStatementEntry[] = [];
+  const errors: string[] = [];
+  rows.forEach(({ line, row }) => {
+    const entry = toEntry(row, line);
+    if (typeof entry === 'string') errors.push(entry);
+    else entries.push(entry);
+  });
+  return { entries, errors };
+};
+
+// Ids pelos quais o registro pode aparecer no extrato do gateway
+export const getPlatformPaymentIds = (record: Deposit | Withdrawal): string[] => {
+  const metadata = (record.metadata || {}) as Record<string, unknown>;
+  return [metadata.transactionId, metadata.paymentId, metadata.payment_id, metadata.end_to_end_id, record.id]
+    .filter((id): id is string => typeof id === 'string' && id.trim() !== '')
+    .map((id) => id.trim());
+};
+
+export const toPlatformRecords = (deposits: Deposit[], withdrawals: Withdrawal[]): PlatformRecord[] => [
+  ...deposits.map((deposit) => ({
+    type: 'DEPOSIT' as const,
+    record: deposit,
+    amount: parseFloat(deposit.amount) || 0,
+    settled: deposit.status,
+  })),
+  ...withdrawals.map((withdrawal) => ({
+    type: 'WITHDRAWAL' as const,
+    record: withdrawal,
+    amount: parseFloat(withdrawal.amount) || 0,
+    settled: getWithdrawalStatus(withdrawal) === 'PAID',
+  })),
+];
+
+// Status do gateway que indicam lançamento não liquidado
+const UNSETTLED_GATEWAY_STATUSES = ['pending', 'pendente', 'failed', 'falha', 'canceled', 'cancelled', 'cancelado', 'expired', 'expirado', 'refunded', 'estornado', 'rejected', 'recusado'];
+
+const isGatewaySettled = (entry: GatewayStatementEntry) =>
+  entry.status === null || !UNSETTLED_GATEWAY_STATUSES.includes(normalizeKey(entry.status));
+
+const formatAmount = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Dias cobertos pelo extrato (do início do primeiro ao fim do último); null quando os lançamentos não trazem data
+export const getStatementPeriod = (entries: GatewayStatementEntry[]) => {
+  const times = entries.filter((entry) => entry.date).map((entry) => new Date(entry.date as string).getTime());
+  if (times.length === 0) return null;
+  const from = new Date(Math.min(...times));
+  const to = new Date(Math.max(...times));
+  from.setHours(0, 0, 0, 0);
+  to.setHours(23, 59, 59, 999);
+  return { from: from.toISOString(), to: to.toISOString() };
+};
+
+// Data em que o registro foi liquidado na plataforma
+export const getSettledAt = (record: PlatformRecord) =>
+  record.type === 'DEPOSIT'
+    ? (record.record as Deposit).paid_at || record.record.created_at
+    : (record.record as Withdrawal).processed_at || record.record.created_at;
+
+/**
+ * Casa o extrato com os registros da plataforma. Registros liquidados da plataforma
+ * só contam como ausentes no gateway quando estão dentro do período do extrato.
+ */
+export const reconcile = (entries: GatewayStatementEntry[], records: PlatformRecord[]): ReconciliationItem[] => {
+  const items: ReconciliationItem[] = [];
+
+  const recordsById = new Map<string, PlatformRecord[]>();
+  records.forEach((record) => {
+    getPlatformPaymentIds(record.record).forEach((id) => {
+      const list = recordsById.get(id) || [];
+      if (!list.includes(record)) recordsById.set(id, [...list, record]);
+    });
+  });
+
+  const seenGatewayIds = new Set<string>();
+  const matchedRecords = new Set<PlatformRecord>();
+
+  entries.forEach((entry) => {
+    const base = { type: entry.type, payment_id: entry.payment_id, gateway: entry };
+
+    if (seenGatewayIds.has(entry.payment_id)) {
+      items.push({ ...base, status: 'duplicate', platform: null, difference: entry.amount, detail: `Id repetido no extrato (linha ${entry.line})` });
+      return;
+    }
+    seenGatewayIds.add(entry.payment_id);
+
+    const candidates = (recordsById.get(entry.payment_id) || []).filter((record) => record.type === entry.type);
+    if (candidates.length === 0) {
+      items.push({ ...base, status: 'missing_in_platform', platform: null, difference: entry.amount, detail: 'Lançamento sem registro correspondente' });
+      return;
+    }
+
+    const [platform, ...extra] = candidates;
+    matchedRecords.add(platform);
+    extra.forEach((record) => {
+      matchedRecords.add(record);
+      items.push({
+        ...base,
+        status: 'duplicate',
+        gateway: null,
+        platform: record,
+        difference: record.amount,
+        detail: `Mais de um registro na plataforma com este id (${record.record.id})`,
+      });
+    });
+
+    const difference = entry.amount - platform.amount;
+    if (Math.abs(difference) > AMOUNT_TOLERANCE) {
+      items.push({
+        ...base,
+        status: 'amount_mismatch',
+        platform,
+        difference,
+        detail: `Gateway ${formatAmount(entry.amount)} · plataforma ${formatAmount(platform.amount)}`,
+      });
+    } else if (isGatewaySettled(entry) !== platform.settled) {
+      items.push({
+        ...base,
+        status: 'status_mismatch',
+        platform,
+        difference: 0,
+        detail: platform.settled
+          ? `Liquidado na plataforma, "${entry.status}" no gateway`
+          : 'Liquidado no gateway, pendente na plataforma',
+      });
+    } else {
+      items.push({ ...base, status: 'matched', platform, difference: 0, detail: '' });
+    }
+  });
+
+  const period = getStatementPeriod(entries);
+  records
+    .filter((record) => record.settled && !matchedRecords.has(record))
+    .filter((record) => {
+      if (!period) return true;
+      const date = new Date(getSettledAt(record)).toISOString();
+      return date >= period.from && date <= period.to;
+    })
+    .forEach((record) => {
+      items.push({
+        status: 'missing_in_gateway',
+        type: record.type,
+        payment_id: getPlatformPaymentIds(record.record)[0],
+        gateway: null,
+        platform: record,
+        difference: -record.amount,
+        detail: 'Registro liquidado sem lançamento no extrato',
+      });
+    });
+
+  return items;
+};
+
+export const summarizeReconciliation = (items: ReconciliationItem[]) => {
+  const counts = Object.fromEntries(
+    (Object.keys(RECONCILIATION_STATUS_LABELS) as ReconciliationStatus[]).map((status) => [status, 0])
+  ) as Record<ReconciliationStatus, number>;
+  items.forEach((item) => {
+    counts[item.status] += 1;
+  });
+
+  return {
+    counts,
+    issues: items.length - counts.matched,
+    // Soma das diferenças (gateway − plataforma) dos itens com problema
+    difference: items.reduce((total, item) => total + item.difference, 0),
+  };
+};
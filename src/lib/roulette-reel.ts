@@ -0,0 +1,125 @@
+// Montagem da faixa do modo roleta a partir do resultado do servidor
+
+import type { ScratchGridPrize, ScratchGridResult } from '@/lib/scratch-grid';
+
+export type RouletteRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+// Casa da faixa. prize === null representa uma casa vazia ("sem prêmio")
+export interface RouletteReelCell {
+  index: number;
+  prize: ScratchGridPrize | null;
+  rarity: RouletteRarity;
+  isWinning: boolean;
+}
+
+export interface RouletteReel {
+  cells: RouletteReelCell[];
+  // Casa que fica sob o ponteiro ao fim do giro
+  stopIndex: number;
+  // Desvio da parada dentro da própria casa (entre -0.5 e 0.5), só visual
+  jitter: number;
+}
+
+export const ROULETTE_REEL_LENGTH = 60;
+
+// Casas após a parada, para que o lado direito da janela nunca fique vazio
+export const ROULETTE_REEL_TAIL = 8;
+
+// Quantidade de casas visíveis ao mesmo tempo, usada para dimensionar cada casa
+export const ROULETTE_VISIBLE_CELLS = 5;
+
+const MIN_CELL_WIDTH = 48;
+const MAX_CELL_WIDTH = 140;
+
+// Repetições de cada raridade na faixa (mais comum = mais repetições)
+const RARITY_WEIGHTS: Record<RouletteRarity, number> = {
+  common: 8,
+  rare: 4,
+  epic: 2,
+  legendary: 1,
+};
+
+// Peso das casas vazias entre os enfeites, para que a casa de derrota não seja a única
+const EMPTY_CELL_WEIGHT = RARITY_WEIGHTS.common;
+
+export const getPrizeValue = (prize: ScratchGridPrize) =>
+  parseFloat((prize.type === 'MONEY' ? prize.value : prize.redemption_value) || '0');
+
+export const getRarityFromValue = (value: number): RouletteRarity => {
+  if (value >= 1000) return 'legendary';
+  if (value >= 100) return 'epic';
+  if (value >= 10) return 'rare';
+  return 'common';
+};
+
+export const RARITY_COLORS: Record<RouletteRarity, string> = {
+  legendary: 'from-yellow-500 to-yellow-600 border-yellow-400',
+  epic: 'from-purple-500 to-purple-600 border-purple-400',
+  rare: 'from-blue-500 to-blue-600 border-blue-400',
+  common: 'from-gray-500 to-gray-600 border-gray-400',
+};
+
+const getCellRarity = (prize: ScratchGridPrize | null): RouletteRarity =>
+  prize ? getRarityFromValue(getPrizeValue(prize)) : 'common';
+
+/**
+ * Gera a faixa da roleta com o prêmio do resultado sempre na casa de parada.
+ * Em rodadas sem prêmio a casa de parada fica vazia; as demais casas são
+ * enfeites sorteados de acordo com a raridade de cada prêmio.
+ */
+export const buildRouletteReel = (
+  prizes: ScratchGridPrize[],
+  result: ScratchGridResult,
+  length = ROULETTE_REEL_LENGTH
+): RouletteReel => {
+  const uniquePrizes = prizes.filter((prize, index, list) =>
+    list.findIndex(p => p.id === prize.id) === index
+  );
+
+  const pool: (ScratchGridPrize | null)[] = Array(EMPTY_CELL_WEIGHT).fill(null);
+  uniquePrizes.forEach((prize) => {
+    for (let i = 0; i < RARITY_WEIGHTS[getCellRarity(prize)]; i++) {
+      pool.push(prize);
+    }
+  });
+
+  // O prêmio exibido vem da própria resposta quando não está mais na lista da raspadinha
+  const winningPrize = result.isWinner && result.prize
+    ? uniquePrizes.find(prize => prize.id === result.prize?.id) || result.prize
+    : null;
+
+  const stopIndex = Math.max(0, length - 1 - ROULETTE_REEL_TAIL);
+
+  const cells = Array.from({ length }, (_, index): RouletteReelCell => {
+    const prize = index === stopIndex
+      ? winningPrize
+      : pool[Math.floor(Math.random() * pool.length)];
+
+    return {
+      index,
+      prize,
+      rarity: getCellRarity(prize),
+      isWinning: index === stopIndex && !!winningPrize,
+    };
+  });
+
+  return { cells, stopIndex, jitter: Math.random() - 0.5 };
+};
+
+// Largura de cada casa para a janela visível da roleta
+export const getReelCellWidth = (viewportWidth: number, visibleCells = ROULETTE_VISIBLE_CELLS) =>
+  Math.min(MAX_CELL_WIDTH, Math.max(MIN_CELL_WIDTH, Math.floor(viewportWidth / visibleCells)));
+
+/**
+ * Deslocamento da faixa que centraliza a casa de parada sob o ponteiro.
+ * `jitter` (entre -0.5 e 0.5) desloca a parada dentro da própria casa.
+ */
+export const getReelOffset = (
+  stopIndex: number,
+  cellWidth: number,
+  viewportWidth: number,
+  jitter = 0
+) => {
+  const withinCell = Math.max(-0.4, Math.min(0.4, jitter)) * cellWidth;
+  return stopIndex * cellWidth + cellWidth / 2 + withinCell - viewportWidth / 2;
+};
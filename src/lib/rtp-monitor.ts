@@ -0,0 +1,131 @@
+// Monitoramento do desvio entre o RTP atual e o alvo de cada raspadinha
+//
+// O RTP observado oscila naturalmente em torno do teórico, mais quanto menos jogos
+// houver. A faixa de confiança usa o desvio padrão do pagamento de uma rodada,
+// calculado pela tabela de prêmios: alvo ± 1,96·σ/√jogos (95%). Só gera alerta o
+// desvio que passa da tolerância configurada e fica fora dessa faixa, para que
+// raspadinhas com poucos jogos ou prêmios altos não disparem alertas à toa.
+
+import { getActivePrizeDrafts, getPrizePayout, toPrizeDraft } from '@/lib/prize-table';
+import type { RtpHistoryPoint, RtpMonitorSettings, ScratchCard } from '@/lib/types';
+
+export type RtpDriftLevel = 'ok' | 'insufficient_data' | 'drifting' | 'critical';
+
+export interface RtpDriftStatus {
+  level: RtpDriftLevel;
+  currentRtp: number;
+  targetRtp: number;
+  // Diferença entre o atual e o alvo, em pontos percentuais
+  deviation: number;
+  band: { low: number; high: number };
+  games: number;
+}
+
+export interface RtpAlert {
+  // Muda quando o nível muda, para que um alerta dispensado volte se piorar
+  key: string;
+  cardId: string;
+  cardName: string;
+  level: 'drifting' | 'critical';
+  message: string;
+}
+
+export interface RtpChartPoint {
+  date: string;
+  rtp: number;
+  target: number;
+  band: [number, number];
+  games: number;
+}
+
+export const DEFAULT_RTP_MONITOR_SETTINGS: RtpMonitorSettings = {
+  tolerance: 5,
+  min_games: 500,
+};
+
+export const RTP_DRIFT_LABELS: Record<RtpDriftLevel, string> = {
+  ok: 'Dentro do esperado',
+  insufficient_data: 'Poucos jogos',
+  drifting: 'Desviando',
+  critical: 'Crítico',
+};
+
+// Intervalo entre as verificações de alertas no painel
+export const RTP_ALERT_POLL_INTERVAL = 5 * 60 * 1000;
+
+const CONFIDENCE_Z = 1.96;
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+/**
+ * Desvio padrão do RTP de uma única rodada, em pontos percentuais. Usa os
+ * prêmios ativos da tabela atual.
+ */
+export const getRtpStandardDeviation = (card: Pick<ScratchCard, 'price' | 'prizes'>) => {
+  const price = parseFloat(card.price) || 0;
+  if (price <= 0) return 0;
+
+  const prizes = getActivePrizeDrafts((card.prizes || []).map(toPrizeDraft));
+  const mean = prizes.reduce((sum, prize) => sum + (parseFloat(prize.probability) / 100) * getPrizePayout(prize), 0);
+  const meanSquare = prizes.reduce(
+    (sum, prize) => sum + (parseFloat(prize.probability) / 100) * getPrizePayout(prize) ** 2,
+    0,
+  );
+  return (Math.sqrt(Math.max(0, meanSquare - mean ** 2)) / price) * 100;
+};
+
+export const getConfidenceBand = (targetRtp: number, standardDeviation: number, games: number) => {
+  const margin = games > 0 ? (CONFIDENCE_Z * standardDeviation) / Math.sqrt(games) : Infinity;
+  return { low: targetRtp - margin, high: targetRtp + margin };
+};
+
+export const getRtpDriftStatus = (card: ScratchCard, settings: RtpMonitorSettings): RtpDriftStatus => {
+  const currentRtp = parseFloat(card.current_rtp) || 0;
+  const targetRtp = parseFloat(card.target_rtp) || 0;
+  const games = card.total_games_played || 0;
+  const deviation = currentRtp - targetRtp;
+  const band = getConfidenceBand(targetRtp, getRtpStandardDeviation(card), games);
+  const status = { currentRtp, targetRtp, deviation, band, games };
+
+  if (games < settings.min_games) return { ...status, level: 'insufficient_data' };
+
+  const outsideBand = currentRtp < band.low || currentRtp > band.high;
+  if (!outsideBand || Math.abs(deviation) <= settings.tolerance) return { ...status, level: 'ok' };
+  // Pagando mais do que arrecada, ou com o dobro do desvio aceito
+  const critical = currentRtp >= 100 || Math.abs(deviation) > settings.tolerance * 2;
+  return { ...status, level: critical ? 'critical' : 'drifting' };
+};
+
+// Alertas das raspadinhas ativas que saíram da tolerância
+export const getRtpAlerts = (cards: ScratchCard[], settings: RtpMonitorSettings): RtpAlert[] =>
+  cards
+    .filter((card) => card.is_active)
+    .map((card) => ({ card, status: getRtpDriftStatus(card, settings) }))
+    .filter(({ status }) => status.level === 'drifting' || status.level === 'critical')
+    .map(({ card, status }) => ({
+      key: `${card.id}:${status.level}`,
+      cardId: card.id,
+      cardName: card.name,
+      level: status.level as RtpAlert['level'],
+      message: `RTP de ${formatPercentage(status.currentRtp)} contra alvo de ${formatPercentage(status.targetRtp)} em ${status.games.toLocaleString('pt-BR')} jogos`,
+    }))
+    .sort((a, b) => Number(b.level === 'critical') - Number(a.level === 'critical'));
+
+// Série do gráfico: RTP acumulado de cada dia com a faixa de confiança para os jogos até ali
+export const buildRtpChart = (history: RtpHistoryPoint[], card: ScratchCard): RtpChartPoint[] => {
+  const target = parseFloat(card.target_rtp) || 0;
+  const standardDeviation = getRtpStandardDeviation(card);
+
+  return history
+    .filter((point) => point.games_played > 0)
+    .map((point) => {
+      const band = getConfidenceBand(target, standardDeviation, point.games_played);
+      return {
+        date: point.date,
+        rtp: parseFloat(point.rtp) || 0,
+        target,
+        band: [Math.max(0, band.low), band.high],
+        games: point.games_played,
+      };
+    });
+};
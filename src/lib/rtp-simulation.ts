@@ -0,0 +1,226 @@
+// Simulação de Monte Carlo da tabela de prêmios de uma raspadinha
+//
+// Cada rodada sorteia no máximo um prêmio, com as probabilidades da tabela (em %);
+// o restante é a chance de não ganhar nada. Os jogadores simulados fazem o mesmo
+// número de rodadas, o que permite ver a distribuição do resultado de cada um além
+// do lucro da casa no total. A simulação roda em um Web Worker
+// (src/workers/rtp-simulation.worker.ts) para não travar a página.
+
+import { RTP_TOLERANCE } from '@/lib/prize-table';
+
+export interface SimulationPrize {
+  name: string;
+  // Valor pago ao jogador: dinheiro ou valor de resgate do produto
+  payout: number;
+  // Chance por rodada, em %
+  probability: number;
+}
+
+export interface SimulationInput {
+  price: number;
+  prizes: SimulationPrize[];
+  players: number;
+  playsPerPlayer: number;
+}
+
+export interface SimulationStats {
+  totalProbability: number;
+  expectedPayout: number;
+  // RTP teórico em %; null sem preço válido
+  rtp: number | null;
+  // Prêmio com a maior fatia do pagamento esperado
+  dominantPrize: { name: string; share: number } | null;
+}
+
+export interface OutcomeBucket {
+  // Faixa do resultado líquido do jogador, em R$
+  from: number;
+  to: number;
+  players: number;
+}
+
+export interface ProfitPoint {
+  plays: number;
+  profit: number;
+}
+
+export interface PrizeHit {
+  name: string;
+  hits: number;
+  expectedHits: number;
+}
+
+export interface SimulationResult {
+  plays: number;
+  totalWagered: number;
+  totalPaid: number;
+  // RTP observado na simulação, em %
+  rtp: number;
+  houseProfit: number;
+  // Rodadas com algum prêmio, em %
+  hitRate: number;
+  // Jogadores que terminaram com lucro, em %
+  playersInProfit: number;
+  bestPlayer: number;
+  worstPlayer: number;
+  medianPlayer: number;
+  outcomes: OutcomeBucket[];
+  profitCurve: ProfitPoint[];
+  prizeHits: PrizeHit[];
+}
+
+export type SimulationMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: SimulationResult }
+  | { type: 'error'; message: string };
+
+// Limite de rodadas por simulação, para manter o worker em poucos segundos
+export const MAX_SIMULATED_PLAYS = 5_000_000;
+
+export const SIMULATION_PLAYER_OPTIONS = [100, 1_000, 10_000];
+export const SIMULATION_PLAYS_PER_PLAYER_OPTIONS = [10, 50, 100, 500];
+
+// Acima desta fatia do pagamento esperado um único prêmio domina o RTP
+export const DOMINANT_PRIZE_SHARE = 0.5;
+
+const OUTCOME_BUCKETS = 20;
+const PROFIT_CURVE_POINTS = 100;
+const PROGRESS_STEPS = 50;
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+export const getSimulationStats = (prizes: SimulationPrize[], price: number): SimulationStats => {
+  const totalProbability = prizes.reduce((sum, prize) => sum + prize.probability, 0);
+  const contributions = prizes.map((prize) => (prize.probability / 100) * prize.payout);
+  const expectedPayout = contributions.reduce((sum, value) => sum + value, 0);
+
+  let dominantPrize: SimulationStats['dominantPrize'] = null;
+  if (expectedPayout > 0) {
+    contributions.forEach((value, index) => {
+      const share = value / expectedPayout;
+      if (!dominantPrize || share > dominantPrize.share) dominantPrize = { name: prizes[index].name, share };
+    });
+  }
+
+  return {
+    totalProbability,
+    expectedPayout,
+    rtp: price > 0 ? (expectedPayout / price) * 100 : null,
+    dominantPrize,
+  };
+};
+
+// Alertas sobre a tabela de prêmios em relação ao RTP alvo
+export const getSimulationWarnings = (stats: SimulationStats, targetRtp: number, prizeCount: number) => {
+  const warnings: string[] = [];
+
+  if (stats.rtp === null) return ['Informe o preço da raspadinha para calcular o RTP'];
+  if (stats.totalProbability > 100) warnings.push('A soma das probabilidades passa de 100%; a simulação não é válida');
+  if (stats.rtp >= 100) {
+    warnings.push(`RTP teórico de ${formatPercentage(stats.rtp)}: a casa perde dinheiro no longo prazo`);
+  } else if (Math.abs(stats.rtp - targetRtp) > RTP_TOLERANCE) {
+    warnings.push(
+      `RTP teórico de ${formatPercentage(stats.rtp)} está ${stats.rtp > targetRtp ? 'acima' : 'abaixo'} do alvo de ${formatPercentage(targetRtp)}`,
+    );
+  }
+  if (prizeCount > 1 && stats.dominantPrize && stats.dominantPrize.share > DOMINANT_PRIZE_SHARE) {
+    warnings.push(
+      `${stats.dominantPrize.name || 'Um prêmio'} responde por ${formatPercentage(stats.dominantPrize.share * 100)} do pagamento esperado; o resultado real vai oscilar muito`,
+    );
+  }
+  return warnings;
+};
+
+// Índice do prêmio sorteado em uma rodada, ou -1 quando não há prêmio
+const drawPrize = (cumulative: Float64Array, roll: number) => {
+  if (roll >= cumulative[cumulative.length - 1]) return -1;
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (roll < cumulative[middle]) high = middle;
+    else low = middle + 1;
+  }
+  return low;
+};
+
+const buildOutcomeBuckets = (sorted: Float64Array): OutcomeBucket[] => {
+  const min = sorted[0];
+  // O topo é cortado no percentil 99 para que um grande prêmio não achate o gráfico
+  const max = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.99))];
+  if (max <= min) return [{ from: min, to: sorted[sorted.length - 1], players: sorted.length }];
+
+  const width = (max - min) / OUTCOME_BUCKETS;
+  const buckets: OutcomeBucket[] = Array.from({ length: OUTCOME_BUCKETS }, (_, index) => ({
+    from: min + index * width,
+    to: min + (index + 1) * width,
+    players: 0,
+  }));
+  buckets[buckets.length - 1].to = sorted[sorted.length - 1];
+
+  for (const value of sorted) {
+    buckets[Math.min(OUTCOME_BUCKETS - 1, Math.floor((value - min) / width))].players++;
+  }
+  return buckets;
+};
+
+export const runSimulation = (input: SimulationInput, onProgress?: (done: number, total: number) => void): SimulationResult => {
+  const { price, prizes, players, playsPerPlayer } = input;
+  const total = players * playsPerPlayer;
+  if (!(price > 0) || players < 1 || playsPerPlayer < 1) throw new Error('Parâmetros de simulação inválidos');
+  if (total > MAX_SIMULATED_PLAYS) throw new Error(`A simulação é limitada a ${MAX_SIMULATED_PLAYS.toLocaleString('pt-BR')} rodadas`);
+
+  const cumulative = new Float64Array(Math.max(prizes.length, 1));
+  prizes.reduce((sum, prize, index) => (cumulative[index] = sum + prize.probability), 0);
+  if (prizes.length === 0) cumulative[0] = 0;
+
+  const hits = new Array<number>(prizes.length).fill(0);
+  const nets = new Float64Array(players);
+  const profitCurve: ProfitPoint[] = [{ plays: 0, profit: 0 }];
+  const curveStep = Math.max(1, Math.floor(total / PROFIT_CURVE_POINTS));
+  const progressStep = Math.max(1, Math.floor(players / PROGRESS_STEPS));
+  let plays = 0;
+  let totalPaid = 0;
+  let winningPlays = 0;
+
+  for (let player = 0; player < players; player++) {
+    let paid = 0;
+    for (let play = 0; play < playsPerPlayer; play++) {
+      const index = prizes.length > 0 ? drawPrize(cumulative, Math.random() * 100) : -1;
+      if (index >= 0) {
+        hits[index]++;
+        paid += prizes[index].payout;
+        winningPlays++;
+      }
+      plays++;
+      if (plays % curveStep === 0) profitCurve.push({ plays, profit: plays * price - (totalPaid + paid) });
+    }
+    totalPaid += paid;
+    nets[player] = paid - playsPerPlayer * price;
+    if (onProgress && (player + 1) % progressStep === 0) onProgress(player + 1, players);
+  }
+
+  const totalWagered = total * price;
+  if (profitCurve[profitCurve.length - 1].plays !== total) profitCurve.push({ plays: total, profit: totalWagered - totalPaid });
+
+  const sorted = nets.slice().sort();
+  return {
+    plays: total,
+    totalWagered,
+    totalPaid,
+    rtp: (totalPaid / totalWagered) * 100,
+    houseProfit: totalWagered - totalPaid,
+    hitRate: (winningPlays / total) * 100,
+    playersInProfit: (nets.filter((value) => value > 0).length / players) * 100,
+    bestPlayer: sorted[sorted.length - 1],
+    worstPlayer: sorted[0],
+    medianPlayer: sorted[Math.floor(sorted.length / 2)],
+    outcomes: buildOutcomeBuckets(sorted),
+    profitCurve,
+    prizeHits: prizes.map((prize, index) => ({
+      name: prize.name,
+      hits: hits[index],
+      expectedHits: (prize.probability / 100) * total,
+    })),
+  };
+};
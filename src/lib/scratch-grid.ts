@@ -0,0 +1,90 @@
+// Montagem da grade 3x3 do modo raspadinha a partir do resultado do servidor
+
+// Prêmio mínimo necessário para desenhar um símbolo na grade
+export interface ScratchGridPrize {
+  id: string;
+  name: string;
+  type: string;
+  value: string;
+  product_name: string | null;
+  redemption_value: string | null;
+  image_url: string | null;
+}
+
+// Resultado mínimo retornado por /v1/api/scratchcards/play
+export interface ScratchGridResult {
+  isWinner: boolean;
+  prize: ScratchGridPrize | null;
+}
+
+// Célula da grade. prize === null representa um símbolo vazio ("sem prêmio")
+export interface ScratchGridCell {
+  index: number;
+  prize: ScratchGridPrize | null;
+  isWinning: boolean;
+}
+
+export const SCRATCH_GRID_SIZE = 9;
+
+// Quantidade de símbolos iguais que caracteriza uma vitória
+export const SCRATCH_MATCH_COUNT = 3;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Preenche `count` posições com prêmios "de enfeite", sem nunca repetir um
+// mesmo prêmio três vezes. Quando não há prêmios distintos suficientes, as
+// posições restantes ficam com símbolos vazios, que nunca contam como acerto.
+const fillDecoys = (decoys: ScratchGridPrize[], count: number): (ScratchGridPrize | null)[] => {
+  const pool: ScratchGridPrize[] = [];
+  shuffle(decoys).forEach((prize) => {
+    for (let i = 0; i < SCRATCH_MATCH_COUNT - 1; i++) {
+      pool.push(prize);
+    }
+  });
+
+  const filled: (ScratchGridPrize | null)[] = shuffle(pool).slice(0, count);
+  while (filled.length < count) {
+    filled.push(null);
+  }
+  return filled;
+};
+
+/**
+ * Gera a grade 3x3 da raspadinha de forma que existam exatamente três
+ * símbolos iguais somente quando `result.isWinner` for verdadeiro.
+ */
+export const buildScratchGrid = (
+  prizes: ScratchGridPrize[],
+  result: ScratchGridResult
+): ScratchGridCell[] => {
+  const activePrizes = prizes.filter((prize, index, list) =>
+    list.findIndex(p => p.id === prize.id) === index
+  );
+
+  let symbols: (ScratchGridPrize | null)[];
+  let winningPrize: ScratchGridPrize | null = null;
+
+  if (result.isWinner && result.prize) {
+    winningPrize = activePrizes.find(prize => prize.id === result.prize?.id) || result.prize;
+    const decoys = activePrizes.filter(prize => prize.id !== winningPrize?.id);
+    symbols = [
+      ...Array(SCRATCH_MATCH_COUNT).fill(winningPrize),
+      ...fillDecoys(decoys, SCRATCH_GRID_SIZE - SCRATCH_MATCH_COUNT),
+    ];
+  } else {
+    symbols = fillDecoys(activePrizes, SCRATCH_GRID_SIZE);
+  }
+
+  return shuffle(symbols).map((prize, index) => ({
+    index,
+    prize,
+    isWinning: !!winningPrize && prize?.id === winningPrize.id,
+  }));
+};
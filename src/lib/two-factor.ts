@@ -0,0 +1,54 @@
+// Verificação em duas etapas (TOTP) do login administrativo.
+// O segredo e os códigos de recuperação ficam na API; aqui só há o estado do fluxo no navegador.
+
+import type { LoginResult, TwoFactorChallenge } from '@/lib/types';
+
+// Quantidade de dígitos gerados pelos apps autenticadores
+export const TWO_FACTOR_CODE_LENGTH = 6;
+
+export const TWO_FACTOR_CHALLENGE_PATH = '/v2/administrator/2fa';
+export const TWO_FACTOR_SETTINGS_PATH = '/v2/administrator/security';
+
+const CHALLENGE_KEY = 'admin_2fa_challenge';
+
+interface PendingChallenge {
+  challenge_token: string;
+  redirect: string;
+}
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge =>
+  'two_factor_required' in result && result.two_factor_required === true;
+
+/**
+ * Guarda o desafio entre a página de login e a de verificação. Fica no
+ * sessionStorage para não expor o token na URL nem sobreviver ao fechamento da aba.
+ */
+export const savePendingChallenge = (challenge: PendingChallenge) => {
+  sessionStorage.setItem(CHALLENGE_KEY, JSON.stringify(challenge));
+};
+
+export const getPendingChallenge = (): PendingChallenge | null => {
+  const saved = sessionStorage.getItem(CHALLENGE_KEY);
+  if (!saved) return null;
+
+  try {
+    const challenge = JSON.parse(saved);
+    return typeof challenge?.challenge_token === 'string' ? challenge : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearPendingChallenge = () => {
+  sessionStorage.removeItem(CHALLENGE_KEY);
+};
+
+// Conteúdo do arquivo .txt oferecido para guardar os códigos de recuperação
+export const formatRecoveryCodesFile = (codes: string[], appName?: string) =>
+  [
+    `Códigos de recuperação${appName ? ` - ${appName}` : ''}`,
+    'Cada código pode ser usado uma única vez no lugar do código do aplicativo autenticador.',
+    '',
+    ...codes,
+    '',
+  ].join('\n');
@@ -0,0 +1,714 @@
+// Tipos de domínio compartilhados entre páginas, componentes e o cliente da API
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+// Carteira
+export interface Wallet {
+  id: string;
+  userId: string;
+  balance: string;
+  bonus?: string;
+  commission?: string;
+  // Valor que ainda precisa ser apostado para liberar o bônus
+  rollover?: string;
+  // Exigência total de apostas do bônus ativo (rollover inicial)
+  rollover_total?: string;
+  currency: string;
+  symbol: string;
+  status: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InviteCode {
+  id: string;
+  userId: string;
+  code: string;
+  commission_rate: string;
+  total_invites: number;
+  total_commission: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Papéis do painel administrativo (ver src/lib/permissions.ts)
+export type AdminRole = 'owner' | 'finance' | 'support' | 'content';
+
+// Usuário autenticado (retornado pelo login e por /users/profile)
+export interface User {
+  id: string;
+  email: string;
+  phone: string;
+  cpf: string;
+  username: string;
+  full_name: string;
+  is_admin: boolean;
+  admin_roles?: AdminRole[];
+  two_factor_enabled?: boolean;
+  total_scratchs: number;
+  total_wins: number;
+  total_losses: number;
+  total_deposit: string;
+  total_withdraw: string;
+  created_at: string;
+  updated_at: string;
+  wallet: Wallet[];
+  inviteCode: InviteCode;
+}
+
+export interface AuthSession {
+  user: User;
+  token: string;
+}
+
+// Verificação em duas etapas (TOTP) do painel administrativo
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+}
+
+// Resposta do login: sessão completa ou desafio do segundo fator
+export type LoginResult = AuthSession | TwoFactorChallenge;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+}
+
+// Raspadinhas
+export type PrizeType = 'MONEY' | 'PRODUCT';
+
+export type GameMode = 'ROULETTE' | 'SCRATCH';
+
+export interface Prize {
+  id: string;
+  scratchCardId: string;
+  name: string;
+  description: string;
+  type: string;
+  value: string;
+  product_name: string | null;
+  redemption_value: string | null;
+  image_url: string | null;
+  probability: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScratchCard {
+  id: string;
+  name: string;
+  description: string;
+  price: string;
+  image_url: string;
+  is_active: boolean;
+  is_featured?: boolean;
+  target_rtp: string;
+  current_rtp: string;
+  total_revenue: string;
+  total_payouts: string;
+  total_games_played: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  game_mode?: GameMode;
+  prizes: Prize[];
+  _count?: {
+    games: number;
+  };
+}
+
+// Evolução diária do RTP de uma raspadinha; valores acumulados até o fim de cada dia
+export interface RtpHistoryPoint {
+  date: string;
+  games_played: number;
+  total_revenue: string;
+  total_payouts: string;
+  rtp: string;
+}
+
+// Limites do monitoramento de RTP, iguais para todas as raspadinhas
+export interface RtpMonitorSettings {
+  // Desvio aceito entre o RTP atual e o alvo, em pontos percentuais
+  tolerance: number;
+  // Jogos necessários antes de avaliar o desvio
+  min_games: number;
+}
+
+// Desempenho de uma raspadinha, agregado pela API por dia
+export interface ScratchCardDailyStats {
+  date: string;
+  games_played: number;
+  revenue: string;
+  payouts: string;
+  unique_players: number;
+}
+
+// Saídas de cada prêmio no período; prêmios sem saída podem não aparecer
+export interface ScratchCardPrizeHits {
+  prize_id: string;
+  hits: number;
+  total_paid: string;
+}
+
+export interface ScratchCardPlayerStats {
+  user: UserSummary;
+  games_played: number;
+  total_bet: string;
+  total_won: string;
+  biggest_win: string;
+  last_played_at: string;
+}
+
+export interface ScratchCardAnalytics {
+  daily: ScratchCardDailyStats[];
+  prize_hits: ScratchCardPrizeHits[];
+  // Jogadores distintos no período inteiro (não é a soma dos dias)
+  unique_players: number;
+  top_winners: ScratchCardPlayerStats[];
+}
+
+// Resumo da raspadinha embutido em jogos e resgates
+export interface ScratchCardSummary {
+  id: string;
+  name: string;
+  price: string;
+  image_url: string;
+}
+
+// Jogos
+export interface GamePrize {
+  id: string;
+  name: string;
+  type: string;
+  value: string;
+  product_name: string | null;
+  redemption_value: string | null;
+  image_url: string;
+  description?: string;
+}
+
+export interface GameResult {
+  isWinner: boolean;
+  amountWon: string;
+  prize: GamePrize | null;
+  scratchCard: ScratchCardSummary;
+}
+
+export interface Game {
+  id: string;
+  userId: string;
+  scratchCardId: string;
+  prizeId: string | null;
+  is_winner: boolean;
+  amount_won: string;
+  prize_type: string | null;
+  redemption_choice: boolean;
+  status: string;
+  played_at: string;
+  created_at: string;
+  updated_at: string;
+  scratchCard: ScratchCardSummary;
+  prize: GamePrize | null;
+  fairness?: FairnessProof | null;
+}
+
+// Jogo justo (provably fair): dados para recalcular uma rodada no navegador
+export interface FairnessPrizeWeight {
+  prizeId: string;
+  probability: string;
+}
+
+export interface FairnessProof {
+  server_seed_hash: string;
+  // Revelada somente depois que o par de seeds é trocado
+  server_seed: string | null;
+  client_seed: string;
+  nonce: number;
+  // Prêmios e probabilidades vigentes no momento da rodada, na ordem usada no sorteio
+  prize_table: FairnessPrizeWeight[];
+}
+
+export interface FairnessSeedPair {
+  server_seed_hash: string;
+  client_seed: string;
+  nonce: number;
+}
+
+export interface FairnessSeeds extends FairnessSeedPair {
+  // Par anterior, com a server seed revelada para conferência das rodadas antigas
+  previous: (FairnessSeedPair & { server_seed: string }) | null;
+}
+
+export interface PlayResult {
+  game: Game;
+  result: GameResult;
+}
+
+export interface PendingRedemptions {
+  pending_redemptions: Game[];
+  total_pending: number;
+}
+
+// Depósitos e saques
+export interface UserSummary {
+  id: string;
+  username: string;
+  email: string;
+}
+
+export interface Deposit {
+  id: string;
+  userId: string;
+  walletId: string;
+  amount: string;
+  currency: string;
+  symbol: string;
+  status: boolean;
+  payment_method: string;
+  metadata: {
+    qrCode?: string;
+    gateway: string;
+    transactionId: string;
+  };
+  paid_at: string | null;
+  // Preenchidos quando o depósito usou um código promocional
+  promo_code?: string | null;
+  bonus_amount?: string | null;
+  created_at: string;
+  updated_at: string;
+  user?: UserSummary;
+}
+
+export type DepositStatus = 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
+
+export interface DepositPayment {
+  deposit: Deposit;
+  payment: {
+    id: string;
+    qrCode: string;
+    [key: string]: unknown;
+  };
+}
+
+// Códigos promocionais: bônus proporcional ao depósito, limitado a max_bonus,
+// liberado após apostar (depósito + bônus) × rollover_multiplier
+export type PromoCodeKind = 'FIRST_DEPOSIT' | 'DEPOSIT';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  kind: PromoCodeKind;
+  percentage: string;
+  max_bonus: string;
+  rollover_multiplier: string;
+  min_deposit: string;
+  max_uses: number | null;
+  uses: number;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromoCodeInput {
+  code: string;
+  description: string | null;
+  kind: PromoCodeKind;
+  percentage: number;
+  max_bonus: number;
+  rollover_multiplier: number;
+  min_deposit: number;
+  max_uses: number | null;
+  expires_at: string | null;
+  is_active: boolean;
+}
+
+export type PixKeyType = 'CPF' | 'CNPJ' | 'EMAIL' | 'PHONE' | 'RANDOM';
+
+export type WithdrawalStatus = 'PENDING' | 'UNDER_REVIEW' | 'PAID' | 'REJECTED';
+
+export interface Withdrawal {
+  id: string;
+  userId: string;
+  walletId: string;
+  amount: string;
+  document: string;
+  pix_key: string;
+  pix_type: string;
+  currency: string;
+  symbol: string;
+  status: boolean;
+  payment_method: string;
+  metadata: any;
+  processed_at: string | null;
+  // Etapa da revisão; ausente em registros antigos (ver getWithdrawalStatus)
+  review_status?: WithdrawalStatus;
+  rejection_reason?: string | null;
+  reviewed_at?: string | null;
+  // Regra que aprovou o saque automaticamente; null quando a decisão foi manual
+  auto_approval_rule?: WithdrawalRuleRef | null;
+  created_at: string;
+  updated_at: string;
+  user?: UserSummary;
+}
+
+// Jogadores que já usaram uma chave PIX ou um documento, considerando todos os saques
+export interface WithdrawalKeyUsage {
+  field: 'pix_key' | 'document';
+  value: string;
+  user_ids: string[];
+}
+
+// Ajuste manual de saldo visto pela revisão de saques, sem os detalhes da auditoria
+export interface BalanceAdjustment {
+  user_id: string;
+  amount: string;
+  created_at: string;
+}
+
+// Regras de aprovação automática de saque, avaliadas pela API ao receber o pedido.
+// Condições nulas ficam de fora; o saque é aprovado pela primeira regra ativa
+// (menor priority) cujas condições sejam todas atendidas.
+export interface WithdrawalAutoApprovalRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number;
+  max_amount: string | null;
+  min_account_age_days: number | null;
+  no_adjustments_hours: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WithdrawalAutoApprovalRuleInput {
+  name: string;
+  enabled: boolean;
+  priority: number;
+  max_amount: number | null;
+  min_account_age_days: number | null;
+  no_adjustments_hours: number | null;
+}
+
+export type WithdrawalRuleRef = Pick<WithdrawalAutoApprovalRule, 'id' | 'name'>;
+
+export interface FinancialHistory {
+  summary: {
+    total_deposits: string;
+    total_withdraws: string;
+    pending_withdraws: string;
+  };
+  deposits: Deposit[];
+  withdraws: Withdrawal[];
+}
+
+// Afiliados
+export interface InvitedUser {
+  id?: string;
+  name: string;
+  email: string;
+  status: string;
+  created_at: string;
+  [key: string]: any;
+}
+
+export interface AffiliatesData {
+  stats: {
+    total_invites: number;
+    total_commission: string;
+    active_invites: number;
+  };
+  invitedUsers: InvitedUser[];
+}
+
+// Configurações da plataforma (/v1/api/setting retorna uma lista com um registro)
+export interface Setting {
+  id?: string;
+  plataform_name?: string;
+  plataform_description?: string;
+  plataform_logo?: string | null;
+  plataform_banner?: string | null;
+  plataform_banner_2?: string | null;
+  plataform_banner_3?: string | null;
+  register_banner?: string | null;
+  login_banner?: string | null;
+  deposit_banner?: string | null;
+  // Limites de saque (ver src/lib/withdrawal.ts)
+  withdraw_min_amount?: string | null;
+  withdraw_max_amount?: string | null;
+  withdraw_daily_limit?: string | null;
+  pluggou_api_key?: string;
+  pluggou_organization_id?: string;
+  pluggou_base_url?: string;
+  [key: string]: any;
+}
+
+export interface PluggouCredentials {
+  pluggou_api_key: string;
+  pluggou_organization_id: string;
+  pluggou_base_url: string;
+}
+
+// Gateways PIX cadastrados no painel (ver src/lib/payment-providers.ts)
+export type PaymentProviderKind = 'pluggou' | 'pixup' | 'mock';
+
+export interface PaymentProviderTestResult {
+  ok: boolean;
+  latency_ms: number | null;
+  message: string;
+  checked_at: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  kind: PaymentProviderKind;
+  name: string;
+  enabled: boolean;
+  // Menor valor = usado primeiro
+  priority: number;
+  // Recebe os depósitos quando os gateways de maior prioridade estão indisponíveis
+  failover: boolean;
+  // Campos secretos voltam mascarados pela API
+  credentials: Record<string, string>;
+  last_test: PaymentProviderTestResult | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentProviderInput {
+  kind: PaymentProviderKind;
+  name: string;
+  enabled: boolean;
+  priority: number;
+  failover: boolean;
+  // Segredos omitidos mantêm o valor salvo
+  credentials: Record<string, string>;
+}
+
+// Rota pública usada pelo fluxo de depósito, sem credenciais
+export type PaymentRoute = Pick<PaymentProvider, 'id' | 'kind' | 'name' | 'priority' | 'failover'>;
+
+// Licença / GGR
+export interface License {
+  id: string;
+  credits: number;
+  credits_used: number;
+  credits_value: string;
+  ggr_percentage: string;
+  total_earnings: string;
+  is_active: boolean;
+}
+
+export interface LicenseUsage {
+  id: string;
+  userId: string;
+  licenseId: string;
+  scratchCardId: string;
+  credits_used: number;
+  createdAt: string;
+  updatedAt: string;
+  user: {
+    id: string;
+    username: string;
+    full_name: string;
+    email: string;
+  };
+  license: {
+    id: string;
+    credits: number;
+    credits_used: number;
+    credits_value: string;
+    ggr_percentage: string;
+  };
+  scratchCard: {
+    id: string;
+    name: string;
+    price: string;
+  };
+}
+
+// Administração
+export interface AdminUser {
+  id: string;
+  username: string;
+  email: string;
+  cpf: string;
+  full_name: string;
+  is_admin: boolean;
+  admin_roles?: AdminRole[];
+  is_active: boolean;
+  is_influencer: boolean;
+  created_at: string;
+  updated_at: string;
+  wallet: Array<{
+    balance: string;
+  }>;
+  _count: {
+    deposits: number;
+    withdraws: number;
+    games: number;
+    invitedUsers: number;
+  };
+  commission_rate?: number;
+}
+
+export interface AdminUserDetails {
+  id: string;
+  email: string;
+  phone: string;
+  cpf: string;
+  username: string;
+  full_name: string;
+  is_admin: boolean;
+  is_active?: boolean;
+  total_scratchs: number;
+  total_wins: number;
+  total_losses: number;
+  total_deposit: string;
+  total_withdraw: string;
+  inviteCode: {
+    code: string;
+    commission_rate: string;
+    total_invites: number;
+    total_commission: string;
+  } | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  invitedBy: string | null;
+  wallet: Array<{
+    balance: string;
+    bonus: string;
+    commission: string;
+    rollover: string;
+  }>;
+  deposits: any[];
+  withdraws: any[];
+  games: any[];
+  invitedUsers: any[];
+  inviter: {
+    id: string;
+    username: string;
+  } | null;
+  _count?: {
+    deposits: number;
+    withdraws: number;
+    games: number;
+    invitedUsers: number;
+  };
+}
+
+interface AmountCount {
+  amount: string;
+  count: number;
+}
+
+export interface AdminStats {
+  deposits: {
+    total: AmountCount;
+    pending: AmountCount;
+    approved: AmountCount;
+    rejected: AmountCount;
+  };
+  withdrawals: {
+    total: AmountCount;
+    pending: AmountCount;
+    approved: AmountCount;
+    rejected: AmountCount;
+  };
+  users: {
+    total: number;
+    today: number;
+    totalBalance: string;
+  };
+  affiliates: {
+    total: number;
+    today: number;
+    totalCommissions: number;
+  };
+  games: {
+    totalBet: string;
+    totalDistributed: string;
+    totalGames: number;
+    profit: number;
+  };
+  summary: {
+    totalRevenue: string;
+    totalCosts: string;
+    netProfit: number;
+    totalInWallets: string;
+  };
+}
+
+// Auditoria do painel administrativo
+export type AuditAction =
+  | 'user.balance_adjust'
+  | 'user.update'
+  | 'user.status_toggle'
+  | 'user.roles_update'
+  | 'affiliate.commission_edit'
+  | 'affiliate.influencer_toggle'
+  | 'withdrawal.approve'
+  | 'withdrawal.reject'
+  | 'scratchcard.update'
+  | 'scratchcard.feature_toggle'
+  | 'scratchcard.delete'
+  | 'settings.credentials_update'
+  | 'promocode.create'
+  | 'promocode.update'
+  | 'promocode.delete'
+  | 'withdrawal.auto_approve'
+  | 'withdrawal_rule.create'
+  | 'withdrawal_rule.update'
+  | 'withdrawal_rule.delete'
+  | 'payment_provider.create'
+  | 'payment_provider.update'
+  | 'payment_provider.delete'
+  | 'scratchcard.prizes_update'
+  | 'settings.rtp_monitor_update';
+
+export type AuditEntityType =
+  | 'user'
+  | 'withdrawal'
+  | 'scratchcard'
+  | 'setting'
+  | 'promocode'
+  | 'withdrawal_rule'
+  | 'payment_provider';
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  entity_label: string | null;
+  // null nas ações automáticas (withdrawal.auto_approve), registradas com a regra aplicada
+  admin: UserSummary | null;
+  rule?: WithdrawalRuleRef | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string;
+  ip: string | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  admin_id?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,177 @@
+// Pontuação de risco dos pedidos de saque exibida na fila de revisão do financeiro
+//
+// A pontuação (0 a 100) soma fatores independentes; cada fator guarda a explicação
+// mostrada ao revisor. É um apoio à decisão: nenhum saque é aprovado ou negado por ela.
+
+import type { AdminUserDetails, BalanceAdjustment, Withdrawal, WithdrawalKeyUsage } from '@/lib/types';
+
+export type WithdrawalRiskLevel = 'low' | 'medium' | 'high';
+
+export interface WithdrawalRiskSignals {
+  amount: number;
+  totalDeposit: number;
+  // Já sacado antes deste pedido
+  totalWithdraw: number;
+  accountCreatedAt: string;
+  // null quando o jogador nunca teve um depósito confirmado
+  gamesSinceLastDeposit: number | null;
+  // Outros jogadores que usaram a mesma chave PIX ou o mesmo documento; null quando não consultado
+  sharedPixKeyUsers: number | null;
+  sharedDocumentUsers: number | null;
+  // Ajustes manuais de saldo recentes; null quando não puderam ser consultados
+  recentAdjustments: number | null;
+}
+
+export interface WithdrawalRiskFactor {
+  id: 'ratio' | 'account_age' | 'games' | 'shared_pix' | 'shared_document' | 'adjustments';
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface WithdrawalRisk {
+  score: number;
+  level: WithdrawalRiskLevel;
+  factors: WithdrawalRiskFactor[];
+  // Sinais que não puderam ser consultados; a pontuação fica abaixo do real se algum deles pesaria
+  unverified: string[];
+}
+
+// Janela considerada para ajustes manuais de saldo
+export const RISK_ADJUSTMENT_WINDOW_DAYS = 7;
+
+export const WITHDRAWAL_RISK_LABELS: Record<WithdrawalRiskLevel, string> = {
+  low: 'Baixo',
+  medium: 'Médio',
+  high: 'Alto',
+};
+
+export const WITHDRAWAL_RISK_COLORS: Record<WithdrawalRiskLevel, string> = {
+  low: 'bg-green-500/10 text-green-400 border-green-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  high: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const getRiskLevel = (score: number): WithdrawalRiskLevel =>
+  score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low';
+
+const formatAmount = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+export const scoreWithdrawalRisk = (signals: WithdrawalRiskSignals, now = Date.now()): WithdrawalRisk => {
+  const factors: WithdrawalRiskFactor[] = [];
+
+  const withdrawn = signals.totalWithdraw + signals.amount;
+  if (signals.totalDeposit <= 0) {
+    factors.push({ id: 'ratio', label: 'Sem depósitos', points: 30, detail: `Saca ${formatAmount(withdrawn)} sem nenhum depósito` });
+  } else {
+    const ratio = withdrawn / signals.totalDeposit;
+    const detail = `Saques ${formatAmount(withdrawn)} / depósitos ${formatAmount(signals.totalDeposit)} (${ratio.toFixed(1)}x)`;
+    if (ratio > 3) factors.push({ id: 'ratio', label: 'Saque muito acima dos depósitos', points: 25, detail });
+    else if (ratio > 1.5) factors.push({ id: 'ratio', label: 'Saque acima dos depósitos', points: 15, detail });
+  }
+
+  const ageDays = (now - new Date(signals.accountCreatedAt).getTime()) / DAY;
+  const ageDetail = `Conta criada há ${ageDays < 1 ? `${Math.max(1, Math.round(ageDays * 24))}h` : `${Math.floor(ageDays)} dias`}`;
+  if (ageDays < 1) factors.push({ id: 'account_age', label: 'Conta criada hoje', points: 20, detail: ageDetail });
+  else if (ageDays < 7) factors.push({ id: 'account_age', label: 'Conta recente', points: 12, detail: ageDetail });
+  else if (ageDays < 30) factors.push({ id: 'account_age', label: 'Conta com menos de 30 dias', points: 5, detail: ageDetail });
+
+  if (signals.gamesSinceLastDeposit !== null) {
+    const detail = `${signals.gamesSinceLastDeposit} jogos desde o último depósito`;
+    if (signals.gamesSinceLastDeposit === 0) factors.push({ id: 'games', label: 'Não jogou após depositar', points: 20, detail });
+    else if (signals.gamesSinceLastDeposit < 5) factors.push({ id: 'games', label: 'Poucos jogos após depositar', points: 10, detail });
+  }
+
+  if (signals.sharedPixKeyUsers) {
+    factors.push({
+      id: 'shared_pix',
+      label: 'Chave PIX compartilhada',
+      points: 25,
+      detail: `Usada por mais ${signals.sharedPixKeyUsers} jogador(es)`,
+    });
+  }
+  if (signals.sharedDocumentUsers) {
+    factors.push({
+      id: 'shared_document',
+      label: 'Documento compartilhado',
+      points: 25,
+      detail: `Usado por mais ${signals.sharedDocumentUsers} jogador(es)`,
+    });
+  }
+
+  if (signals.recentAdjustments) {
+    factors.push({
+      id: 'adjustments',
+      label: 'Ajuste manual de saldo recente',
+      points: Math.min(30, 15 * signals.recentAdjustments),
+      detail: `${signals.recentAdjustments} ajuste(s) nos últimos ${RISK_ADJUSTMENT_WINDOW_DAYS} dias`,
+    });
+  }
+
+  const unverified: string[] = [];
+  if (signals.recentAdjustments === null) unverified.push('ajustes não verificados');
+  if (signals.sharedPixKeyUsers === null || signals.sharedDocumentUsers === null) {
+    unverified.push('chaves compartilhadas não verificadas');
+  }
+
+  const score = Math.min(100, factors.reduce((total, factor) => total + factor.points, 0));
+  return { score, level: getRiskLevel(score), factors: factors.sort((a, b) => b.points - a.points), unverified };
+};
+
+const toNumber = (value: string | number | null | undefined) => parseFloat(String(value ?? '0')) || 0;
+
+// Jogos feitos depois do último depósito confirmado, a partir dos detalhes do jogador
+export const getGamesSinceLastDeposit = (details: AdminUserDetails): number | null => {
+  const paidDeposits = (details.deposits || []).filter((deposit) => deposit.status);
+  if (paidDeposits.length === 0) return null;
+
+  const lastDepositAt = Math.max(...paidDeposits.map((deposit) => new Date(deposit.paid_at || deposit.created_at).getTime()));
+  return (details.games || []).filter((game) => new Date(game.played_at || game.created_at).getTime() > lastDepositAt).length;
+};
+
+export const normalizeWithdrawalKey = (value: string | null | undefined) => value?.trim().toLowerCase() || '';
+
+// Quantos outros jogadores usaram o mesmo valor no campo informado
+const countOtherUsers = (keyUsage: WithdrawalKeyUsage[] | null, withdrawal: Withdrawal, field: 'pix_key' | 'document') => {
+  if (keyUsage === null) return null;
+  const value = normalizeWithdrawalKey(withdrawal[field]);
+  if (!value) return 0;
+  const users = new Set(
+    keyUsage
+      .filter((entry) => entry.field === field && normalizeWithdrawalKey(entry.value) === value)
+      .flatMap((entry) => entry.user_ids)
+  );
+  users.delete(withdrawal.userId);
+  return users.size;
+};
+
+/**
+ * Sinais de um pedido. `keyUsage` vem da API e cobre todos os saques, para detectar
+ * chave PIX e documento compartilhados; `adjustments` são os ajustes de saldo na
+ * janela de risco. Ambos são null quando não puderam ser consultados.
+ */
+export const getWithdrawalRiskSignals = (
+  withdrawal: Withdrawal,
+  details: AdminUserDetails,
+  keyUsage: WithdrawalKeyUsage[] | null,
+  adjustments: BalanceAdjustment[] | null,
+): WithdrawalRiskSignals => {
+  const amount = toNumber(withdrawal.amount);
+  const totalWithdraw = toNumber(details.total_withdraw);
+
+  return {
+    amount,
+    // O total da API pode já incluir este pedido
+    totalWithdraw: withdrawal.status ? Math.max(0, totalWithdraw - amount) : totalWithdraw,
+    totalDeposit: toNumber(details.total_deposit),
+    accountCreatedAt: details.created_at,
+    gamesSinceLastDeposit: getGamesSinceLastDeposit(details),
+    sharedPixKeyUsers: countOtherUsers(keyUsage, withdrawal, 'pix_key'),
+    sharedDocumentUsers: countOtherUsers(keyUsage, withdrawal, 'document'),
+    recentAdjustments: adjustments === null
+      ? null
+      : adjustments.filter((adjustment) => adjustment.user_id === withdrawal.userId).length,
+  };
+};
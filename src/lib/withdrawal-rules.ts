@@ -0,0 +1,111 @@
+// Regras de aprovação automática de saque
+//
+// A API avalia as regras ao receber o pedido e registra na auditoria
+// (withdrawal.auto_approve) a regra aplicada. Aqui ficam a mesma avaliação, usada
+// no simulador do painel para mostrar quais saques passados cada regra teria aprovado.
+
+import type { BalanceAdjustment, WithdrawalAutoApprovalRule } from '@/lib/types';
+
+export interface WithdrawalRuleContext {
+  amount: number;
+  accountCreatedAt: string;
+  requestedAt: string;
+  // Datas dos ajustes manuais de saldo do jogador; null quando não puderam ser consultadas
+  adjustmentDates: string[] | null;
+}
+
+export interface WithdrawalRuleCondition {
+  id: 'max_amount' | 'min_account_age_days' | 'no_adjustments_hours';
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface WithdrawalRuleEvaluation {
+  matched: boolean;
+  conditions: WithdrawalRuleCondition[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const formatAmount = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Regras ativas na ordem em que a API as avalia
+export const sortWithdrawalRules = (rules: WithdrawalAutoApprovalRule[]) =>
+  [...rules].sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at));
+
+export const hasRuleConditions = (rule: Pick<WithdrawalAutoApprovalRule, 'max_amount' | 'min_account_age_days' | 'no_adjustments_hours'>) =>
+  rule.max_amount !== null || rule.min_account_age_days !== null || rule.no_adjustments_hours !== null;
+
+// Resumo das condições para a listagem de regras
+export const describeWithdrawalRule = (rule: WithdrawalAutoApprovalRule) => {
+  const parts: string[] = [];
+  if (rule.max_amount !== null) parts.push(`valor até ${formatAmount(parseFloat(rule.max_amount))}`);
+  if (rule.min_account_age_days !== null) parts.push(`conta com mais de ${rule.min_account_age_days} dias`);
+  if (rule.no_adjustments_hours !== null) parts.push(`sem ajustes de saldo nas últimas ${rule.no_adjustments_hours}h`);
+  return parts.length > 0 ? parts.join(' · ') : 'Sem condições';
+};
+
+/**
+ * Avalia as condições da regra no momento do pedido. Uma regra sem condições
+ * nunca aprova; sem dados de auditoria a condição de ajustes é considerada falha.
+ */
+export const evaluateWithdrawalRule = (
+  rule: WithdrawalAutoApprovalRule,
+  context: WithdrawalRuleContext,
+): WithdrawalRuleEvaluation => {
+  const conditions: WithdrawalRuleCondition[] = [];
+  const requestedAt = new Date(context.requestedAt).getTime();
+
+  if (rule.max_amount !== null) {
+    const maxAmount = parseFloat(rule.max_amount);
+    conditions.push({
+      id: 'max_amount',
+      label: `Valor até ${formatAmount(maxAmount)}`,
+      passed: context.amount <= maxAmount,
+      detail: `Pedido de ${formatAmount(context.amount)}`,
+    });
+  }
+
+  if (rule.min_account_age_days !== null) {
+    const ageDays = (requestedAt - new Date(context.accountCreatedAt).getTime()) / DAY;
+    conditions.push({
+      id: 'min_account_age_days',
+      label: `Conta com mais de ${rule.min_account_age_days} dias`,
+      passed: ageDays >= rule.min_account_age_days,
+      detail: `Conta tinha ${Math.max(0, Math.floor(ageDays))} dias`,
+    });
+  }
+
+  if (rule.no_adjustments_hours !== null) {
+    const windowStart = requestedAt - rule.no_adjustments_hours * HOUR;
+    const recent = context.adjustmentDates?.filter((date) => {
+      const time = new Date(date).getTime();
+      return time >= windowStart && time <= requestedAt;
+    }).length;
+    conditions.push({
+      id: 'no_adjustments_hours',
+      label: `Sem ajustes de saldo nas últimas ${rule.no_adjustments_hours}h`,
+      passed: recent === 0,
+      detail: recent === undefined ? 'Ajustes não verificados' : `${recent} ajuste(s) na janela`,
+    });
+  }
+
+  return {
+    matched: conditions.length > 0 && conditions.every((condition) => condition.passed),
+    conditions,
+  };
+};
+
+// Primeira regra ativa que aprovaria o pedido, ou null
+export const getMatchingWithdrawalRule = (rules: WithdrawalAutoApprovalRule[], context: WithdrawalRuleContext) =>
+  sortWithdrawalRules(rules).find((rule) => rule.enabled && evaluateWithdrawalRule(rule, context).matched) ?? null;
+
+// Datas dos ajustes de saldo de cada jogador
+export const groupAdjustmentDates = (adjustments: BalanceAdjustment[]) => {
+  const byUser = new Map<string, string[]>();
+  adjustments.forEach((adjustment) =>
+    byUser.set(adjustment.user_id, [...(byUser.get(adjustment.user_id) || []), adjustment.created_at]));
+  return byUser;
+};
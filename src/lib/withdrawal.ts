@@ -0,0 +1,86 @@
+// Regras do saque do jogador: limites configurados no painel e status de cada solicitação
+//
+// Os limites vêm de /v1/api/setting (withdraw_min_amount, withdraw_max_amount e
+// withdraw_daily_limit); valores vazios ou zerados significam "sem limite", exceto o
+// mínimo, que volta ao padrão. A API aplica as mesmas regras ao receber o pedido.
+
+import type { Setting, Withdrawal, WithdrawalStatus } from '@/lib/types';
+
+export const DEFAULT_WITHDRAW_MIN_AMOUNT = 10;
+
+export interface WithdrawalLimits {
+  min: number;
+  max: number | null;
+  daily: number | null;
+}
+
+const toLimit = (value: unknown) => {
+  const parsed = parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const getWithdrawalLimits = (setting: Setting | null | undefined): WithdrawalLimits => ({
+  min: toLimit(setting?.withdraw_min_amount) ?? DEFAULT_WITHDRAW_MIN_AMOUNT,
+  max: toLimit(setting?.withdraw_max_amount),
+  daily: toLimit(setting?.withdraw_daily_limit),
+});
+
+export const WITHDRAWAL_STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  PENDING: 'Aguardando análise',
+  UNDER_REVIEW: 'Em análise',
+  PAID: 'Pago',
+  REJECTED: 'Rejeitado',
+};
+
+export const WITHDRAWAL_STATUS_COLORS: Record<WithdrawalStatus, string> = {
+  PENDING: 'text-yellow-400',
+  UNDER_REVIEW: 'text-blue-400',
+  PAID: 'text-green-400',
+  REJECTED: 'text-red-400',
+};
+
+/**
+ * Status da solicitação. A API mais antiga só informa `status` (true = processado);
+ * rejeições vêm em `review_status` com o motivo em `rejection_reason`.
+ */
+export const getWithdrawalStatus = (withdrawal: Withdrawal): WithdrawalStatus => {
+  if (withdrawal.review_status) return withdrawal.review_status;
+  return withdrawal.status ? 'PAID' : 'PENDING';
+};
+
+// Pedido que ainda aguarda a decisão do financeiro
+export const isWithdrawalPending = (withdrawal: Withdrawal) => {
+  const status = getWithdrawalStatus(withdrawal);
+  return status === 'PENDING' || status === 'UNDER_REVIEW';
+};
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// Total já solicitado hoje, sem contar saques rejeitados
+export const getWithdrawnToday = (withdrawals: Withdrawal[], now = new Date()) =>
+  withdrawals
+    .filter((withdrawal) => getWithdrawalStatus(withdrawal) !== 'REJECTED' && isSameDay(new Date(withdrawal.created_at), now))
+    .reduce((total, withdrawal) => total + parseFloat(withdrawal.amount || '0'), 0);
+
+const formatAmount = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+/**
+ * Mensagem do primeiro limite violado pelo valor, ou null quando o saque é permitido.
+ */
+export const getWithdrawalAmountIssue = (
+  amount: number,
+  balance: number,
+  limits: WithdrawalLimits,
+  withdrawnToday: number,
+): string | null => {
+  if (!amount || amount <= 0) return 'Digite um valor válido para saque';
+  if (amount < limits.min) return `Valor mínimo para saque é ${formatAmount(limits.min)}`;
+  if (limits.max !== null && amount > limits.max) return `Valor máximo por saque é ${formatAmount(limits.max)}`;
+  if (amount > balance) return 'Saldo insuficiente';
+  if (limits.daily !== null && withdrawnToday + amount > limits.daily) {
+    const remaining = Math.max(0, limits.daily - withdrawnToday);
+    return `Limite diário de ${formatAmount(limits.daily)} atingido. Você ainda pode sacar ${formatAmount(remaining)} hoje`;
+  }
+  return null;
+};
@@ -0,0 +1,236 @@
+// Geração de planilhas XLSX no navegador, sem dependências
+//
+// Um .xlsx é um zip de arquivos XML. A planilha é montada linha a linha (as
+// exportações grandes chegam página por página) e compactada no modo "store",
+// sem compressão, que dispensa bibliotecas e é aceito pelo Excel e pelo LibreOffice.
+
+export type XlsxCellStyle = 'general' | 'integer' | 'decimal' | 'percent' | 'date';
+
+export type XlsxCellValue = string | number | Date | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  style: XlsxCellStyle;
+  // Largura em caracteres
+  width?: number;
+}
+
+// Índices de cellXfs em styles.xml
+const STYLE_INDEX: Record<XlsxCellStyle | 'header', number> = {
+  general: 0,
+  integer: 1,
+  decimal: 2,
+  percent: 3,
+  date: 4,
+  header: 5,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Caracteres de controle não são aceitos em XML
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Nome de planilha: até 31 caracteres e sem : \ / ? * [ ]
+const sanitizeSheetName = (name: string) => name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31).trim() || 'Dados';
+
+const getColumnLetter = (index: number) => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Datas viram o número de série do Excel no fuso do navegador, como exibidas no painel
+const toExcelDate = (date: Date) => (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+const buildCell = (ref: string, value: XlsxCellValue, style: XlsxCellStyle) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : `<c r="${ref}" s="${STYLE_INDEX.date}"><v>${toExcelDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}" s="${STYLE_INDEX[style]}"><v>${value}</v></c>` : '';
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+// CRC-32 do zip, calculado aos poucos sobre as partes da planilha
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, data: Uint8Array) => {
+  let c = crc;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return c;
+};
+
+interface ZipEntry {
+  name: string;
+  parts: Uint8Array[];
+}
+
+const buildZip = (entries: ZipEntry[], date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+  const output: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const size = entry.parts.reduce((sum, part) => sum + part.length, 0);
+    const crc = (entry.parts.reduce(updateCrc, 0xffffffff) ^ 0xffffffff) >>> 0;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(10, dosTime, true);
+    localView.setUint16(12, dosDate, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x02014b50, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(12, dosTime, true);
+    headerView.setUint16(14, dosDate, true);
+    headerView.setUint32(16, crc, true);
+    headerView.setUint32(20, size, true);
+    headerView.setUint32(24, size, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    output.push(local, ...(entry.parts as BlobPart[]));
+    central.push(header);
+    offset += local.length + size;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...output, ...central, end], { type: XLSX_MIME_TYPE });
+};
+
+/**
+ * Planilha de uma aba montada em partes: `addRows` pode ser chamado a cada página
+ * carregada e `finish` gera o arquivo.
+ */
+export const createXlsxWriter = (columns: XlsxColumn[], sheetName = 'Dados') => {
+  const encoder = new TextEncoder();
+  const letters = columns.map((_, index) => getColumnLetter(index));
+  let rowNumber = 1;
+
+  const cols = columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(column.style === 'date' ? 20 : 12, column.header.length + 4)}" customWidth="1"/>`)
+    .join('');
+  const headerRow = `<row r="1">${columns
+    .map((column, index) => `<c r="${letters[index]}1" t="inlineStr" s="${STYLE_INDEX.header}"><is><t>${escapeXml(column.header)}</t></is></c>`)
+    .join('')}</row>`;
+
+  const sheetParts: Uint8Array[] = [
+    encoder.encode(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      + `<cols>${cols}</cols><sheetData>${headerRow}`
+    ),
+  ];
+
+  return {
+    addRows: (rows: XlsxCellValue[][]) => {
+      if (rows.length === 0) return;
+      const xml = rows
+        .map((row) => {
+          rowNumber += 1;
+          const cells = row.map((value, index) => buildCell(`${letters[index]}${rowNumber}`, value, columns[index].style)).join('');
+          return `<row r="${rowNumber}">${cells}</row>`;
+        })
+        .join('');
+      sheetParts.push(encoder.encode(xml));
+    },
+    finish: () => {
+      const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${escapeXml(sanitizeSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+      return buildZip([
+        { name: '[Content_Types].xml', parts: [encoder.encode(CONTENT_TYPES_XML)] },
+        { name: '_rels/.rels', parts: [encoder.encode(ROOT_RELS_XML)] },
+        { name: 'xl/workbook.xml', parts: [encoder.encode(workbook)] },
+        { name: 'xl/_rels/workbook.xml.rels', parts: [encoder.encode(WORKBOOK_RELS_XML)] },
+        { name: 'xl/styles.xml', parts: [encoder.encode(STYLES_XML)] },
+        {
+          name: 'xl/worksheets/sheet1.xml',
+          parts: [...sheetParts, encoder.encode('</sheetData></worksheet>')],
+        },
+      ]);
+    },
+  };
+};
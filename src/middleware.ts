@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ADMIN_SESSION_COOKIE, verifyAdminSession } from '@/lib/admin-session';
+import { canAccessAdminPath, getDefaultAdminPath } from '@/lib/permissions';
+import { TWO_FACTOR_CHALLENGE_PATH, TWO_FACTOR_SETTINGS_PATH } from '@/lib/two-factor';
+
+const ADMIN_LOGIN_PATH = '/v2/administrator';
+
+// Etapas do login que acontecem antes de existir uma sessão administrativa
+const PUBLIC_ADMIN_PATHS = [TWO_FACTOR_CHALLENGE_PATH];
+
+// Bloqueia as páginas administrativas antes de qualquer HTML ou dado ser servido
+export async function middleware(request: NextRequest) {
+  if (PUBLIC_ADMIN_PATHS.includes(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = await verifyAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  if (session) {
+    // Sem 2FA ativado, só a tela de ativação fica liberada (as rotas /api/admin/session
+    // estão fora do matcher)
+    if (!session.two_factor && request.nextUrl.pathname !== TWO_FACTOR_SETTINGS_PATH) {
+      const setupUrl = request.nextUrl.clone();
+      setupUrl.pathname = TWO_FACTOR_SETTINGS_PATH;
+      setupUrl.search = '';
+      setupUrl.searchParams.set('setup', '1');
+      return NextResponse.redirect(setupUrl);
+    }
+
+    if (canAccessAdminPath(session.roles, request.nextUrl.pathname)) {
+      return NextResponse.next();
+    }
+
+    // Administrador sem o papel exigido pela página: volta para uma área permitida
+    const allowedUrl = request.nextUrl.clone();
+    allowedUrl.pathname = getDefaultAdminPath(session.roles);
+    allowedUrl.search = '';
+    return NextResponse.redirect(allowedUrl);
+  }
+
+  const loginUrl = request.nextUrl.clone();
+  loginUrl.pathname = ADMIN_LOGIN_PATH;
+  loginUrl.search = '';
+  loginUrl.searchParams.set('redirect', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
+
+export const config = {
+  // A página de login (/v2/administrator) continua pública
+  matcher: ['/v2/administrator/:path+'],
+};
@@ -2,6 +2,7 @@ import '@/styles/globals.css'
 import type { AppProps } from 'next/app'
 import { Toaster } from 'sonner'
 import { AuthProvider } from '@/contexts/AuthContext'
+import { RealtimeProvider } from '@/contexts/RealtimeContext'
 import Head from 'next/head'
 import { useEffect } from 'react'
 import { initFacebookPixel } from '@/lib/facebook-pixel'
@@ -30,17 +31,19 @@ export default function App({ Component, pageProps }: AppProps) {
 
   return (
     <AuthProvider>
-      <Head>
-        <title>{process.env.NEXT_PUBLIC_APP_NAME} - Raspadinhas Online com Prêmios Reais</title>
-        <meta name="viewport" content="width=device-width, initial-scale=1" />
-      </Head>
-      <Component {...pageProps} />
-      <Toaster 
-        position="top-center"
-        richColors
-        theme="dark"
-        closeButton
-      />
+      <RealtimeProvider>
+        <Head>
+          <title>{process.env.NEXT_PUBLIC_APP_NAME} - Raspadinhas Online com Prêmios Reais</title>
+          <meta name="viewport" content="width=device-width, initial-scale=1" />
+        </Head>
+        <Component {...pageProps} />
+        <Toaster 
+          position="top-center"
+          richColors
+          theme="dark"
+          closeButton
+        />
+      </RealtimeProvider>
     </AuthProvider>
   )
 }
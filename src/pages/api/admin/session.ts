@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { api, getErrorMessage } from "@/lib/api";
+import { getTokenExpiration } from "@/lib/jwt";
+import { getAdminRoles } from "@/lib/permissions";
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_MAX_AGE,
+  signAdminSession,
+} from "@/lib/admin-session";
+
+type Data = {
+  success: boolean;
+  message: string;
+};
+
+const buildCookie = (value: string, maxAge: number) =>
+  [
+    `${ADMIN_SESSION_COOKIE}=${value}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${maxAge}`,
+    process.env.NODE_ENV === "production" ? "Secure" : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+// POST: troca o token da API por um cookie de sessão administrativa
+// DELETE: remove o cookie (logout ou sessão expirada)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>,
+) {
+  if (req.method === "DELETE") {
+    res.setHeader("Set-Cookie", buildCookie("", 0));
+    return res.status(200).json({ success: true, message: "Sessão encerrada" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST, DELETE");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const token = typeof req.body?.token === "string" ? req.body.token : "";
+  if (!token) {
+    return res.status(400).json({ success: false, message: "Token não informado" });
+  }
+
+  try {
+    // O perfil é consultado na API para não confiar no que o navegador envia
+    const profile = await api.users.getProfile(token);
+    if (!profile.is_admin) {
+      return res.status(403).json({ success: false, message: "Acesso negado. Você não tem permissões de administrador." });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const tokenExpiration = getTokenExpiration(token);
+    const exp = tokenExpiration
+      ? Math.min(Math.floor(tokenExpiration / 1000), now + ADMIN_SESSION_MAX_AGE)
+      : now + ADMIN_SESSION_MAX_AGE;
+
+    const value = await signAdminSession({
+      sub: profile.id,
+      exp,
+      roles: getAdminRoles(profile),
+      two_factor: profile.two_factor_enabled === true,
+    });
+    if (!value) {
+      return res.status(500).json({ success: false, message: "ADMIN_SESSION_SECRET não configurado" });
+    }
+
+    res.setHeader("Set-Cookie", buildCookie(value, exp - now));
+    return res.status(200).json({ success: true, message: "Sessão iniciada" });
+  } catch (error) {
+    return res.status(401).json({ success: false, message: getErrorMessage(error, "Sessão inválida ou expirada") });
+  }
+}
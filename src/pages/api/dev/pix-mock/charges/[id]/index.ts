@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getPixMockCharge, isPixMockEnabled, type PixMockCharge } from "@/lib/pix-mock";
+
+type Data = {
+  success: boolean;
+  message: string;
+  data?: PixMockCharge;
+};
+
+// GET: status de uma cobrança simulada (somente desenvolvimento)
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (!isPixMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const charge = getPixMockCharge(String(req.query.id));
+  if (!charge) {
+    return res.status(404).json({ success: false, message: "Cobrança não encontrada" });
+  }
+  return res.status(200).json({ success: true, message: "Cobrança encontrada", data: charge });
+}
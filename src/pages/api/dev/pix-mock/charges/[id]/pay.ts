@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getPixMockCharge, isPixMockEnabled, markPixMockChargePaid, type PixMockCharge } from "@/lib/pix-mock";
+
+type Data = {
+  success: boolean;
+  message: string;
+  data?: PixMockCharge;
+};
+
+// POST: confirma o pagamento de uma cobrança simulada (somente desenvolvimento)
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (!isPixMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const id = String(req.query.id);
+  const existing = getPixMockCharge(id);
+  if (!existing) {
+    return res.status(404).json({ success: false, message: "Cobrança não encontrada" });
+  }
+  if (existing.status !== "PENDING") {
+    return res.status(409).json({ success: false, message: "Cobrança já finalizada", data: existing });
+  }
+
+  const charge = await markPixMockChargePaid(id);
+  return res.status(200).json({ success: true, message: "Pagamento confirmado", data: charge ?? undefined });
+}
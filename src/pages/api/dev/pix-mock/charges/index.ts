@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MOCK_PROVIDER_BEHAVIORS, type MockProviderBehavior } from "@/lib/payment-providers";
+import { createPixMockCharge, isPixMockEnabled, type PixMockCharge } from "@/lib/pix-mock";
+
+type Data = {
+  success: boolean;
+  message: string;
+  data?: PixMockCharge;
+};
+
+const isBehavior = (value: unknown): value is MockProviderBehavior =>
+  typeof value === "string" && value in MOCK_PROVIDER_BEHAVIORS;
+
+// POST { amount, behavior?, external_id?, user_id?, webhook_url? }: cria uma cobrança simulada (somente desenvolvimento)
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (!isPixMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const { amount, behavior = "manual", external_id, user_id, webhook_url } = req.body ?? {};
+  const value = parseFloat(String(amount));
+  if (!Number.isFinite(value) || value <= 0) {
+    return res.status(400).json({ success: false, message: "Valor inválido" });
+  }
+  if (!isBehavior(behavior)) {
+    return res.status(400).json({ success: false, message: "Comportamento inválido" });
+  }
+
+  // Simula o gateway fora do ar, para testar o failover
+  if (behavior === "fail") {
+    return res.status(503).json({ success: false, message: "Gateway simulado indisponível" });
+  }
+
+  const charge = createPixMockCharge({
+    amount: value,
+    behavior,
+    externalId: external_id ? String(external_id) : null,
+    userId: user_id ? String(user_id) : null,
+    webhookUrl: webhook_url ? String(webhook_url) : null,
+  });
+  return res.status(201).json({ success: true, message: "Cobrança criada", data: charge });
+}
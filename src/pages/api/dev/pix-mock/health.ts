@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isPixMockEnabled } from "@/lib/pix-mock";
+
+type Data = {
+  success: boolean;
+  message: string;
+  data?: { status: "ok" };
+};
+
+// GET: usado pelo botão "Testar conexão" do gateway simulado (somente desenvolvimento)
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (!isPixMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  return res.status(200).json({ success: true, message: "Gateway simulado disponível", data: { status: "ok" } });
+}
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isRealtimeEventType } from "@/lib/realtime";
+import { emitRealtimeMockEvent, isRealtimeMockEnabled } from "@/lib/realtime-mock";
+
+type Data = {
+  success: boolean;
+  message: string;
+  data?: { delivered: number };
+};
+
+// POST { type, data, userId? }: publica um evento para os clientes conectados ao mock (somente desenvolvimento)
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (!isRealtimeMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const { type, data, userId } = req.body ?? {};
+  if (!isRealtimeEventType(type)) {
+    return res.status(400).json({ success: false, message: "Tipo de evento inválido" });
+  }
+  if (!data || typeof data !== "object") {
+    return res.status(400).json({ success: false, message: "Dados do evento não informados" });
+  }
+
+  const delivered = emitRealtimeMockEvent(type, data, userId ? String(userId) : undefined);
+  return res.status(200).json({ success: true, message: "Evento enviado", data: { delivered } });
+}
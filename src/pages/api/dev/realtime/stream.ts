@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { addRealtimeMockClient, consumeRealtimeMockTicket, isRealtimeMockEnabled } from "@/lib/realtime-mock";
+
+// Mantém a conexão viva atrás de proxies que encerram streams ociosos
+const HEARTBEAT_INTERVAL = 15000;
+
+// GET: stream SSE do servidor mock de eventos em tempo real (somente desenvolvimento)
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!isRealtimeMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const ticket = consumeRealtimeMockTicket(typeof req.query.ticket === "string" ? req.query.ticket : "");
+  if (!ticket) {
+    return res.status(401).json({ success: false, message: "Ticket inválido ou expirado" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+  res.write(": conectado\n\n");
+
+  const removeClient = addRealtimeMockClient({ userId: ticket.userId, res });
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    removeClient();
+  });
+}
+
+// A resposta é um stream aberto; sem isso o Next avisa que a rota não respondeu
+export const config = {
+  api: {
+    responseLimit: false,
+    externalResolver: true,
+  },
+};
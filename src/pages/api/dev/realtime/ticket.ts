@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { REALTIME_TICKET_TTL, createRealtimeMockTicket, getTokenUserId, isRealtimeMockEnabled } from "@/lib/realtime-mock";
+
+type Data = {
+  success: boolean;
+  message: string;
+  data?: { ticket: string; expires_in: number };
+};
+
+// POST com Authorization: Bearer <token>: emite o ticket de uso único do stream (somente desenvolvimento)
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (!isRealtimeMockEnabled()) {
+    return res.status(404).json({ success: false, message: "Não encontrado" });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ success: false, message: "Método não permitido" });
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!token) {
+    return res.status(401).json({ success: false, message: "Token não informado" });
+  }
+
+  const ticket = createRealtimeMockTicket(getTokenUserId(token));
+  return res.status(200).json({
+    success: true,
+    message: "Ticket emitido",
+    data: { ticket, expires_in: REALTIME_TICKET_TTL / 1000 },
+  });
+}
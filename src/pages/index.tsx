@@ -6,7 +6,8 @@ import Footer from "@/components/footer";
 import { useRouter } from "next/router";
 import Winners from "@/components/winners";
 import { getAppColor, getAppGradient, getAppColorText, getAppColorSvg, getAppColorBorder } from '@/lib/colors';
-import { apiUrl } from '@/lib/api';
+import { api, ApiError } from '@/lib/api';
+import type { ScratchCard } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -14,48 +15,6 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 });
 
-interface ScratchCard {
-  id: string;
-  name: string;
-  description: string;
-  price: string;
-  image_url: string;
-  is_active: boolean;
-  is_featured: boolean;
-  target_rtp: string;
-  current_rtp: string;
-  total_revenue: string;
-  total_payouts: string;
-  total_games_played: number;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  prizes: Prize[];
-}
-
-interface Prize {
-  id: string;
-  scratchCardId: string;
-  name: string;
-  description: string;
-  type: string;
-  value: string;
-  product_name: string | null;
-  redemption_value: string | null;
-  image_url: string;
-  probability: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface ApiResponse {
-  success: boolean;
-  message: string;
-  data: ScratchCard[];
-  count: number;
-}
-
 export default function Home() {
   const router = useRouter();
   const [currentSlide, setCurrentSlide] = useState(0);
@@ -110,7 +69,7 @@ export default function Home() {
   };
 
   // Função para corrigir URLs das imagens
-  const fixImageUrl = (url: string) => {
+  const fixImageUrl = (url: string | null) => {
     if (!url) return '';
     return url
       .replace('raspa.ae', 'api.raspapixoficial.com')
@@ -122,16 +81,10 @@ export default function Home() {
   const fetchScratchCards = async () => {
     try {
       setLoading(true);
-      const response = await fetch(apiUrl('/v1/api/scratchcards'));
-      const data: ApiResponse = await response.json();
-      
-      if (data.success) {
-        setScratchCards(data.data.filter(card => card.is_active));
-      } else {
-        setError('Erro ao carregar raspadinhas');
-      }
+      const cards = await api.scratchCards.list();
+      setScratchCards(cards.filter(card => card.is_active));
     } catch (err) {
-      setError('Erro ao conectar com o servidor');
+      setError(err instanceof ApiError && err.kind === 'http' ? 'Erro ao carregar raspadinhas' : 'Erro ao conectar com o servidor');
       console.error('Erro ao buscar raspadinhas:', err);
     } finally {
       setLoading(false);
@@ -186,15 +139,9 @@ export default function Home() {
     const fetchBanners = async () => {
       setBannersLoading(true);
       try {
-        const response = await fetch(apiUrl('/v1/api/setting'));
-        const data = await response.json();
-        if (response.ok && data.data && data.data[0]) {
-          const s = data.data[0];
-          const arr = [s.plataform_banner, s.plataform_banner_2, s.plataform_banner_3].filter(Boolean);
-          setBanners(arr.length > 0 ? arr : ['/banner.webp', '/banner.webp', '/banner.webp']);
-        } else {
-          setBanners(['/banner.webp', '/banner.webp', '/banner.webp']);
-        }
+        const s = await api.settings.get();
+        const arr = [s.plataform_banner, s.plataform_banner_2, s.plataform_banner_3].filter((banner): banner is string => !!banner);
+        setBanners(arr.length > 0 ? arr : ['/banner.webp', '/banner.webp', '/banner.webp']);
       } catch {
         setBanners(['/banner.webp', '/banner.webp', '/banner.webp']);
       } finally {
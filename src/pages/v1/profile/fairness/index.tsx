@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { Poppins } from 'next/font/google';
+import { ArrowLeft, ShieldCheck, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import Header from '@/components/header';
+import Footer from '@/components/footer';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { getAppGradient } from '@/lib/colors';
+import { api, getErrorMessage } from '@/lib/api';
+import { verifyRound, type RoundVerification } from '@/lib/provably-fair';
+import type { FairnessPrizeWeight, Game, Prize, ScratchCard } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ['latin'],
+  weight: ['300', '400', '500', '600', '700'],
+});
+
+const inputClassName = 'w-full bg-neutral-700 border border-neutral-600 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-neutral-400';
+
+const FairnessVerifierPage: React.FC = () => {
+  const router = useRouter();
+  const { user, token, isLoading: authLoading } = useAuth();
+  const [game, setGame] = useState<Game | null>(null);
+  const [scratchCards, setScratchCards] = useState<ScratchCard[]>([]);
+  const [scratchCardId, setScratchCardId] = useState('');
+  const [loadingGame, setLoadingGame] = useState(false);
+  const [serverSeed, setServerSeed] = useState('');
+  const [serverSeedHash, setServerSeedHash] = useState('');
+  const [clientSeed, setClientSeed] = useState('');
+  const [nonce, setNonce] = useState('');
+  const [verification, setVerification] = useState<RoundVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const gameId = typeof router.query.game === 'string' ? router.query.game : '';
+  const selectedCard = scratchCards.find((card) => card.id === scratchCardId) || null;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/');
+    }
+  }, [authLoading, user, router]);
+
+  useEffect(() => {
+    api.scratchCards.list()
+      .then(setScratchCards)
+      .catch((error) => console.error('Erro ao buscar raspadinhas:', error));
+  }, []);
+
+  // Rodada aberta a partir do histórico: preenche os campos com a prova registrada
+  useEffect(() => {
+    if (!token || !gameId) return;
+
+    const fetchGame = async () => {
+      setLoadingGame(true);
+      try {
+        const data = await api.users.getGame(token, gameId);
+        setGame(data);
+        setScratchCardId(data.scratchCardId);
+        if (data.fairness) {
+          setServerSeed(data.fairness.server_seed || '');
+          setServerSeedHash(data.fairness.server_seed_hash);
+          setClientSeed(data.fairness.client_seed);
+          setNonce(String(data.fairness.nonce));
+        }
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Erro ao carregar a rodada'));
+      } finally {
+        setLoadingGame(false);
+      }
+    };
+
+    fetchGame();
+  }, [token, gameId]);
+
+  // Tabela usada no sorteio: a registrada na rodada ou, na verificação manual, a atual da raspadinha
+  const getPrizeTable = (): FairnessPrizeWeight[] => {
+    if (game?.fairness && game.scratchCardId === scratchCardId) {
+      return game.fairness.prize_table;
+    }
+    return (selectedCard?.prizes || [])
+      .filter((prize) => prize.is_active)
+      .map((prize) => ({ prizeId: prize.id, probability: prize.probability }));
+  };
+
+  const getPrizeName = (prizeId: string | null) => {
+    if (!prizeId) return 'Sem prêmio';
+    const prize: Prize | undefined = selectedCard?.prizes.find((item) => item.id === prizeId);
+    if (!prize) return game?.prize?.id === prizeId ? game.prize.name : prizeId;
+    return prize.type === 'MONEY' ? prize.name : prize.product_name || prize.name;
+  };
+
+  const handleVerify = async () => {
+    const parsedNonce = parseInt(nonce, 10);
+    if (!serverSeed.trim() || !clientSeed.trim() || isNaN(parsedNonce) || parsedNonce < 0) {
+      toast.error('Preencha a server seed, a client seed e o nonce.');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      setVerification(await verifyRound({
+        serverSeed: serverSeed.trim(),
+        serverSeedHash: serverSeedHash.trim(),
+        clientSeed: clientSeed.trim(),
+        nonce: parsedNonce,
+        prizeTable: getPrizeTable(),
+      }));
+    } catch (error) {
+      console.error('Erro ao verificar rodada:', error);
+      toast.error('Não foi possível verificar a rodada neste navegador.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const matchesRecordedResult = verification && game ? verification.prizeId === game.prizeId : null;
+
+  if (authLoading || !user) {
+    return (
+      <div className={`${poppins.className} min-h-screen bg-neutral-900 flex items-center justify-center`}>
+        <Loader2 className="w-8 h-8 animate-spin text-neutral-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${poppins.className} min-h-screen bg-neutral-900`}>
+      <Header />
+
+      <div className="max-w-3xl mx-auto px-3 sm:px-4 py-4 sm:py-8">
+        <Button
+          onClick={() => router.push('/v1/profile')}
+          variant="outline"
+          className="mb-4 sm:mb-6 bg-neutral-800 border-neutral-700 text-white hover:bg-neutral-700 text-sm sm:text-base"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Voltar
+        </Button>
+
+        <div className="text-center mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold bg-gradient-to-r from-white to-neutral-400 bg-clip-text text-transparent mb-2">
+            Verificar Rodada
+          </h1>
+          <p className="text-neutral-400 text-sm sm:text-base">
+            Recalcule o resultado no seu navegador e confira que ele não foi alterado
+          </p>
+        </div>
+
+        <div className="bg-neutral-800 rounded-xl border border-neutral-700 p-4 sm:p-6 space-y-4">
+          {loadingGame && (
+            <div className="flex items-center gap-2 text-neutral-400 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Carregando rodada...
+            </div>
+          )}
+
+          {game && (
+            <div className="bg-neutral-700/50 border border-neutral-600 rounded-lg p-3 text-sm">
+              <p className="text-white font-medium">{game.scratchCard.name}</p>
+              <p className="text-neutral-400">
+                Resultado registrado: <span className="text-white">{game.prize ? game.prize.name : 'Sem prêmio'}</span>
+              </p>
+              {game.fairness && !game.fairness.server_seed && (
+                <p className="text-yellow-400 text-xs mt-2">
+                  A server seed desta rodada ainda não foi revelada. Troque o par de seeds na página do jogo para revelá-la.
+                </p>
+              )}
+              {!game.fairness && (
+                <p className="text-yellow-400 text-xs mt-2">Esta rodada foi jogada antes do jogo justo e não possui prova.</p>
+              )}
+            </div>
+          )}
+
+          {!game && (
+            <div>
+              <label htmlFor="scratchCard" className="text-neutral-400 text-xs mb-1 block">Raspadinha</label>
+              <select
+                id="scratchCard"
+                value={scratchCardId}
+                onChange={(e) => setScratchCardId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Selecione</option>
+                {scratchCards.map((card) => (
+                  <option key={card.id} value={card.id}>{card.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="serverSeed" className="text-neutral-400 text-xs mb-1 block">Server seed (revelada)</label>
+            <input id="serverSeed" value={serverSeed} onChange={(e) => setServerSeed(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="serverSeedHash" className="text-neutral-400 text-xs mb-1 block">Hash da server seed exibido antes da rodada</label>
+            <input id="serverSeedHash" value={serverSeedHash} onChange={(e) => setServerSeedHash(e.target.value)} className={inputClassName} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem] gap-4">
+            <div>
+              <label htmlFor="clientSeed" className="text-neutral-400 text-xs mb-1 block">Client seed</label>
+              <input id="clientSeed" value={clientSeed} onChange={(e) => setClientSeed(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="nonce" className="text-neutral-400 text-xs mb-1 block">Nonce</label>
+              <input id="nonce" type="number" min={0} value={nonce} onChange={(e) => setNonce(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+
+          <Button
+            onClick={handleVerify}
+            disabled={isVerifying || !scratchCardId}
+            className={`w-full ${getAppGradient()} text-white font-semibold`}
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {isVerifying ? 'Verificando...' : 'Verificar'}
+          </Button>
+
+          {verification && (
+            <div className="space-y-2 text-sm border-t border-neutral-700 pt-4">
+              <div className="flex items-start gap-2">
+                {verification.hashMatches
+                  ? <CheckCircle2 className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+                  : <XCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />}
+                <div>
+                  <p className="text-white">
+                    {verification.hashMatches ? 'A server seed corresponde ao hash exibido' : 'A server seed não corresponde ao hash informado'}
+                  </p>
+                  <p className="text-neutral-500 text-xs font-mono break-all">SHA-256: {verification.computedHash}</p>
+                </div>
+              </div>
+              <p className="text-neutral-400">
+                Número sorteado: <span className="text-white font-mono">{(verification.roll * 100).toFixed(6)}%</span>
+              </p>
+              <p className="text-neutral-400">
+                Resultado calculado: <span className="text-white font-medium">{getPrizeName(verification.prizeId)}</span>
+              </p>
+              {matchesRecordedResult !== null && (
+                <div className="flex items-center gap-2">
+                  {matchesRecordedResult
+                    ? <CheckCircle2 className="w-4 h-4 text-green-400" />
+                    : <XCircle className="w-4 h-4 text-red-400" />}
+                  <p className={matchesRecordedResult ? 'text-green-400' : 'text-red-400'}>
+                    {matchesRecordedResult ? 'Confere com o resultado registrado' : 'Diferente do resultado registrado'}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default FairnessVerifierPage;
@@ -28,12 +28,28 @@ import {
   Package,
   Users,
   DollarSign,
-  UserCheck
+  UserCheck,
+  ShieldCheck
 } from 'lucide-react';
 import Image from 'next/image';
 import DepositModal from '@/components/deposit-modal';
+import BonusBalance from '@/components/bonus-balance';
+import WithdrawalTimeline from '@/components/withdrawal-timeline';
+import { useRealtimeEvent } from '@/contexts/RealtimeContext';
 import { getAppColor, getAppColorText, getAppColorBorder, getAppColorSvg, getAppGradient } from '@/lib/colors';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { getRolloverProgress } from '@/lib/bonus';
+import { PIX_KEY_PLACEHOLDERS, PIX_KEY_TYPES, PIX_KEY_TYPE_LABELS, validatePixKey } from '@/lib/pix-key';
+import {
+  WITHDRAWAL_STATUS_COLORS,
+  WITHDRAWAL_STATUS_LABELS,
+  getWithdrawalAmountIssue,
+  getWithdrawalLimits,
+  getWithdrawalStatus,
+  getWithdrawnToday,
+  type WithdrawalLimits,
+} from '@/lib/withdrawal';
+import type { AffiliatesData, FinancialHistory, Game, PixKeyType, User as ProfileData } from '@/lib/types';
 
 
 
@@ -77,7 +93,7 @@ export default function ProfilePage() {
   const router = useRouter();
   const { user, token, isLoading: authLoading, updateUser } = useAuth();
   const [activeSection, setActiveSection] = useState('personal');
-  const [profileData, setProfileData] = useState<any>(null);
+  const [profileData, setProfileData] = useState<ProfileData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isDepositModalOpen, setIsDepositModalOpen] = useState(false);
 
@@ -90,17 +106,19 @@ export default function ProfilePage() {
     }
   };
 
-  const [withdrawData, setWithdrawData] = useState({
+  const [withdrawData, setWithdrawData] = useState<{ pixKey: string; keyType: PixKeyType; amount: string }>({
     pixKey: '',
-    keyType: 'cpf',
+    keyType: 'CPF',
     amount: ''
   });
+  const [pixKeyError, setPixKeyError] = useState('');
   const [isWithdrawing, setIsWithdrawing] = useState(false);
-  const [financialHistory, setFinancialHistory] = useState<any>(null);
+  const [withdrawalLimits, setWithdrawalLimits] = useState<WithdrawalLimits>(() => getWithdrawalLimits(null));
+  const [financialHistory, setFinancialHistory] = useState<FinancialHistory | null>(null);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
-  const [gameHistory, setGameHistory] = useState<any>(null);
+  const [gameHistory, setGameHistory] = useState<Game[] | null>(null);
   const [isLoadingGameHistory, setIsLoadingGameHistory] = useState(false);
-  const [affiliatesData, setAffiliatesData] = useState<any>(null);
+  const [affiliatesData, setAffiliatesData] = useState<AffiliatesData | null>(null);
   const [isLoadingAffiliates, setIsLoadingAffiliates] = useState(false);
 
   // Função para formatar CPF
@@ -145,27 +163,6 @@ export default function ProfilePage() {
     return formattedValue;
   };
 
-  // Função para validar chave PIX
-  const validatePixKey = (key: string, type: string) => {
-    if (!key) return false;
-    
-    switch (type) {
-      case 'cpf':
-        const cpfRegex = /^\d{11}$/;
-        return cpfRegex.test(key.replace(/\D/g, ''));
-      case 'email':
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        return emailRegex.test(key);
-      case 'phone':
-        const phoneRegex = /^\d{10,11}$/;
-        return phoneRegex.test(key.replace(/\D/g, ''));
-      case 'random':
-        return key.length >= 32;
-      default:
-        return false;
-    }
-  };
-
   // Função para processar saque
   const handleWithdraw = async () => {
     if (!token || !profileData) {
@@ -177,32 +174,20 @@ export default function ProfilePage() {
     const availableBalance = parseFloat(profileData.wallet?.[0]?.balance || '0');
 
     // Validações
-    if (!withdrawData.amount || amount <= 0) {
-      toast.error('Digite um valor válido para saque');
-      return;
-    }
-
-    if (amount < 10) {
-      toast.error('Valor mínimo para saque é R$ 10,00');
-      return;
-    }
-
-    if (amount > availableBalance) {
-      toast.error('Saldo insuficiente');
-      return;
-    }
-
-    if (!withdrawData.pixKey) {
-      toast.error('Digite sua chave PIX');
+    const amountIssue = getWithdrawalAmountIssue(amount, availableBalance, withdrawalLimits, withdrawnToday);
+    if (amountIssue) {
+      toast.error(amountIssue);
       return;
     }
 
-    if (!validatePixKey(withdrawData.pixKey, withdrawData.keyType)) {
-      toast.error('Chave PIX inválida para o tipo selecionado');
+    const pixKey = validatePixKey(withdrawData.keyType, withdrawData.pixKey);
+    if (!pixKey.valid) {
+      setPixKeyError(pixKey.error);
+      toast.error(pixKey.error);
       return;
     }
 
-    if (!profileData.cpf) {
+    if (!token || !profileData?.cpf) {
       toast.error('CPF não encontrado no perfil');
       return;
     }
@@ -210,55 +195,35 @@ export default function ProfilePage() {
     setIsWithdrawing(true);
 
     try {
-      const pixTypeMap = {
-        cpf: 'CPF',
-        email: 'EMAIL',
-        phone: 'PHONE',
-        random: 'RANDOM'
-      };
-
-      const response = await fetch(apiUrl('/v1/api/users/withdraw'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount: amount,
-          pix_key: withdrawData.pixKey,
-          pix_type: pixTypeMap[withdrawData.keyType as keyof typeof pixTypeMap],
-          document: profileData.cpf.replace(/\D/g, '')
-        })
+      const data = await api.users.withdraw(token, {
+        amount: amount,
+        pix_key: pixKey.normalized,
+        pix_type: withdrawData.keyType,
+        document: profileData.cpf.replace(/\D/g, '')
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao processar saque');
-      }
-
-      if (data.success) {
-        toast.success(data.message || 'Solicitação de saque criada com sucesso!');
-        
-        // Limpar formulário
-        setWithdrawData({
-          pixKey: '',
-          keyType: 'cpf',
-          amount: ''
-        });
-
-        // Atualizar dados do perfil para refletir o novo saldo
-        const updatedProfileData = {
-          ...profileData,
-          wallet: [{
-            ...profileData.wallet[0],
-            balance: data.data.wallet.balance
-          }]
-        };
-        setProfileData(updatedProfileData);
-      }
-    } catch (error: any) {
-      toast.error(error.message || 'Erro ao processar saque');
+      toast.success(data.message || 'Solicitação de saque criada com sucesso!');
+      
+      // Limpar formulário
+      setWithdrawData({
+        pixKey: '',
+        keyType: 'CPF',
+        amount: ''
+      });
+      setPixKeyError('');
+
+      // Atualizar dados do perfil para refletir o novo saldo
+      const updatedProfileData = {
+        ...profileData,
+        wallet: [{
+          ...profileData.wallet[0],
+          balance: data.data.wallet.balance
+        }]
+      };
+      setProfileData(updatedProfileData);
+      setFinancialHistory((prev) => prev && { ...prev, withdraws: [data.data.withdraw, ...prev.withdraws] });
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao processar saque'));
       console.error('Erro no saque:', error);
     } finally {
       setIsWithdrawing(false);
@@ -282,25 +247,10 @@ export default function ProfilePage() {
     setIsLoadingHistory(true);
 
     try {
-      const response = await fetch(apiUrl('/v1/api/users/financial-history'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar histórico');
-      }
-
-      if (data.success) {
-        setFinancialHistory(data.data);
-      }
-    } catch (error: any) {
-      toast.error(error.message || 'Erro ao carregar histórico financeiro');
+      const data = await api.users.getFinancialHistory(token);
+      setFinancialHistory(data);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao carregar histórico financeiro'));
       console.error('Erro ao buscar histórico:', error);
     } finally {
       setIsLoadingHistory(false);
@@ -343,25 +293,10 @@ export default function ProfilePage() {
     setIsLoadingGameHistory(true);
 
     try {
-      const response = await fetch(apiUrl('/v1/api/users/game-history?limit=10'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar histórico de jogos');
-      }
-
-      if (data.success) {
-        setGameHistory(data.data);
-      }
-    } catch (error: any) {
-      toast.error(error.message || 'Erro ao carregar histórico de jogos');
+      const data = await api.users.getGameHistory(token, 10);
+      setGameHistory(data);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao carregar histórico de jogos'));
       console.error('Erro ao buscar histórico de jogos:', error);
     } finally {
       setIsLoadingGameHistory(false);
@@ -378,25 +313,10 @@ export default function ProfilePage() {
     setIsLoadingAffiliates(true);
 
     try {
-      const response = await fetch(apiUrl('/v1/api/users/invited-users'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar dados dos afiliados');
-      }
-
-      if (data.success) {
-        setAffiliatesData(data.data);
-      }
-    } catch (error: any) {
-      toast.error(error.message || 'Erro ao carregar dados dos afiliados');
+      const data = await api.users.getInvitedUsers(token);
+      setAffiliatesData(data);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Erro ao carregar dados dos afiliados'));
       console.error('Erro ao buscar dados dos afiliados:', error);
     } finally {
       setIsLoadingAffiliates(false);
@@ -434,25 +354,10 @@ export default function ProfilePage() {
 
     const fetchProfileData = async () => {
       try {
-        const response = await fetch(apiUrl('/v1/api/users/profile'), {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.message || 'Erro ao carregar perfil');
-        }
-
-        if (data.success) {
-          setProfileData(data.data);
-        }
-      } catch (error: any) {
-        toast.error(error.message || 'Erro ao carregar dados do perfil');
+        const data = await api.users.getProfile(token);
+        setProfileData(data);
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Erro ao carregar dados do perfil'));
         console.error('Erro ao buscar perfil:', error);
       } finally {
         setIsLoading(false);
@@ -462,6 +367,25 @@ export default function ProfilePage() {
     fetchProfileData();
   }, [user, token, router, authLoading]);
 
+  // A seção de saque precisa dos limites configurados e dos saques já solicitados
+  useEffect(() => {
+    if (activeSection !== 'withdraw' || !token) return;
+
+    api.settings.get(token)
+      .then((setting) => setWithdrawalLimits(getWithdrawalLimits(setting)))
+      .catch((error) => console.error('Erro ao carregar limites de saque:', error));
+
+    if (!financialHistory) fetchFinancialHistory();
+  }, [activeSection, token]);
+
+  // Atualiza a linha do tempo quando um saque é aprovado ou rejeitado
+  useRealtimeEvent('withdrawal.processed', () => {
+    if (financialHistory) fetchFinancialHistory();
+  });
+
+  const withdrawnToday = getWithdrawnToday(financialHistory?.withdraws || []);
+  const pendingRollover = getRolloverProgress(profileData?.wallet?.[0]);
+
   const sidebarItems = [
     { id: 'personal', icon: <User className="w-5 h-5" />, label: 'Informações Pessoais' },
     { id: 'inventory', icon: <Package className="w-5 h-5" />, label: 'Inventário' },
@@ -513,6 +437,7 @@ export default function ProfilePage() {
                       'R$ 0,00'
                   )}
                 </p>
+                {!isLoading && <BonusBalance wallet={profileData?.wallet?.[0]} />}
                 <Button 
                   className={`${getAppGradient()} w-full mt-3 text-white font-semibold py-2 px-4 rounded-lg transition-all duration-300 shadow-lg hover:shadow-xl border border-yellow-400/20`}
                   onClick={() => setIsDepositModalOpen(true)}
@@ -667,20 +592,38 @@ export default function ProfilePage() {
                     </p>
                   </div>
 
+                  {pendingRollover && (
+                    <div className="mb-6 p-4 bg-amber-500/10 rounded-lg border border-amber-500/20">
+                      <p className="text-amber-400 text-sm font-medium mb-1">Rollover pendente</p>
+                      <p className="text-neutral-300 text-sm">
+                        Você ainda precisa apostar R$ {pendingRollover.remaining.toFixed(2).replace('.', ',')} para liberar seu bônus de
+                        {' '}R$ {parseFloat(profileData?.wallet?.[0]?.bonus || '0').toFixed(2).replace('.', ',')}.
+                        O bônus não pode ser sacado e um saque agora pode cancelá-lo.
+                      </p>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="space-y-2">
                        <Label htmlFor="keyType" className="text-white font-medium">
                          Tipo de chave PIX
                        </Label>
-                       <Select value={withdrawData.keyType} onValueChange={(value) => setWithdrawData(prev => ({ ...prev, keyType: value }))}>
+                       <Select
+                         value={withdrawData.keyType}
+                         onValueChange={(value) => {
+                           setWithdrawData(prev => ({ ...prev, keyType: value as PixKeyType }));
+                           setPixKeyError('');
+                         }}
+                       >
                          <SelectTrigger className="w-full bg-neutral-700 border-neutral-600 text-white focus:border-neutral-500 focus:ring-neutral-500/20">
                            <SelectValue placeholder="Selecione o tipo de chave" />
                          </SelectTrigger>
                          <SelectContent className="bg-neutral-700 border-neutral-600">
-                           <SelectItem value="cpf" className="text-white hover:bg-neutral-600 focus:bg-neutral-600">CPF</SelectItem>
-                           <SelectItem value="email" className="text-white hover:bg-neutral-600 focus:bg-neutral-600">E-mail</SelectItem>
-                           <SelectItem value="phone" className="text-white hover:bg-neutral-600 focus:bg-neutral-600">Telefone</SelectItem>
-                           <SelectItem value="random" className="text-white hover:bg-neutral-600 focus:bg-neutral-600">Chave aleatória</SelectItem>
+                           {PIX_KEY_TYPES.map((type) => (
+                             <SelectItem key={type} value={type} className="text-white hover:bg-neutral-600 focus:bg-neutral-600">
+                               {PIX_KEY_TYPE_LABELS[type]}
+                             </SelectItem>
+                           ))}
                          </SelectContent>
                        </Select>
                      </div>
@@ -709,11 +652,20 @@ export default function ProfilePage() {
                       <Input
                         id="pixKey"
                         type="text"
-                        placeholder="Digite sua chave PIX"
+                        placeholder={PIX_KEY_PLACEHOLDERS[withdrawData.keyType]}
                         value={withdrawData.pixKey}
-                        onChange={(e) => setWithdrawData(prev => ({ ...prev, pixKey: e.target.value }))}
-                        className="bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-neutral-500 focus:ring-neutral-500/20"
+                        onChange={(e) => {
+                          setWithdrawData(prev => ({ ...prev, pixKey: e.target.value }));
+                          setPixKeyError('');
+                        }}
+                        onBlur={() => {
+                          if (!withdrawData.pixKey.trim()) return;
+                          const result = validatePixKey(withdrawData.keyType, withdrawData.pixKey);
+                          setPixKeyError(result.valid ? '' : result.error);
+                        }}
+                        className={`bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-neutral-500 focus:ring-neutral-500/20 ${pixKeyError ? 'border-red-500' : ''}`}
                       />
+                      {pixKeyError && <p className="text-red-400 text-sm">{pixKeyError}</p>}
                     </div>
                   </div>
 
@@ -729,11 +681,30 @@ export default function ProfilePage() {
                       </Button>
                       <div className="text-sm text-neutral-400">
                         <p>• Saques são processados em até 1 hora útil</p>
-                        <p>• Valor mínimo: R$ 10,00</p>
+                        <p>• Valor mínimo: R$ {withdrawalLimits.min.toFixed(2).replace('.', ',')}</p>
+                        {withdrawalLimits.max !== null && (
+                          <p>• Valor máximo por saque: R$ {withdrawalLimits.max.toFixed(2).replace('.', ',')}</p>
+                        )}
+                        {withdrawalLimits.daily !== null && (
+                          <p>
+                            • Limite diário: R$ {withdrawalLimits.daily.toFixed(2).replace('.', ',')}
+                            {' '}(disponível hoje: R$ {Math.max(0, withdrawalLimits.daily - withdrawnToday).toFixed(2).replace('.', ',')})
+                          </p>
+                        )}
                         <p>• Sem taxas para saques PIX</p>
                       </div>
                     </div>
                   </div>
+
+                  {/* Acompanhamento */}
+                  <div className="mt-8 pt-6 border-t border-neutral-700">
+                    <h3 className="text-white font-semibold mb-4">Acompanhe seus saques</h3>
+                    {isLoadingHistory && !financialHistory ? (
+                      <p className="text-neutral-400 text-sm text-center py-6">Carregando...</p>
+                    ) : (
+                      <WithdrawalTimeline withdrawals={financialHistory?.withdraws || []} />
+                    )}
+                  </div>
                 </div>
               )}
 
@@ -815,7 +786,7 @@ export default function ProfilePage() {
                             Depósitos
                           </h3>
                           <div className="space-y-3">
-                            {financialHistory.deposits.map((deposit: any) => (
+                            {financialHistory.deposits.map((deposit) => (
                               <div key={deposit.id} className="p-4 bg-neutral-700/50 rounded-lg border border-neutral-600">
                                 <div className="flex justify-between items-start">
                                   <div className="flex-1">
@@ -850,7 +821,7 @@ export default function ProfilePage() {
                             Saques
                           </h3>
                           <div className="space-y-3">
-                            {financialHistory.withdraws.map((withdraw: any) => (
+                            {financialHistory.withdraws.map((withdraw) => (
                               <div key={withdraw.id} className="p-4 bg-neutral-700/50 rounded-lg border border-neutral-600">
                                 <div className="flex justify-between items-start">
                                   <div className="flex-1">
@@ -869,8 +840,8 @@ export default function ProfilePage() {
                                     </div>
                                   </div>
                                   <div className="text-right">
-                                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(withdraw.status)} bg-current/10`}>
-                                      {getStatusText(withdraw.status, 'withdraw')}
+                                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${WITHDRAWAL_STATUS_COLORS[getWithdrawalStatus(withdraw)]} bg-current/10`}>
+                                      {WITHDRAWAL_STATUS_LABELS[getWithdrawalStatus(withdraw)]}
                                     </span>
                                   </div>
                                 </div>
@@ -939,7 +910,7 @@ export default function ProfilePage() {
                           <h3 className="text-lg font-semibold text-white mb-4">Últimos 10 Jogos</h3>
                           
                           <div className="space-y-3">
-                            {gameHistory.map((game: any) => (
+                            {gameHistory.map((game) => (
                               <div key={game.id} className="bg-neutral-700/50 rounded-lg p-4 border border-neutral-600">
                                 <div className="flex items-center justify-between">
                                   <div className="flex-1">
@@ -978,6 +949,18 @@ export default function ProfilePage() {
                                       </div>
                                     </div>
                                   </div>
+                                  {game.fairness && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => router.push({ pathname: '/v1/profile/fairness', query: { game: game.id } })}
+                                      className="ml-4 bg-neutral-800 border-neutral-600 text-white hover:bg-neutral-700"
+                                      title="Verificar rodada (jogo justo)"
+                                    >
+                                      <ShieldCheck className="w-4 h-4 mr-1" />
+                                      Verificar
+                                    </Button>
+                                  )}
                                 </div>
                               </div>
                             ))}
@@ -1054,7 +1037,7 @@ export default function ProfilePage() {
                           </div>
                         ) : (
                           <div className="space-y-3">
-                            {affiliatesData.invitedUsers.map((user: any, index: number) => (
+                            {affiliatesData.invitedUsers.map((user, index: number) => (
                               <div key={index} className="p-4 bg-neutral-700/50 rounded-lg border border-neutral-600">
                                 <div className="flex justify-between items-start">
                                   <div className="flex-1">
@@ -1139,8 +1122,6 @@ export default function ProfilePage() {
       <DepositModal
         isOpen={isDepositModalOpen}
         onClose={() => setIsDepositModalOpen(false)}
-        token={token}
-        updateUser={updateUser}
       />
     </div>
   );
@@ -9,54 +9,16 @@ import Footer from '@/components/footer';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { getAppColor, getAppColorText, getAppColorBorder, getAppColorSvg, getAppGradient } from '@/lib/colors';
-import { apiUrl } from '@/lib/api'; 
+import { api, apiUrl, ApiError, getErrorMessage } from '@/lib/api';
+import type { Game, GamePrize } from '@/lib/types';
 
 const poppins = Poppins({
   subsets: ['latin'],
   weight: ['300', '400', '500', '600', '700'],
 });
 
-interface Prize {
-  id: string;
-  name: string;
-  type: string;
-  product_name: string;
-  redemption_value: string;
-  image_url: string;
-  description: string;
-}
-
-interface ScratchCard {
-  id: string;
-  name: string;
-  image_url: string;
-}
-
-interface PendingRedemption {
-  id: string;
-  userId: string;
-  scratchCardId: string;
-  prizeId: string;
-  is_winner: boolean;
-  amount_won: string;
-  prize_type: string;
-  redemption_choice: boolean;
-  status: string;
-  played_at: string;
-  created_at: string;
-  updated_at: string;
-  prize: Prize;
-  scratchCard: ScratchCard;
-}
-
-interface InventoryResponse {
-  success: boolean;
-  message: string;
-  data: {
-    pending_redemptions: PendingRedemption[];
-    total_pending: number;
-  };
-}
+// Resgates pendentes sempre possuem um prêmio do tipo produto
+type PendingRedemption = Game & { prize: GamePrize };
 
 const InventoryPage: React.FC = () => {
   const router = useRouter();
@@ -100,27 +62,16 @@ const InventoryPage: React.FC = () => {
 
     try {
       setLoading(true);
-      const response = await fetch(apiUrl('/v1/api/users/redemptions/pending'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data: InventoryResponse = await response.json();
-      
-      if (data.success) {
-        setPendingRedemptions(data.data.pending_redemptions);
-        setTotalPending(data.data.total_pending);
-        setError(null);
-      } else {
-        toast.error('Erro ao carregar inventário');
-        setError('Erro ao carregar inventário');
-      }
+      const data = await api.users.getPendingRedemptions(token);
+      setPendingRedemptions(data.pending_redemptions.filter((game): game is PendingRedemption => !!game.prize));
+      setTotalPending(data.total_pending);
+      setError(null);
     } catch (err) {
-      toast.error('Erro ao conectar com o servidor');
-      setError('Erro ao conectar com o servidor');
+      const message = err instanceof ApiError && err.kind === 'http'
+        ? 'Erro ao carregar inventário'
+        : 'Erro ao conectar com o servidor';
+      toast.error(message);
+      setError(message);
       console.error('Erro ao buscar resgates pendentes:', err);
     } finally {
       setLoading(false);
@@ -135,29 +86,12 @@ const InventoryPage: React.FC = () => {
     }
 
     try {
-      const response = await fetch(apiUrl('/v1/api/users/redemptions/choose'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          gameId: gameId,
-          choice: 'money'
-        })
-      });
-
-      const data = await response.json();
-      
-      if (data.success) {
-        toast.success('Prêmio resgatado com sucesso!');
-        // Atualizar a lista após o resgate
-        fetchPendingRedemptions();
-      } else {
-        toast.error(data.message || 'Erro ao resgatar prêmio');
-      }
+      await api.users.chooseRedemption(token, gameId, 'money');
+      toast.success('Prêmio resgatado com sucesso!');
+      // Atualizar a lista após o resgate
+      fetchPendingRedemptions();
     } catch (err) {
-      toast.error('Erro ao conectar com o servidor');
+      toast.error(getErrorMessage(err, 'Erro ao resgatar prêmio'));
       console.error('Erro ao resgatar prêmio:', err);
     }
   };
@@ -280,7 +214,7 @@ const InventoryPage: React.FC = () => {
                     <div className="relative w-full h-32 sm:h-40 bg-neutral-700 rounded-lg mb-4 overflow-hidden">
                       <Image
                         src={fixImageUrl(redemption.prize.image_url) || '/50_money.webp'}
-                        alt={redemption.prize.product_name}
+                        alt={redemption.prize.product_name || redemption.prize.name}
                         fill
                         className="object-contain p-2"
                         onError={(e) => {
@@ -300,7 +234,7 @@ const InventoryPage: React.FC = () => {
                       </p>
                       <div className="flex items-center gap-2 text-green-400 text-sm">
                         <span className="font-medium">Valor:</span>
-                        <span>R$ {parseFloat(redemption.prize.redemption_value).toFixed(2)}</span>
+                        <span>R$ {parseFloat(redemption.prize.redemption_value || '0').toFixed(2)}</span>
                       </div>
                     </div>
 
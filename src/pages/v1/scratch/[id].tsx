@@ -1,5 +1,5 @@
 import { useRouter } from 'next/router';
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Image from 'next/image';
 import { Poppins } from 'next/font/google';
 import Header from '@/components/header';
@@ -11,120 +11,43 @@ import Confetti from 'react-confetti';
 import { useWindowSize } from 'react-use';
 import Winners from '@/components/winners';
 import { toast } from 'sonner';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import type { GameMode, GameResult, ScratchCard } from '@/lib/types';
+import ScratchGame from '@/components/scratch-game';
+import FairnessPanel from '@/components/fairness-panel';
+import RouletteTrack from '@/components/roulette-track';
+import MultiPlaySummary from '@/components/multi-play-summary';
+import AutoPlayPanel from '@/components/auto-play-panel';
+import {
+  DEFAULT_AUTO_PLAY_SETTINGS,
+  createAutoPlaySession,
+  getAutoPlayStopReason,
+  getWinStopReason,
+  recordAutoPlayRound,
+  type AutoPlaySession,
+  type AutoPlaySettings,
+} from '@/lib/auto-play';
+import { RARITY_COLORS, buildRouletteReel, getRarityFromValue, type RouletteReel } from '@/lib/roulette-reel';
 
 const poppins = Poppins({ 
   subsets: ["latin"],
   weight: ["100", "200", "300","400","500", "600", "700"],
 });
 
-// Interfaces para a API
-interface Prize {
-  id: string;
-  scratchCardId: string;
-  name: string;
-  description: string;
-  type: string;
-  value: string;
-  product_name: string | null;
-  redemption_value: string | null;
-  image_url: string;
-  probability: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface ScratchCardData {
-  id: string;
-  name: string;
-  description: string;
-  price: string;
-  image_url: string;
-  is_active: boolean;
-  target_rtp: string;
-  current_rtp: string;
-  total_revenue: string;
-  total_payouts: string;
-  total_games_played: number;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  prizes: Prize[];
-}
-
-interface ApiResponse {
-  success: boolean;
-  message: string;
-  data: ScratchCardData;
-}
+// Duração do giro da roleta
+const SPIN_DURATION = 4000;
 
-interface GamePrize {
-  id: string;
-  name: string;
-  type: string;
-  value: string;
-  product_name: string | null;
-  redemption_value: string | null;
-  image_url: string;
-}
+// Quantidades de boxes que podem ser abertas de uma vez no modo roleta
+const PLAY_COUNT_OPTIONS = [1, 3, 5, 10];
 
-interface GameResult {
-  isWinner: boolean;
-  amountWon: string;
-  prize: GamePrize | null;
-  scratchCard: {
-    id: string;
-    name: string;
-    price: string;
-    image_url: string;
-  };
-}
-
-interface GameData {
-  id: string;
-  userId: string;
-  scratchCardId: string;
-  prizeId: string | null;
-  is_winner: boolean;
-  amount_won: string;
-  prize_type: string | null;
-  redemption_choice: boolean;
-  status: string;
-  played_at: string;
-  created_at: string;
-  updated_at: string;
-  scratchCard: {
-    id: string;
-    name: string;
-    price: string;
-    image_url: string;
-  };
-  prize: GamePrize | null;
-}
-
-interface PlayGameResponse {
-  success: boolean;
-  message: string;
-  data: {
-    game: GameData;
-    result: GameResult;
-  };
-}
-
-// Item da roleta
-interface RouletteItem {
-  id: string;
-  name: string;
-  image: string;
-  value: string;
-  type: string;
-  isWinning?: boolean;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary';
+// Rodada jogada, com a faixa que a representa na roleta
+interface PlayedRound {
+  result: GameResult;
+  reel: RouletteReel;
 }
 
 // Estados do jogo
-type GameState = 'idle' | 'loading' | 'spinning' | 'completed';
+type GameState = 'idle' | 'loading' | 'spinning' | 'scratching' | 'completed';
 
 const RouletteBoxPage = () => {
   const router = useRouter();
@@ -134,27 +57,46 @@ const RouletteBoxPage = () => {
   const { width, height } = useWindowSize();
 
   // Estados da API
-  const [scratchCardData, setScratchCardData] = useState<ScratchCardData | null>(null);
+  const [scratchCardData, setScratchCardData] = useState<ScratchCard | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Estados do jogo da roleta
   const [gameState, setGameState] = useState<GameState>('idle');
-  const [rouletteItems, setRouletteItems] = useState<RouletteItem[]>([]);
+  const [rounds, setRounds] = useState<PlayedRound[]>([]);
   const [showConfetti, setShowConfetti] = useState(false);
   const [hasWon, setHasWon] = useState(false);
   const [totalWinnings, setTotalWinnings] = useState(0);
   const [gameResult, setGameResult] = useState<GameResult | null>(null);
   const [playingGame, setPlayingGame] = useState(false);
-  const [winningItem, setWinningItem] = useState<RouletteItem | null>(null);
+  // Incrementado a cada rodada para o painel de jogo justo buscar o próximo nonce
+  const [fairnessRefreshKey, setFairnessRefreshKey] = useState(0);
   
   // Estados específicos da roleta
   const [isSpinning, setIsSpinning] = useState(false);
-  const [spinDuration, setSpinDuration] = useState(0);
-  const [finalRotation, setFinalRotation] = useState(0);
+  // Falso enquanto a faixa é desenhada na posição inicial, antes do deslocamento final
+  const [reelReleased, setReelReleased] = useState(false);
+  const spinTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const gameMode: GameMode = scratchCardData?.game_mode === 'SCRATCH' ? 'SCRATCH' : 'ROULETTE';
+  const isScratchMode = gameMode === 'SCRATCH';
+
+  // Várias boxes por vez
+  const [playCount, setPlayCount] = useState(1);
+  // Quantidade pedida na última jogada e progresso da abertura
+  const [batchRequested, setBatchRequested] = useState(1);
+  const [batchProgress, setBatchProgress] = useState(0);
+  const [batchStopReason, setBatchStopReason] = useState<string | null>(null);
+  const isMultiPlay = batchRequested > 1;
+
+  // Auto-play: a sessão em andamento é controlada pela ref, que pode ser desligada a qualquer momento
+  const [autoPlaySettings, setAutoPlaySettings] = useState<AutoPlaySettings>(DEFAULT_AUTO_PLAY_SETTINGS);
+  const [autoPlaySession, setAutoPlaySession] = useState<AutoPlaySession | null>(null);
+  const autoPlayActiveRef = useRef(false);
+  const isAutoPlaying = !!autoPlaySession?.running;
 
   // Função para corrigir URLs das imagens
-  const fixImageUrl = (url: string) => {
+  const fixImageUrl = (url: string | null) => {
     if (!url) return '';
     return url
       .replace('raspa.ae', 'api.raspapixoficial.com')
@@ -168,16 +110,10 @@ const RouletteBoxPage = () => {
     
     try {
       setLoading(true);
-      const response = await fetch(apiUrl(`/v1/api/scratchcards/${id}`));
-      const data: ApiResponse = await response.json();
-      
-      if (data.success) {
-        setScratchCardData(data.data);
-      } else {
-        setError('Box não encontrada');
-      }
+      const data = await api.scratchCards.get(id as string);
+      setScratchCardData(data);
     } catch (err) {
-      setError('Erro ao carregar box');
+      setError('Box não encontrada');
       console.error('Erro ao buscar box:', err);
     } finally {
       setLoading(false);
@@ -191,47 +127,22 @@ const RouletteBoxPage = () => {
     }
   }, [id]);
 
-  // Função para determinar raridade baseada no valor
-  const getRarityFromValue = (value: number): 'common' | 'rare' | 'epic' | 'legendary' => {
-    if (value >= 1000) return 'legendary';
-    if (value >= 100) return 'epic';
-    if (value >= 10) return 'rare';
-    return 'common';
-  };
-
-  // Função para gerar itens da roleta baseada nos prêmios disponíveis
-  const generateRouletteItems = (prizes: Prize[]): RouletteItem[] => {
-    const items: RouletteItem[] = [];
-    
-    // Adicionar cada prêmio múltiplas vezes baseado na raridade
-    prizes.forEach((prize, index) => {
-      const value = parseFloat(prize.value || prize.redemption_value || '0');
-      const rarity = getRarityFromValue(value);
-      
-      // Quantidade de repetições baseada na raridade (mais comum = mais repetições)
-      let repetitions = 1;
-      switch (rarity) {
-        case 'common': repetitions = 8; break;
-        case 'rare': repetitions = 4; break;
-        case 'epic': repetitions = 2; break;
-        case 'legendary': repetitions = 1; break;
-      }
-
-      for (let i = 0; i < repetitions; i++) {
-        items.push({
-          id: `${prize.id}-${i}`,
-          name: prize.type === 'MONEY' ? prize.name : prize.product_name || prize.name,
-          image: fixImageUrl(prize.image_url) || '/50_money.webp',
-          value: prize.type === 'MONEY' ? prize.value : prize.redemption_value || '0',
-          type: prize.type,
-          rarity
-        });
-      }
-    });
+  // Cancela o fim do giro pendente e o auto-play ao sair da página
+  useEffect(() => {
+    return () => {
+      autoPlayActiveRef.current = false;
+      if (spinTimeoutRef.current) clearTimeout(spinTimeoutRef.current);
+    };
+  }, []);
 
-    // Embaralhar os itens
-    return items.sort(() => Math.random() - 0.5);
-  };
+  // Navegar para outra página (inclusive outra box) encerra o auto-play
+  useEffect(() => {
+    const stopOnNavigation = () => {
+      autoPlayActiveRef.current = false;
+    };
+    router.events.on('routeChangeStart', stopOnNavigation);
+    return () => router.events.off('routeChangeStart', stopOnNavigation);
+  }, [router.events]);
 
   // Função para jogar na API
   const playGame = async (authToken: string): Promise<{ result: GameResult | null, errorMessage?: string }> => {
@@ -239,27 +150,11 @@ const RouletteBoxPage = () => {
     
     try {
       setPlayingGame(true);
-      const response = await fetch(apiUrl('/v1/api/scratchcards/play'), {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${authToken}`
-          },
-        body: JSON.stringify({
-          scratchCardId: id
-        })
-      });
-      
-      const data: PlayGameResponse = await response.json();
-      if (data.success) {
-        return { result: data.data.result };
-      } else {
-        console.error('Erro ao jogar:', data.message);
-        return { result: null, errorMessage: data.message };
-      }
+      const data = await api.scratchCards.play(authToken, id as string);
+      return { result: data.result };
     } catch (error) {
-      console.error('Erro na requisição de jogo:', error);
-      return { result: null, errorMessage: 'Erro de conexão com o servidor.' };
+      console.error('Erro ao jogar:', error);
+      return { result: null, errorMessage: getErrorMessage(error, 'Erro de conexão com o servidor.') };
     } finally {
       setPlayingGame(false);
     }
@@ -270,19 +165,8 @@ const RouletteBoxPage = () => {
     if (!token) return;
     
     try {
-      const response = await fetch(apiUrl('/v1/api/users/profile'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        updateUser(data.data);
-      }
+      const profile = await api.users.getProfile(token);
+      updateUser(profile);
     } catch (error) {
       console.error('Erro ao atualizar saldo do usuário:', error);
     }
@@ -297,87 +181,183 @@ const RouletteBoxPage = () => {
     setHasWon(false);
     setTotalWinnings(0);
     setGameResult(null);
-    setWinningItem(null);
 
-    // Jogar na API
-    const { result, errorMessage } = await playGame(token || '');
-    
-    console.log('Resultado do jogo:', result);
-    
-    if (result && typeof result === 'object') {
-      setGameResult(result);
-      
-      // Gerar itens da roleta
-      const items = generateRouletteItems(scratchCardData.prizes);
-      setRouletteItems(items);
-      
-      // Determinar item vencedor
-      let targetItem: RouletteItem | null = null;
-      
-      if (result.isWinner && result.prize) {
-        // Encontrar um item correspondente ao prêmio ganho
-        targetItem = items.find(item => 
-          item.type === result.prize?.type && 
-          parseFloat(item.value) === parseFloat(result.prize?.value || result.prize?.redemption_value || '0')
-        ) || null;
-        
-        if (targetItem) {
-          targetItem.isWinning = true;
-          setWinningItem(targetItem);
-        }
-      } else {
-        // Para não vencedores, escolher um item aleatório de menor valor
-        const commonItems = items.filter(item => item.rarity === 'common');
-        targetItem = commonItems[Math.floor(Math.random() * commonItems.length)] || items[0];
+    // A raspadinha é sempre jogada uma cartela por vez
+    const requested = isScratchMode ? 1 : playCount;
+    const price = parseFloat(scratchCardData.price);
+    let balance = parseFloat(user?.wallet?.[0]?.balance || '0');
+    const results: GameResult[] = [];
+    let stopReason: string | null = null;
+
+    setBatchRequested(requested);
+    setBatchStopReason(null);
+
+    // Jogar na API, uma box por vez. A primeira jogada fica a cargo do servidor;
+    // nas seguintes o saldo estimado evita cobranças que seriam recusadas.
+    for (let i = 0; i < requested; i++) {
+      if (i > 0 && balance < price) {
+        stopReason = 'Saldo insuficiente para continuar.';
+        break;
       }
-      
-      setGameState('spinning');
-      startRouletteSpin(targetItem, items);
-    } else {
+
+      setBatchProgress(i + 1);
+      const { result, errorMessage } = await playGame(token || '');
+
+      if (!result || typeof result !== 'object') {
+        stopReason = errorMessage || 'Erro ao abrir a box. Tente novamente.';
+        break;
+      }
+
+      results.push(result);
+      balance -= price;
+      if (result.isWinner && result.prize?.type !== 'PRODUCT') {
+        balance += parseFloat(result.amountWon) || 0;
+      }
+    }
+
+    if (results.length === 0) {
       setGameState('idle');
-      toast.error(errorMessage || 'Erro ao abrir a box. Tente novamente.');
+      toast.error(stopReason || 'Erro ao abrir a box. Tente novamente.');
+      return;
+    }
+
+    if (stopReason) {
+      setBatchStopReason(stopReason);
+      toast.warning(`${stopReason} Foram abertas ${results.length} de ${requested} boxes.`);
+    }
+
+    setGameResult(results[0]);
+    setFairnessRefreshKey((key) => key + 1);
+
+    if (isScratchMode) {
+      setGameState('scratching');
+      return;
     }
+
+    // O prêmio de cada resultado fica sempre na casa de parada da sua faixa
+    const activePrizes = scratchCardData.prizes.filter(prize => prize.is_active);
+    setRounds(results.map((result) => ({ result, reel: buildRouletteReel(activePrizes, result) })));
+    setReelReleased(false);
+
+    setGameState('spinning');
+    startRouletteSpin(() => requested > 1 ? finishBatch(results) : finishRound(results[0]));
   };
 
-  // Função para iniciar a animação da roleta
-  const startRouletteSpin = (targetItem: RouletteItem | null, items: RouletteItem[]) => {
-    if (!targetItem || items.length === 0) return;
+  // Função para iniciar a animação da roleta. A rodada é finalizada com os
+  // resultados recebidos em onFinish, e não com o estado, que pode estar desatualizado.
+  const startRouletteSpin = (onFinish: () => void) => {
+    if (spinTimeoutRef.current) clearTimeout(spinTimeoutRef.current);
+
+    // Aguarda a faixa ser desenhada na posição inicial para a transição acontecer
+    requestAnimationFrame(() => {
+      requestAnimationFrame(() => {
+        setIsSpinning(true);
+        setReelReleased(true);
+
+        spinTimeoutRef.current = setTimeout(() => {
+          spinTimeoutRef.current = null;
+          setIsSpinning(false);
+          onFinish();
+        }, SPIN_DURATION);
+      });
+    });
+  };
 
-    setIsSpinning(true);
-    
-    // Encontrar o índice do item alvo
-    const targetIndex = items.findIndex(item => item.id === targetItem.id);
-    const itemWidth = 120; // Largura de cada item
-    const containerWidth = 500; // Largura do container visível
-    const totalWidth = items.length * itemWidth;
-    
-    // Calcular posição final (centralizar o item alvo)
-    const finalPosition = (targetIndex * itemWidth) - (containerWidth / 2) + (itemWidth / 2);
-    
-    // Adicionar várias voltas completas + posição final
-    const fullRotations = 3; // 3 voltas completas
-    const finalRotation = (fullRotations * totalWidth) + finalPosition;
-    
-    setFinalRotation(finalRotation);
-    
-    // Duração da animação
-    const duration = 4000; // 4 segundos
-    setSpinDuration(duration);
-    
-    // Finalizar após a animação
-    setTimeout(() => {
-      setIsSpinning(false);
-      setGameState('completed');
-      
-      if (gameResult?.isWinner) {
-        setHasWon(true);
-        setTotalWinnings(parseFloat(gameResult.amountWon));
-        setShowConfetti(true);
-        setTimeout(() => setShowConfetti(false), 5000);
+  // Função para finalizar a rodada, ao parar a roleta ou ao terminar de raspar
+  const finishRound = (result: GameResult) => {
+    setGameState('completed');
+
+    if (result.isWinner) {
+      setHasWon(true);
+      setTotalWinnings(parseFloat(result.amountWon));
+      setShowConfetti(true);
+      setTimeout(() => setShowConfetti(false), 5000);
+    }
+
+    refreshUserBalance();
+  };
+
+  // Função para finalizar a abertura de várias boxes; o resumo é montado a partir das rodadas
+  const finishBatch = (results: GameResult[]) => {
+    setGameState('completed');
+
+    if (results.some((result) => result.isWinner)) {
+      setShowConfetti(true);
+      setTimeout(() => setShowConfetti(false), 5000);
+    }
+
+    refreshUserBalance();
+  };
+
+  // Função para executar uma sessão de auto-play, uma rodada por vez até uma regra de parada
+  const handleStartAutoPlay = async () => {
+    if (!isAuthenticated || playingGame || !scratchCardData || autoPlayActiveRef.current) return;
+
+    const settings = autoPlaySettings;
+    const price = parseFloat(scratchCardData.price);
+    const activePrizes = scratchCardData.prizes.filter(prize => prize.is_active);
+    let session = createAutoPlaySession(parseFloat(user?.wallet?.[0]?.balance || '0'));
+    let stopReason: string | null = null;
+
+    autoPlayActiveRef.current = true;
+    setAutoPlaySession(session);
+    setBatchRequested(1);
+    setBatchStopReason(null);
+    setGameState('loading');
+
+    while (!stopReason) {
+      if (!autoPlayActiveRef.current) {
+        stopReason = 'Auto-play interrompido.';
+        break;
       }
-      
-      refreshUserBalance();
-    }, duration);
+      stopReason = getAutoPlayStopReason(session, settings, price);
+      if (stopReason) break;
+
+      setShowConfetti(false);
+      setHasWon(false);
+      setTotalWinnings(0);
+
+      const { result, errorMessage } = await playGame(token || '');
+      if (!result || typeof result !== 'object') {
+        stopReason = errorMessage || 'Erro ao abrir a box. Tente novamente.';
+        break;
+      }
+
+      session = recordAutoPlayRound(session, result, price);
+      setAutoPlaySession(session);
+      setGameResult(result);
+      setFairnessRefreshKey((key) => key + 1);
+      setRounds([{ result, reel: buildRouletteReel(activePrizes, result) }]);
+
+      if (settings.skipAnimation) {
+        // Mostra a faixa já parada no resultado
+        setIsSpinning(false);
+        setReelReleased(true);
+        finishRound(result);
+      } else {
+        setReelReleased(false);
+        setGameState('spinning');
+        await new Promise<void>((resolve) => startRouletteSpin(resolve));
+        finishRound(result);
+      }
+
+      stopReason = getWinStopReason(result, settings);
+    }
+
+    autoPlayActiveRef.current = false;
+    setAutoPlaySession({ ...session, running: false, stopReason });
+    setGameState((state) => state === 'loading' ? 'idle' : state);
+
+    if (session.roundsPlayed === 0) {
+      toast.error(stopReason);
+    } else {
+      toast.info(`Auto-play encerrado após ${session.roundsPlayed} rodada(s). ${stopReason}`);
+    }
+  };
+
+  // Interrompe o auto-play ao fim da rodada em andamento
+  const handleStopAutoPlay = () => {
+    autoPlayActiveRef.current = false;
   };
 
   // Função para jogar novamente
@@ -385,29 +365,143 @@ const RouletteBoxPage = () => {
     if (!isAuthenticated || playingGame || !scratchCardData) return;
 
     // Reset states
-    setRouletteItems([]);
+    setRounds([]);
     setShowConfetti(false);
     setHasWon(false);
     setTotalWinnings(0);
     setGameResult(null);
-    setWinningItem(null);
     setIsSpinning(false);
-    setFinalRotation(0);
+    setReelReleased(false);
     
     // Start new game
     await handleOpenBox();
   };
 
-  // Função para obter cor da raridade
-  const getRarityColor = (rarity: string) => {
-    switch (rarity) {
-      case 'legendary': return 'from-yellow-500 to-yellow-600 border-yellow-400';
-      case 'epic': return 'from-purple-500 to-purple-600 border-purple-400';
-      case 'rare': return 'from-blue-500 to-blue-600 border-blue-400';
-      default: return 'from-gray-500 to-gray-600 border-gray-400';
-    }
+  // Texto do botão de jogar, com o valor total da quantidade escolhida
+  const getPlayButtonLabel = (again: boolean) => {
+    if (!scratchCardData) return 'Carregando...';
+    const count = isScratchMode ? 1 : playCount;
+    const total = (parseFloat(scratchCardData.price) * count).toLocaleString('pt-BR', { minimumFractionDigits: 2 });
+
+    if (isScratchMode) return `${again ? 'Jogar Novamente' : 'Comprar Raspadinha'} (R$ ${total})`;
+    if (count > 1) return `${again ? 'Abrir Novamente' : 'Abrir'} ${count} Boxes (R$ ${total})`;
+    return `${again ? 'Girar Novamente' : 'Abrir Box'} (R$ ${total})`;
   };
 
+  // Seletor de quantidade de boxes, disponível apenas no modo roleta
+  const renderPlayCountSelector = () => !isScratchMode && (
+    <div className="flex items-center justify-center gap-2 mb-3 sm:mb-4">
+      <span className="text-neutral-400 text-xs sm:text-sm">Quantidade:</span>
+      {PLAY_COUNT_OPTIONS.map((count) => (
+        <button
+          key={count}
+          type="button"
+          onClick={() => setPlayCount(count)}
+          disabled={!isAuthenticated}
+          className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors disabled:opacity-50 ${
+            playCount === count
+              ? 'bg-yellow-500 border-yellow-400 text-white'
+              : 'bg-neutral-800 border-neutral-600 text-neutral-300 hover:bg-neutral-600'
+          }`}
+        >
+          {count}x
+        </button>
+      ))}
+    </div>
+  );
+
+  // Resultado da rodada, exibido tanto na roleta quanto na raspadinha
+  const renderResult = () => (
+    <div className="text-center">
+      {hasWon ? (
+        <div>
+          <h3 className="text-green-400 font-bold text-lg sm:text-xl mb-2">
+            Parabéns! Você ganhou!
+          </h3>
+          {gameResult?.prize?.type === 'PRODUCT' ? (
+            <p className="text-white font-semibold text-base sm:text-lg">
+              {gameResult.prize.product_name || gameResult.prize.name}
+            </p>
+          ) : (
+            <p className="text-white font-semibold text-base sm:text-lg">
+              Total: R$ {totalWinnings.toFixed(2).replace('.', ',')}
+            </p>
+          )}
+          <p className="text-neutral-400 text-xs sm:text-sm mt-1">
+            A sorte estava ao seu lado!
+          </p>
+        </div>
+      ) : (
+        <div>
+          <h3 className="text-yellow-400 font-bold text-lg sm:text-xl mb-2">
+            Ops! Não foi dessa vez!
+          </h3>
+          <p className="text-neutral-400 text-sm">
+            Continue tentando, a sorte pode mudar!
+          </p>
+        </div>
+      )}
+      
+      <div className="mt-4">
+        {hasWon && gameResult?.prize?.type === 'PRODUCT' ? (
+          <Button 
+            onClick={() => router.push('/v1/profile/inventory')}
+            className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white font-semibold py-2 px-6 rounded-lg w-full transition-all duration-300 shadow-lg hover:shadow-xl border border-purple-400/20 text-sm"
+          >
+            Ir para Inventário
+          </Button>
+        ) : (
+          <>
+            {renderPlayCountSelector()}
+            <Button 
+              onClick={handlePlayAgain}
+              disabled={!isAuthenticated || !scratchCardData}
+              className="bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 disabled:from-neutral-600 disabled:to-neutral-700 text-white font-semibold py-2 px-6 rounded-lg transition-all duration-300 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {getPlayButtonLabel(true)}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  // Resumo da abertura de várias boxes
+  const renderBatchResult = () => (
+    <div>
+      <MultiPlaySummary
+        results={rounds.map((round) => round.result)}
+        requested={batchRequested}
+        price={parseFloat(scratchCardData?.price || '0')}
+        stopReason={batchStopReason}
+        resolveImageUrl={fixImageUrl}
+      />
+
+      <div className="mt-4 text-center">
+        {renderPlayCountSelector()}
+        <div className="flex flex-col sm:flex-row gap-2 justify-center">
+          <Button 
+            onClick={handlePlayAgain}
+            disabled={!isAuthenticated || !scratchCardData}
+            className="bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 disabled:from-neutral-600 disabled:to-neutral-700 text-white font-semibold py-2 px-6 rounded-lg transition-all duration-300 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {getPlayButtonLabel(true)}
+          </Button>
+          {rounds.some((round) => round.result.isWinner && round.result.prize?.type === 'PRODUCT') && (
+            <Button 
+              onClick={() => router.push('/v1/profile/inventory')}
+              className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-all duration-300 shadow-lg hover:shadow-xl border border-purple-400/20 text-sm"
+            >
+              Ir para Inventário
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className={`${poppins.className} min-h-screen bg-neutral-900`}>
       <Header />
@@ -433,13 +527,26 @@ const RouletteBoxPage = () => {
           {/* Header */}
           <div className="text-center mb-4 sm:mb-6">
             <h2 className="text-xl sm:text-2xl md:text-3xl font-bold bg-gradient-to-r from-white to-neutral-400 bg-clip-text text-transparent">
-              {scratchCardData?.name || '...'} - Roleta
+              {scratchCardData?.name || '...'} - {isScratchMode ? 'Raspadinha' : 'Roleta'}
             </h2>
             <p className="text-neutral-400 text-xs sm:text-sm px-2">
-              Gire a roleta e ganhe prêmios incríveis!
+              {isScratchMode ? 'Raspe e ganhe prêmios incríveis!' : 'Gire a roleta e ganhe prêmios incríveis!'}
             </p>
           </div>
 
+          {/* Auto-play */}
+          {!isScratchMode && isAuthenticated && scratchCardData && (isAutoPlaying || gameState === 'idle' || gameState === 'completed') && (
+            <AutoPlayPanel
+              settings={autoPlaySettings}
+              onSettingsChange={setAutoPlaySettings}
+              session={autoPlaySession}
+              price={parseFloat(scratchCardData.price)}
+              disabled={playingGame}
+              onStart={handleStartAutoPlay}
+              onStop={handleStopAutoPlay}
+            />
+          )}
+
           {/* Game States */}
           {gameState === 'idle' && (
             <div className="bg-neutral-700 rounded-lg p-3 sm:p-6 border border-neutral-600 mb-4 sm:mb-6">
@@ -449,10 +556,10 @@ const RouletteBoxPage = () => {
                     <Play className="w-12 h-12 sm:w-16 sm:h-16 text-white ml-1" />
                   </div>
                   <h3 className="text-white font-bold text-lg sm:text-2xl mb-2">
-                    Box Misteriosa
+                    {isScratchMode ? 'Raspadinha' : 'Box Misteriosa'}
                   </h3>
                   <p className="text-yellow-400 text-sm sm:text-base">
-                    Clique para girar a roleta!
+                    {isScratchMode ? 'Clique para comprar sua cartela!' : 'Clique para girar a roleta!'}
                   </p>
                 </div>
                 
@@ -475,18 +582,19 @@ const RouletteBoxPage = () => {
               
               <div className="text-center mt-3 sm:mt-4">
                 <h3 className="text-white font-bold text-lg sm:text-xl mb-2">
-                  Gire a roleta e ganhe prêmios incríveis!
+                  {isScratchMode ? 'Raspe e ganhe prêmios incríveis!' : 'Gire a roleta e ganhe prêmios incríveis!'}
                 </h3>
                 <p className="text-neutral-400 text-xs sm:text-sm mb-3 sm:mb-4 px-2">
-                  Cada giro pode render prêmios em dinheiro ou produtos exclusivos.<br />
+                  {isScratchMode ? 'Cada cartela pode render prêmios em dinheiro ou produtos exclusivos.' : 'Cada giro pode render prêmios em dinheiro ou produtos exclusivos.'}<br />
                   A sorte está em suas mãos!
                 </p>
+                {renderPlayCountSelector()}
                 <Button 
                   onClick={handleOpenBox}
                   disabled={!isAuthenticated || !scratchCardData}
                   className="bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 disabled:from-neutral-600 disabled:to-neutral-700 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-xl w-full lg:w-1/2 transition-all duration-300 shadow-lg hover:shadow-xl border border-yellow-400/20 disabled:border-neutral-600/20"
                 >
-                  {!isAuthenticated ? 'Faça login para jogar' : scratchCardData ? `Abrir Box (R$ ${parseFloat(scratchCardData.price).toLocaleString('pt-BR', { minimumFractionDigits: 2 })})` : 'Carregando...'}
+                  {!isAuthenticated ? 'Faça login para jogar' : getPlayButtonLabel(false)}
                 </Button>
               </div>
             </div>
@@ -500,22 +608,42 @@ const RouletteBoxPage = () => {
                   <Loader2 className="w-8 h-8 sm:w-10 sm:h-10 text-white animate-spin" />
                 </div>
                 <h3 className="text-white font-bold text-lg sm:text-xl mb-2">
-                  Preparando a roleta...
+                  {isScratchMode ? 'Preparando a raspadinha...' : 'Preparando a roleta...'}
                 </h3>
                 <p className="text-neutral-400 text-sm">
-                  Aguarde enquanto carregamos os prêmios
+                  {batchRequested > 1
+                    ? `Abrindo box ${batchProgress} de ${batchRequested}...`
+                    : 'Aguarde enquanto carregamos os prêmios'}
                 </p>
               </div>
             </div>
           )}
 
+          {/* Scratching/Completed State - Raspadinha */}
+          {isScratchMode && (gameState === 'scratching' || gameState === 'completed') && gameResult && scratchCardData && (
+            <div className="bg-neutral-700 rounded-lg p-4 sm:p-6 border border-neutral-600 mb-4 sm:mb-6">
+              <ScratchGame
+                prizes={scratchCardData.prizes.filter(prize => prize.is_active)}
+                result={gameResult}
+                resolveImageUrl={(url) => fixImageUrl(url || '')}
+                onComplete={() => finishRound(gameResult)}
+              />
+
+              {gameState === 'completed' && (
+                <div className="mt-6">
+                  {renderResult()}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Spinning/Completed State - Roulette */}
-          {(gameState === 'spinning' || gameState === 'completed') && (
+          {!isScratchMode && (gameState === 'spinning' || gameState === 'completed') && (
             <div className="bg-neutral-700 rounded-lg p-4 sm:p-6 border border-neutral-600 mb-4 sm:mb-6">
               {gameState === 'spinning' && (
                 <div className="text-center mb-4">
                   <p className="text-white font-semibold text-sm sm:text-base mb-2">
-                    A roleta está girando...
+                    {isMultiPlay ? `${rounds.length} roletas girando...` : 'A roleta está girando...'}
                   </p>
                   <p className="text-yellow-400 text-xs sm:text-sm">
                     Aguarde o resultado!
@@ -524,104 +652,49 @@ const RouletteBoxPage = () => {
               )}
               
               {/* Roulette Container */}
-              <div className="relative w-full max-w-lg mx-auto mb-6">
-                {/* Pointer */}
-                <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20">
-                  <div className="w-0 h-0 border-l-[15px] border-l-transparent border-r-[15px] border-r-transparent border-b-[20px] border-b-yellow-500 drop-shadow-lg"></div>
+              {isMultiPlay ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+                  {rounds.map((round, index) => (
+                    <RouletteTrack
+                      key={index}
+                      reel={round.reel}
+                      released={reelReleased}
+                      spinning={isSpinning}
+                      duration={SPIN_DURATION}
+                      revealed={gameState === 'completed'}
+                      compact
+                      resolveImageUrl={fixImageUrl}
+                    />
+                  ))}
                 </div>
-                
-                {/* Roulette Track */}
-                <div className="relative h-24 bg-neutral-800 rounded-lg border-2 border-neutral-600 overflow-hidden">
-                  <div 
-                    className="absolute top-0 left-0 h-full flex transition-transform ease-out"
-                    style={{
-                      transform: `translateX(-${finalRotation}px)`,
-                      transitionDuration: isSpinning ? `${spinDuration}ms` : '0ms',
-                      transitionTimingFunction: 'cubic-bezier(0.25, 0.46, 0.45, 0.94)'
-                    }}
-                  >
-                    {rouletteItems.map((item, index) => (
-                      <div
-                        key={`${item.id}-${index}`}
-                        className={`flex-shrink-0 w-[120px] h-full flex flex-col items-center justify-center p-2 border-r border-neutral-600 bg-gradient-to-br ${getRarityColor(item.rarity)} ${item.isWinning ? 'ring-4 ring-yellow-400 ring-opacity-75' : ''}`}
-                      >
-                        <div className="w-8 h-8 relative mb-1">
-                          <Image
-                            src={item.image}
-                            alt={item.name}
-                            fill
-                            className="object-contain"
-                            onError={(e) => {
-                              const target = e.target as HTMLImageElement;
-                              target.src = '/50_money.webp';
-                            }}
-                          />
-                        </div>
-                        <p className="text-white text-xs font-bold text-center leading-tight">
-                          {item.type === 'MONEY' ? `R$ ${parseFloat(item.value).toFixed(0)}` : item.name.substring(0, 8)}
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-              
-              {gameState === 'completed' && (
-                <div className="text-center">
-                  {hasWon ? (
-                    <div>
-                      <h3 className="text-green-400 font-bold text-lg sm:text-xl mb-2">
-                        Parabéns! Você ganhou!
-                      </h3>
-                      {gameResult?.prize?.type === 'PRODUCT' ? (
-                        <p className="text-white font-semibold text-base sm:text-lg">
-                          {gameResult.prize.product_name || gameResult.prize.name}
-                        </p>
-                      ) : (
-                        <p className="text-white font-semibold text-base sm:text-lg">
-                          Total: R$ {totalWinnings.toFixed(2).replace('.', ',')}
-                        </p>
-                      )}
-                      <p className="text-neutral-400 text-xs sm:text-sm mt-1">
-                        A sorte estava ao seu lado!
-                      </p>
-                    </div>
-                  ) : (
-                    <div>
-                      <h3 className="text-yellow-400 font-bold text-lg sm:text-xl mb-2">
-                        Ops! Não foi dessa vez!
-                      </h3>
-                      <p className="text-neutral-400 text-sm">
-                        Continue tentando, a sorte pode mudar!
-                      </p>
-                    </div>
-                  )}
-                  
-                  <div className="mt-4">
-                    {hasWon && gameResult?.prize?.type === 'PRODUCT' ? (
-                      <Button 
-                        onClick={() => router.push('/v1/profile/inventory')}
-                        className="bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white font-semibold py-2 px-6 rounded-lg w-full transition-all duration-300 shadow-lg hover:shadow-xl border border-purple-400/20 text-sm"
-                      >
-                        Ir para Inventário
-                      </Button>
-                    ) : (
-                      <Button 
-                        onClick={handlePlayAgain}
-                        disabled={!isAuthenticated || !scratchCardData}
-                        className="bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 disabled:from-neutral-600 disabled:to-neutral-700 text-white font-semibold py-2 px-6 rounded-lg transition-all duration-300 disabled:cursor-not-allowed"
-                      >
-                        <RotateCcw className="w-4 h-4 mr-2" />
-                        {scratchCardData ? `Girar Novamente (R$ ${parseFloat(scratchCardData.price).toLocaleString('pt-BR', { minimumFractionDigits: 2 })})` : 'Carregando...'}
-                      </Button>
-                    )}
-                  </div>
+              ) : rounds[0] && (
+                <div className="w-full max-w-lg mx-auto mb-6">
+                  <RouletteTrack
+                    reel={rounds[0].reel}
+                    released={reelReleased}
+                    spinning={isSpinning}
+                    duration={SPIN_DURATION}
+                    revealed={gameState === 'completed'}
+                    resolveImageUrl={fixImageUrl}
+                  />
                 </div>
               )}
+              
+              {gameState === 'completed' && !isAutoPlaying && isMultiPlay && renderBatchResult()}
+              {gameState === 'completed' && !isAutoPlaying && !isMultiPlay && renderResult()}
             </div>
           )}
         </div>
 
+        {/* Jogo justo */}
+        {isAuthenticated && (
+          <FairnessPanel
+            token={token}
+            refreshKey={fairnessRefreshKey}
+            disabled={isAutoPlaying || gameState === 'loading' || gameState === 'spinning' || gameState === 'scratching'}
+          />
+        )}
+
         {/* Prize Section */}
         <div className="rounded-xl">
           <h2 className="text-lg sm:text-xl font-bold text-white mb-3 sm:mb-4 text-start">
@@ -643,7 +716,7 @@ const RouletteBoxPage = () => {
                   
                   return (
                     <div key={prize.id} className="flex-shrink-0 w-38 xl:w-auto">
-                      <div className={`relative flex flex-col border-2 p-3 rounded-lg bg-gradient-to-t cursor-pointer aspect-square hover:scale-105 transition-all duration-300 ${getRarityColor(rarity)}`}>
+                      <div className={`relative flex flex-col border-2 p-3 rounded-lg bg-gradient-to-t cursor-pointer aspect-square hover:scale-105 transition-all duration-300 ${RARITY_COLORS[rarity]}`}>
                         <Image
                           src={fixImageUrl(prize.image_url)}
                           alt={prize.type === 'MONEY' ? `${parseFloat(prize.value || '0').toFixed(0)} Reais` : prize.name}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { Poppins } from 'next/font/google';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldCheck, KeyRound, AlertCircle, ArrowLeft } from 'lucide-react';
+import { useAdminLogin } from '@/hooks/use-admin-login';
+import { api, ApiError, getErrorMessage } from '@/lib/api';
+import {
+  TWO_FACTOR_CODE_LENGTH,
+  clearPendingChallenge,
+  getPendingChallenge,
+} from '@/lib/two-factor';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300","400","500", "600", "700"],
+});
+
+const ADMIN_LOGIN_PATH = '/v2/administrator';
+
+export default function AdminTwoFactorPage() {
+  const router = useRouter();
+  const { completeLogin } = useAdminLogin();
+  const [challenge, setChallenge] = useState<ReturnType<typeof getPendingChallenge>>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    // Sem desafio pendente não há o que verificar: volta para o login
+    const pending = getPendingChallenge();
+    if (!pending) {
+      router.replace(ADMIN_LOGIN_PATH);
+      return;
+    }
+    setChallenge(pending);
+  }, [router]);
+
+  const handleBackToLogin = () => {
+    clearPendingChallenge();
+    router.push(ADMIN_LOGIN_PATH);
+  };
+
+  const handleVerify = async (value = code) => {
+    if (!challenge || isLoading) return;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const session = await api.auth.verifyTwoFactor(
+        challenge.challenge_token,
+        useRecovery ? { recovery_code: recoveryCode.trim() } : { code: value }
+      );
+
+      if (!session.user.is_admin) {
+        clearPendingChallenge();
+        setError('Acesso negado. Você não tem permissões de administrador.');
+        return;
+      }
+
+      clearPendingChallenge();
+      await completeLogin(session, challenge.redirect);
+    } catch (err) {
+      // Desafio vencido ou já utilizado (410): é preciso informar a senha novamente
+      if (err instanceof ApiError && err.status === 410) {
+        clearPendingChallenge();
+        router.replace(ADMIN_LOGIN_PATH);
+        return;
+      }
+      setError(getErrorMessage(err, 'Código inválido. Tente novamente.'));
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleVerify();
+  };
+
+  const canSubmit = useRecovery ? recoveryCode.trim().length > 0 : code.length === TWO_FACTOR_CODE_LENGTH;
+
+  return (
+    <div className={`${poppins.className} min-h-screen bg-neutral-900 flex items-center justify-center p-4`}>
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-6">
+            <div className="w-20 h-20 bg-gradient-to-br from-neutral-600 to-neutral-700 rounded-lg flex items-center justify-center shadow-lg border border-neutral-500/30">
+              <ShieldCheck className="w-10 h-10 text-neutral-300" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-white to-neutral-400 bg-clip-text text-transparent mb-2">
+            Verificação em duas etapas
+          </h1>
+          <p className="text-neutral-400 text-sm">
+            {useRecovery
+              ? 'Informe um dos seus códigos de recuperação'
+              : 'Digite o código de 6 dígitos do seu aplicativo autenticador'}
+          </p>
+        </div>
+
+        <div className="bg-neutral-800 rounded-xl border border-neutral-700 p-8 shadow-2xl">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="flex items-center gap-3 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+                <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {useRecovery ? (
+              <div className="space-y-2">
+                <Label htmlFor="recoveryCode" className="text-white font-medium flex items-center gap-2">
+                  <KeyRound className="w-4 h-4" />
+                  Código de recuperação
+                </Label>
+                <Input
+                  id="recoveryCode"
+                  placeholder="xxxx-xxxx"
+                  value={recoveryCode}
+                  onChange={(e) => {
+                    setRecoveryCode(e.target.value);
+                    if (error) setError('');
+                  }}
+                  autoComplete="off"
+                  autoFocus
+                  className="bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500 focus:ring-yellow-500/20 font-mono"
+                />
+              </div>
+            ) : (
+              <div className="flex justify-center">
+                <InputOTP
+                  maxLength={TWO_FACTOR_CODE_LENGTH}
+                  value={code}
+                  onChange={(value) => {
+                    setCode(value.replace(/\D/g, ''));
+                    if (error) setError('');
+                  }}
+                  onComplete={(value: string) => handleVerify(value)}
+                  disabled={isLoading}
+                  autoFocus
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: TWO_FACTOR_CODE_LENGTH }, (_, index) => (
+                      <InputOTPSlot
+                        key={index}
+                        index={index}
+                        className="h-12 w-12 text-lg text-white bg-neutral-700 border-neutral-600"
+                      />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={isLoading || !challenge || !canSubmit}
+              className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-300 shadow-lg hover:shadow-xl border border-yellow-400/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  Verificando...
+                </div>
+              ) : (
+                'Verificar'
+              )}
+            </Button>
+
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={handleBackToLogin}
+                className="flex items-center gap-1 text-neutral-400 hover:text-white transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Voltar ao login
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecovery(!useRecovery);
+                  setError('');
+                }}
+                className="text-yellow-400 hover:text-yellow-300 transition-colors"
+              >
+                {useRecovery ? 'Usar aplicativo autenticador' : 'Usar código de recuperação'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,459 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppSidebar } from "@/components/app-sidebar"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ScrollText, ChevronLeft, ChevronRight, Eye, FilterX } from "lucide-react"
+import { Poppins } from 'next/font/google'
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, getErrorMessage } from '@/lib/api';
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from '@/lib/audit';
+import type { AuditAction, AuditLogEntry, AuditLogFilters, Pagination, UserSummary } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300","400","500", "600", "700"],
+})
+
+// Valor usado pelos selects para "sem filtro" (o Select não aceita string vazia)
+const ALL = 'all';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  if (value === null) return 'null';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Linhas do comparativo antes/depois, com as chaves alteradas primeiro
+const buildDiff = (entry: AuditLogEntry) => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .map((key) => ({
+      key,
+      before: formatValue(before[key]),
+      after: formatValue(after[key]),
+      changed: formatValue(before[key]) !== formatValue(after[key]),
+    }))
+    .sort((a, b) => Number(b.changed) - Number(a.changed));
+};
+
+const getActionColor = (action: AuditAction) => {
+  if (action === 'withdrawal.reject' || action === 'scratchcard.delete' || action === 'payment_provider.delete') {
+    return 'bg-red-500/10 text-red-400 border-red-500/20';
+  }
+  if (action === 'withdrawal.approve' || action === 'withdrawal.auto_approve') {
+    return 'bg-green-500/10 text-green-400 border-green-500/20';
+  }
+  if (action === 'user.balance_adjust' || action === 'settings.credentials_update' || action === 'payment_provider.update'
+    || action === 'scratchcard.prizes_update' || action === 'settings.rtp_monitor_update' || action === 'user.roles_update') {
+    return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+  }
+  return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+};
+
+export default function AuditLogPage() {
+  const { token, isLoading: authLoading } = useAuth();
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [admins, setAdmins] = useState<UserSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 20, total: 0, pages: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [adminId, setAdminId] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
+
+  const fetchLogs = useCallback(async (page: number = 1) => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+
+    // O intervalo de datas considera o dia inteiro no fuso do navegador
+    const filters: AuditLogFilters = {
+      admin_id: adminId === ALL ? undefined : adminId,
+      action: action === ALL ? undefined : (action as AuditAction),
+      from: dateFrom ? new Date(`${dateFrom}T00:00:00`).toISOString() : undefined,
+      to: dateTo ? new Date(`${dateTo}T23:59:59.999`).toISOString() : undefined,
+    };
+
+    try {
+      const data = await api.admin.auditLogs.list(token, { page, ...filters });
+      setLogs(data.logs);
+      setPagination(data.pagination);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar auditoria');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, adminId, action, dateFrom, dateTo]);
+
+  useEffect(() => {
+    if (!authLoading && token) {
+      fetchLogs();
+    } else if (!authLoading && !token) {
+      setError('Usuário não autenticado. Faça login para continuar.');
+      setLoading(false);
+    }
+  }, [authLoading, token, fetchLogs]);
+
+  // Lista de administradores para o filtro
+  useEffect(() => {
+    if (!token) return;
+    api.admin.users.listAdmins(token)
+      .then((data) => setAdmins(data || []))
+      .catch((err) => console.error('Erro ao carregar administradores:', err));
+  }, [token]);
+
+  const hasFilters = adminId !== ALL || action !== ALL || dateFrom !== '' || dateTo !== '';
+
+  const clearFilters = () => {
+    setAdminId(ALL);
+    setAction(ALL);
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 h-4 bg-neutral-600"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Auditoria</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            {/* Header Section */}
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                <ScrollText className="w-5 h-5 text-neutral-300" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">Auditoria</h1>
+                <p className="text-neutral-400 text-sm">
+                  {loading ? 'Carregando...' : `Total de ${pagination.total} ações registradas`}
+                </p>
+              </div>
+            </div>
+
+            {/* Filtros */}
+            <Card className="bg-neutral-800 border-neutral-700 p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label className="text-neutral-300">Administrador</Label>
+                  <Select value={adminId} onValueChange={setAdminId}>
+                    <SelectTrigger className="w-full bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      <SelectItem value={ALL} className="text-white hover:bg-neutral-600">Todos</SelectItem>
+                      {admins.map((admin) => (
+                        <SelectItem key={admin.id} value={admin.id} className="text-white hover:bg-neutral-600">
+                          {admin.username}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-neutral-300">Ação</Label>
+                  <Select value={action} onValueChange={setAction}>
+                    <SelectTrigger className="w-full bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      <SelectItem value={ALL} className="text-white hover:bg-neutral-600">Todas</SelectItem>
+                      {AUDIT_ACTIONS.map((item) => (
+                        <SelectItem key={item} value={item} className="text-white hover:bg-neutral-600">
+                          {AUDIT_ACTION_LABELS[item]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dateFrom" className="text-neutral-300">De</Label>
+                  <Input
+                    id="dateFrom"
+                    type="date"
+                    value={dateFrom}
+                    max={dateTo || undefined}
+                    onChange={(e) => setDateFrom(e.target.value)}
+                    className="bg-neutral-700 border-neutral-600 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dateTo" className="text-neutral-300">Até</Label>
+                  <Input
+                    id="dateTo"
+                    type="date"
+                    value={dateTo}
+                    min={dateFrom || undefined}
+                    onChange={(e) => setDateTo(e.target.value)}
+                    className="bg-neutral-700 border-neutral-600 text-white"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={clearFilters}
+                  disabled={!hasFilters}
+                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600 disabled:opacity-50"
+                >
+                  <FilterX className="w-4 h-4 mr-2" />
+                  Limpar filtros
+                </Button>
+              </div>
+            </Card>
+
+            <Card className="bg-neutral-800 border-neutral-700">
+              {error ? (
+                <div className="p-6">
+                  <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+                    <p className="text-red-400 text-sm">{error}</p>
+                  </div>
+                </div>
+              ) : loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                </div>
+              ) : logs.length === 0 ? (
+                <div className="p-8 text-center">
+                  <div className="w-16 h-16 bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <ScrollText className="w-8 h-8 text-neutral-400" />
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-2">Nenhuma ação encontrada</h3>
+                  <p className="text-neutral-400 text-sm">Tente ajustar os filtros</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                        <TableHead className="text-neutral-300">Data</TableHead>
+                        <TableHead className="text-neutral-300">Administrador</TableHead>
+                        <TableHead className="text-neutral-300">Ação</TableHead>
+                        <TableHead className="text-neutral-300">Entidade</TableHead>
+                        <TableHead className="text-neutral-300">Motivo</TableHead>
+                        <TableHead className="text-neutral-300">IP</TableHead>
+                        <TableHead className="text-neutral-300 text-right">Detalhes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {logs.map((log) => (
+                        <TableRow key={log.id} className="border-neutral-700 hover:bg-neutral-700/30">
+                          <TableCell className="text-neutral-300 text-sm whitespace-nowrap">{formatDate(log.created_at)}</TableCell>
+                          <TableCell>
+                            {log.admin ? (
+                              <>
+                                <div className="text-white text-sm font-medium">{log.admin.username}</div>
+                                <div className="text-neutral-400 text-xs">{log.admin.email}</div>
+                              </>
+                            ) : (
+                              <>
+                                <div className="text-white text-sm font-medium">Automático</div>
+                                <div className="text-neutral-400 text-xs">{log.rule ? `Regra: ${log.rule.name}` : 'Sistema'}</div>
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={getActionColor(log.action)}>
+                              {AUDIT_ACTION_LABELS[log.action] || log.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-white text-sm">{log.entity_label || log.entity_id}</div>
+                            <div className="text-neutral-400 text-xs">{AUDIT_ENTITY_LABELS[log.entity_type] || log.entity_type}</div>
+                          </TableCell>
+                          <TableCell className="text-neutral-300 text-sm max-w-xs truncate" title={log.reason}>
+                            {log.reason}
+                          </TableCell>
+                          <TableCell className="text-neutral-400 text-sm font-mono">{log.ip || '—'}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedLog(log)}
+                              className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10"
+                              title="Ver antes/depois"
+                            >
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {/* Pagination */}
+              {!loading && !error && pagination.pages > 1 && (
+                <div className="flex items-center justify-between p-6 border-t border-neutral-700">
+                  <div className="text-sm text-neutral-400">
+                    Página {pagination.page} de {pagination.pages}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchLogs(pagination.page - 1)}
+                      disabled={pagination.page <= 1}
+                      className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600 disabled:opacity-50"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      Anterior
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchLogs(pagination.page + 1)}
+                      disabled={pagination.page >= pagination.pages}
+                      className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600 disabled:opacity-50"
+                    >
+                      Próxima
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+
+      {/* Modal de antes/depois */}
+      <Dialog open={selectedLog !== null} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {selectedLog ? AUDIT_ACTION_LABELS[selectedLog.action] || selectedLog.action : ''}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-neutral-400">Administrador</p>
+                  <p className="text-white">
+                    {selectedLog.admin
+                      ? `${selectedLog.admin.username} (${selectedLog.admin.email})`
+                      : `Automático${selectedLog.rule ? ` · regra "${selectedLog.rule.name}"` : ''}`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-neutral-400">Data</p>
+                  <p className="text-white">{formatDate(selectedLog.created_at)}</p>
+                </div>
+                <div>
+                  <p className="text-neutral-400">{AUDIT_ENTITY_LABELS[selectedLog.entity_type] || selectedLog.entity_type}</p>
+                  <p className="text-white break-all">{selectedLog.entity_label || selectedLog.entity_id}</p>
+                </div>
+                <div>
+                  <p className="text-neutral-400">IP</p>
+                  <p className="text-white font-mono">{selectedLog.ip || '—'}</p>
+                </div>
+              </div>
+              <div>
+                <p className="text-neutral-400 text-sm">Motivo</p>
+                <p className="text-white text-sm whitespace-pre-wrap">{selectedLog.reason}</p>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                      <TableHead className="text-neutral-300">Campo</TableHead>
+                      <TableHead className="text-neutral-300">Antes</TableHead>
+                      <TableHead className="text-neutral-300">Depois</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {buildDiff(selectedLog).map((row) => (
+                      <TableRow key={row.key} className="border-neutral-700">
+                        <TableCell className="text-neutral-300 font-mono text-xs">{row.key}</TableCell>
+                        <TableCell className={`font-mono text-xs break-all ${row.changed ? 'text-red-400' : 'text-neutral-400'}`}>{row.before}</TableCell>
+                        <TableCell className={`font-mono text-xs break-all ${row.changed ? 'text-green-400' : 'text-neutral-400'}`}>{row.after}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -19,53 +19,17 @@ import { Poppins } from 'next/font/google'
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { LineChart, Line, AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import type { AdminStats } from '@/lib/types';
 
 const poppins = Poppins({ 
   subsets: ["latin"],
   weight: ["100", "200", "300","400","500", "600", "700"],
 })
 
-interface StatsData {
-  deposits: {
-    total: { amount: string; count: number };
-    pending: { amount: string; count: number };
-    approved: { amount: string; count: number };
-    rejected: { amount: string; count: number };
-  };
-  withdrawals: {
-    total: { amount: string; count: number };
-    pending: { amount: string; count: number };
-    approved: { amount: string; count: number };
-    rejected: { amount: string; count: number };
-  };
-  users: {
-    total: number;
-    today: number;
-    totalBalance: string;
-  };
-  affiliates: {
-    total: number;
-    today: number;
-    totalCommissions: number;
-  };
-  games: {
-    totalBet: string;
-    totalDistributed: string;
-    totalGames: number;
-    profit: number;
-  };
-  summary: {
-    totalRevenue: string;
-    totalCosts: string;
-    netProfit: number;
-    totalInWallets: string;
-  };
-}
-
 export default function Page() {
   const { user, token } = useAuth();
-  const [stats, setStats] = useState<StatsData | null>(null);
+  const [stats, setStats] = useState<AdminStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -74,22 +38,10 @@ export default function Page() {
       if (!token) return;
       
       try {
-        const response = await fetch(apiUrl('/v1/api/admin/stats'), {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        const data = await response.json();
-        
-        if (!response.ok) {
-          throw new Error(data.message || 'Erro ao carregar estatísticas');
-        }
-
-        setStats(data.data);
-      } catch (err: any) {
-        setError(err.message);
+        const data = await api.admin.getStats(token);
+        setStats(data);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Erro ao carregar estatísticas'));
       } finally {
         setLoading(false);
       }
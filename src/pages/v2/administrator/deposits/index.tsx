@@ -29,7 +29,11 @@ import {
 } from "@/components/ui/table"
 import { Search, ArrowUpRight, Clock, CreditCard, DollarSign, Loader2 } from "lucide-react"
 import { Poppins } from 'next/font/google'
-import { apiUrl } from '@/lib/api';
+import { api } from '@/lib/api';
+import type { ExportColumn } from '@/lib/export';
+import { useTableExport } from '@/hooks/use-table-export';
+import ExportMenu from '@/components/export-menu';
+import type { Deposit, UserSummary } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -37,45 +41,7 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 })
 
-// Interfaces para os dados da API
-interface User {
-  id: string;
-  username: string;
-  email: string;
-}
-
-interface Deposit {
-  id: string;
-  userId: string;
-  walletId: string;
-  amount: string;
-  currency: string;
-  symbol: string;
-  status: boolean;
-  payment_method: string;
-  metadata: {
-    qrCode?: string;
-    gateway: string;
-    transactionId: string;
-  };
-  paid_at: string | null;
-  created_at: string;
-  updated_at: string;
-  user: User;
-}
-
-interface DepositsResponse {
-  success: boolean;
-  data: {
-    deposits: Deposit[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      pages: number;
-    };
-  };
-}
+type AdminDeposit = Deposit & { user: UserSummary };
 
 // Função para formatar valores monetários
 const formatCurrency = (amount: string, symbol: string = 'R$') => {
@@ -99,10 +65,33 @@ const formatDate = (dateString: string) => {
   });
 };
 
+const matchesSearch = (deposit: AdminDeposit, searchTerm: string) =>
+  deposit.user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  deposit.user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  deposit.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  deposit.amount.includes(searchTerm) ||
+  deposit.payment_method.toLowerCase().includes(searchTerm.toLowerCase());
+
+const EXPORT_COLUMNS: ExportColumn<AdminDeposit>[] = [
+  { header: 'ID do depósito', value: (deposit) => deposit.id },
+  { header: 'Status', value: (deposit) => (deposit.status ? 'Pago' : 'Pendente') },
+  { header: 'Usuário', value: (deposit) => deposit.user.username },
+  { header: 'Email', value: (deposit) => deposit.user.email },
+  { header: 'Valor', value: (deposit) => deposit.amount, type: 'currency' },
+  { header: 'Moeda', value: (deposit) => deposit.currency },
+  { header: 'Método', value: (deposit) => deposit.payment_method },
+  { header: 'Gateway', value: (deposit) => deposit.metadata?.gateway },
+  { header: 'ID no gateway', value: (deposit) => deposit.metadata?.transactionId },
+  { header: 'Código promocional', value: (deposit) => deposit.promo_code },
+  { header: 'Bônus', value: (deposit) => deposit.bonus_amount, type: 'currency' },
+  { header: 'Data de criação', value: (deposit) => deposit.created_at, type: 'date' },
+  { header: 'Data de pagamento', value: (deposit) => deposit.paid_at, type: 'date' },
+];
+
 export default function DepositsPage() {
   const { token, isLoading: authLoading } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
-  const [deposits, setDeposits] = useState<Deposit[]>([]);
+  const [deposits, setDeposits] = useState<AdminDeposit[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pagination, setPagination] = useState({
@@ -122,28 +111,9 @@ export default function DepositsPage() {
         throw new Error('Token de autenticação não encontrado');
       }
       
-      const response = await fetch(apiUrl(`/v1/api/admin/deposits?page=${page}&limit=20`), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Token inválido ou expirado');
-        }
-        throw new Error('Erro ao carregar depósitos');
-      }
-      
-      const data: DepositsResponse = await response.json();
-      
-      if (data.success) {
-        setDeposits(data.data.deposits);
-        setPagination(data.data.pagination);
-      } else {
-        throw new Error('Erro na resposta da API');
-      }
+      const data = await api.admin.deposits.list(token, { page, limit: 20 });
+      setDeposits(data.deposits);
+      setPagination(data.pagination);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Erro desconhecido');
       console.error('Erro ao buscar depósitos:', err);
@@ -161,13 +131,19 @@ export default function DepositsPage() {
     }
   }, [token, authLoading]);
 
-  const filteredDeposits = deposits.filter(deposit => 
-    deposit.user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    deposit.user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    deposit.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    deposit.amount.includes(searchTerm) ||
-    deposit.payment_method.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredDeposits = deposits.filter(deposit => matchesSearch(deposit, searchTerm));
+
+  const tableExport = useTableExport({
+    filename: 'depositos',
+    sheetName: 'Depósitos',
+    columns: EXPORT_COLUMNS,
+    rows: filteredDeposits,
+    fetchPage: async (page, limit) => {
+      if (!token) throw new Error('Token de autenticação não encontrado');
+      const data = await api.admin.deposits.list(token, { page, limit });
+      return { rows: data.deposits.filter(deposit => matchesSearch(deposit, searchTerm)), pagination: data.pagination };
+    },
+  });
 
   // Calcular estatísticas
   const stats = {
@@ -256,6 +232,13 @@ export default function DepositsPage() {
                   </p>
                 </div>
               </div>
+              <ExportMenu
+                exporting={tableExport.exporting}
+                progress={tableExport.progress}
+                disabled={loading || !!error}
+                onExport={tableExport.exportTable}
+                onCancel={tableExport.cancel}
+              />
             </div>
 
             {/* Stats Cards */}
@@ -40,7 +40,12 @@ import { Poppins } from 'next/font/google';
 import { useAuth } from '@/contexts/AuthContext';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { useTableExport } from '@/hooks/use-table-export';
+import ExportMenu from '@/components/export-menu';
+import type { ExportColumn } from '@/lib/export';
+import type { License, LicenseUsage, Pagination } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -48,56 +53,21 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 });
 
-interface LicenseData {
-  id: string;
-  credits: number;
-  credits_used: number;
-  credits_value: string;
-  ggr_percentage: string;
-  total_earnings: string;
-  is_active: boolean;
-}
-
-interface LicenseUsage {
-  id: string;
-  userId: string;
-  licenseId: string;
-  scratchCardId: string;
-  credits_used: number;
-  createdAt: string;
-  updatedAt: string;
-  user: {
-    id: string;
-    username: string;
-    full_name: string;
-    email: string;
-  };
-  license: {
-    id: string;
-    credits: number;
-    credits_used: number;
-    credits_value: string;
-    ggr_percentage: string;
-  };
-  scratchCard: {
-    id: string;
-    name: string;
-    price: string;
-  };
-}
-
-interface PaginationData {
-  total: number;
-  page: number;
-  limit: number;
-  pages: number;
-}
+const EXPORT_COLUMNS: ExportColumn<LicenseUsage>[] = [
+  { header: 'Data', value: (usage) => usage.createdAt, type: 'date' },
+  { header: 'Usuário', value: (usage) => usage.user.full_name || usage.user.username },
+  { header: 'Email', value: (usage) => usage.user.email },
+  { header: 'Raspadinha', value: (usage) => usage.scratchCard.name },
+  { header: 'Preço', value: (usage) => usage.scratchCard.price, type: 'currency' },
+  { header: 'Créditos usados', value: (usage) => usage.credits_used, type: 'integer' },
+];
 
 export default function GGRPage() {
   const { token } = useAuth();
-  const [licenseData, setLicenseData] = useState<LicenseData | null>(null);
+  const { can } = useAdminPermissions();
+  const [licenseData, setLicenseData] = useState<License | null>(null);
   const [usageData, setUsageData] = useState<LicenseUsage[]>([]);
-  const [pagination, setPagination] = useState<PaginationData>({ total: 0, page: 1, limit: 10, pages: 0 });
+  const [pagination, setPagination] = useState<Pagination>({ total: 0, page: 1, limit: 10, pages: 0 });
   const [loading, setLoading] = useState(true);
   const [usageLoading, setUsageLoading] = useState(true);
   const [error, setError] = useState('');
@@ -116,22 +86,10 @@ export default function GGRPage() {
       if (!token) return;
       
       try {
-        const response = await fetch(apiUrl('/v1/api/license/current'), {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        const data = await response.json();
-        
-        if (!response.ok) {
-          throw new Error(data.message || 'Erro ao carregar dados da licença');
-        }
-
-        setLicenseData(data.data);
-      } catch (err: any) {
-        setError(err.message);
+        const data = await api.license.getCurrent(token);
+        setLicenseData(data);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Erro ao carregar dados da licença'));
       } finally {
         setLoading(false);
       }
@@ -142,23 +100,13 @@ export default function GGRPage() {
       
       try {
         setUsageLoading(true);
-        const response = await fetch(apiUrl('/v1/api/license/usage'), {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        const data = await response.json();
-        
-        if (!response.ok) {
-          throw new Error(data.message || 'Erro ao carregar dados de uso da licença');
+        const data = await api.license.getUsage(token);
+        setUsageData(data.usage);
+        if (data.pagination) {
+          setPagination(data.pagination);
         }
-
-        setUsageData(data.data);
-        setPagination(data.pagination);
-      } catch (err: any) {
-        setUsageError(err.message);
+      } catch (err) {
+        setUsageError(getErrorMessage(err, 'Erro ao carregar dados de uso da licença'));
       } finally {
         setUsageLoading(false);
       }
@@ -168,6 +116,28 @@ export default function GGRPage() {
     fetchUsageData();
   }, [token]);
   
+  const tableExport = useTableExport({
+    filename: 'uso-licenca',
+    sheetName: 'Uso da licença',
+    columns: EXPORT_COLUMNS,
+    rows: usageData,
+    fetchPage: async (page, limit) => {
+      if (!token) throw new Error('Token de autenticação não encontrado');
+      const data = await api.license.getUsage(token, { page, limit });
+      // Sem paginação na resposta, a API devolveu tudo de uma vez
+      return { rows: data.usage, pagination: data.pagination ?? { page, limit, total: data.usage.length, pages: 1 } };
+    },
+  });
+
+  // Recarrega a licença após uma alteração; falhas mantêm os dados atuais
+  const refreshLicenseData = async (authToken: string) => {
+    try {
+      setLicenseData(await api.license.getCurrent(authToken));
+    } catch (err) {
+      console.error('Erro ao atualizar dados da licença:', err);
+    }
+  };
+
   // Função para adicionar créditos
   const handleAddCredits = async () => {
     if (!token || !creditsAmount) return;
@@ -177,41 +147,15 @@ export default function GGRPage() {
       setModalError('');
       setModalSuccess('');
       
-      const response = await fetch(apiUrl('/v1/api/license/credits'), {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          credits: parseInt(creditsAmount)
-        }),
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao adicionar créditos');
-      }
+      await api.license.addCredits(token, parseInt(creditsAmount));
 
       // Atualizar os dados da licença
-      const licenseResponse = await fetch(apiUrl('/v1/api/license/current'), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const licenseData = await licenseResponse.json();
-      
-      if (licenseResponse.ok) {
-        setLicenseData(licenseData.data);
-      }
+      await refreshLicenseData(token);
       
       setModalSuccess('Créditos adicionados com sucesso!');
       setCreditsAmount('');
-    } catch (err: any) {
-      setModalError(err.message);
+    } catch (err) {
+      setModalError(getErrorMessage(err, 'Erro ao adicionar créditos'));
     } finally {
       setIsAddingCredits(false);
     }
@@ -226,41 +170,15 @@ export default function GGRPage() {
       setModalError('');
       setModalSuccess('');
       
-      const response = await fetch(apiUrl('/v1/api/license/earnings'), {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          amount: parseFloat(earningsAmount)
-        }),
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao adicionar arrecadação');
-      }
+      await api.license.addEarnings(token, parseFloat(earningsAmount));
 
       // Atualizar os dados da licença
-      const licenseResponse = await fetch(apiUrl('/v1/api/license/current'), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const licenseData = await licenseResponse.json();
-      
-      if (licenseResponse.ok) {
-        setLicenseData(licenseData.data);
-      }
+      await refreshLicenseData(token);
       
       setModalSuccess('Arrecadação adicionada com sucesso!');
       setEarningsAmount('');
-    } catch (err: any) {
-      setModalError(err.message);
+    } catch (err) {
+      setModalError(getErrorMessage(err, 'Erro ao adicionar arrecadação'));
     } finally {
       setIsAddingEarnings(false);
     }
@@ -364,7 +282,7 @@ export default function GGRPage() {
             )}
             
             {/* Action Buttons */}
-            {!loading && !error && licenseData && (
+            {!loading && !error && licenseData && can('license:edit') && (
               <div className="flex flex-wrap gap-4 mb-6">
                 {/* Adicionar Créditos */}
                 <Dialog>
@@ -519,9 +437,18 @@ export default function GGRPage() {
             <div className="bg-neutral-800 border border-neutral-700 rounded-xl p-6">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-lg font-semibold text-white">Histórico de Uso de Licença</h3>
-                <div className="flex items-center gap-2 text-neutral-400">
-                  <Clock className="w-4 h-4" />
-                  <span className="text-sm">Últimas atividades</span>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2 text-neutral-400">
+                    <Clock className="w-4 h-4" />
+                    <span className="text-sm">Últimas atividades</span>
+                  </div>
+                  <ExportMenu
+                    exporting={tableExport.exporting}
+                    progress={tableExport.progress}
+                    disabled={usageLoading || !!usageError}
+                    onExport={tableExport.exportTable}
+                    onCancel={tableExport.cancel}
+                  />
                 </div>
               </div>
               
@@ -4,7 +4,7 @@ import { Poppins } from 'next/font/google';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAdminLogin } from '@/hooks/use-admin-login';
 import { 
   Eye, 
   EyeOff, 
@@ -19,12 +19,13 @@ const poppins = Poppins({
   subsets: ["latin"],
   weight: ["100", "200", "300","400","500", "600", "700"],
 });
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { TWO_FACTOR_CHALLENGE_PATH, isTwoFactorChallenge, savePendingChallenge } from '@/lib/two-factor';
 
 
 export default function AdminLoginPage() {
   const router = useRouter();
-  const { login } = useAuth();
+  const { completeLogin } = useAdminLogin();
   const [formData, setFormData] = useState({
     email: '',
     password: ''
@@ -45,37 +46,26 @@ export default function AdminLoginPage() {
 
     try {
       // Fazer chamada para a API de login
-      const response = await fetch(apiUrl('/v1/api/auth/login'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          identifier: formData.email,
-          password: formData.password,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro na autenticação');
+      const result = await api.auth.login(formData.email, formData.password);
+      const redirect = typeof router.query.redirect === 'string' ? router.query.redirect : '';
+
+      // Conta com 2FA ativo: a sessão só é emitida após o segundo passo
+      if (isTwoFactorChallenge(result)) {
+        savePendingChallenge({ challenge_token: result.challenge_token, redirect });
+        router.push(TWO_FACTOR_CHALLENGE_PATH);
+        return;
       }
 
       // Verificar se o usuário é administrador
-      if (!data.data.user.is_admin) {
+      if (!result.user.is_admin) {
         setError('Acesso negado. Você não tem permissões de administrador.');
         return;
       }
 
-      // Fazer login usando o contexto
-      login(data.data.user, data.data.token);
-      
-      // Redirecionar para o dashboard administrativo
-      router.push('/v2/administrator/dashboard');
+      await completeLogin(result, redirect);
       
-    } catch (err: any) {
-      setError(err.message || 'Erro interno do servidor. Tente novamente.');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Erro interno do servidor. Tente novamente.'));
     } finally {
       setIsLoading(false);
     }
@@ -0,0 +1,647 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppSidebar } from '@/components/app-sidebar';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Gift, Plus, Edit, Trash2, Search, Loader2 } from 'lucide-react';
+import { Poppins } from 'next/font/google';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReasonDialog, ReasonField } from '@/components/reason-dialog';
+import { api, getErrorMessage } from '@/lib/api';
+import { isValidReason } from '@/lib/audit';
+import { PROMO_CODE_KIND_LABELS, calculateDepositBonus, normalizePromoCode } from '@/lib/bonus';
+import type { PromoCode, PromoCodeInput, PromoCodeKind } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300", "400", "500", "600", "700"],
+});
+
+interface PromoCodeForm {
+  code: string;
+  description: string;
+  kind: PromoCodeKind;
+  percentage: string;
+  max_bonus: string;
+  rollover_multiplier: string;
+  min_deposit: string;
+  max_uses: string;
+  // Valor de um input datetime-local (horário local)
+  expires_at: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: PromoCodeForm = {
+  code: '',
+  description: '',
+  kind: 'FIRST_DEPOSIT',
+  percentage: '100',
+  max_bonus: '200',
+  rollover_multiplier: '10',
+  min_deposit: '20',
+  max_uses: '',
+  expires_at: '',
+  is_active: true,
+};
+
+// Depósito usado na simulação do formulário
+const SIMULATION_AMOUNT = '50';
+
+const formatCurrency = (amount: string | number) =>
+  `R$ ${Number(amount).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const toDateTimeLocal = (dateString: string | null) => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toForm = (promo: PromoCode): PromoCodeForm => ({
+  code: promo.code,
+  description: promo.description || '',
+  kind: promo.kind,
+  percentage: String(parseFloat(promo.percentage)),
+  max_bonus: String(parseFloat(promo.max_bonus)),
+  rollover_multiplier: String(parseFloat(promo.rollover_multiplier)),
+  min_deposit: String(parseFloat(promo.min_deposit)),
+  max_uses: promo.max_uses === null ? '' : String(promo.max_uses),
+  expires_at: toDateTimeLocal(promo.expires_at),
+  is_active: promo.is_active,
+});
+
+// Converte o formulário no corpo da API, ou devolve a mensagem do primeiro campo inválido
+const toInput = (form: PromoCodeForm): PromoCodeInput | string => {
+  const code = normalizePromoCode(form.code);
+  const percentage = parseFloat(form.percentage);
+  const maxBonus = parseFloat(form.max_bonus || '0');
+  const rollover = parseFloat(form.rollover_multiplier || '0');
+  const minDeposit = parseFloat(form.min_deposit || '0');
+  const maxUses = form.max_uses.trim() ? parseInt(form.max_uses, 10) : null;
+
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) return 'O código deve ter de 3 a 32 letras, números, "-" ou "_"';
+  if (!(percentage > 0) || percentage > 1000) return 'O percentual deve estar entre 0 e 1000';
+  if (!(maxBonus >= 0)) return 'O bônus máximo não pode ser negativo';
+  if (!(rollover >= 0)) return 'O multiplicador de rollover não pode ser negativo';
+  if (!(minDeposit >= 0)) return 'O depósito mínimo não pode ser negativo';
+  if (maxUses !== null && !(maxUses > 0)) return 'O limite de usos deve ser maior que zero';
+
+  return {
+    code,
+    description: form.description.trim() || null,
+    kind: form.kind,
+    percentage,
+    max_bonus: maxBonus,
+    rollover_multiplier: rollover,
+    min_deposit: minDeposit,
+    max_uses: maxUses,
+    expires_at: form.expires_at ? new Date(form.expires_at).toISOString() : null,
+    is_active: form.is_active,
+  };
+};
+
+const getPromoStatus = (promo: PromoCode) => {
+  if (!promo.is_active) return { label: 'Inativo', className: 'bg-neutral-500/10 text-neutral-400 border-neutral-500/20' };
+  if (promo.expires_at && new Date(promo.expires_at).getTime() <= Date.now()) {
+    return { label: 'Expirado', className: 'bg-red-500/10 text-red-400 border-red-500/20' };
+  }
+  if (promo.max_uses !== null && promo.uses >= promo.max_uses) {
+    return { label: 'Esgotado', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' };
+  }
+  return { label: 'Ativo', className: 'bg-green-500/10 text-green-400 border-green-500/20' };
+};
+
+export default function PromotionsPage() {
+  const { token } = useAuth();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Modal de criação/edição; editing null = novo código
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<PromoCode | null>(null);
+  const [form, setForm] = useState<PromoCodeForm>(EMPTY_FORM);
+  const [formReason, setFormReason] = useState('');
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [simulationAmount, setSimulationAmount] = useState(SIMULATION_AMOUNT);
+
+  const [toggleTarget, setToggleTarget] = useState<PromoCode | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<PromoCode | null>(null);
+
+  const fetchPromoCodes = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+    try {
+      setPromoCodes(await api.admin.promoCodes.list(token));
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar códigos promocionais');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, [fetchPromoCodes]);
+
+  const filteredPromoCodes = promoCodes.filter((promo) => {
+    const term = searchTerm.trim().toLowerCase();
+    return !term || promo.code.toLowerCase().includes(term) || (promo.description || '').toLowerCase().includes(term);
+  });
+
+  const activeCount = promoCodes.filter((promo) => getPromoStatus(promo).label === 'Ativo').length;
+  const totalUses = promoCodes.reduce((sum, promo) => sum + promo.uses, 0);
+
+  const handleFormChange = <K extends keyof PromoCodeForm>(field: K, value: PromoCodeForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const openForm = (promo: PromoCode | null) => {
+    setEditing(promo);
+    setForm(promo ? toForm(promo) : EMPTY_FORM);
+    setFormReason('');
+    setFormError('');
+    setSimulationAmount(SIMULATION_AMOUNT);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+
+    const input = toInput(form);
+    if (typeof input === 'string') {
+      setFormError(input);
+      return;
+    }
+    if (!isValidReason(formReason)) {
+      setFormError('Informe o motivo da alteração');
+      return;
+    }
+
+    setSaving(true);
+    setFormError('');
+    try {
+      if (editing) {
+        const updated = await api.admin.promoCodes.update(token, editing.id, input, formReason.trim());
+        setPromoCodes((prev) => prev.map((promo) => (promo.id === editing.id ? updated : promo)));
+        toast.success(`Código ${updated.code} atualizado`);
+      } else {
+        const created = await api.admin.promoCodes.create(token, input, formReason.trim());
+        setPromoCodes((prev) => [created, ...prev]);
+        toast.success(`Código ${created.code} criado`);
+      }
+      closeForm();
+    } catch (err) {
+      setFormError(getErrorMessage(err, 'Erro ao salvar código promocional'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmToggle = async (reason: string) => {
+    const target = toggleTarget;
+    setToggleTarget(null);
+    if (!token || !target) return;
+
+    try {
+      const updated = await api.admin.promoCodes.update(token, target.id, { is_active: !target.is_active }, reason);
+      setPromoCodes((prev) => prev.map((promo) => (promo.id === target.id ? updated : promo)));
+      toast.success(`Código ${target.code} ${updated.is_active ? 'ativado' : 'desativado'}`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao alterar status do código'));
+    }
+  };
+
+  const handleConfirmDelete = async (reason: string) => {
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    if (!token || !target) return;
+
+    try {
+      await api.admin.promoCodes.remove(token, target.id, reason);
+      setPromoCodes((prev) => prev.filter((promo) => promo.id !== target.id));
+      toast.success(`Código ${target.code} excluído`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao excluir código promocional'));
+    }
+  };
+
+  const simulation = calculateDepositBonus(form, parseFloat(simulationAmount.replace(',', '.')) || 0);
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Promoções</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                  <Gift className="w-5 h-5 text-neutral-300" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-white">Códigos Promocionais</h1>
+                  <p className="text-neutral-400 text-sm">
+                    {loading ? 'Carregando...' : `${activeCount} ativos · ${totalUses} usos no total`}
+                  </p>
+                </div>
+              </div>
+              <Button onClick={() => openForm(null)} className="bg-yellow-600 hover:bg-yellow-700 text-white">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo código
+              </Button>
+            </div>
+
+            <Card className="bg-neutral-800 border-neutral-700">
+              <div className="p-6 border-b border-neutral-700">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+                  <Input
+                    placeholder="Buscar por código ou descrição..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10 bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500"
+                  />
+                </div>
+              </div>
+
+              {loading ? (
+                <div className="p-8 text-center">
+                  <Loader2 className="w-8 h-8 text-neutral-400 animate-spin mx-auto mb-4" />
+                  <p className="text-neutral-400">Carregando códigos...</p>
+                </div>
+              ) : error ? (
+                <div className="p-8 text-center">
+                  <p className="text-red-400 text-sm mb-4">{error}</p>
+                  <Button onClick={fetchPromoCodes} className="bg-yellow-600 hover:bg-yellow-700">
+                    Tentar novamente
+                  </Button>
+                </div>
+              ) : filteredPromoCodes.length === 0 ? (
+                <div className="p-8 text-center">
+                  <div className="w-16 h-16 bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Gift className="w-8 h-8 text-neutral-400" />
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-2">Nenhum código encontrado</h3>
+                  <p className="text-neutral-400 text-sm">Crie um código para oferecer bônus de depósito</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <div style={{ minWidth: '1000px' }}>
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                          <TableHead className="text-neutral-300 font-medium">Código</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Tipo</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Bônus</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Rollover</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Depósito mín.</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Usos</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Validade</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Status</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {filteredPromoCodes.map((promo) => {
+                          const status = getPromoStatus(promo);
+
+                          return (
+                            <TableRow key={promo.id} className="border-neutral-700 hover:bg-neutral-700/30">
+                              <TableCell>
+                                <p className="text-white font-mono font-semibold">{promo.code}</p>
+                                {promo.description && <p className="text-neutral-500 text-xs">{promo.description}</p>}
+                              </TableCell>
+                              <TableCell className="text-neutral-300">{PROMO_CODE_KIND_LABELS[promo.kind]}</TableCell>
+                              <TableCell className="text-green-400 font-medium">
+                                {parseFloat(promo.percentage)}%
+                                {parseFloat(promo.max_bonus) > 0 && (
+                                  <span className="text-neutral-400 font-normal"> até {formatCurrency(promo.max_bonus)}</span>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-neutral-300">{parseFloat(promo.rollover_multiplier)}x</TableCell>
+                              <TableCell className="text-neutral-300">{formatCurrency(promo.min_deposit)}</TableCell>
+                              <TableCell className="text-neutral-300">
+                                {promo.uses}{promo.max_uses !== null && ` / ${promo.max_uses}`}
+                              </TableCell>
+                              <TableCell className="text-neutral-300">
+                                {promo.expires_at ? formatDate(promo.expires_at) : <span className="text-neutral-500">Sem validade</span>}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Switch checked={promo.is_active} onCheckedChange={() => setToggleTarget(promo)} />
+                                  <Badge className={status.className}>{status.label}</Badge>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <div className="flex justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => openForm(promo)}
+                                    className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setDeleteTarget(promo)}
+                                    className="bg-neutral-700 border-neutral-600 text-red-400 hover:bg-red-500/10"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+
+      {/* Modal de criação/edição */}
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-lg font-bold text-white flex items-center gap-2">
+              <Gift className="w-5 h-5" />
+              {editing ? `Editar ${editing.code}` : 'Novo código promocional'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {formError && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+              <p className="text-red-400 text-sm">{formError}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="code" className="text-neutral-300">Código</Label>
+              <Input
+                id="code"
+                value={form.code}
+                onChange={(e) => handleFormChange('code', e.target.value.toUpperCase())}
+                className="bg-neutral-700 border-neutral-600 text-white font-mono uppercase"
+                placeholder="BEMVINDO100"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-neutral-300">Tipo</Label>
+              <Select value={form.kind} onValueChange={(value) => handleFormChange('kind', value as PromoCodeKind)} disabled={saving}>
+                <SelectTrigger className="w-full bg-neutral-700 border-neutral-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-neutral-700 border-neutral-600">
+                  {(Object.keys(PROMO_CODE_KIND_LABELS) as PromoCodeKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind} className="text-white hover:bg-neutral-600">
+                      {PROMO_CODE_KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="description" className="text-neutral-300">Descrição</Label>
+              <Input
+                id="description"
+                value={form.description}
+                onChange={(e) => handleFormChange('description', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                placeholder="Exibida ao jogador quando o código é aplicado"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="percentage" className="text-neutral-300">Bônus (%)</Label>
+              <Input
+                id="percentage"
+                type="number"
+                step="1"
+                value={form.percentage}
+                onChange={(e) => handleFormChange('percentage', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_bonus" className="text-neutral-300">Bônus máximo (R$, 0 = sem limite)</Label>
+              <Input
+                id="max_bonus"
+                type="number"
+                step="0.01"
+                value={form.max_bonus}
+                onChange={(e) => handleFormChange('max_bonus', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rollover_multiplier" className="text-neutral-300">Rollover (x depósito + bônus)</Label>
+              <Input
+                id="rollover_multiplier"
+                type="number"
+                step="0.5"
+                value={form.rollover_multiplier}
+                onChange={(e) => handleFormChange('rollover_multiplier', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min_deposit" className="text-neutral-300">Depósito mínimo (R$)</Label>
+              <Input
+                id="min_deposit"
+                type="number"
+                step="0.01"
+                value={form.min_deposit}
+                onChange={(e) => handleFormChange('min_deposit', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_uses" className="text-neutral-300">Limite de usos</Label>
+              <Input
+                id="max_uses"
+                type="number"
+                step="1"
+                value={form.max_uses}
+                onChange={(e) => handleFormChange('max_uses', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                placeholder="Sem limite"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expires_at" className="text-neutral-300">Validade</Label>
+              <Input
+                id="expires_at"
+                type="datetime-local"
+                value={form.expires_at}
+                onChange={(e) => handleFormChange('expires_at', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                disabled={saving}
+              />
+            </div>
+            <div className="flex items-center space-x-2 md:col-span-2">
+              <Switch
+                id="is_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => handleFormChange('is_active', checked)}
+                disabled={saving}
+              />
+              <Label htmlFor="is_active" className="text-neutral-300">Código ativo</Label>
+            </div>
+          </div>
+
+          {/* Simulação */}
+          <div className="bg-neutral-700/50 border border-neutral-600 rounded-lg p-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Label htmlFor="simulationAmount" className="text-neutral-300 whitespace-nowrap">Depósito de R$</Label>
+              <Input
+                id="simulationAmount"
+                value={simulationAmount}
+                onChange={(e) => setSimulationAmount(e.target.value.replace(/[^0-9.,]/g, ''))}
+                className="w-28 bg-neutral-700 border-neutral-600 text-white"
+              />
+              <p className="text-sm text-neutral-300">
+                → bônus de <span className="text-green-400 font-semibold">{formatCurrency(simulation.bonus)}</span>
+                {' '}e rollover de <span className="text-white font-semibold">{formatCurrency(simulation.rollover)}</span>
+              </p>
+            </div>
+          </div>
+
+          <ReasonField id="promoReason" value={formReason} onChange={setFormReason} disabled={saving} />
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              variant="outline"
+              onClick={closeForm}
+              className="flex-1 bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+              disabled={saving}
+            >
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleSave}
+              className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white"
+              disabled={saving}
+            >
+              {saving ? (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                'Salvar'
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ReasonDialog
+        open={toggleTarget !== null}
+        title={toggleTarget?.is_active ? `Desativar ${toggleTarget.code}` : `Ativar ${toggleTarget?.code ?? ''}`}
+        description={toggleTarget?.is_active
+          ? 'Jogadores não poderão mais aplicar este código. Bônus já creditados não são afetados.'
+          : 'O código volta a poder ser aplicado nos depósitos.'}
+        confirmLabel={toggleTarget?.is_active ? 'Desativar' : 'Ativar'}
+        destructive={toggleTarget?.is_active}
+        onConfirm={handleConfirmToggle}
+        onCancel={() => setToggleTarget(null)}
+      />
+
+      <ReasonDialog
+        open={deleteTarget !== null}
+        title={`Excluir ${deleteTarget?.code ?? ''}`}
+        description="O código será removido. Bônus já creditados e o histórico de depósitos não são afetados."
+        confirmLabel="Excluir"
+        destructive
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+import { useState, useMemo, useRef } from 'react';
+import { AppSidebar } from '@/components/app-sidebar';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Scale, Upload, Loader2, Download, FileJson, AlertTriangle, CheckCircle2, Search } from 'lucide-react';
+import { Poppins } from 'next/font/google';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, getErrorMessage } from '@/lib/api';
+import { downloadCsv, downloadJson, getFileDateSuffix, type ExportColumn } from '@/lib/export';
+import {
+  RECONCILIATION_STATUS_COLORS,
+  RECONCILIATION_STATUS_LABELS,
+  RECONCILIATION_TYPE_LABELS,
+  getSettledAt,
+  getStatementPeriod,
+  parseGatewayStatement,
+  reconcile,
+  summarizeReconciliation,
+  toPlatformRecords,
+  type GatewayStatement,
+  type ReconciliationItem,
+  type ReconciliationStatus,
+  type ReconciliationType,
+} from '@/lib/reconciliation';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300", "400", "500", "600", "700"],
+});
+
+// Páginas de 100 registros buscadas de cada lista; as listas vêm das mais recentes para as mais antigas
+const PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+// Margem antes do início do extrato, para pagamentos liquidados no gateway depois do pedido
+const PERIOD_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+const ALL = 'all';
+
+const formatCurrency = (amount: number) =>
+  `R$ ${amount.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Busca páginas até passar do início do período (ou até MAX_PAGES).
+ * Devolve também se a busca parou no limite antes de cobrir o período.
+ */
+const fetchUntil = async <T extends { created_at: string }>(
+  fetchPage: (page: number) => Promise<{ items: T[]; pages: number }>,
+  since: number | null,
+) => {
+  const items: T[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const result = await fetchPage(page);
+    items.push(...result.items);
+    const oldest = result.items[result.items.length - 1];
+    if (page >= result.pages || result.items.length === 0) return { items, truncated: false };
+    if (since !== null && oldest && new Date(oldest.created_at).getTime() < since) return { items, truncated: false };
+  }
+  return { items, truncated: true };
+};
+
+const getPlatformDate = (item: ReconciliationItem) => (item.platform ? getSettledAt(item.platform) : null);
+
+const EXPORT_COLUMNS: ExportColumn<ReconciliationItem>[] = [
+  { header: 'Situação', value: (item) => RECONCILIATION_STATUS_LABELS[item.status] },
+  { header: 'Tipo', value: (item) => RECONCILIATION_TYPE_LABELS[item.type] },
+  { header: 'ID do pagamento', value: (item) => item.payment_id },
+  { header: 'Valor no gateway', value: (item) => item.gateway?.amount, type: 'currency' },
+  { header: 'Status no gateway', value: (item) => item.gateway?.status },
+  { header: 'Data no gateway', value: (item) => item.gateway?.date, type: 'date' },
+  { header: 'Linha do extrato', value: (item) => item.gateway?.line, type: 'integer' },
+  { header: 'ID na plataforma', value: (item) => item.platform?.record.id },
+  { header: 'Valor na plataforma', value: (item) => item.platform?.amount, type: 'currency' },
+  { header: 'Liquidado na plataforma', value: (item) => item.platform?.settled },
+  { header: 'Data na plataforma', value: getPlatformDate, type: 'date' },
+  { header: 'Jogador', value: (item) => item.platform?.record.user?.username },
+  { header: 'Diferença', value: (item) => item.difference, type: 'currency' },
+  { header: 'Detalhe', value: (item) => item.detail },
+];
+
+export default function ReconciliationPage() {
+  const { token } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<GatewayStatement | null>(null);
+  const [items, setItems] = useState<ReconciliationItem[] | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [statusFilter, setStatusFilter] = useState<ReconciliationStatus | 'issues' | typeof ALL>('issues');
+  const [typeFilter, setTypeFilter] = useState<ReconciliationType | typeof ALL>(ALL);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const runReconciliation = async (parsed: GatewayStatement) => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+    setItems(null);
+
+    try {
+      const period = getStatementPeriod(parsed.entries);
+      const since = period ? new Date(period.from).getTime() - PERIOD_MARGIN_MS : null;
+
+      const [deposits, withdrawals] = await Promise.all([
+        fetchUntil(async (page) => {
+          const result = await api.admin.deposits.list(token, { page, limit: PAGE_SIZE });
+          return { items: result.deposits, pages: result.pagination.pages };
+        }, since),
+        fetchUntil(async (page) => {
+          const result = await api.admin.withdrawals.list(token, { page, limit: PAGE_SIZE });
+          return { items: result.withdrawals, pages: result.pagination.pages };
+        }, since),
+      ]);
+
+      setTruncated(deposits.truncated || withdrawals.truncated);
+      setItems(reconcile(parsed.entries, toPlatformRecords(deposits.items, withdrawals.items)));
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar depósitos e saques');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const parsed = parseGatewayStatement(await file.text(), file.name);
+    setFileName(file.name);
+    setStatement(parsed);
+
+    if (parsed.entries.length === 0) {
+      setItems(null);
+      toast.error('Nenhum lançamento válido encontrado no extrato');
+      return;
+    }
+    await runReconciliation(parsed);
+  };
+
+  const summary = useMemo(() => (items ? summarizeReconciliation(items) : null), [items]);
+  const period = statement ? getStatementPeriod(statement.entries) : null;
+
+  const filteredItems = useMemo(() => {
+    if (!items) return [];
+    const term = searchTerm.trim().toLowerCase();
+    return items.filter((item) => {
+      if (statusFilter === 'issues' && item.status === 'matched') return false;
+      if (statusFilter !== 'issues' && statusFilter !== ALL && item.status !== statusFilter) return false;
+      if (typeFilter !== ALL && item.type !== typeFilter) return false;
+      if (!term) return true;
+      return item.payment_id.toLowerCase().includes(term)
+        || (item.platform?.record.id || '').toLowerCase().includes(term)
+        || (item.platform?.record.user?.username || '').toLowerCase().includes(term);
+    });
+  }, [items, statusFilter, typeFilter, searchTerm]);
+
+  const exportBaseName = `conciliacao-${getFileDateSuffix()}`;
+
+  const handleExportCsv = () => {
+    downloadCsv(filteredItems, EXPORT_COLUMNS, `${exportBaseName}.csv`);
+  };
+
+  const handleExportJson = () => {
+    downloadJson({
+      file: fileName,
+      generated_at: new Date().toISOString(),
+      period,
+      summary,
+      parse_errors: statement?.errors ?? [],
+      items: filteredItems,
+    }, `${exportBaseName}.json`);
+  };
+
+  const summaryCards: Array<{ title: string; value: string; color: string; statuses: ReconciliationStatus[] }> = summary
+    ? [
+      { title: 'Conciliados', value: String(summary.counts.matched), color: 'text-green-400', statuses: ['matched'] },
+      {
+        title: 'Divergências',
+        value: String(summary.counts.amount_mismatch + summary.counts.status_mismatch),
+        color: 'text-red-400',
+        statuses: ['amount_mismatch', 'status_mismatch'],
+      },
+      {
+        title: 'Ausentes',
+        value: String(summary.counts.missing_in_platform + summary.counts.missing_in_gateway),
+        color: 'text-amber-400',
+        statuses: ['missing_in_platform', 'missing_in_gateway'],
+      },
+      { title: 'Duplicados', value: String(summary.counts.duplicate), color: 'text-purple-400', statuses: ['duplicate'] },
+    ]
+    : [];
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Conciliação</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                  <Scale className="w-5 h-5 text-neutral-300" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-white">Conciliação do gateway</h1>
+                  <p className="text-neutral-400 text-sm">
+                    Compare o extrato PIX do gateway com os depósitos e saques da plataforma
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <Button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading}
+                  className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                >
+                  {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                  Importar extrato
+                </Button>
+              </div>
+            </div>
+
+            {!statement ? (
+              <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+                <div className="w-16 h-16 bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Upload className="w-8 h-8 text-neutral-400" />
+                </div>
+                <h3 className="text-lg font-semibold text-white mb-2">Importe o extrato do gateway</h3>
+                <p className="text-neutral-400 text-sm max-w-xl mx-auto">
+                  Arquivo CSV (separado por ; ou ,) ou JSON com uma linha por lançamento. São reconhecidas colunas de id do
+                  pagamento (id, transaction_id, txid), valor (amount, valor), tipo (type, tipo: depósito/saque, cash_in/cash_out),
+                  status e data. Sem coluna de tipo, valores negativos são tratados como saques.
+                </p>
+              </Card>
+            ) : (
+              <Card className="bg-neutral-800 border-neutral-700 p-6">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div>
+                    <p className="text-white font-medium">{fileName}</p>
+                    <p className="text-neutral-400 text-sm">
+                      {statement.entries.length} lançamentos
+                      {period && ` · ${formatDate(period.from)} a ${formatDate(period.to)}`}
+                      {statement.errors.length > 0 && ` · ${statement.errors.length} linhas ignoradas`}
+                    </p>
+                  </div>
+                  {summary && (
+                    <p className={`text-sm font-medium ${summary.issues === 0 ? 'text-green-400' : 'text-amber-400'}`}>
+                      {summary.issues === 0
+                        ? 'Extrato e plataforma conferem'
+                        : `${summary.issues} pendências · diferença de ${formatCurrency(summary.difference)}`}
+                    </p>
+                  )}
+                </div>
+
+                {statement.errors.length > 0 && (
+                  <details className="mt-4 text-sm">
+                    <summary className="text-amber-400 cursor-pointer">Ver linhas ignoradas</summary>
+                    <ul className="mt-2 space-y-1 text-neutral-400 max-h-40 overflow-y-auto">
+                      {statement.errors.map((message) => (
+                        <li key={message}>{message}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
+                {truncated && (
+                  <div className="mt-4 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-400 mt-0.5 shrink-0" />
+                    <p className="text-amber-400 text-sm">
+                      Foram carregados os {MAX_PAGES * PAGE_SIZE} registros mais recentes de cada lista, sem cobrir todo o
+                      período do extrato. Lançamentos antigos podem aparecer como ausentes na plataforma.
+                    </p>
+                  </div>
+                )}
+              </Card>
+            )}
+
+            {error && (
+              <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+                <p className="text-red-400 text-sm mb-4">{error}</p>
+                {statement && (
+                  <Button onClick={() => runReconciliation(statement)} className="bg-yellow-600 hover:bg-yellow-700">
+                    Tentar novamente
+                  </Button>
+                )}
+              </Card>
+            )}
+
+            {loading && (
+              <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+                <Loader2 className="w-8 h-8 text-neutral-400 animate-spin mx-auto mb-4" />
+                <p className="text-neutral-400">Carregando depósitos e saques...</p>
+              </Card>
+            )}
+
+            {summary && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                {summaryCards.map((card) => (
+                  <button
+                    key={card.title}
+                    type="button"
+                    onClick={() => setStatusFilter(card.statuses.length === 1 ? card.statuses[0] : 'issues')}
+                    className="text-left"
+                  >
+                    <Card className="bg-neutral-800 border-neutral-700 p-6 hover:border-neutral-500 transition-colors">
+                      <p className="text-neutral-400 text-sm font-medium mb-1">{card.title}</p>
+                      <p className={`text-2xl font-bold ${card.color}`}>{card.value}</p>
+                    </Card>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {items && (
+              <Card className="bg-neutral-800 border-neutral-700">
+                <div className="p-6 border-b border-neutral-700 flex flex-col lg:flex-row lg:items-center gap-4">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+                    <Input
+                      placeholder="Buscar por id do pagamento, id do registro ou jogador..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10 bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400 focus:border-yellow-500"
+                    />
+                  </div>
+                  <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                    <SelectTrigger className="w-full lg:w-52 bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      <SelectItem value="issues" className="text-white hover:bg-neutral-600">Somente pendências</SelectItem>
+                      <SelectItem value={ALL} className="text-white hover:bg-neutral-600">Todas as situações</SelectItem>
+                      {(Object.keys(RECONCILIATION_STATUS_LABELS) as ReconciliationStatus[]).map((status) => (
+                        <SelectItem key={status} value={status} className="text-white hover:bg-neutral-600">
+                          {RECONCILIATION_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as typeof typeFilter)}>
+                    <SelectTrigger className="w-full lg:w-40 bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      <SelectItem value={ALL} className="text-white hover:bg-neutral-600">Todos os tipos</SelectItem>
+                      {(Object.keys(RECONCILIATION_TYPE_LABELS) as ReconciliationType[]).map((type) => (
+                        <SelectItem key={type} value={type} className="text-white hover:bg-neutral-600">
+                          {RECONCILIATION_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={handleExportCsv}
+                      disabled={filteredItems.length === 0}
+                      className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      CSV
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={handleExportJson}
+                      disabled={filteredItems.length === 0}
+                      className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                    >
+                      <FileJson className="w-4 h-4 mr-2" />
+                      JSON
+                    </Button>
+                  </div>
+                </div>
+
+                {filteredItems.length === 0 ? (
+                  <div className="p-8 text-center">
+                    <CheckCircle2 className="w-10 h-10 text-green-400 mx-auto mb-3" />
+                    <p className="text-neutral-400 text-sm">Nenhum item nesta seleção</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <div style={{ minWidth: '1100px' }}>
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                            <TableHead className="text-neutral-300 font-medium">Situação</TableHead>
+                            <TableHead className="text-neutral-300 font-medium">Tipo</TableHead>
+                            <TableHead className="text-neutral-300 font-medium">ID do pagamento</TableHead>
+                            <TableHead className="text-neutral-300 font-medium">Gateway</TableHead>
+                            <TableHead className="text-neutral-300 font-medium">Plataforma</TableHead>
+                            <TableHead className="text-neutral-300 font-medium">Diferença</TableHead>
+                            <TableHead className="text-neutral-300 font-medium">Detalhe</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {filteredItems.map((item, index) => {
+                            const platformDate = getPlatformDate(item);
+
+                            return (
+                              <TableRow key={`${item.payment_id}-${index}`} className="border-neutral-700 hover:bg-neutral-700/30">
+                                <TableCell>
+                                  <Badge className={RECONCILIATION_STATUS_COLORS[item.status]}>
+                                    {RECONCILIATION_STATUS_LABELS[item.status]}
+                                  </Badge>
+                                </TableCell>
+                                <TableCell className="text-neutral-300">{RECONCILIATION_TYPE_LABELS[item.type]}</TableCell>
+                                <TableCell className="text-neutral-300 font-mono text-xs break-all max-w-[220px]">{item.payment_id}</TableCell>
+                                <TableCell>
+                                  {item.gateway ? (
+                                    <>
+                                      <p className="text-white text-sm">{formatCurrency(item.gateway.amount)}</p>
+                                      <p className="text-neutral-500 text-xs">
+                                        Linha {item.gateway.line}
+                                        {item.gateway.status && ` · ${item.gateway.status}`}
+                                        {item.gateway.date && ` · ${formatDate(item.gateway.date)}`}
+                                      </p>
+                                    </>
+                                  ) : (
+                                    <span className="text-neutral-500 text-sm">—</span>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  {item.platform ? (
+                                    <>
+                                      <p className="text-white text-sm">{formatCurrency(item.platform.amount)}</p>
+                                      <p className="text-neutral-500 text-xs">
+                                        {item.platform.record.user?.username || item.platform.record.userId}
+                                        {' · '}{item.platform.settled ? 'liquidado' : 'pendente'}
+                                        {platformDate && ` · ${formatDate(platformDate)}`}
+                                      </p>
+                                    </>
+                                  ) : (
+                                    <span className="text-neutral-500 text-sm">—</span>
+                                  )}
+                                </TableCell>
+                                <TableCell className={item.difference === 0 ? 'text-neutral-400' : 'text-red-400 font-medium'}>
+                                  {formatCurrency(item.difference)}
+                                </TableCell>
+                                <TableCell className="text-neutral-400 text-sm">{item.detail || '—'}</TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+              </Card>
+            )}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppSidebar } from '@/components/app-sidebar';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Search, ShieldCheck, Save } from 'lucide-react';
+import { Poppins } from 'next/font/google';
+import { toast } from 'sonner';
+import { ReasonDialog } from '@/components/reason-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReasonPrompt } from '@/hooks/use-reason-prompt';
+import { api, getErrorMessage } from '@/lib/api';
+import { ADMIN_ROLES, ADMIN_ROLE_DESCRIPTIONS, ADMIN_ROLE_LABELS, getAdminRoles } from '@/lib/permissions';
+import type { AdminRole, AdminUser, Pagination } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300", "400", "500", "600", "700"],
+});
+
+export default function RolesPage() {
+  const { token, user: currentUser, updateUser } = useAuth();
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Papéis editados e ainda não salvos, por usuário
+  const [draftRoles, setDraftRoles] = useState<Record<string, AdminRole[]>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { promptReason, dialogProps } = useReasonPrompt();
+
+  const fetchAdmins = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+    try {
+      const data = await api.admin.users.list(token, { page, search: searchTerm });
+      setAdmins(data.users.filter((user) => user.is_admin));
+      setPagination(data.pagination);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar administradores');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, page, searchTerm]);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const getRoles = (admin: AdminUser) => draftRoles[admin.id] ?? getAdminRoles(admin);
+
+  const toggleRole = (admin: AdminUser, role: AdminRole) => {
+    const current = getRoles(admin);
+    const next = current.includes(role) ? current.filter((r) => r !== role) : [...current, role];
+    setDraftRoles((prev) => ({ ...prev, [admin.id]: next }));
+  };
+
+  const handleSave = async (admin: AdminUser) => {
+    if (!token) return;
+    const roles = getRoles(admin);
+
+    if (roles.length === 0) {
+      toast.error('Selecione ao menos um papel para o administrador');
+      return;
+    }
+    // Evita que o proprietário perca o acesso a esta tela por engano
+    if (admin.id === currentUser?.id && !roles.includes('owner')) {
+      toast.error('Você não pode remover o seu próprio papel de Proprietário');
+      return;
+    }
+
+    const reason = await promptReason({
+      title: `Alterar papéis de ${admin.username}`,
+      description: 'Informe o motivo da alteração de permissões.',
+    });
+    if (!reason) return;
+
+    setSavingId(admin.id);
+    try {
+      const updated = await api.admin.users.updateRoles(token, admin.id, roles, reason);
+      setAdmins((prev) => prev.map((item) => (item.id === admin.id ? { ...item, admin_roles: updated.admin_roles ?? roles } : item)));
+      setDraftRoles((prev) => {
+        const { [admin.id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      if (currentUser && admin.id === currentUser.id) {
+        updateUser({ ...currentUser, admin_roles: roles });
+      }
+      toast.success(`Permissões de ${admin.username} atualizadas`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao atualizar permissões'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Permissões</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                <ShieldCheck className="w-5 h-5 text-neutral-300" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">Permissões</h1>
+                <p className="text-neutral-400 text-sm">Defina o que cada administrador pode acessar no painel</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {ADMIN_ROLES.map((role) => (
+                <Card key={role} className="bg-neutral-800 border-neutral-700 p-4">
+                  <p className="text-white font-semibold">{ADMIN_ROLE_LABELS[role]}</p>
+                  <p className="text-neutral-400 text-sm mt-1">{ADMIN_ROLE_DESCRIPTIONS[role]}</p>
+                </Card>
+              ))}
+            </div>
+
+            <Card className="bg-neutral-800 border-neutral-700 p-6">
+              <div className="relative mb-6">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+                <Input
+                  placeholder="Buscar por nome ou email..."
+                  value={searchTerm}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-10 bg-neutral-700 border-neutral-600 text-white placeholder:text-neutral-400"
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 mb-4">
+                  <p className="text-red-400 text-sm">{error}</p>
+                </div>
+              )}
+
+              {loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                </div>
+              ) : admins.length === 0 ? (
+                <p className="text-neutral-400 text-center py-8">Nenhum administrador encontrado</p>
+              ) : (
+                <div className="space-y-4">
+                  {admins.map((admin) => {
+                    const roles = getRoles(admin);
+                    const isDirty = draftRoles[admin.id] !== undefined;
+
+                    return (
+                      <div key={admin.id} className="bg-neutral-700 border border-neutral-600 rounded-lg p-4">
+                        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <p className="text-white font-medium">{admin.username}</p>
+                              {admin.id === currentUser?.id && (
+                                <Badge className="bg-yellow-500/10 text-yellow-400 border-yellow-500/20">Você</Badge>
+                              )}
+                            </div>
+                            <p className="text-neutral-400 text-sm">{admin.email}</p>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-4">
+                            {ADMIN_ROLES.map((role) => (
+                              <label key={role} className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                                <Checkbox
+                                  checked={roles.includes(role)}
+                                  onCheckedChange={() => toggleRole(admin, role)}
+                                  disabled={savingId === admin.id}
+                                />
+                                {ADMIN_ROLE_LABELS[role]}
+                              </label>
+                            ))}
+                            <Button
+                              size="sm"
+                              onClick={() => handleSave(admin)}
+                              disabled={!isDirty || savingId === admin.id}
+                              className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                            >
+                              <Save className="w-4 h-4 mr-2" />
+                              {savingId === admin.id ? 'Salvando...' : 'Salvar'}
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {pagination && pagination.pages > 1 && (
+                <div className="flex items-center justify-between mt-6">
+                  <p className="text-neutral-400 text-sm">
+                    Página {pagination.page} de {pagination.pages}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+                      disabled={page <= 1 || loading}
+                      className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                    >
+                      Anterior
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage((prev) => prev + 1)}
+                      disabled={page >= pagination.pages || loading}
+                      className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                    >
+                      Próxima
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+
+      <ReasonDialog {...dialogProps} />
+    </div>
+  );
+}
@@ -23,16 +23,33 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { ArrowLeft, Gift, DollarSign, Users, TrendingUp, Loader2, Eye, Calendar, Target, Percent, Edit, Settings } from 'lucide-react';
+import { ArrowLeft, Gift, DollarSign, Users, TrendingUp, Loader2, Eye, Calendar, Target, Percent, Edit, Settings, AlertTriangle, ListChecks } from 'lucide-react';
 import { Poppins } from 'next/font/google';
 import Image from 'next/image';
-import { apiUrl } from '@/lib/api';
+import { api, ApiError, getErrorMessage } from '@/lib/api';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { ReasonField } from '@/components/reason-dialog';
+import PrizeTableEditor from '@/components/prize-table-editor';
+import ScratchCardAnalyticsPanel from '@/components/scratch-card-analytics';
+import { isValidReason, REASON_MIN_LENGTH } from '@/lib/audit';
+import {
+  buildPrizesFormData,
+  getPrizeChanges,
+  getPrizeTableIssue,
+  getPrizeTableStats,
+  toPrizeDraft,
+  type PrizeDraft,
+} from '@/lib/prize-table';
+import type { GameMode, Prize, ScratchCard } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -40,47 +57,6 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 });
 
-// Interfaces
-interface Prize {
-  id: string;
-  scratchCardId: string;
-  name: string;
-  description: string;
-  type: string;
-  value: string;
-  product_name: string | null;
-  redemption_value: string | null;
-  image_url: string | null;
-  probability: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface ScratchCard {
-  id: string;
-  name: string;
-  description: string;
-  price: string;
-  image_url: string;
-  is_active: boolean;
-  target_rtp: string;
-  current_rtp: string;
-  total_revenue: string;
-  total_payouts: string;
-  total_games_played: number;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  prizes: Prize[];
-}
-
-interface ScratchCardResponse {
-  success: boolean;
-  message: string;
-  data: ScratchCard;
-}
-
 // Funções de formatação
 const formatCurrency = (value: string | number) => {
   const numValue = typeof value === 'string' ? parseFloat(value) : value;
@@ -122,6 +98,7 @@ export default function ScratchCardDetailsPage() {
   const router = useRouter();
   const { id } = router.query;
   const { token, isLoading: authLoading } = useAuth();
+  const { can } = useAdminPermissions();
   const [scratchCard, setScratchCard] = useState<ScratchCard | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -130,14 +107,23 @@ export default function ScratchCardDetailsPage() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editLoading, setEditLoading] = useState(false);
   const [editError, setEditError] = useState('');
+  const [editReason, setEditReason] = useState('');
   const [editForm, setEditForm] = useState({
     name: '',
     description: '',
     price: '',
     target_rtp: '',
-    is_active: true
+    is_active: true,
+    game_mode: 'ROULETTE' as GameMode
   });
 
+  // Edição da tabela de prêmios; null fora do modo de edição
+  const [prizeDrafts, setPrizeDrafts] = useState<PrizeDraft[] | null>(null);
+  const [isPrizeConfirmOpen, setIsPrizeConfirmOpen] = useState(false);
+  const [prizeSaving, setPrizeSaving] = useState(false);
+  const [prizeError, setPrizeError] = useState('');
+  const [prizeReason, setPrizeReason] = useState('');
+
   const fetchScratchCard = async () => {
     if (!token || !id) {
       setError('Token de autenticação ou ID não encontrado');
@@ -149,28 +135,11 @@ export default function ScratchCardDetailsPage() {
       setLoading(true);
       setError(null);
       
-      const response = await fetch(apiUrl(`/v1/api/scratchcards/${id}`), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.status === 401) {
-        setError('Token inválido ou expirado');
-        return;
-      }
-
-      if (!response.ok) {
-        throw new Error(`Erro na requisição: ${response.status}`);
-      }
-
-      const data: ScratchCardResponse = await response.json();
-      setScratchCard(data.data);
+      const data = await api.scratchCards.get(id as string, token);
+      setScratchCard(data);
     } catch (err) {
       console.error('Erro ao buscar raspadinha:', err);
-      setError('Erro ao carregar detalhes da raspadinha');
+      setError(err instanceof ApiError && err.isUnauthorized ? 'Token inválido ou expirado' : 'Erro ao carregar detalhes da raspadinha');
     } finally {
       setLoading(false);
     }
@@ -196,8 +165,10 @@ export default function ScratchCardDetailsPage() {
         description: scratchCard.description,
         price: scratchCard.price,
         target_rtp: scratchCard.target_rtp,
-        is_active: scratchCard.is_active
+        is_active: scratchCard.is_active,
+        game_mode: scratchCard.game_mode || 'ROULETTE'
       });
+      setEditReason('');
       setIsEditModalOpen(true);
       setEditError('');
     }
@@ -210,8 +181,10 @@ export default function ScratchCardDetailsPage() {
       description: '',
       price: '',
       target_rtp: '',
-      is_active: true
+      is_active: true,
+      game_mode: 'ROULETTE'
     });
+    setEditReason('');
     setEditError('');
   };
 
@@ -224,44 +197,92 @@ export default function ScratchCardDetailsPage() {
 
   const handleUpdateScratchCard = async () => {
     if (!token || !scratchCard) return;
+    if (!isValidReason(editReason)) {
+      setEditError(`Informe o motivo da alteração (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
     
     setEditLoading(true);
     setEditError('');
     
     try {
-      const response = await fetch(apiUrl(`/v1/api/scratchcards/admin/${scratchCard.id}`), {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: editForm.name,
-          description: editForm.description,
-          price: parseFloat(editForm.price),
-          target_rtp: parseFloat(editForm.target_rtp),
-          is_active: editForm.is_active
-        })
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao atualizar raspadinha');
-      }
+      await api.admin.scratchCards.update(token, scratchCard.id, {
+        name: editForm.name,
+        description: editForm.description,
+        price: parseFloat(editForm.price),
+        target_rtp: parseFloat(editForm.target_rtp),
+        is_active: editForm.is_active,
+        game_mode: editForm.game_mode
+      }, editReason.trim());
 
       toast.success('Raspadinha atualizada com sucesso!');
       handleCloseEditModal();
       await fetchScratchCard();
       
-    } catch (err: any) {
-      setEditError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao atualizar raspadinha');
+      setEditError(message);
+      toast.error(message);
     } finally {
       setEditLoading(false);
     }
   };
 
+  const handleEditPrizes = () => {
+    if (!scratchCard) return;
+    setPrizeDrafts(scratchCard.prizes.map(toPrizeDraft));
+    setPrizeError('');
+  };
+
+  const handleCancelPrizeEdit = () => {
+    setPrizeDrafts(null);
+    setPrizeError('');
+  };
+
+  // Valida a tabela e abre o resumo das alterações para confirmação
+  const handleReviewPrizes = () => {
+    if (!scratchCard || !prizeDrafts) return;
+
+    const issue = getPrizeTableIssue(prizeDrafts);
+    if (issue) {
+      setPrizeError(issue);
+      toast.error(issue);
+      return;
+    }
+    if (getPrizeChanges(scratchCard.prizes, prizeDrafts).length === 0) {
+      toast.info('Nenhuma alteração nos prêmios');
+      return;
+    }
+
+    setPrizeError('');
+    setPrizeReason('');
+    setIsPrizeConfirmOpen(true);
+  };
+
+  const handleSavePrizes = async () => {
+    if (!token || !scratchCard || !prizeDrafts) return;
+    if (!isValidReason(prizeReason)) {
+      setPrizeError(`Informe o motivo da alteração (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
+
+    setPrizeSaving(true);
+    setPrizeError('');
+    try {
+      await api.admin.scratchCards.updatePrizes(token, scratchCard.id, buildPrizesFormData(prizeDrafts), prizeReason.trim());
+      toast.success('Prêmios atualizados com sucesso!');
+      setIsPrizeConfirmOpen(false);
+      setPrizeDrafts(null);
+      await fetchScratchCard();
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao atualizar prêmios');
+      setPrizeError(message);
+      toast.error(message);
+    } finally {
+      setPrizeSaving(false);
+    }
+  };
+
   const getStatusColor = (isActive: boolean) => {
     return isActive
       ? 'bg-green-500/10 text-green-400 border-green-500/20'
@@ -383,6 +404,10 @@ export default function ScratchCardDetailsPage() {
 
   const maxPrize = Math.max(...scratchCard.prizes.map(prize => parseFloat(prize.value || '0')));
   const totalProbability = scratchCard.prizes.reduce((sum, prize) => sum + parseFloat(prize.probability || '0'), 0);
+  const cardPrice = parseFloat(scratchCard.price) || 0;
+  const savedPrizeStats = getPrizeTableStats(scratchCard.prizes.map(toPrizeDraft), cardPrice);
+  const draftPrizeStats = prizeDrafts ? getPrizeTableStats(prizeDrafts, cardPrice) : null;
+  const prizeChanges = prizeDrafts && isPrizeConfirmOpen ? getPrizeChanges(scratchCard.prizes, prizeDrafts) : [];
 
   return (
     <div className={poppins.className}>
@@ -438,17 +463,30 @@ export default function ScratchCardDetailsPage() {
                 <Badge className={getStatusColor(scratchCard.is_active)}>
                   {scratchCard.is_active ? 'Ativo' : 'Inativo'}
                 </Badge>
-                <Button
-                  onClick={handleEdit}
-                  className="bg-yellow-600 hover:bg-yellow-700 text-white"
-                  size="sm"
-                >
-                  <Edit className="w-4 h-4 mr-2" />
-                  Editar
-                </Button>
+                {can('scratchcards:edit') && (
+                  <Button
+                    onClick={handleEdit}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                    size="sm"
+                  >
+                    <Edit className="w-4 h-4 mr-2" />
+                    Editar
+                  </Button>
+                )}
               </div>
             </div>
 
+            <Tabs defaultValue="overview" className="w-full">
+              <TabsList className="grid w-full max-w-md grid-cols-2 bg-neutral-700">
+                <TabsTrigger value="overview" className="data-[state=active]:bg-yellow-600 data-[state=active]:text-white">
+                  Visão geral
+                </TabsTrigger>
+                <TabsTrigger value="analytics" className="data-[state=active]:bg-yellow-600 data-[state=active]:text-white">
+                  Desempenho
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="overview" className="mt-6">
             {/* Main Content Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* Left Column - Image and Basic Info */}
@@ -492,6 +530,10 @@ export default function ScratchCardDetailsPage() {
                       <label className="text-neutral-400 text-sm font-medium">Preço</label>
                       <p className="text-white font-medium text-lg">{formatCurrency(scratchCard.price)}</p>
                     </div>
+                    <div>
+                      <label className="text-neutral-400 text-sm font-medium">Modo de Jogo</label>
+                      <p className="text-white font-medium">{scratchCard.game_mode === 'SCRATCH' ? 'Raspadinha (3x3)' : 'Roleta'}</p>
+                    </div>
                     <div>
                       <label className="text-neutral-400 text-sm font-medium">Prêmio Máximo</label>
                       <p className="text-green-400 font-medium text-lg">{formatCurrency(maxPrize)}</p>
@@ -574,11 +616,65 @@ export default function ScratchCardDetailsPage() {
 
                 {/* Prizes Table */}
                 <Card className="bg-neutral-800 border-neutral-700">
-                  <div className="p-6 border-b border-neutral-700">
-                    <h3 className="text-lg font-semibold text-white">Prêmios Configurados</h3>
-                    <p className="text-neutral-400 text-sm">{scratchCard.prizes.length} prêmios • Probabilidade total: {formatPercentage(totalProbability)}</p>
+                  <div className="p-6 border-b border-neutral-700 flex items-center justify-between gap-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-white">Prêmios Configurados</h3>
+                      <p className="text-neutral-400 text-sm">
+                        {scratchCard.prizes.length} prêmios • Probabilidade total: {formatPercentage(totalProbability)}
+                        {savedPrizeStats.rtp !== null && ` • RTP teórico: ${formatPercentage(savedPrizeStats.rtp)}`}
+                      </p>
+                    </div>
+                    {can('scratchcards:edit') && (
+                      prizeDrafts ? (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleCancelPrizeEdit}
+                            className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                          >
+                            Cancelar
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={handleReviewPrizes}
+                            className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                          >
+                            <ListChecks className="w-4 h-4 mr-2" />
+                            Revisar alterações
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={handleEditPrizes}
+                          className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                        >
+                          <Edit className="w-4 h-4 mr-2" />
+                          Editar prêmios
+                        </Button>
+                      )
+                    )}
                   </div>
                   
+                  {prizeDrafts ? (
+                    <div className="p-6 space-y-4">
+                      {prizeError && !isPrizeConfirmOpen && (
+                        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+                          <p className="text-red-400 text-sm">{prizeError}</p>
+                        </div>
+                      )}
+                      <PrizeTableEditor
+                        prizes={prizeDrafts}
+                        onChange={setPrizeDrafts}
+                        price={cardPrice}
+                        targetRtp={parseFloat(scratchCard.target_rtp) || 0}
+                        savedRtp={savedPrizeStats.rtp}
+                        disabled={prizeSaving}
+                        getImageUrl={fixImageUrl}
+                      />
+                    </div>
+                  ) : (
                   <div className="overflow-x-auto">
                     {scratchCard.prizes.length === 0 ? (
                       <div className="text-center py-12">
@@ -655,6 +751,7 @@ export default function ScratchCardDetailsPage() {
                       </table>
                     )}
                   </div>
+                  )}
                 </Card>
 
                 {/* Timestamps */}
@@ -679,6 +776,13 @@ export default function ScratchCardDetailsPage() {
                 </Card>
               </div>
             </div>
+              </TabsContent>
+
+              {/* Carregado só ao abrir a aba */}
+              <TabsContent value="analytics" className="mt-6">
+                <ScratchCardAnalyticsPanel scratchCard={scratchCard} />
+              </TabsContent>
+            </Tabs>
           </div>
         </SidebarInset>
       </SidebarProvider>
@@ -754,6 +858,23 @@ export default function ScratchCardDetailsPage() {
               </div>
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="game_mode" className="text-neutral-300">Modo de Jogo</Label>
+              <Select
+                value={editForm.game_mode}
+                onValueChange={(value) => handleEditFormChange('game_mode', value)}
+                disabled={editLoading}
+              >
+                <SelectTrigger id="game_mode" className="bg-neutral-700 border-neutral-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-neutral-700 border-neutral-600">
+                  <SelectItem value="ROULETTE" className="text-white hover:bg-neutral-600">Roleta</SelectItem>
+                  <SelectItem value="SCRATCH" className="text-white hover:bg-neutral-600">Raspadinha (3x3)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
             <div className="flex items-center space-x-2">
               <Switch
                 id="is_active"
@@ -763,6 +884,8 @@ export default function ScratchCardDetailsPage() {
               />
               <Label htmlFor="is_active" className="text-neutral-300">Raspadinha Ativa</Label>
             </div>
+
+            <ReasonField id="editReason" value={editReason} onChange={setEditReason} disabled={editLoading} />
           </div>
           
           <div className="flex gap-3 pt-4">
@@ -788,6 +911,108 @@ export default function ScratchCardDetailsPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Confirmação da edição de prêmios */}
+      <Dialog open={isPrizeConfirmOpen} onOpenChange={(open) => !open && !prizeSaving && setIsPrizeConfirmOpen(false)}>
+        <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-lg font-bold text-white flex items-center gap-2">
+              <ListChecks className="w-5 h-5" />
+              Confirmar alterações nos prêmios
+            </DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Revise o que muda antes de salvar. As novas probabilidades valem para as próximas rodadas.
+            </DialogDescription>
+          </DialogHeader>
+
+          {scratchCard.is_active && (
+            <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5 shrink-0" />
+              <p className="text-yellow-300 text-sm">
+                Esta raspadinha está ativa
+                {scratchCard.total_games_played > 0 && ` e já tem ${scratchCard.total_games_played.toLocaleString('pt-BR')} jogos`}.
+                Alterar prêmios e chances muda o retorno dos jogadores imediatamente.
+              </p>
+            </div>
+          )}
+
+          {draftPrizeStats && (
+            <div className="grid grid-cols-2 gap-4 bg-neutral-700/50 border border-neutral-600 rounded-lg p-4 text-sm">
+              <div>
+                <p className="text-neutral-400">RTP teórico</p>
+                <p className="text-white font-medium">
+                  {savedPrizeStats.rtp === null ? '-' : formatPercentage(savedPrizeStats.rtp)}
+                  {' → '}
+                  {draftPrizeStats.rtp === null ? '-' : formatPercentage(draftPrizeStats.rtp)}
+                  <span className="text-neutral-400"> (alvo {formatPercentage(scratchCard.target_rtp)})</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-neutral-400">Probabilidade total</p>
+                <p className="text-white font-medium">
+                  {formatPercentage(savedPrizeStats.totalProbability)} → {formatPercentage(draftPrizeStats.totalProbability)}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <ul className="space-y-3">
+            {prizeChanges.map((change, index) => (
+              <li key={index} className="border border-neutral-700 rounded-lg p-3">
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge className={
+                    change.kind === 'added'
+                      ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                      : change.kind === 'removed'
+                        ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                        : 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20'
+                  }>
+                    {change.kind === 'added' ? 'Novo' : change.kind === 'removed' ? 'Excluído' : 'Alterado'}
+                  </Badge>
+                  <span className="text-white font-medium">{change.name}</span>
+                </div>
+                {change.details.length > 0 && (
+                  <ul className="text-neutral-300 text-sm space-y-0.5 pl-1">
+                    {change.details.map((detail) => (
+                      <li key={detail}>• {detail}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {prizeError && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+              <p className="text-red-400 text-sm">{prizeError}</p>
+            </div>
+          )}
+
+          <ReasonField id="prizeReason" value={prizeReason} onChange={setPrizeReason} disabled={prizeSaving} />
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsPrizeConfirmOpen(false)}
+              className="flex-1 bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+              disabled={prizeSaving}
+            >
+              Voltar à edição
+            </Button>
+            <Button
+              onClick={handleSavePrizes}
+              className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white"
+              disabled={prizeSaving}
+            >
+              {prizeSaving ? (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                'Salvar prêmios'
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -23,11 +23,14 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Plus, Trash2, Upload, ArrowLeft, Gamepad2 } from 'lucide-react'
+import { Plus, Trash2, Upload, ArrowLeft, Gamepad2, Wand2 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Poppins } from 'next/font/google'
 import { toast } from 'sonner'
-import { apiUrl } from '@/lib/api';
+import { api, ApiError } from '@/lib/api';
+import RtpSimulatorPanel from '@/components/rtp-simulator-panel';
+import PrizeSolverDialog from '@/components/prize-solver-dialog';
+import type { SimulationPrize } from '@/lib/rtp-simulation';
 
 
 const poppins = Poppins({ 
@@ -53,6 +56,7 @@ interface ScratchCard {
   target_rtp: number
   is_active: boolean
   image_url: string
+  game_mode: 'ROULETTE' | 'SCRATCH'
 }
 
 export default function CreateScratchCard() {
@@ -65,7 +69,8 @@ export default function CreateScratchCard() {
     price: 0,
     target_rtp: 85.0,
     is_active: true,
-    image_url: ''
+    image_url: '',
+    game_mode: 'ROULETTE'
   })
   
   const [prizes, setPrizes] = useState<Prize[]>([
@@ -82,6 +87,7 @@ export default function CreateScratchCard() {
   // Estados para upload de imagens
   const [scratchCardImage, setScratchCardImage] = useState<File | null>(null)
   const [prizeImages, setPrizeImages] = useState<(File | null)[]>([null])
+  const [isSolverOpen, setIsSolverOpen] = useState(false)
 
   const addPrize = () => {
     setPrizes([...prizes, {
@@ -112,27 +118,11 @@ export default function CreateScratchCard() {
     setPrizes(updatedPrizes)
   }
 
-  // Função para distribuir automaticamente as probabilidades
-  const distributeProbabilities = () => {
-    if (prizes.length === 0) return;
-    
-    // O primeiro prêmio (mais importante) recebe uma probabilidade menor
-    const firstPrizeProbability = 1.0;
-    
-    // Distribuir o restante das probabilidades entre os outros prêmios
-    const remainingProbability = 99.0 - firstPrizeProbability;
-    const probabilityPerPrize = remainingProbability / (prizes.length - 1);
-    
-    const updatedPrizes = prizes.map((prize, index) => {
-      if (index === 0) {
-        return { ...prize, probability: firstPrizeProbability };
-      } else {
-        return { ...prize, probability: probabilityPerPrize };
-      }
-    });
-    
-    setPrizes(updatedPrizes);
-    toast.success('Probabilidades distribuídas automaticamente!');
+  // Aplica as probabilidades calculadas pelo solver, na ordem dos prêmios ativos
+  const applySolvedProbabilities = (probabilities: number[]) => {
+    let next = 0
+    setPrizes(prizes.map(prize => (prize.is_active ? { ...prize, probability: probabilities[next++] } : prize)))
+    toast.success('Probabilidades ajustadas ao RTP alvo!')
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -174,7 +164,8 @@ export default function CreateScratchCard() {
         description: scratchCard.description,
         price: scratchCard.price,
         target_rtp: scratchCard.target_rtp,
-        is_active: scratchCard.is_active
+        is_active: scratchCard.is_active,
+        game_mode: scratchCard.game_mode
       };
       
       // Dados dos prêmios
@@ -206,29 +197,30 @@ export default function CreateScratchCard() {
         }
       });
       
-      const response = await fetch(apiUrl('/v1/api/scratchcards/admin/create'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-        body: formData
-      })
-      
-      if (response.ok) {
-        toast.success('Raspadinha criada com sucesso!')
-        router.push('/v2/administrator/scratchs')
-      } else {
-        const errorData = await response.json()
-        toast.error(`Erro ao criar raspadinha: ${errorData.message || 'Erro desconhecido'}`)
-      }
+      await api.admin.scratchCards.create(token, formData)
+      toast.success('Raspadinha criada com sucesso!')
+      router.push('/v2/administrator/scratchs')
     } catch (error) {
       console.error('Erro ao criar raspadinha:', error)
-      toast.error('Erro ao criar raspadinha. Tente novamente.')
+      if (error instanceof ApiError && error.kind === 'http') {
+        toast.error(`Erro ao criar raspadinha: ${error.message}`)
+      } else {
+        toast.error('Erro ao criar raspadinha. Tente novamente.')
+      }
     } finally {
       setLoading(false)
     }
   }
 
+  // Prêmios ativos com o valor pago, para o simulador de RTP e o solver
+  const simulationPrizes: SimulationPrize[] = prizes
+    .filter(prize => prize.is_active)
+    .map(prize => ({
+      name: prize.name,
+      payout: (prize.type === 'MONEY' ? prize.value : prize.redemption_value) || 0,
+      probability: prize.probability
+    }))
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -370,6 +362,24 @@ export default function CreateScratchCard() {
                 />
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="game_mode" className="text-neutral-300">Modo de Jogo *</Label>
+                <Select
+                  value={scratchCard.game_mode}
+                  onValueChange={(value: 'ROULETTE' | 'SCRATCH') => setScratchCard({...scratchCard, game_mode: value})}
+                >
+                  <SelectTrigger id="game_mode" className="bg-neutral-700 border-neutral-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-neutral-700 border-neutral-600">
+                    <SelectItem value="ROULETTE" className="text-white hover:bg-neutral-600">Roleta</SelectItem>
+                    <SelectItem value="SCRATCH" className="text-white hover:bg-neutral-600">Raspadinha (3x3)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="flex items-center space-x-2">
                 <Switch
                   id="is_active"
@@ -408,12 +418,13 @@ export default function CreateScratchCard() {
               <div className="flex gap-2">
                 <Button 
                   type="button" 
-                  onClick={distributeProbabilities} 
+                  onClick={() => setIsSolverOpen(true)} 
                   size="sm" 
-                  className="bg-green-600 hover:bg-green-700 text-white"
-                  disabled={prizes.length <= 1}
+                  className="bg-green-600 hover:bg-green-700 text-white flex items-center gap-2"
+                  disabled={simulationPrizes.length === 0}
                 >
-                  Distribuir Probabilidades
+                  <Wand2 className="h-4 w-4" />
+                  Ajustar Probabilidades
                 </Button>
                 <Button 
                   type="button" 
@@ -561,6 +572,18 @@ export default function CreateScratchCard() {
           </CardContent>
         </Card>
 
+        <RtpSimulatorPanel price={scratchCard.price} targetRtp={scratchCard.target_rtp} prizes={simulationPrizes} />
+
+        <PrizeSolverDialog
+          open={isSolverOpen}
+          onOpenChange={setIsSolverOpen}
+          prizes={simulationPrizes}
+          price={scratchCard.price}
+          targetRtp={scratchCard.target_rtp}
+          initialHitRate={simulationPrizes.reduce((sum, prize) => sum + prize.probability, 0)}
+          onApply={applySolvedProbabilities}
+        />
+
         {/* Resumo */}
         <Card className="bg-neutral-800 border-neutral-700">
           <CardHeader>
@@ -28,9 +28,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Eye, Trash2, Plus, Gift, DollarSign, Users, TrendingUp, Search, Loader2, Star } from 'lucide-react';
+import { Eye, Trash2, Plus, Gift, DollarSign, Users, TrendingUp, Search, Loader2, Star, Activity } from 'lucide-react';
 import { Poppins } from 'next/font/google';
-import { apiUrl } from '@/lib/api';
+import { api, ApiError } from '@/lib/api';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { ReasonField } from '@/components/reason-dialog';
+import ExportMenu from '@/components/export-menu';
+import { useTableExport } from '@/hooks/use-table-export';
+import type { ExportColumn } from '@/lib/export';
+import { isValidReason } from '@/lib/audit';
+import type { Prize, ScratchCard } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -38,52 +45,6 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 });
 
-// Interfaces
-interface Prize {
-  id: string;
-  scratchCardId: string;
-  name: string;
-  description: string;
-  type: string;
-  value: string;
-  product_name: string | null;
-  redemption_value: string | null;
-  image_url: string | null;
-  probability: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
-
-interface ScratchCard {
-  id: string;
-  name: string;
-  description: string;
-  price: string;
-  image_url: string;
-  is_active: boolean;
-  is_featured: boolean;
-  target_rtp: string;
-  current_rtp: string;
-  total_revenue: string;
-  total_payouts: string;
-  total_games_played: number;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  prizes: Prize[];
-  _count: {
-    games: number;
-  };
-}
-
-interface ScratchCardsResponse {
-  success: boolean;
-  message: string;
-  data: ScratchCard[];
-  count: number;
-}
-
 // Funções de formatação
 const formatCurrency = (value: string | number) => {
   const numValue = typeof value === 'string' ? parseFloat(value) : value;
@@ -103,11 +64,31 @@ const formatDate = (dateString: string) => {
   });
 };
 
+const getMaxPrize = (prizes: Prize[]) => {
+  if (!prizes || prizes.length === 0) return 0;
+  return Math.max(...prizes.map(prize => parseFloat(prize.value || '0')));
+};
 
+const EXPORT_COLUMNS: ExportColumn<ScratchCard>[] = [
+  { header: 'ID', value: (card) => card.id },
+  { header: 'Nome', value: (card) => card.name },
+  { header: 'Descrição', value: (card) => card.description },
+  { header: 'Preço', value: (card) => card.price, type: 'currency' },
+  { header: 'Prêmio máximo', value: (card) => getMaxPrize(card.prizes), type: 'currency' },
+  { header: 'Prêmios', value: (card) => card.prizes?.length ?? 0, type: 'integer' },
+  { header: 'RTP alvo (%)', value: (card) => card.target_rtp, type: 'decimal' },
+  { header: 'RTP atual (%)', value: (card) => card.current_rtp, type: 'decimal' },
+  { header: 'Jogos', value: (card) => card.total_games_played, type: 'integer' },
+  { header: 'Receita', value: (card) => card.total_revenue, type: 'currency' },
+  { header: 'Prêmios pagos', value: (card) => card.total_payouts, type: 'currency' },
+  { header: 'Destaque', value: (card) => Boolean(card.is_featured) },
+  { header: 'Criado em', value: (card) => card.created_at, type: 'date' },
+];
 
 export default function ScratchCardsPage() {
   const router = useRouter();
   const { token, isLoading: authLoading } = useAuth();
+  const { can } = useAdminPermissions();
   const [searchTerm, setSearchTerm] = useState('');
   const [scratchCards, setScratchCards] = useState<ScratchCard[]>([]);
   const [loading, setLoading] = useState(true);
@@ -119,6 +100,8 @@ export default function ScratchCardsPage() {
   const [featureModalOpen, setFeatureModalOpen] = useState(false);
   const [cardToFeature, setCardToFeature] = useState<ScratchCard | null>(null);
   const [featuring, setFeaturing] = useState(false);
+  // Motivo exigido nas confirmações de exclusão e destaque (auditoria)
+  const [actionReason, setActionReason] = useState('');
 
   const fetchScratchCards = async () => {
     if (!token) {
@@ -131,28 +114,11 @@ export default function ScratchCardsPage() {
       setLoading(true);
       setError(null);
       
-      const response = await fetch(apiUrl('/v1/api/scratchcards/admin/all?includeInactive=false'), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.status === 401) {
-        setError('Token inválido ou expirado');
-        return;
-      }
-
-      if (!response.ok) {
-        throw new Error(`Erro na requisição: ${response.status}`);
-      }
-
-      const data: ScratchCardsResponse = await response.json();
-      setScratchCards(data.data || []);
+      const data = await api.admin.scratchCards.list(token);
+      setScratchCards(data || []);
     } catch (err) {
       console.error('Erro ao buscar raspadinhas:', err);
-      setError('Erro ao carregar raspadinhas');
+      setError(err instanceof ApiError && err.isUnauthorized ? 'Token inválido ou expirado' : 'Erro ao carregar raspadinhas');
     } finally {
       setLoading(false);
     }
@@ -173,34 +139,25 @@ export default function ScratchCardsPage() {
 
   const handleDelete = (card: ScratchCard) => {
     setCardToDelete(card);
+    setActionReason('');
     setDeleteModalOpen(true);
   };
 
   const handleToggleFeatured = (card: ScratchCard) => {
     setCardToFeature(card);
+    setActionReason('');
     setFeatureModalOpen(true);
   };
 
   const confirmDelete = async () => {
-    if (!cardToDelete) return;
+    if (!cardToDelete || !token || !isValidReason(actionReason)) return;
 
     try {
       setDeleting(true);
-      const response = await fetch(apiUrl(`/v1/api/scratchcards/admin/${cardToDelete.id}`), {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.ok) {
-        setScratchCards(prev => prev.filter(card => card.id !== cardToDelete.id));
-        setDeleteModalOpen(false);
-        setCardToDelete(null);
-      } else {
-        throw new Error('Erro ao excluir raspadinha');
-      }
+      await api.admin.scratchCards.remove(token, cardToDelete.id, actionReason.trim());
+      setScratchCards(prev => prev.filter(card => card.id !== cardToDelete.id));
+      setDeleteModalOpen(false);
+      setCardToDelete(null);
     } catch (err) {
       console.error('Erro ao excluir raspadinha:', err);
       alert('Erro ao excluir raspadinha');
@@ -215,34 +172,19 @@ export default function ScratchCardsPage() {
   };
 
   const confirmToggleFeatured = async () => {
-    if (!cardToFeature) return;
+    if (!cardToFeature || !token || !isValidReason(actionReason)) return;
 
     try {
       setFeaturing(true);
-      const response = await fetch(apiUrl('/v1/api/admin/scratchcards/toggle-featured'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          scratchCardId: cardToFeature.id,
-          isFeatured: !cardToFeature.is_featured
-        })
-      });
-
-      if (response.ok) {
-        // Atualizar o estado local
-        setScratchCards(prev => prev.map(card => 
-          card.id === cardToFeature.id 
-            ? { ...card, is_featured: !card.is_featured }
-            : card
-        ));
-        setFeatureModalOpen(false);
-        setCardToFeature(null);
-      } else {
-        throw new Error('Erro ao alterar destaque da raspadinha');
-      }
+      await api.admin.scratchCards.toggleFeatured(token, cardToFeature.id, !cardToFeature.is_featured, actionReason.trim());
+      // Atualizar o estado local
+      setScratchCards(prev => prev.map(card => 
+        card.id === cardToFeature.id 
+          ? { ...card, is_featured: !card.is_featured }
+          : card
+      ));
+      setFeatureModalOpen(false);
+      setCardToFeature(null);
     } catch (err) {
       console.error('Erro ao alterar destaque da raspadinha:', err);
       alert('Erro ao alterar destaque da raspadinha');
@@ -267,6 +209,14 @@ export default function ScratchCardsPage() {
     return matchesSearch;
   });
 
+  // A API devolve todas as raspadinhas de uma vez, então só há a visão atual
+  const tableExport = useTableExport({
+    filename: 'raspadinhas',
+    sheetName: 'Raspadinhas',
+    columns: EXPORT_COLUMNS,
+    rows: filteredCards,
+  });
+
   // Calcular estatísticas (apenas raspadinhas ativas)
   const totalCards = scratchCards.length;
   const totalGamesPlayed = scratchCards.reduce((sum, card) => sum + card.total_games_played, 0);
@@ -309,11 +259,6 @@ export default function ScratchCardsPage() {
       : 'bg-red-500/10 text-red-400 border-red-500/20';
   };
 
-  const getMaxPrize = (prizes: Prize[]) => {
-    if (!prizes || prizes.length === 0) return 0;
-    return Math.max(...prizes.map(prize => parseFloat(prize.value || '0')));
-  };
-
   if (loading) {
     return (
       <div className={poppins.className}>
@@ -422,13 +367,32 @@ export default function ScratchCardsPage() {
                   <p className="text-neutral-400 text-sm">Total de {scratchCards.length} raspadinhas</p>
                 </div>
               </div>
-              <Button
-                onClick={handleCreate}
-                className="bg-yellow-600 hover:bg-yellow-700 text-white"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Nova Raspadinha
-              </Button>
+              <div className="flex items-center gap-2">
+                <ExportMenu
+                  exporting={tableExport.exporting}
+                  progress={tableExport.progress}
+                  canExportAll={tableExport.canExportAll}
+                  onExport={tableExport.exportTable}
+                  onCancel={tableExport.cancel}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => router.push('/v2/administrator/scratchs/rtp')}
+                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                >
+                  <Activity className="h-4 w-4 mr-2" />
+                  Monitor de RTP
+                </Button>
+                {can('scratchcards:edit') && (
+                  <Button
+                    onClick={handleCreate}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Raspadinha
+                  </Button>
+                )}
+              </div>
             </div>
 
             {/* Stats Cards */}
@@ -581,28 +545,32 @@ export default function ScratchCardsPage() {
                               >
                                 <Eye className="h-4 w-4" />
                               </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleToggleFeatured(card)}
-                                className={`p-2 ${
-                                  card.is_featured 
-                                    ? 'text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10' 
-                                    : 'text-neutral-400 hover:text-yellow-400 hover:bg-yellow-500/10'
-                                }`}
-                                title={card.is_featured ? 'Remover destaque' : 'Adicionar destaque'}
-                              >
-                                <Star className={`h-4 w-4 ${card.is_featured ? 'fill-current' : ''}`} />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleDelete(card)}
-                                className="text-red-400 hover:text-red-300 hover:bg-red-500/10 p-2"
-                                title="Excluir raspadinha"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {can('scratchcards:edit') && (
+                                <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleToggleFeatured(card)}
+                                  className={`p-2 ${
+                                    card.is_featured 
+                                      ? 'text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10' 
+                                      : 'text-neutral-400 hover:text-yellow-400 hover:bg-yellow-500/10'
+                                  }`}
+                                  title={card.is_featured ? 'Remover destaque' : 'Adicionar destaque'}
+                                >
+                                  <Star className={`h-4 w-4 ${card.is_featured ? 'fill-current' : ''}`} />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(card)}
+                                  className="text-red-400 hover:text-red-300 hover:bg-red-500/10 p-2"
+                                  title="Excluir raspadinha"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                                </>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -627,6 +595,7 @@ export default function ScratchCardsPage() {
               Esta ação não pode ser desfeita.
             </DialogDescription>
           </DialogHeader>
+          <ReasonField id="deleteReason" value={actionReason} onChange={setActionReason} disabled={deleting} />
           <DialogFooter className="gap-2">
             <Button
               variant="outline"
@@ -638,7 +607,7 @@ export default function ScratchCardsPage() {
             </Button>
             <Button
               onClick={confirmDelete}
-              disabled={deleting}
+              disabled={deleting || !isValidReason(actionReason)}
               className="bg-red-600 hover:bg-red-700 text-white"
             >
               {deleting ? (
@@ -678,6 +647,7 @@ export default function ScratchCardsPage() {
               )}
             </DialogDescription>
           </DialogHeader>
+          <ReasonField id="featureReason" value={actionReason} onChange={setActionReason} disabled={featuring} />
           <DialogFooter className="gap-2">
             <Button
               variant="outline"
@@ -689,7 +659,7 @@ export default function ScratchCardsPage() {
             </Button>
             <Button
               onClick={confirmToggleFeatured}
-              disabled={featuring}
+              disabled={featuring || !isValidReason(actionReason)}
               className="bg-yellow-600 hover:bg-yellow-700 text-white"
             >
               {featuring ? (
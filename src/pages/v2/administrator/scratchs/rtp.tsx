@@ -0,0 +1,531 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/router';
+import { AppSidebar } from '@/components/app-sidebar';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Activity, Loader2, Pause, RefreshCw, LineChart as LineChartIcon } from 'lucide-react';
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Poppins } from 'next/font/google';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReasonDialog } from '@/components/reason-dialog';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { api, getErrorMessage } from '@/lib/api';
+import {
+  DEFAULT_RTP_MONITOR_SETTINGS,
+  RTP_DRIFT_LABELS,
+  buildRtpChart,
+  getRtpDriftStatus,
+  type RtpChartPoint,
+  type RtpDriftLevel,
+} from '@/lib/rtp-monitor';
+import type { RtpMonitorSettings, ScratchCard } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300", "400", "500", "600", "700"],
+});
+
+const HISTORY_DAY_OPTIONS = [7, 30, 90];
+
+const DRIFT_LEVEL_COLORS: Record<RtpDriftLevel, string> = {
+  ok: 'bg-green-500/10 text-green-400 border-green-500/20',
+  insufficient_data: 'bg-neutral-500/10 text-neutral-400 border-neutral-500/20',
+  drifting: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  critical: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+// Ordem da tabela: primeiro o que precisa de atenção
+const DRIFT_LEVEL_ORDER: Record<RtpDriftLevel, number> = {
+  critical: 0,
+  drifting: 1,
+  ok: 2,
+  insufficient_data: 3,
+};
+
+const formatPercentage = (value: number) => `${value.toFixed(2).replace('.', ',')}%`;
+
+const formatDeviation = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2).replace('.', ',')} p.p.`;
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+const tooltipStyle = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#ffffff',
+};
+
+export default function RtpMonitorPage() {
+  const router = useRouter();
+  const { token } = useAuth();
+  const { can } = useAdminPermissions();
+  const canEdit = can('scratchcards:edit');
+
+  const [cards, setCards] = useState<ScratchCard[]>([]);
+  const [settings, setSettings] = useState<RtpMonitorSettings>(DEFAULT_RTP_MONITOR_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Formulário dos limites; só é salvo após o motivo
+  const [settingsForm, setSettingsForm] = useState({ tolerance: '', min_games: '' });
+  const [settingsConfirmOpen, setSettingsConfirmOpen] = useState(false);
+
+  const [pauseTarget, setPauseTarget] = useState<ScratchCard | null>(null);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyDays, setHistoryDays] = useState(30);
+  const [chart, setChart] = useState<RtpChartPoint[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState('');
+
+  const fetchData = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+    try {
+      const [cardList, monitorSettings] = await Promise.all([
+        api.admin.scratchCards.list(token),
+        api.admin.rtpMonitor.getSettings(token).catch((err) => {
+          console.error('Erro ao carregar limites do monitoramento:', err);
+          return DEFAULT_RTP_MONITOR_SETTINGS;
+        }),
+      ]);
+      setCards(cardList || []);
+      setSettings(monitorSettings);
+      setSettingsForm({ tolerance: String(monitorSettings.tolerance), min_games: String(monitorSettings.min_games) });
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar raspadinhas');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const rows = useMemo(
+    () => cards
+      .map((card) => ({ card, status: getRtpDriftStatus(card, settings) }))
+      .sort((a, b) =>
+        DRIFT_LEVEL_ORDER[a.status.level] - DRIFT_LEVEL_ORDER[b.status.level]
+        || Math.abs(b.status.deviation) - Math.abs(a.status.deviation)),
+    [cards, settings],
+  );
+  const alertCount = rows.filter(({ status }) => status.level === 'drifting' || status.level === 'critical').length;
+
+  // Abre o gráfico da raspadinha do link da notificação, ou da primeira da lista
+  useEffect(() => {
+    if (selectedId || rows.length === 0 || !router.isReady) return;
+    const fromQuery = typeof router.query.card === 'string' ? router.query.card : null;
+    setSelectedId(rows.some(({ card }) => card.id === fromQuery) ? fromQuery : rows[0].card.id);
+  }, [rows, selectedId, router.isReady, router.query.card]);
+
+  const selected = cards.find((card) => card.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!token || !selected) return;
+    let cancelled = false;
+
+    setHistoryLoading(true);
+    setHistoryError('');
+    api.admin.scratchCards.getRtpHistory(token, selected.id, historyDays)
+      .then((history) => {
+        if (!cancelled) setChart(buildRtpChart(history || [], selected));
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setChart([]);
+          setHistoryError(getErrorMessage(err, 'Erro ao carregar o histórico de RTP'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, selected, historyDays]);
+
+  const parsedSettings = (): RtpMonitorSettings | string => {
+    const tolerance = parseFloat(settingsForm.tolerance.replace(',', '.'));
+    const minGames = parseInt(settingsForm.min_games, 10);
+    if (!(tolerance > 0) || tolerance > 50) return 'A tolerância deve estar entre 0 e 50 pontos percentuais';
+    if (!Number.isInteger(minGames) || minGames < 0) return 'O mínimo de jogos deve ser um número inteiro';
+    return { tolerance, min_games: minGames };
+  };
+
+  const handleSaveSettingsClick = () => {
+    const input = parsedSettings();
+    if (typeof input === 'string') {
+      toast.error(input);
+      return;
+    }
+    setSettingsConfirmOpen(true);
+  };
+
+  const handleConfirmSettings = async (reason: string) => {
+    setSettingsConfirmOpen(false);
+    const input = parsedSettings();
+    if (!token || typeof input === 'string') return;
+
+    try {
+      const updated = await api.admin.rtpMonitor.updateSettings(token, input, reason);
+      setSettings(updated);
+      setSettingsForm({ tolerance: String(updated.tolerance), min_games: String(updated.min_games) });
+      toast.success('Limites do monitoramento atualizados');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao salvar os limites do monitoramento'));
+    }
+  };
+
+  const handleConfirmPause = async (reason: string) => {
+    const target = pauseTarget;
+    setPauseTarget(null);
+    if (!token || !target) return;
+
+    try {
+      await api.admin.scratchCards.update(token, target.id, { is_active: false }, reason);
+      toast.success(`Raspadinha "${target.name}" pausada`);
+      if (selectedId === target.id) setSelectedId(null);
+      await fetchData();
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao pausar a raspadinha'));
+    }
+  };
+
+  const settingsChanged = settingsForm.tolerance !== String(settings.tolerance)
+    || settingsForm.min_games !== String(settings.min_games);
+  const selectedStatus = selected ? getRtpDriftStatus(selected, settings) : null;
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/v2/administrator/scratchs" className="text-neutral-400 hover:text-white">
+                    Raspadinhas
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Monitor de RTP</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                  <Activity className="w-5 h-5 text-neutral-300" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-white">Monitor de RTP</h1>
+                  <p className="text-neutral-400 text-sm">
+                    {loading
+                      ? 'Carregando...'
+                      : `${alertCount} ${alertCount === 1 ? 'alerta' : 'alertas'} em ${cards.length} raspadinhas ativas`}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={fetchData}
+                disabled={loading}
+                className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Atualizar
+              </Button>
+            </div>
+
+            <p className="text-neutral-400 text-sm">
+              O RTP observado oscila em torno do alvo, mais quanto menos jogos a raspadinha tiver. Um alerta só é gerado
+              quando o desvio passa da tolerância e fica fora da faixa de confiança de 95% calculada pela tabela de prêmios.
+            </p>
+
+            {/* Limites */}
+            <Card className="bg-neutral-800 border-neutral-700 p-6">
+              <div className="flex flex-col md:flex-row md:items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tolerance" className="text-neutral-300">Tolerância (p.p.)</Label>
+                  <Input
+                    id="tolerance"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={settingsForm.tolerance}
+                    onChange={(e) => setSettingsForm((prev) => ({ ...prev, tolerance: e.target.value }))}
+                    disabled={!canEdit || loading}
+                    className="w-40 bg-neutral-700 border-neutral-600 text-white focus:border-yellow-500"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="min_games" className="text-neutral-300">Jogos mínimos</Label>
+                  <Input
+                    id="min_games"
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={settingsForm.min_games}
+                    onChange={(e) => setSettingsForm((prev) => ({ ...prev, min_games: e.target.value }))}
+                    disabled={!canEdit || loading}
+                    className="w-40 bg-neutral-700 border-neutral-600 text-white focus:border-yellow-500"
+                  />
+                </div>
+                {canEdit && (
+                  <Button
+                    onClick={handleSaveSettingsClick}
+                    disabled={!settingsChanged || loading}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                  >
+                    Salvar limites
+                  </Button>
+                )}
+                <p className="text-neutral-500 text-xs md:ml-auto md:max-w-xs">
+                  Desvios acima do dobro da tolerância, ou RTP acima de 100%, são tratados como críticos.
+                </p>
+              </div>
+            </Card>
+
+            <Card className="bg-neutral-800 border-neutral-700">
+              {loading ? (
+                <div className="p-8 text-center">
+                  <Loader2 className="w-8 h-8 text-neutral-400 animate-spin mx-auto mb-4" />
+                  <p className="text-neutral-400">Carregando raspadinhas...</p>
+                </div>
+              ) : error ? (
+                <div className="p-8 text-center">
+                  <p className="text-red-400 text-sm mb-4">{error}</p>
+                  <Button onClick={fetchData} className="bg-yellow-600 hover:bg-yellow-700">
+                    Tentar novamente
+                  </Button>
+                </div>
+              ) : rows.length === 0 ? (
+                <div className="p-8 text-center">
+                  <div className="w-16 h-16 bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Activity className="w-8 h-8 text-neutral-400" />
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-2">Nenhuma raspadinha ativa</h3>
+                  <p className="text-neutral-400 text-sm">Não há o que monitorar no momento</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <div style={{ minWidth: '900px' }}>
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                          <TableHead className="text-neutral-300 font-medium">Raspadinha</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Jogos</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Alvo</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Atual</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Desvio</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Faixa 95%</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Status</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map(({ card, status }) => (
+                          <TableRow
+                            key={card.id}
+                            className={`border-neutral-700 hover:bg-neutral-700/30 ${card.id === selectedId ? 'bg-neutral-700/40' : ''}`}
+                          >
+                            <TableCell>
+                              <a href={`/v2/administrator/scratchs/${card.id}`} className="text-white font-medium hover:underline">
+                                {card.name}
+                              </a>
+                            </TableCell>
+                            <TableCell className="text-neutral-300 text-right">{status.games.toLocaleString('pt-BR')}</TableCell>
+                            <TableCell className="text-neutral-300 text-right">{formatPercentage(status.targetRtp)}</TableCell>
+                            <TableCell className="text-white font-medium text-right">{formatPercentage(status.currentRtp)}</TableCell>
+                            <TableCell className={`text-right ${status.deviation > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                              {formatDeviation(status.deviation)}
+                            </TableCell>
+                            <TableCell className="text-neutral-400 text-right text-sm">
+                              {Number.isFinite(status.band.low)
+                                ? `${formatPercentage(Math.max(0, status.band.low))} a ${formatPercentage(status.band.high)}`
+                                : '—'}
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={DRIFT_LEVEL_COLORS[status.level]}>{RTP_DRIFT_LABELS[status.level]}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setSelectedId(card.id)}
+                                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                                  title="Ver gráfico"
+                                >
+                                  <LineChartIcon className="w-4 h-4" />
+                                </Button>
+                                {canEdit && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setPauseTarget(card)}
+                                    className="bg-neutral-700 border-neutral-600 text-red-400 hover:bg-red-500/10"
+                                    title="Pausar raspadinha"
+                                  >
+                                    <Pause className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </Card>
+
+            {/* Evolução do RTP */}
+            {selected && selectedStatus && (
+              <Card className="bg-neutral-800 border-neutral-700">
+                <div className="p-6 border-b border-neutral-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                      {selected.name}
+                      <Badge className={DRIFT_LEVEL_COLORS[selectedStatus.level]}>{RTP_DRIFT_LABELS[selectedStatus.level]}</Badge>
+                    </h3>
+                    <p className="text-neutral-400 text-sm">
+                      RTP acumulado por dia, com a faixa de 95% esperada para o número de jogos até cada data
+                    </p>
+                  </div>
+                  <Select value={String(historyDays)} onValueChange={(value) => setHistoryDays(Number(value))}>
+                    <SelectTrigger className="w-full md:w-40 bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      {HISTORY_DAY_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)} className="text-white hover:bg-neutral-600">
+                          Últimos {days} dias
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="p-6">
+                  {historyLoading ? (
+                    <div className="h-[320px] flex items-center justify-center">
+                      <Loader2 className="w-8 h-8 text-neutral-400 animate-spin" />
+                    </div>
+                  ) : historyError ? (
+                    <p className="text-red-400 text-sm text-center py-12">{historyError}</p>
+                  ) : chart.length === 0 ? (
+                    <p className="text-neutral-400 text-sm text-center py-12">Sem jogos no período</p>
+                  ) : (
+                    <ResponsiveContainer width="100%" height={320}>
+                      <ComposedChart data={chart}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                        <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} tickFormatter={formatDay} />
+                        <YAxis stroke="#9ca3af" fontSize={12} tickFormatter={(value) => `${value}%`} domain={['auto', 'auto']} />
+                        <Tooltip
+                          labelFormatter={(value) => formatDay(String(value))}
+                          formatter={(value: number | [number, number], name: string) => [
+                            Array.isArray(value)
+                              ? `${formatPercentage(value[0])} a ${formatPercentage(value[1])}`
+                              : formatPercentage(value),
+                            name,
+                          ]}
+                          contentStyle={tooltipStyle}
+                        />
+                        <Legend />
+                        <Area
+                          type="monotone"
+                          dataKey="band"
+                          name="Faixa 95%"
+                          stroke="none"
+                          fill="#eab308"
+                          fillOpacity={0.15}
+                        />
+                        <ReferenceLine y={selectedStatus.targetRtp + settings.tolerance} stroke="#f59e0b" strokeDasharray="4 4" />
+                        <ReferenceLine y={selectedStatus.targetRtp - settings.tolerance} stroke="#f59e0b" strokeDasharray="4 4" />
+                        <Line type="monotone" dataKey="target" name="RTP alvo" stroke="#9ca3af" strokeDasharray="6 3" dot={false} />
+                        <Line type="monotone" dataKey="rtp" name="RTP atual" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  )}
+                </div>
+              </Card>
+            )}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+
+      <ReasonDialog
+        open={settingsConfirmOpen}
+        title="Alterar limites do monitoramento"
+        description="Os novos limites valem para os alertas de todas as raspadinhas."
+        confirmLabel="Salvar"
+        onConfirm={handleConfirmSettings}
+        onCancel={() => setSettingsConfirmOpen(false)}
+      />
+
+      <ReasonDialog
+        open={pauseTarget !== null}
+        title={`Pausar ${pauseTarget?.name ?? ''}`}
+        description="A raspadinha sai do ar e deixa de aceitar jogos até ser reativada na página de detalhes."
+        confirmLabel="Pausar"
+        destructive
+        onConfirm={handleConfirmPause}
+        onCancel={() => setPauseTarget(null)}
+      />
+    </div>
+  );
+}
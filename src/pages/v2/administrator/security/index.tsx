@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import { QRCodeCanvas } from 'qrcode.react';
+import { AppSidebar } from '@/components/app-sidebar';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { ShieldCheck, ShieldAlert, Copy, Download, KeyRound, RefreshCw } from 'lucide-react';
+import { Poppins } from 'next/font/google';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { api, getErrorMessage } from '@/lib/api';
+import { startAdminSession } from '@/lib/admin-session';
+import { getAdminRoles, getDefaultAdminPath } from '@/lib/permissions';
+import { TWO_FACTOR_CODE_LENGTH, formatRecoveryCodesFile } from '@/lib/two-factor';
+import type { TwoFactorSetup, TwoFactorStatus } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300", "400", "500", "600", "700"],
+});
+
+function CodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP
+      maxLength={TWO_FACTOR_CODE_LENGTH}
+      value={value}
+      onChange={(next) => onChange(next.replace(/\D/g, ''))}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: TWO_FACTOR_CODE_LENGTH }, (_, index) => (
+          <InputOTPSlot
+            key={index}
+            index={index}
+            className="h-11 w-11 text-lg text-white bg-neutral-700 border-neutral-600"
+          />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export default function SecurityPage() {
+  const router = useRouter();
+  const { token, user, updateUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Chegou aqui logo após o login, sem 2FA ativo
+  const isFirstSetup = router.query.setup === '1';
+
+  const fetchStatus = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+    try {
+      setStatus(await api.admin.twoFactor.getStatus(token));
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar a verificação em duas etapas');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Atualiza o usuário e regrava o cookie de sessão, que o middleware usa para exigir o 2FA
+  const syncUser = async (enabled: boolean) => {
+    if (user) updateUser({ ...user, two_factor_enabled: enabled });
+    if (!token) return;
+    try {
+      await startAdminSession(token);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao atualizar a sessão. Faça login novamente.'));
+    }
+  };
+
+  const handleStartSetup = async () => {
+    if (!token) return;
+    setSubmitting(true);
+    try {
+      setSetup(await api.admin.twoFactor.setup(token));
+      setCode('');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao iniciar a configuração'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!token || code.length !== TWO_FACTOR_CODE_LENGTH) return;
+    setSubmitting(true);
+    try {
+      const data = await api.admin.twoFactor.enable(token, code);
+      setRecoveryCodes(data.recovery_codes);
+      setSetup(null);
+      setCode('');
+      setStatus({ enabled: true, recovery_codes_remaining: data.recovery_codes.length });
+      await syncUser(true);
+      toast.success('Verificação em duas etapas ativada!');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Código inválido. Tente novamente.'));
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!token || code.length !== TWO_FACTOR_CODE_LENGTH) return;
+    setSubmitting(true);
+    try {
+      const data = await api.admin.twoFactor.regenerateRecoveryCodes(token, code);
+      setRecoveryCodes(data.recovery_codes);
+      setStatus({ enabled: true, recovery_codes_remaining: data.recovery_codes.length });
+      setCode('');
+      toast.success('Novos códigos de recuperação gerados');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao gerar novos códigos'));
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!token || code.length !== TWO_FACTOR_CODE_LENGTH) return;
+    setSubmitting(true);
+    try {
+      await api.admin.twoFactor.disable(token, code);
+      setStatus({ enabled: false, recovery_codes_remaining: 0 });
+      setRecoveryCodes([]);
+      setCode('');
+      await syncUser(false);
+      toast.success('Verificação em duas etapas desativada');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao desativar a verificação em duas etapas'));
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async (value: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(message);
+    } catch (error) {
+      toast.error('Erro ao copiar');
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([formatRecoveryCodesFile(recoveryCodes, process.env.NEXT_PUBLIC_APP_NAME)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'codigos-de-recuperacao.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleContinue = () => {
+    router.push(getDefaultAdminPath(getAdminRoles(user)));
+  };
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Segurança</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                <ShieldCheck className="w-5 h-5 text-neutral-300" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-white">Verificação em duas etapas</h1>
+                <p className="text-neutral-400 text-sm">Proteja o acesso ao painel com um aplicativo autenticador</p>
+              </div>
+            </div>
+
+            {isFirstSetup && status && !status.enabled && (
+              <div className="flex items-center gap-3 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+                <ShieldAlert className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+                <p className="text-yellow-400 text-sm">
+                  Sua conta ainda não usa verificação em duas etapas. Ative agora para proteger aprovações de saque e credenciais de pagamento.
+                </p>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              </div>
+            ) : status && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card className="bg-neutral-800 border-neutral-700 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-white">Aplicativo autenticador</h2>
+                    <Badge className={status.enabled
+                      ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                      : 'bg-red-500/10 text-red-400 border-red-500/20'}
+                    >
+                      {status.enabled ? 'Ativo' : 'Inativo'}
+                    </Badge>
+                  </div>
+
+                  {!status.enabled && !setup && (
+                    <div className="space-y-4">
+                      <p className="text-neutral-400 text-sm">
+                        Use Google Authenticator, Authy ou outro aplicativo compatível com TOTP. Depois de ativar, o login no painel pedirá um código a cada acesso.
+                      </p>
+                      <Button
+                        onClick={handleStartSetup}
+                        disabled={submitting}
+                        className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                      >
+                        {submitting ? 'Gerando...' : 'Ativar verificação em duas etapas'}
+                      </Button>
+                    </div>
+                  )}
+
+                  {!status.enabled && setup && (
+                    <div className="space-y-5">
+                      <div className="flex flex-col items-center">
+                        <div className="bg-white rounded-lg p-2">
+                          <QRCodeCanvas value={setup.otpauth_url} size={180} includeMargin={true} />
+                        </div>
+                        <span className="text-neutral-400 text-xs mt-2">Escaneie o QR Code com o aplicativo autenticador</span>
+                      </div>
+
+                      <div>
+                        <p className="text-neutral-400 text-sm mb-2">Ou informe a chave manualmente:</p>
+                        <div className="flex items-center gap-2">
+                          <code className="flex-1 bg-neutral-700 border border-neutral-600 rounded-lg px-3 py-2 text-sm text-white font-mono break-all">
+                            {setup.secret}
+                          </code>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCopy(setup.secret, 'Chave copiada!')}
+                            className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10"
+                            title="Copiar chave"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <p className="text-white text-sm font-medium">Digite o código gerado para confirmar</p>
+                        <CodeInput value={code} onChange={setCode} disabled={submitting} />
+                      </div>
+
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={handleEnable}
+                          disabled={submitting || code.length !== TWO_FACTOR_CODE_LENGTH}
+                          className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                        >
+                          {submitting ? 'Verificando...' : 'Confirmar e ativar'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setSetup(null);
+                            setCode('');
+                          }}
+                          disabled={submitting}
+                          className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                        >
+                          Cancelar
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {status.enabled && (
+                    <div className="space-y-4">
+                      <p className="text-neutral-400 text-sm">
+                        Restam <span className="text-white font-medium">{status.recovery_codes_remaining}</span> códigos de recuperação.
+                        Para gerar novos códigos ou desativar, informe o código atual do aplicativo.
+                      </p>
+                      <CodeInput value={code} onChange={setCode} disabled={submitting} />
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          onClick={handleRegenerate}
+                          disabled={submitting || code.length !== TWO_FACTOR_CODE_LENGTH}
+                          className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                        >
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Gerar novos códigos
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={handleDisable}
+                          disabled={submitting || code.length !== TWO_FACTOR_CODE_LENGTH}
+                          className="bg-neutral-700 border-red-500/40 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                        >
+                          Desativar
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </Card>
+
+                {recoveryCodes.length > 0 && (
+                  <Card className="bg-neutral-800 border-neutral-700 p-6">
+                    <div className="flex items-center gap-2 mb-2">
+                      <KeyRound className="w-5 h-5 text-yellow-400" />
+                      <h2 className="text-lg font-semibold text-white">Códigos de recuperação</h2>
+                    </div>
+                    <p className="text-neutral-400 text-sm mb-4">
+                      Guarde estes códigos em local seguro. Eles só são exibidos agora e cada um pode ser usado uma única vez caso você perca acesso ao aplicativo.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 mb-4">
+                      {recoveryCodes.map((recoveryCode) => (
+                        <code
+                          key={recoveryCode}
+                          className="bg-neutral-700 border border-neutral-600 rounded-lg px-3 py-2 text-sm text-white font-mono text-center"
+                        >
+                          {recoveryCode}
+                        </code>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => handleCopy(recoveryCodes.join('\n'), 'Códigos copiados!')}
+                        className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                      >
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copiar
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={handleDownloadCodes}
+                        className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Baixar .txt
+                      </Button>
+                      {isFirstSetup && (
+                        <Button
+                          onClick={handleContinue}
+                          className="bg-yellow-600 hover:bg-yellow-700 text-white"
+                        >
+                          Continuar para o painel
+                        </Button>
+                      )}
+                    </div>
+                  </Card>
+                )}
+              </div>
+            )}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { AppSidebar } from "@/components/app-sidebar"
 import {
   Breadcrumb,
@@ -26,211 +26,356 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { 
-  ArrowLeft, 
-  Key, 
-  Building, 
-  Globe, 
-  Settings, 
-  Eye, 
-  EyeOff,
-  Copy,
-  Check,
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  ArrowLeft,
+  ArrowRight,
+  Settings,
   AlertCircle,
   Shield,
-  Database,
-  RefreshCw
+  RefreshCw,
+  Plus,
+  Edit,
+  Trash2,
+  PlugZap,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  FlaskConical,
+  Download,
 } from "lucide-react"
 import { Poppins } from 'next/font/google'
 import { useAuth } from '@/contexts/AuthContext'
 import { toast } from 'sonner'
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { isValidReason, REASON_MIN_LENGTH } from '@/lib/audit';
+import { DEPOSIT_GATEWAY } from '@/lib/deposit-flow';
+import {
+  MOCK_PROVIDER_PATH,
+  PROVIDER_DEFINITIONS,
+  PROVIDER_KINDS,
+  getCredentialsIssue,
+  getCredentialsPayload,
+  getDefaultCredentials,
+  getDepositRoute,
+  getEnableIssue,
+  sortProviders,
+} from '@/lib/payment-providers';
+import { ReasonDialog, ReasonField } from '@/components/reason-dialog';
+import type { PaymentProvider, PaymentProviderKind, PaymentProviderTestResult, PluggouCredentials } from '@/lib/types';
 
 
-const poppins = Poppins({ 
+const poppins = Poppins({
   subsets: ["latin"],
   weight: ["100", "200", "300","400","500", "600", "700"],
 })
 
-interface Credentials {
-  pluggou_api_key: string;
-  pluggou_organization_id: string;
-  pluggou_base_url: string;
-  is_configured: boolean;
+interface ProviderForm {
+  kind: PaymentProviderKind;
+  name: string;
+  priority: string;
+  enabled: boolean;
+  failover: boolean;
+  credentials: Record<string, string>;
 }
 
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Credenciais padrão do tipo; o gateway simulado aponta para as rotas deste próprio app
+const getInitialCredentials = (kind: PaymentProviderKind) => {
+  const credentials = getDefaultCredentials(kind);
+  if (kind === 'mock' && typeof window !== 'undefined') {
+    credentials.base_url = `${window.location.origin}${MOCK_PROVIDER_PATH}`;
+  }
+  return credentials;
+};
+
+// Segredos não voltam da API: no formulário de edição ficam em branco ("manter valor atual")
+const toForm = (provider: PaymentProvider): ProviderForm => ({
+  kind: provider.kind,
+  name: provider.name,
+  priority: String(provider.priority),
+  enabled: provider.enabled,
+  failover: provider.failover,
+  credentials: Object.fromEntries(
+    PROVIDER_DEFINITIONS[provider.kind].fields.map((field) => [
+      field.key,
+      field.type === 'secret' ? '' : provider.credentials[field.key] || '',
+    ])
+  ),
+});
+
+const TestResultBadge = ({ result }: { result: PaymentProviderTestResult | null }) => {
+  if (!result) return <span className="text-neutral-500 text-xs">Conexão ainda não testada</span>;
+  return (
+    <span className={`flex items-center gap-1 text-xs ${result.ok ? 'text-green-400' : 'text-red-400'}`}>
+      {result.ok ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
+      {result.message}
+      {result.latency_ms !== null && ` · ${result.latency_ms} ms`}
+      <span className="text-neutral-500"> · {formatDate(result.checked_at)}</span>
+    </span>
+  );
+};
+
 export default function CredentialsPage() {
   const { token } = useAuth();
-  const [credentials, setCredentials] = useState<Credentials | null>(null);
+  const [providers, setProviders] = useState<PaymentProvider[]>([]);
+  // Credenciais Pluggou anteriores ao cadastro de gateways, oferecidas para importação
+  const [legacyPluggou, setLegacyPluggou] = useState<PluggouCredentials | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  // Modal de criação/edição; editing null = novo gateway
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [editing, setEditing] = useState<PaymentProvider | null>(null);
+  const [editForm, setEditForm] = useState<ProviderForm | null>(null);
   const [editLoading, setEditLoading] = useState(false);
   const [editError, setEditError] = useState('');
-  const [showSecrets, setShowSecrets] = useState(false);
-  const [copiedField, setCopiedField] = useState<string | null>(null);
-  
-  const [editForm, setEditForm] = useState({
-    pluggou_api_key: '',
-    pluggou_organization_id: '',
-    pluggou_base_url: ''
-  });
+  const [editReason, setEditReason] = useState('');
+  const [formTest, setFormTest] = useState<PaymentProviderTestResult | null>(null);
+  const [formTesting, setFormTesting] = useState(false);
+
+  const [toggleTarget, setToggleTarget] = useState<PaymentProvider | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<PaymentProvider | null>(null);
 
-  const fetchCredentials = async () => {
+  const fetchProviders = useCallback(async () => {
     if (!token) return;
-    
+
     setLoading(true);
     setError('');
     try {
-      const response = await fetch(apiUrl('/v1/api/setting'), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar credenciais');
-      }
-
-      const settings = data.data[0] || {};
-      setCredentials({
-        pluggou_api_key: settings.pluggou_api_key || '',
-        pluggou_organization_id: settings.pluggou_organization_id || '',
-        pluggou_base_url: settings.pluggou_base_url || '',
-        is_configured: !!(settings.pluggou_api_key && settings.pluggou_organization_id && settings.pluggou_base_url)
-      });
-    } catch (err: any) {
-      setError(err.message);
-      toast.error(err.message);
+      const [list, settings] = await Promise.all([api.admin.paymentProviders.list(token), api.settings.get(token)]);
+      setProviders(list);
+      setLegacyPluggou(settings.pluggou_api_key && settings.pluggou_organization_id && settings.pluggou_base_url
+        ? {
+          pluggou_api_key: settings.pluggou_api_key,
+          pluggou_organization_id: settings.pluggou_organization_id,
+          pluggou_base_url: settings.pluggou_base_url,
+        }
+        : null);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar gateways de pagamento');
+      setError(message);
+      toast.error(message);
     } finally {
       setLoading(false);
     }
-  };
+  }, [token]);
 
   useEffect(() => {
-    fetchCredentials();
-  }, [token]);
+    fetchProviders();
+  }, [fetchProviders]);
+
+  const sortedProviders = useMemo(() => sortProviders(providers), [providers]);
+  const depositRoute = useMemo(() => getDepositRoute(providers), [providers]);
+  const showLegacyImport = legacyPluggou !== null && !providers.some((provider) => provider.kind === 'pluggou');
 
-  const handleEdit = () => {
-    if (credentials) {
-      setEditForm({
-        pluggou_api_key: credentials.pluggou_api_key,
-        pluggou_organization_id: credentials.pluggou_organization_id,
-        pluggou_base_url: credentials.pluggou_base_url
+  const openForm = (provider: PaymentProvider | null, initial?: Partial<ProviderForm>) => {
+    const kind = initial?.kind ?? 'pluggou';
+    setEditing(provider);
+    setEditForm(provider
+      ? toForm(provider)
+      : {
+        kind,
+        name: PROVIDER_DEFINITIONS[kind].label,
+        priority: String(Math.max(0, ...providers.map((item) => item.priority)) + 1),
+        enabled: providers.length === 0,
+        failover: false,
+        credentials: getInitialCredentials(kind),
+        ...initial,
       });
-      setIsEditModalOpen(true);
-      setEditError('');
-    }
+    setEditReason('');
+    setEditError('');
+    setFormTest(null);
+    setIsEditModalOpen(true);
+  };
+
+  const handleImportLegacy = () => {
+    if (!legacyPluggou) return;
+    openForm(null, {
+      kind: 'pluggou',
+      name: 'Pluggou',
+      enabled: true,
+      credentials: {
+        api_key: legacyPluggou.pluggou_api_key,
+        organization_id: legacyPluggou.pluggou_organization_id,
+        base_url: legacyPluggou.pluggou_base_url,
+      },
+    });
   };
 
   const handleCloseEditModal = () => {
     setIsEditModalOpen(false);
-    setEditForm({
-      pluggou_api_key: '',
-      pluggou_organization_id: '',
-      pluggou_base_url: ''
-    });
+    setEditing(null);
+    setEditForm(null);
+    setEditReason('');
     setEditError('');
   };
 
-  const handleEditFormChange = (field: string, value: string) => {
-    setEditForm(prev => ({
+  const handleEditFormChange = <K extends keyof ProviderForm>(field: K, value: ProviderForm[K]) => {
+    setEditForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+    setFormTest(null);
+  };
+
+  const handleKindChange = (kind: PaymentProviderKind) => {
+    setEditForm((prev) => prev && {
       ...prev,
-      [field]: value
-    }));
+      kind,
+      name: prev.name === PROVIDER_DEFINITIONS[prev.kind].label ? PROVIDER_DEFINITIONS[kind].label : prev.name,
+      credentials: getInitialCredentials(kind),
+    });
+    setFormTest(null);
+  };
+
+  const handleCredentialChange = (key: string, value: string) => {
+    setEditForm((prev) => prev && { ...prev, credentials: { ...prev.credentials, [key]: value } });
+    setFormTest(null);
   };
 
-  const handleUpdateCredentials = async () => {
+  // Primeiro problema do formulário, ou null
+  const getFormIssue = (form: ProviderForm) => {
+    const priority = parseInt(form.priority, 10);
+    if (form.name.trim().length < 2) return 'Informe o nome do gateway';
+    if (!Number.isInteger(priority) || priority < 1) return 'A prioridade deve ser um número inteiro maior que zero';
+    const enableIssue = form.enabled ? getEnableIssue(form.kind) : null;
+    if (enableIssue) return enableIssue;
+    return getCredentialsIssue(form.kind, form.credentials, editing !== null);
+  };
+
+  const handleTestForm = async () => {
+    if (!token || !editForm) return;
+    const issue = getCredentialsIssue(editForm.kind, editForm.credentials, editing !== null);
+    if (issue) {
+      setEditError(issue);
+      return;
+    }
+
+    setFormTesting(true);
+    setEditError('');
+    try {
+      setFormTest(await api.admin.paymentProviders.test(token, {
+        id: editing?.id,
+        kind: editForm.kind,
+        credentials: getCredentialsPayload(editForm.kind, editForm.credentials),
+      }));
+    } catch (err) {
+      setEditError(getErrorMessage(err, 'Erro ao testar a conexão'));
+    } finally {
+      setFormTesting(false);
+    }
+  };
+
+  const handleTestProvider = async (provider: PaymentProvider) => {
     if (!token) return;
-    
+    setTestingId(provider.id);
+    try {
+      const result = await api.admin.paymentProviders.test(token, { id: provider.id, kind: provider.kind, credentials: {} });
+      setProviders((prev) => prev.map((item) => (item.id === provider.id ? { ...item, last_test: result } : item)));
+      if (result.ok) toast.success(`${provider.name}: ${result.message}`);
+      else toast.error(`${provider.name}: ${result.message}`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao testar a conexão'));
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleSaveProvider = async () => {
+    if (!token || !editForm) return;
+
+    const issue = getFormIssue(editForm);
+    if (issue) {
+      setEditError(issue);
+      return;
+    }
+    if (!isValidReason(editReason)) {
+      setEditError(`Informe o motivo da alteração (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
+
+    const input = {
+      kind: editForm.kind,
+      name: editForm.name.trim(),
+      priority: parseInt(editForm.priority, 10),
+      enabled: editForm.enabled,
+      failover: editForm.failover,
+      credentials: getCredentialsPayload(editForm.kind, editForm.credentials),
+    };
+
     setEditLoading(true);
     setEditError('');
-    
     try {
-      const response = await fetch(apiUrl('/v1/api/setting/credentials'), {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(editForm)
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao atualizar credenciais');
+      if (editing) {
+        const updated = await api.admin.paymentProviders.update(token, editing.id, input, editReason.trim());
+        setProviders((prev) => prev.map((provider) => (provider.id === editing.id ? updated : provider)));
+        toast.success(`Gateway ${updated.name} atualizado`);
+      } else {
+        const created = await api.admin.paymentProviders.create(token, input, editReason.trim());
+        setProviders((prev) => [...prev, created]);
+        toast.success(`Gateway ${created.name} cadastrado`);
       }
-
-      toast.success('Credenciais atualizadas com sucesso!');
       handleCloseEditModal();
-      await fetchCredentials();
-      
-    } catch (err: any) {
-      setEditError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao salvar gateway');
+      setEditError(message);
+      toast.error(message);
     } finally {
       setEditLoading(false);
     }
   };
 
-  const handleCopyToClipboard = async (text: string, field: string) => {
+  const handleRequestToggle = (provider: PaymentProvider) => {
+    const issue = provider.enabled ? null : getEnableIssue(provider.kind);
+    if (issue) {
+      toast.error(issue);
+      return;
+    }
+    setToggleTarget(provider);
+  };
+
+  const handleConfirmToggle = async (reason: string) => {
+    const target = toggleTarget;
+    setToggleTarget(null);
+    if (!token || !target) return;
+
     try {
-      await navigator.clipboard.writeText(text);
-      setCopiedField(field);
-      toast.success('Copiado para a área de transferência!');
-      setTimeout(() => setCopiedField(null), 2000);
+      const updated = await api.admin.paymentProviders.update(token, target.id, { enabled: !target.enabled }, reason);
+      setProviders((prev) => prev.map((provider) => (provider.id === target.id ? updated : provider)));
+      toast.success(`Gateway ${target.name} ${updated.enabled ? 'ativado' : 'desativado'}`);
     } catch (err) {
-      toast.error('Erro ao copiar para a área de transferência');
+      toast.error(getErrorMessage(err, 'Erro ao alterar status do gateway'));
     }
   };
 
-  const maskApiKey = (apiKey: string) => {
-    if (!apiKey) return '';
-    if (apiKey.length <= 8) return '*'.repeat(apiKey.length);
-    return apiKey.substring(0, 4) + '*'.repeat(apiKey.length - 8) + apiKey.substring(apiKey.length - 4);
+  const handleConfirmDelete = async (reason: string) => {
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    if (!token || !target) return;
+
+    try {
+      await api.admin.paymentProviders.remove(token, target.id, reason);
+      setProviders((prev) => prev.filter((provider) => provider.id !== target.id));
+      toast.success(`Gateway ${target.name} excluído`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao excluir gateway'));
+    }
   };
 
-  if (loading) {
-    return (
-      <div className={poppins.className}>
-        <SidebarProvider>
-          <AppSidebar />
-          <SidebarInset>
-            <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
-              <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
-              <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
-              <Breadcrumb>
-                <BreadcrumbList>
-                  <BreadcrumbItem className="hidden md:block">
-                    <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
-                      Administração
-                    </BreadcrumbLink>
-                  </BreadcrumbItem>
-                  <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
-                  <BreadcrumbItem>
-                    <BreadcrumbLink href="/v2/administrator/settings" className="text-neutral-400 hover:text-white">
-                      Configurações
-                    </BreadcrumbLink>
-                  </BreadcrumbItem>
-                  <BreadcrumbSeparator className="text-neutral-600" />
-                  <BreadcrumbItem>
-                    <BreadcrumbPage className="text-white font-medium">Carregando...</BreadcrumbPage>
-                  </BreadcrumbItem>
-                </BreadcrumbList>
-              </Breadcrumb>
-            </header>
-            <div className="flex items-center justify-center h-64">
-              <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-            </div>
-          </SidebarInset>
-        </SidebarProvider>
-      </div>
-    );
-  }
+  const definition = editForm ? PROVIDER_DEFINITIONS[editForm.kind] : null;
 
   return (
     <div className={poppins.className}>
@@ -255,15 +400,15 @@ export default function CredentialsPage() {
                 </BreadcrumbItem>
                 <BreadcrumbSeparator className="text-neutral-600" />
                 <BreadcrumbItem>
-                  <BreadcrumbPage className="text-white font-medium">Credenciais API</BreadcrumbPage>
+                  <BreadcrumbPage className="text-white font-medium">Gateways de pagamento</BreadcrumbPage>
                 </BreadcrumbItem>
               </BreadcrumbList>
             </Breadcrumb>
           </header>
-          
+
           <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
             {/* Header Section */}
-            <div className="flex items-center justify-between">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
               <div className="flex items-center gap-4">
                 <Button
                   variant="ghost"
@@ -274,22 +419,22 @@ export default function CredentialsPage() {
                   Voltar
                 </Button>
                 <div>
-                  <h1 className="text-2xl font-bold text-white">Credenciais da API</h1>
+                  <h1 className="text-2xl font-bold text-white">Gateways de pagamento</h1>
                   <p className="text-neutral-400 text-sm">
-                    Gerencie as credenciais de integração com a Pluggou
+                    Cadastre os gateways PIX, a ordem de uso nos depósitos e o failover
                   </p>
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                <Button 
-                  onClick={handleEdit} 
+                <Button
+                  onClick={() => openForm(null)}
                   className="bg-yellow-600 hover:bg-yellow-700 text-white"
                 >
-                  <Settings className="w-4 h-4 mr-2" />
-                  Editar Credenciais
+                  <Plus className="w-4 h-4 mr-2" />
+                  Novo gateway
                 </Button>
-                <Button 
-                  onClick={fetchCredentials} 
+                <Button
+                  onClick={fetchProviders}
                   variant="outline"
                   className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
                 >
@@ -311,145 +456,173 @@ export default function CredentialsPage() {
               </Card>
             )}
 
-            {/* Status Card */}
-            <Card className="bg-neutral-800 border-neutral-700 p-6">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${
-                    credentials?.is_configured 
-                      ? 'bg-green-500/20' 
-                      : 'bg-red-500/20'
-                  }`}>
-                    <Shield className={`w-6 h-6 ${
-                      credentials?.is_configured 
-                        ? 'text-green-400' 
-                        : 'text-red-400'
-                    }`} />
-                  </div>
-                  <div>
-                    <h3 className="text-lg font-semibold text-white">
-                      Status da Configuração
-                    </h3>
-                    <p className="text-neutral-400 text-sm">
-                      {credentials?.is_configured 
-                        ? 'Credenciais configuradas corretamente' 
-                        : 'Credenciais não configuradas'
-                      }
-                    </p>
-                  </div>
-                </div>
-                <Badge className={
-                  credentials?.is_configured 
-                    ? 'bg-green-500/10 text-green-400 border-green-500/20' 
-                    : 'bg-red-500/10 text-red-400 border-red-500/20'
-                }>
-                  {credentials?.is_configured ? 'Configurado' : 'Não Configurado'}
-                </Badge>
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
               </div>
-            </Card>
-
-            {/* Credentials Information */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* API Key */}
-              <Card className="bg-neutral-800 border-neutral-700 p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-white flex items-center gap-2">
-                    <Key className="w-5 h-5 text-yellow-400" />
-                    API Key
-                  </h3>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setShowSecrets(!showSecrets)}
-                      className="text-neutral-400 hover:text-white"
-                    >
-                      {showSecrets ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleCopyToClipboard(credentials?.pluggou_api_key || '', 'api_key')}
-                      className="text-blue-400 hover:text-blue-300"
-                    >
-                      {copiedField === 'api_key' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                    </Button>
-                  </div>
-                </div>
-                <div className="space-y-3">
-                  <div className="flex items-center gap-3">
-                    <Database className="w-4 h-4 text-neutral-400" />
+            ) : (
+              <>
+                {/* Rota dos depósitos */}
+                <Card className="bg-neutral-800 border-neutral-700 p-6">
+                  <div className="flex items-start gap-3">
+                    <div className={`w-12 h-12 rounded-lg flex items-center justify-center shrink-0 ${
+                      depositRoute.length > 0 ? 'bg-green-500/20' : 'bg-red-500/20'
+                    }`}>
+                      <Shield className={`w-6 h-6 ${depositRoute.length > 0 ? 'text-green-400' : 'text-red-400'}`} />
+                    </div>
                     <div className="flex-1">
-                      <p className="text-neutral-400 text-sm">Chave da API</p>
-                      <p className="text-white font-mono text-sm break-all">
-                        {showSecrets 
-                          ? credentials?.pluggou_api_key || 'Não configurado'
-                          : maskApiKey(credentials?.pluggou_api_key || '')
-                        }
+                      <h3 className="text-lg font-semibold text-white">Rota dos depósitos</h3>
+                      {depositRoute.length > 0 ? (
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
+                          {depositRoute.map((provider, index) => (
+                            <span key={provider.id} className="flex items-center gap-2">
+                              {index > 0 && <ArrowRight className="w-4 h-4 text-neutral-500" />}
+                              <Badge className={index === 0
+                                ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                                : 'bg-blue-500/10 text-blue-400 border-blue-500/20'}
+                              >
+                                {provider.name}{index === 0 ? ' (principal)' : ' (failover)'}
+                              </Badge>
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-neutral-400 text-sm">
+                          Nenhum gateway ativo: os depósitos usam o gateway padrão do ambiente ({DEPOSIT_GATEWAY}).
+                        </p>
+                      )}
+                      <p className="text-neutral-500 text-xs mt-2">
+                        O depósito vai para o gateway ativo de menor prioridade. Se ele estiver fora do ar, os gateways ativos
+                        marcados como failover são tentados na ordem.
                       </p>
                     </div>
                   </div>
-                </div>
-              </Card>
+                </Card>
 
-              {/* Organization ID */}
-              <Card className="bg-neutral-800 border-neutral-700 p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-white flex items-center gap-2">
-                    <Building className="w-5 h-5 text-blue-400" />
-                    Organization ID
-                  </h3>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleCopyToClipboard(credentials?.pluggou_organization_id || '', 'org_id')}
-                    className="text-blue-400 hover:text-blue-300"
-                  >
-                    {copiedField === 'org_id' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  </Button>
-                </div>
-                <div className="space-y-3">
-                  <div className="flex items-center gap-3">
-                    <Building className="w-4 h-4 text-neutral-400" />
-                    <div className="flex-1">
-                      <p className="text-neutral-400 text-sm">ID da Organização</p>
-                      <p className="text-white font-mono text-sm break-all">
-                        {credentials?.pluggou_organization_id || 'Não configurado'}
-                      </p>
+                {showLegacyImport && (
+                  <Card className="bg-neutral-800 border-neutral-700 p-6">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <AlertCircle className="w-5 h-5 text-yellow-400 mt-0.5" />
+                        <div>
+                          <h3 className="text-white font-semibold">Credenciais Pluggou encontradas</h3>
+                          <p className="text-neutral-400 text-sm">
+                            Há credenciais da Pluggou nas configurações anteriores ao cadastro de gateways. Importe-as para que
+                            entrem na rota dos depósitos.
+                          </p>
+                        </div>
+                      </div>
+                      <Button onClick={handleImportLegacy} className="bg-yellow-600 hover:bg-yellow-700 text-white">
+                        <Download className="w-4 h-4 mr-2" />
+                        Importar
+                      </Button>
                     </div>
-                  </div>
-                </div>
-              </Card>
+                  </Card>
+                )}
 
-              {/* Base URL */}
-              <Card className="bg-neutral-800 border-neutral-700 p-6 lg:col-span-2">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-white flex items-center gap-2">
-                    <Globe className="w-5 h-5 text-green-400" />
-                    Base URL
-                  </h3>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleCopyToClipboard(credentials?.pluggou_base_url || '', 'base_url')}
-                    className="text-blue-400 hover:text-blue-300"
-                  >
-                    {copiedField === 'base_url' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  </Button>
-                </div>
-                <div className="space-y-3">
-                  <div className="flex items-center gap-3">
-                    <Globe className="w-4 h-4 text-neutral-400" />
-                    <div className="flex-1">
-                      <p className="text-neutral-400 text-sm">URL Base da API</p>
-                      <p className="text-white font-mono text-sm break-all">
-                        {credentials?.pluggou_base_url || 'Não configurado'}
-                      </p>
+                {sortedProviders.length === 0 ? (
+                  <Card className="bg-neutral-800 border-neutral-700 p-8 text-center">
+                    <div className="w-16 h-16 bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                      <PlugZap className="w-8 h-8 text-neutral-400" />
                     </div>
+                    <h3 className="text-lg font-semibold text-white mb-2">Nenhum gateway cadastrado</h3>
+                    <p className="text-neutral-400 text-sm">Cadastre um gateway PIX para receber depósitos</p>
+                  </Card>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {sortedProviders.map((provider) => {
+                      const providerDefinition = PROVIDER_DEFINITIONS[provider.kind];
+                      const routeIndex = depositRoute.findIndex((item) => item.id === provider.id);
+
+                      return (
+                        <Card key={provider.id} className="bg-neutral-800 border-neutral-700 p-6">
+                          <div className="flex items-start justify-between gap-4 mb-4">
+                            <div>
+                              <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                                <PlugZap className="w-5 h-5 text-yellow-400" />
+                                {provider.name}
+                              </h3>
+                              <p className="text-neutral-400 text-sm">
+                                {providerDefinition.label} · prioridade {provider.priority}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Switch checked={provider.enabled} onCheckedChange={() => handleRequestToggle(provider)} />
+                            </div>
+                          </div>
+
+                          <div className="flex flex-wrap gap-2 mb-4">
+                            <Badge className={provider.enabled
+                              ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                              : 'bg-neutral-500/10 text-neutral-400 border-neutral-500/20'}
+                            >
+                              {provider.enabled ? 'Ativo' : 'Inativo'}
+                            </Badge>
+                            {routeIndex === 0 && (
+                              <Badge className="bg-yellow-500/10 text-yellow-400 border-yellow-500/20">Principal</Badge>
+                            )}
+                            {provider.failover && (
+                              <Badge className="bg-blue-500/10 text-blue-400 border-blue-500/20">Failover</Badge>
+                            )}
+                            {providerDefinition.testOnly && (
+                              <Badge className="bg-purple-500/10 text-purple-400 border-purple-500/20">
+                                <FlaskConical className="w-3 h-3 mr-1" />
+                                Teste
+                              </Badge>
+                            )}
+                          </div>
+
+                          <div className="space-y-2 mb-4">
+                            {providerDefinition.fields.map((field) => (
+                              <div key={field.key} className="flex items-center justify-between gap-4 text-sm">
+                                <span className="text-neutral-400">{field.label}</span>
+                                <span className="text-white font-mono break-all text-right">
+                                  {field.type === 'select'
+                                    ? field.options?.find((option) => option.value === provider.credentials[field.key])?.label
+                                      || provider.credentials[field.key]
+                                    : provider.credentials[field.key] || 'Não configurado'}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+
+                          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 pt-4 border-t border-neutral-700">
+                            <TestResultBadge result={provider.last_test} />
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleTestProvider(provider)}
+                                disabled={testingId === provider.id}
+                                className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                              >
+                                {testingId === provider.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Testar conexão'}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openForm(provider)}
+                                className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setDeleteTarget(provider)}
+                                className="bg-neutral-700 border-neutral-600 text-red-400 hover:bg-red-500/10"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </Card>
+                      );
+                    })}
                   </div>
-                </div>
-              </Card>
-            </div>
+                )}
+              </>
+            )}
 
             {/* Security Notice */}
             <Card className="bg-neutral-800 border-neutral-700 p-6">
@@ -458,12 +631,12 @@ export default function CredentialsPage() {
                 <div>
                   <h3 className="text-lg font-semibold text-white mb-2">Aviso de Segurança</h3>
                   <p className="text-neutral-400 text-sm mb-3">
-                    As credenciais da API são informações sensíveis que permitem acesso aos serviços da Pluggou. 
+                    As credenciais dos gateways são informações sensíveis que permitem movimentar os valores da plataforma.
                     Mantenha essas informações seguras e não as compartilhe com pessoas não autorizadas.
                   </p>
                   <ul className="text-neutral-400 text-sm space-y-1">
                     <li>• Nunca compartilhe suas credenciais em repositórios públicos</li>
-                    <li>• Use variáveis de ambiente em produção</li>
+                    <li>• Os segredos salvos não são exibidos novamente; deixe o campo em branco para mantê-los</li>
                     <li>• Monitore regularmente o uso da API</li>
                     <li>• Rotacione as chaves periodicamente</li>
                   </ul>
@@ -475,62 +648,150 @@ export default function CredentialsPage() {
       </SidebarProvider>
 
       {/* Modal de Edição */}
-      <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
-        <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white">
+      <Dialog open={isEditModalOpen} onOpenChange={(open) => !open && handleCloseEditModal()}>
+        <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="text-lg font-bold text-white flex items-center gap-2">
               <Settings className="w-5 h-5" />
-              Editar Credenciais da API
+              {editing ? `Editar ${editing.name}` : 'Novo gateway de pagamento'}
             </DialogTitle>
           </DialogHeader>
-          
+
           {editError && (
             <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
               <p className="text-red-400 text-sm">{editError}</p>
             </div>
           )}
-          
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="api_key" className="text-neutral-300">API Key</Label>
-              <Input
-                id="api_key"
-                type="text"
-                value={editForm.pluggou_api_key}
-                onChange={(e) => handleEditFormChange('pluggou_api_key', e.target.value)}
-                className="bg-neutral-700 border-neutral-600 text-white font-mono"
-                placeholder="Digite a chave da API"
-                disabled={editLoading}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="organization_id" className="text-neutral-300">Organization ID</Label>
-              <Input
-                id="organization_id"
-                type="text"
-                value={editForm.pluggou_organization_id}
-                onChange={(e) => handleEditFormChange('pluggou_organization_id', e.target.value)}
-                className="bg-neutral-700 border-neutral-600 text-white font-mono"
-                placeholder="Digite o ID da organização"
-                disabled={editLoading}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="base_url" className="text-neutral-300">Base URL</Label>
-              <Input
-                id="base_url"
-                type="url"
-                value={editForm.pluggou_base_url}
-                onChange={(e) => handleEditFormChange('pluggou_base_url', e.target.value)}
-                className="bg-neutral-700 border-neutral-600 text-white font-mono"
-                placeholder="https://api.pluggou.com"
-                disabled={editLoading}
-              />
+
+          {editForm && definition && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="text-neutral-300">Tipo</Label>
+                  <Select
+                    value={editForm.kind}
+                    onValueChange={(value) => handleKindChange(value as PaymentProviderKind)}
+                    disabled={editLoading || editing !== null}
+                  >
+                    <SelectTrigger className="w-full bg-neutral-700 border-neutral-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-700 border-neutral-600">
+                      {PROVIDER_KINDS.map((kind) => (
+                        <SelectItem key={kind} value={kind} className="text-white hover:bg-neutral-600">
+                          {PROVIDER_DEFINITIONS[kind].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="provider_name" className="text-neutral-300">Nome</Label>
+                  <Input
+                    id="provider_name"
+                    value={editForm.name}
+                    onChange={(e) => handleEditFormChange('name', e.target.value)}
+                    className="bg-neutral-700 border-neutral-600 text-white"
+                    disabled={editLoading}
+                  />
+                </div>
+              </div>
+
+              <p className="text-neutral-400 text-sm">{definition.description}</p>
+              {definition.testOnly && (
+                <div className="bg-purple-500/10 border border-purple-500/20 rounded-lg p-3">
+                  <p className="text-purple-300 text-sm">
+                    Somente para desenvolvimento: as rotas do gateway simulado ficam em {MOCK_PROVIDER_PATH} e não respondem
+                    em produção.
+                  </p>
+                </div>
+              )}
+
+              {definition.fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`credential_${field.key}`} className="text-neutral-300">{field.label}</Label>
+                  {field.type === 'select' ? (
+                    <Select
+                      value={editForm.credentials[field.key] || ''}
+                      onValueChange={(value) => handleCredentialChange(field.key, value)}
+                      disabled={editLoading}
+                    >
+                      <SelectTrigger id={`credential_${field.key}`} className="w-full bg-neutral-700 border-neutral-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-neutral-700 border-neutral-600">
+                        {field.options?.map((option) => (
+                          <SelectItem key={option.value} value={option.value} className="text-white hover:bg-neutral-600">
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      id={`credential_${field.key}`}
+                      type={field.type === 'secret' ? 'password' : field.type === 'url' ? 'url' : 'text'}
+                      autoComplete="off"
+                      value={editForm.credentials[field.key] || ''}
+                      onChange={(e) => handleCredentialChange(field.key, e.target.value)}
+                      className="bg-neutral-700 border-neutral-600 text-white font-mono"
+                      placeholder={field.type === 'secret' && editing ? 'Manter valor atual' : field.placeholder}
+                      disabled={editLoading}
+                    />
+                  )}
+                </div>
+              ))}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="provider_priority" className="text-neutral-300">Prioridade</Label>
+                  <Input
+                    id="provider_priority"
+                    type="number"
+                    step="1"
+                    value={editForm.priority}
+                    onChange={(e) => handleEditFormChange('priority', e.target.value)}
+                    className="bg-neutral-700 border-neutral-600 text-white"
+                    disabled={editLoading}
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch
+                    id="provider_enabled"
+                    checked={editForm.enabled}
+                    onCheckedChange={(checked) => handleEditFormChange('enabled', checked)}
+                    disabled={editLoading}
+                  />
+                  <Label htmlFor="provider_enabled" className="text-neutral-300">Ativo</Label>
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch
+                    id="provider_failover"
+                    checked={editForm.failover}
+                    onCheckedChange={(checked) => handleEditFormChange('failover', checked)}
+                    disabled={editLoading}
+                  />
+                  <Label htmlFor="provider_failover" className="text-neutral-300">Usar como failover</Label>
+                </div>
+              </div>
+
+              <div className="bg-neutral-700/50 border border-neutral-600 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <TestResultBadge result={formTest} />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleTestForm}
+                  disabled={formTesting || editLoading}
+                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                >
+                  {formTesting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Testar conexão'}
+                </Button>
+              </div>
+
+              <ReasonField id="credentialsReason" value={editReason} onChange={setEditReason} disabled={editLoading} />
             </div>
-          </div>
-          
+          )}
+
           <div className="flex gap-3 pt-4">
             <Button
               variant="outline"
@@ -541,19 +802,41 @@ export default function CredentialsPage() {
               Cancelar
             </Button>
             <Button
-              onClick={handleUpdateCredentials}
+              onClick={handleSaveProvider}
               className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white"
               disabled={editLoading}
             >
               {editLoading ? (
                 <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
               ) : (
-                'Salvar Credenciais'
+                'Salvar Gateway'
               )}
             </Button>
           </div>
         </DialogContent>
       </Dialog>
+
+      <ReasonDialog
+        open={toggleTarget !== null}
+        title={toggleTarget?.enabled ? `Desativar ${toggleTarget.name}` : `Ativar ${toggleTarget?.name ?? ''}`}
+        description={toggleTarget?.enabled
+          ? 'O gateway sai da rota dos depósitos. Cobranças já geradas continuam sendo confirmadas.'
+          : 'O gateway volta para a rota dos depósitos, na ordem da sua prioridade.'}
+        confirmLabel={toggleTarget?.enabled ? 'Desativar' : 'Ativar'}
+        destructive={toggleTarget?.enabled}
+        onConfirm={handleConfirmToggle}
+        onCancel={() => setToggleTarget(null)}
+      />
+
+      <ReasonDialog
+        open={deleteTarget !== null}
+        title={`Excluir ${deleteTarget?.name ?? ''}`}
+        description="O gateway e suas credenciais serão removidos. O histórico de depósitos não é afetado."
+        confirmLabel="Excluir"
+        destructive
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
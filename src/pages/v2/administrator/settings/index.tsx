@@ -20,7 +20,8 @@ import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { DEFAULT_WITHDRAW_MIN_AMOUNT } from '@/lib/withdrawal';
 
 
 export default function SettingsPage() {
@@ -30,26 +31,26 @@ export default function SettingsPage() {
   const [error, setError] = useState('');
   const [plataformName, setPlataformName] = useState('');
   const [plataformDescription, setPlataformDescription] = useState('');
+  // Limites de saque; vazio = padrão (mínimo) ou sem limite
+  const [withdrawMin, setWithdrawMin] = useState('');
+  const [withdrawMax, setWithdrawMax] = useState('');
+  const [withdrawDaily, setWithdrawDaily] = useState('');
 
   useEffect(() => {
     const fetchSettings = async () => {
       setLoading(true);
       setError('');
       try {
-        const response = await fetch(apiUrl('/v1/api/setting'), {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.message || 'Erro ao buscar configurações');
-        const setting = data.data[0];
+        const setting = await api.settings.get(token);
         setPlataformName(setting.plataform_name || '');
         setPlataformDescription(setting.plataform_description || '');
-      } catch (err: any) {
-        setError(err.message);
-        toast.error(err.message);
+        setWithdrawMin(setting.withdraw_min_amount || '');
+        setWithdrawMax(setting.withdraw_max_amount || '');
+        setWithdrawDaily(setting.withdraw_daily_limit || '');
+      } catch (err) {
+        const message = getErrorMessage(err, 'Erro ao buscar configurações');
+        setError(message);
+        toast.error(message);
       } finally {
         setLoading(false);
       }
@@ -58,26 +59,22 @@ export default function SettingsPage() {
   }, [token]);
 
   const handleSave = async () => {
+    if (!token) return;
     setSaving(true);
     setError('');
     try {
-      const response = await fetch(apiUrl('/v1/api/setting/update'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          plataform_name: plataformName,
-          plataform_description: plataformDescription
-        })
+      await api.settings.update(token, {
+        plataform_name: plataformName,
+        plataform_description: plataformDescription,
+        withdraw_min_amount: withdrawMin || null,
+        withdraw_max_amount: withdrawMax || null,
+        withdraw_daily_limit: withdrawDaily || null,
       });
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.message || 'Erro ao salvar configurações');
       toast.success('Configurações salvas com sucesso!');
-    } catch (err: any) {
-      setError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao salvar configurações');
+      setError(message);
+      toast.error(message);
     } finally {
       setSaving(false);
     }
@@ -137,6 +134,53 @@ export default function SettingsPage() {
                         disabled={saving}
                       />
                     </div>
+                    <div>
+                      <p className="text-white font-medium mb-1">Limites de saque</p>
+                      <p className="text-neutral-400 text-xs mb-3">
+                        Deixe em branco para usar o mínimo padrão de R$ {DEFAULT_WITHDRAW_MIN_AMOUNT},00 ou não limitar.
+                      </p>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <div>
+                          <Label htmlFor="withdrawMin" className="text-neutral-300 text-sm mb-2 block">Mínimo (R$)</Label>
+                          <Input
+                            id="withdrawMin"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={withdrawMin}
+                            onChange={e => setWithdrawMin(e.target.value)}
+                            className="bg-neutral-700 border-neutral-600 text-white"
+                            disabled={saving}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="withdrawMax" className="text-neutral-300 text-sm mb-2 block">Máximo por saque (R$)</Label>
+                          <Input
+                            id="withdrawMax"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={withdrawMax}
+                            onChange={e => setWithdrawMax(e.target.value)}
+                            className="bg-neutral-700 border-neutral-600 text-white"
+                            disabled={saving}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="withdrawDaily" className="text-neutral-300 text-sm mb-2 block">Limite diário (R$)</Label>
+                          <Input
+                            id="withdrawDaily"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={withdrawDaily}
+                            onChange={e => setWithdrawDaily(e.target.value)}
+                            className="bg-neutral-700 border-neutral-600 text-white"
+                            disabled={saving}
+                          />
+                        </div>
+                      </div>
+                    </div>
                     {error && <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-red-400 text-sm">{error}</div>}
                     <Button
                       type="submit"
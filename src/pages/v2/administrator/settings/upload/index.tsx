@@ -20,7 +20,8 @@ import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import type { Setting } from '@/lib/types';
 
 
 const imageFields = [
@@ -38,7 +39,7 @@ export default function SettingsUploadPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
-  const [settings, setSettings] = useState<any>({});
+  const [settings, setSettings] = useState<Setting>({});
   const [previews, setPreviews] = useState<{ [key: string]: string | null }>({});
   const [files, setFiles] = useState<{ [key: string]: File | null }>({});
 
@@ -47,24 +48,18 @@ export default function SettingsUploadPage() {
       setLoading(true);
       setError('');
       try {
-        const response = await fetch(apiUrl('/v1/api/setting'), {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-        const data = await response.json();
-        if (!response.ok) throw new Error(data.message || 'Erro ao buscar configurações');
-        setSettings(data.data[0] || {});
+        const setting = await api.settings.get(token);
+        setSettings(setting);
         // Preencher previews com as imagens atuais
         const previewsObj: { [key: string]: string | null } = {};
         imageFields.forEach(f => {
-          previewsObj[f.key] = data.data[0]?.[f.key] || null;
+          previewsObj[f.key] = setting[f.key] || null;
         });
         setPreviews(previewsObj);
-      } catch (err: any) {
-        setError(err.message);
-        toast.error(err.message);
+      } catch (err) {
+        const message = getErrorMessage(err, 'Erro ao buscar configurações');
+        setError(message);
+        toast.error(message);
       } finally {
         setLoading(false);
       }
@@ -85,6 +80,7 @@ export default function SettingsUploadPage() {
   };
 
   const handleUpload = async (uploadKey: string, fieldKey: string) => {
+    if (!token) return;
     if (!files[fieldKey]) {
       toast.error('Selecione um arquivo para enviar.');
       return;
@@ -94,22 +90,15 @@ export default function SettingsUploadPage() {
     try {
       const formData = new FormData();
       formData.append(uploadKey, files[fieldKey]!);
-      const response = await fetch(apiUrl('/v1/api/setting/upload'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-        body: formData,
-      });
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.message || 'Erro ao enviar imagem');
+      const data = await api.settings.upload(token, formData);
       toast.success('Imagem enviada com sucesso!');
       // Atualizar preview após upload
-      setSettings((prev: any) => ({ ...prev, [fieldKey]: data.data?.[fieldKey] || prev[fieldKey] }));
+      setSettings(prev => ({ ...prev, [fieldKey]: data?.[fieldKey] || prev[fieldKey] }));
       setFiles(prev => ({ ...prev, [fieldKey]: null }));
-    } catch (err: any) {
-      setError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao enviar imagem');
+      setError(message);
+      toast.error(message);
     } finally {
       setSaving(false);
     }
@@ -53,7 +53,10 @@ import {
 import { Poppins } from 'next/font/google'
 import { useAuth } from '@/contexts/AuthContext'
 import { toast } from 'sonner';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { isValidReason, REASON_MIN_LENGTH } from '@/lib/audit';
+import { ReasonField } from '@/components/reason-dialog';
+import type { AdminUserDetails } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -61,54 +64,16 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 })
 
-interface UserDetails {
-  id: string;
-  email: string;
-  phone: string;
-  cpf: string;
-  username: string;
-  full_name: string;
-  is_admin: boolean;
-  total_scratchs: number;
-  total_wins: number;
-  total_losses: number;
-  total_deposit: string;
-  total_withdraw: string;
-  inviteCode: {
-    code: string;
-    commission_rate: string;
-    total_invites: number;
-    total_commission: string;
-  } | null;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  invitedBy: string | null;
-  wallet: Array<{
-    balance: string;
-    bonus: string;
-    commission: string;
-    rollover: string;
-  }>;
-  deposits: any[];
-  withdraws: any[];
-  games: any[];
-  invitedUsers: any[];
-  inviter: {
-    id: string;
-    username: string;
-  } | null;
-}
-
 export default function UserDetailsPage() {
   const router = useRouter();
   const { id } = router.query;
   const { token } = useAuth();
-  const [userDetails, setUserDetails] = useState<UserDetails | null>(null);
+  const [userDetails, setUserDetails] = useState<AdminUserDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [isCommissionModalOpen, setIsCommissionModalOpen] = useState(false);
   const [commissionRate, setCommissionRate] = useState('');
+  const [commissionReason, setCommissionReason] = useState('');
   const [commissionLoading, setCommissionLoading] = useState(false);
   const [commissionError, setCommissionError] = useState('');
 
@@ -118,26 +83,12 @@ export default function UserDetailsPage() {
     setLoading(true);
     setError('');
     try {
-      const response = await fetch(
-        apiUrl(`/v1/api/admin/users/${id}`),
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar detalhes do usuário');
-      }
-
-      setUserDetails(data.data);
-    } catch (err: any) {
-      setError(err.message);
-      toast.error(err.message);
+      const data = await api.admin.users.get(token, id as string);
+      setUserDetails(data);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar detalhes do usuário');
+      setError(message);
+      toast.error(message);
     } finally {
       setLoading(false);
     }
@@ -200,6 +151,7 @@ export default function UserDetailsPage() {
 
   const handleOpenCommissionModal = () => {
     setCommissionRate(userDetails?.inviteCode?.commission_rate || '');
+    setCommissionReason('');
     setCommissionError('');
     setIsCommissionModalOpen(true);
   };
@@ -207,6 +159,7 @@ export default function UserDetailsPage() {
   const handleCloseCommissionModal = () => {
     setIsCommissionModalOpen(false);
     setCommissionRate('');
+    setCommissionReason('');
     setCommissionError('');
   };
 
@@ -217,31 +170,22 @@ export default function UserDetailsPage() {
       setCommissionError('Informe uma comissão válida.');
       return;
     }
+    if (!isValidReason(commissionReason)) {
+      setCommissionError(`Informe o motivo da alteração (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
     setCommissionLoading(true);
     setCommissionError('');
     try {
-        const response = await fetch(apiUrl('/v1/api/admin/affiliates/edit-commission'), {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: userDetails.id,
-          commission_rate: rate
-        })
-      });
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao salvar comissão');
-      }
+      await api.admin.affiliates.editCommission(token, userDetails.id, rate, commissionReason.trim());
       toast.success('Comissão atualizada com sucesso!');
       handleCloseCommissionModal();
       // Recarregar dados do usuário
       await fetchUserDetails();
-    } catch (err: any) {
-      setCommissionError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao salvar comissão');
+      setCommissionError(message);
+      toast.error(message);
     } finally {
       setCommissionLoading(false);
     }
@@ -757,6 +701,7 @@ export default function UserDetailsPage() {
                 disabled={commissionLoading}
               />
             </div>
+            <ReasonField id="commissionReason" value={commissionReason} onChange={setCommissionReason} disabled={commissionLoading} />
           </div>
           
           <div className="flex gap-3 pt-4">
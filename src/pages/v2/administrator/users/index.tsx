@@ -38,7 +38,15 @@ import {
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
 import { toast } from 'sonner';
-import { apiUrl } from '@/lib/api';
+import { api, getErrorMessage } from '@/lib/api';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { useReasonPrompt } from '@/hooks/use-reason-prompt';
+import { ReasonDialog, ReasonField } from '@/components/reason-dialog';
+import ExportMenu from '@/components/export-menu';
+import { useTableExport } from '@/hooks/use-table-export';
+import type { ExportColumn } from '@/lib/export';
+import { isValidReason, REASON_MIN_LENGTH } from '@/lib/audit';
+import type { AdminUser as User, AdminUserDetails } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -46,43 +54,27 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 })
 
-interface User {
-  id: string;
-  username: string;
-  email: string;
-  cpf: string;
-  full_name: string;
-  is_admin: boolean;
-  is_active: boolean;
-  is_influencer: boolean;
-  created_at: string;
-  updated_at: string;
-  wallet: Array<{
-    balance: string;
-  }>;
-  _count: {
-    deposits: number;
-    withdraws: number;
-    games: number;
-    invitedUsers: number;
-  };
-  commission_rate?: number; 
-}
-
-interface UsersResponse {
-  users: User[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    pages: number;
-  };
-}
-
-
+const EXPORT_COLUMNS: ExportColumn<User>[] = [
+  { header: 'ID', value: (user) => user.id },
+  { header: 'Nome', value: (user) => user.full_name },
+  { header: 'Username', value: (user) => user.username },
+  { header: 'Email', value: (user) => user.email },
+  { header: 'CPF', value: (user) => user.cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4') },
+  { header: 'Saldo', value: (user) => user.wallet[0]?.balance || '0', type: 'currency' },
+  { header: 'Depósitos', value: (user) => user._count.deposits, type: 'integer' },
+  { header: 'Saques', value: (user) => user._count.withdraws, type: 'integer' },
+  { header: 'Jogos', value: (user) => user._count.games, type: 'integer' },
+  { header: 'Convidados', value: (user) => user._count.invitedUsers, type: 'integer' },
+  { header: 'Tipo', value: (user) => (user.is_admin ? 'Admin' : 'Usuário') },
+  { header: 'Ativo', value: (user) => user.is_active },
+  { header: 'Influencer', value: (user) => user.is_influencer },
+  { header: 'Cadastro', value: (user) => user.created_at, type: 'date' },
+];
 
 export default function UsersPage() {
   const { token } = useAuth();
+  const { can } = useAdminPermissions();
+  const { promptReason, dialogProps } = useReasonPrompt();
   const [searchTerm, setSearchTerm] = useState('');
   const [users, setUsers] = useState<User[]>([]);
   const [pagination, setPagination] = useState({
@@ -101,17 +93,19 @@ export default function UsersPage() {
   const [editForm, setEditForm] = useState({
     username: '',
     email: '',
-    balance: '',
     is_active: true
   });
+  const [editReason, setEditReason] = useState('');
   const [isAdjustModalOpen, setIsAdjustModalOpen] = useState(false);
   const [adjustUser, setAdjustUser] = useState<User | null>(null);
   const [adjustAmount, setAdjustAmount] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
   const [adjustLoading, setAdjustLoading] = useState(false);
   const [adjustError, setAdjustError] = useState('');
   const [isAffiliateModalOpen, setIsAffiliateModalOpen] = useState(false);
   const [affiliateUser, setAffiliateUser] = useState<User | null>(null);
   const [commissionRate, setCommissionRate] = useState('');
+  const [commissionReason, setCommissionReason] = useState('');
   const [commissionLoading, setCommissionLoading] = useState(false);
   const [commissionError, setCommissionError] = useState('');
   const [invitedUsers, setInvitedUsers] = useState<any[]>([]);
@@ -121,7 +115,7 @@ export default function UsersPage() {
   // Estados para modal de detalhes do usuário
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
-  const [userDetails, setUserDetails] = useState<any>(null);
+  const [userDetails, setUserDetails] = useState<AdminUserDetails | null>(null);
   const [detailsLoading, setDetailsLoading] = useState(false);
   const [detailsError, setDetailsError] = useState('');
   
@@ -133,28 +127,14 @@ export default function UsersPage() {
     
     setLoading(true);
     try {
-      const response = await fetch(
-        apiUrl(`/v1/api/admin/users?page=${page}&limit=20&search=${encodeURIComponent(search)}`),
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar usuários');
-      }
+      const data = await api.admin.users.list(token, { page, limit: 20, search });
 
-      console.log('Dados dos usuários:', data.data.users);
-      setUsers(data.data.users);
-      setPagination(data.data.pagination);
+      console.log('Dados dos usuários:', data.users);
+      setUsers(data.users);
+      setPagination(data.pagination);
       setError('');
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Erro ao carregar usuários'));
     } finally {
       setLoading(false);
     }
@@ -172,6 +152,18 @@ export default function UsersPage() {
     return () => clearTimeout(timeoutId);
   }, [searchTerm]);
 
+  const tableExport = useTableExport({
+    filename: 'usuarios',
+    sheetName: 'Usuários',
+    columns: EXPORT_COLUMNS,
+    rows: users,
+    fetchPage: async (page, limit) => {
+      if (!token) throw new Error('Token de autenticação não encontrado');
+      const data = await api.admin.users.list(token, { page, limit, search: searchTerm });
+      return { rows: data.users, pagination: data.pagination };
+    },
+  });
+
   // Debug: Log dos dados dos usuários quando mudarem
   useEffect(() => {
     if (users.length > 0) {
@@ -189,9 +181,9 @@ export default function UsersPage() {
       setEditForm({
         username: user.username,
         email: user.email,
-        balance: user.wallet[0]?.balance || '0',
         is_active: user.is_active
       });
+      setEditReason('');
       setIsEditModalOpen(true);
       setEditError('');
     }
@@ -199,30 +191,22 @@ export default function UsersPage() {
 
   const handleToggleStatus = async (userId: string, currentStatus: boolean) => {
     if (!token) return;
+
+    const reason = await promptReason({
+      title: currentStatus ? 'Suspender usuário' : 'Reativar usuário',
+      description: 'Informe o motivo da alteração.',
+      destructive: currentStatus,
+    });
+    if (!reason) return;
     
     try {
-      const response = await fetch(
-        apiUrl(`/v1/api/admin/users/${userId}/toggle-status`),
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': '/',
-          },
-        }
-      );
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao alterar status do usuário');
-      }
+      await api.admin.users.toggleStatus(token, userId, reason);
 
       // Atualizar a lista de usuários
       await fetchUsers(pagination.page, searchTerm);
       
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Erro ao alterar status do usuário'));
     }
   };
 
@@ -236,25 +220,10 @@ export default function UsersPage() {
     setDetailsLoading(true);
     setDetailsError('');
     try {
-      const response = await fetch(
-        apiUrl(`/v1/api/admin/users/${userId}`),
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao carregar detalhes do usuário');
-      }
-
-      setUserDetails(data.data);
-    } catch (err: any) {
-      setDetailsError(err.message);
+      const data = await api.admin.users.get(token, userId);
+      setUserDetails(data);
+    } catch (err) {
+      setDetailsError(getErrorMessage(err, 'Erro ao carregar detalhes do usuário'));
     } finally {
       setDetailsLoading(false);
     }
@@ -279,9 +248,9 @@ export default function UsersPage() {
     setEditForm({
       username: '',
       email: '',
-      balance: '',
       is_active: true
     });
+    setEditReason('');
     setEditError('');
   };
 
@@ -294,33 +263,20 @@ export default function UsersPage() {
 
   const handleUpdateUser = async () => {
     if (!token || !editingUser) return;
+    if (!isValidReason(editReason)) {
+      setEditError(`Informe o motivo da alteração (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
     
     setEditLoading(true);
     setEditError('');
     
     try {
-      const response = await fetch(
-        apiUrl(`/v1/api/admin/users/${editingUser.id}`),
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            username: editForm.username,
-            email: editForm.email,
-            balance: parseFloat(editForm.balance),
-            is_active: editForm.is_active
-          })
-        }
-      );
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao atualizar usuário');
-      }
+      await api.admin.users.update(token, editingUser.id, {
+        username: editForm.username,
+        email: editForm.email,
+        is_active: editForm.is_active
+      }, editReason.trim());
 
       // Atualizar a lista de usuários
       await fetchUsers(pagination.page, searchTerm);
@@ -328,8 +284,8 @@ export default function UsersPage() {
       // Fechar modal
       handleCloseEditModal();
       
-    } catch (err: any) {
-      setEditError(err.message);
+    } catch (err) {
+      setEditError(getErrorMessage(err, 'Erro ao atualizar usuário'));
     } finally {
       setEditLoading(false);
     }
@@ -338,6 +294,7 @@ export default function UsersPage() {
   const handleOpenAdjustModal = (user: User) => {
     setAdjustUser(user);
     setAdjustAmount('');
+    setAdjustReason('');
     setAdjustError('');
     setIsAdjustModalOpen(true);
   };
@@ -346,6 +303,7 @@ export default function UsersPage() {
     setIsAdjustModalOpen(false);
     setAdjustUser(null);
     setAdjustAmount('');
+    setAdjustReason('');
     setAdjustError('');
   };
 
@@ -356,56 +314,40 @@ export default function UsersPage() {
       setAdjustError('Informe um valor válido.');
       return;
     }
+    if (!isValidReason(adjustReason)) {
+      setAdjustError(`Informe o motivo do ajuste (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
     setAdjustLoading(true);
     setAdjustError('');
     try {
-      const response = await fetch(apiUrl('/v1/api/admin/users/adjust-balance'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: adjustUser.id,
-          amount: amount
-        })
-      });
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao ajustar saldo');
-      }
+      await api.admin.users.adjustBalance(token, adjustUser.id, amount, adjustReason.trim());
       toast.success('Saldo ajustado com sucesso!');
       handleCloseAdjustModal();
       fetchUsers(pagination.page, searchTerm);
-    } catch (err: any) {
-      setAdjustError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao ajustar saldo');
+      setAdjustError(message);
+      toast.error(message);
     } finally {
       setAdjustLoading(false);
     }
   };
 
   const handleOpenAffiliateModal = async (user: User) => {
+    if (!token) return;
     setAffiliateUser(user);
     setCommissionRate(user.commission_rate ? String(user.commission_rate) : '');
+    setCommissionReason('');
     setCommissionError('');
     setIsAffiliateModalOpen(true);
     setInvitedLoading(true);
     setInvitedError('');
     try {
-      const response = await fetch(apiUrl(`/v1/api/admin/affiliates/${user.id}/invited-users`), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao buscar convidados');
-      }
-      setInvitedUsers(data.data);
-    } catch (err: any) {
-      setInvitedError(err.message);
+      const data = await api.admin.affiliates.getInvitedUsers(token, user.id);
+      setInvitedUsers(data);
+    } catch (err) {
+      setInvitedError(getErrorMessage(err, 'Erro ao buscar convidados'));
       setInvitedUsers([]);
     } finally {
       setInvitedLoading(false);
@@ -416,6 +358,7 @@ export default function UsersPage() {
     setIsAffiliateModalOpen(false);
     setAffiliateUser(null);
     setCommissionRate('');
+    setCommissionReason('');
     setCommissionError('');
     setInvitedUsers([]);
     setInvitedError('');
@@ -428,30 +371,21 @@ export default function UsersPage() {
       setCommissionError('Informe uma comissão válida.');
       return;
     }
+    if (!isValidReason(commissionReason)) {
+      setCommissionError(`Informe o motivo da alteração (mínimo de ${REASON_MIN_LENGTH} caracteres).`);
+      return;
+    }
     setCommissionLoading(true);
     setCommissionError('');
     try {
-      const response = await fetch(apiUrl('/v1/api/admin/affiliates/edit-commission'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: affiliateUser.id,
-          commission_rate: rate
-        })
-      });
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao salvar comissão');
-      }
+      await api.admin.affiliates.editCommission(token, affiliateUser.id, rate, commissionReason.trim());
       toast.success('Comissão atualizada com sucesso!');
       // Reabrir o modal (refetch convidados)
       await handleOpenAffiliateModal(affiliateUser);
-    } catch (err: any) {
-      setCommissionError(err.message);
-      toast.error(err.message);
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao salvar comissão');
+      setCommissionError(message);
+      toast.error(message);
     } finally {
       setCommissionLoading(false);
     }
@@ -459,34 +393,24 @@ export default function UsersPage() {
 
   const handleToggleInfluencer = async (userId: string, currentIsInfluencer: boolean) => {
     if (!token) return;
+
+    const reason = await promptReason({
+      title: currentIsInfluencer ? 'Remover modo influencer' : 'Adicionar modo influencer',
+      description: 'Informe o motivo da alteração.',
+    });
+    if (!reason) return;
     
     setInfluencerLoading(userId);
     try {
-      const response = await fetch(apiUrl('/v1/api/admin/affiliates/toggle-influencer'), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: userId,
-          isInfluencer: !currentIsInfluencer
-        })
-      });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Erro ao alterar status de influencer');
-      }
+      await api.admin.affiliates.toggleInfluencer(token, userId, !currentIsInfluencer, reason);
 
       toast.success(currentIsInfluencer ? 'Modo influencer removido com sucesso!' : 'Modo influencer adicionado com sucesso!');
       
       // Atualizar a lista de usuários
       await fetchUsers(pagination.page, searchTerm);
       
-    } catch (err: any) {
-      toast.error(err.message);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao alterar status de influencer'));
     } finally {
       setInfluencerLoading(null);
     }
@@ -556,10 +480,21 @@ export default function UsersPage() {
                   <p className="text-neutral-400 text-sm">Total de {pagination.total} usuários cadastrados</p>
                 </div>
               </div>
-              <Button className="bg-yellow-600 hover:bg-yellow-700 text-white">
-                <UserPlus className="w-4 h-4 mr-2" />
-                Novo Usuário
-              </Button>
+              <div className="flex items-center gap-2">
+                <ExportMenu
+                  exporting={tableExport.exporting}
+                  progress={tableExport.progress}
+                  disabled={loading || !!error}
+                  onExport={tableExport.exportTable}
+                  onCancel={tableExport.cancel}
+                />
+                {can('users:edit') && (
+                  <Button className="bg-yellow-600 hover:bg-yellow-700 text-white">
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Novo Usuário
+                  </Button>
+                )}
+              </div>
             </div>
 
             {/* Search Section */}
@@ -681,32 +616,36 @@ export default function UsersPage() {
                             >
                               <UserCheck className="w-4 h-4" />
                             </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleToggleInfluencer(user.id, user.is_influencer || false)}
-                              className={user.is_influencer 
-                                ? "text-orange-400 hover:text-orange-300 hover:bg-orange-500/10" 
-                                : "text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
-                              }
-                              title={user.is_influencer ? 'Remover modo influencer' : 'Adicionar modo influencer'}
-                              disabled={influencerLoading === user.id}
-                            >
-                              {influencerLoading === user.id ? (
-                                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                              ) : (
-                                <Star className={`w-4 h-4 ${user.is_influencer ? 'fill-current' : ''}`} />
-                              )}
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleOpenAdjustModal(user)}
-                              className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10"
-                              title="Ajustar saldo"
-                            >
-                              <DollarSign className="w-4 h-4" />
-                            </Button>
+                            {can('affiliates:edit') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleToggleInfluencer(user.id, user.is_influencer || false)}
+                                className={user.is_influencer 
+                                  ? "text-orange-400 hover:text-orange-300 hover:bg-orange-500/10" 
+                                  : "text-purple-400 hover:text-purple-300 hover:bg-purple-500/10"
+                                }
+                                title={user.is_influencer ? 'Remover modo influencer' : 'Adicionar modo influencer'}
+                                disabled={influencerLoading === user.id}
+                              >
+                                {influencerLoading === user.id ? (
+                                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                ) : (
+                                  <Star className={`w-4 h-4 ${user.is_influencer ? 'fill-current' : ''}`} />
+                                )}
+                              </Button>
+                            )}
+                            {can('users:balance') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOpenAdjustModal(user)}
+                                className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10"
+                                title="Ajustar saldo"
+                              >
+                                <DollarSign className="w-4 h-4" />
+                              </Button>
+                            )}
                             {/* <Button
                               variant="ghost"
                               size="sm"
@@ -715,18 +654,20 @@ export default function UsersPage() {
                             >
                               <Edit className="w-4 h-4" />
                             </Button> */}
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleToggleStatus(user.id, user.is_active)}
-                              className={user.is_active 
-                                ? "text-red-400 hover:text-red-300 hover:bg-red-500/10" 
-                                : "text-green-400 hover:text-green-300 hover:bg-green-500/10"
-                              }
-                              title={user.is_active ? 'Desativar usuário' : 'Ativar usuário'}
-                            >
-                              {user.is_active ? <UserX className="w-4 h-4" /> : <UserCheck2 className="w-4 h-4" />}
-                            </Button>
+                            {can('users:edit') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleToggleStatus(user.id, user.is_active)}
+                                className={user.is_active 
+                                  ? "text-red-400 hover:text-red-300 hover:bg-red-500/10" 
+                                  : "text-green-400 hover:text-green-300 hover:bg-green-500/10"
+                                }
+                                title={user.is_active ? 'Desativar usuário' : 'Ativar usuário'}
+                              >
+                                {user.is_active ? <UserX className="w-4 h-4" /> : <UserCheck2 className="w-4 h-4" />}
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -821,19 +762,6 @@ export default function UsersPage() {
               />
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="balance" className="text-neutral-300">Saldo</Label>
-              <Input
-                id="balance"
-                type="number"
-                step="0.01"
-                value={editForm.balance}
-                onChange={(e) => handleEditFormChange('balance', e.target.value)}
-                className="bg-neutral-700 border-neutral-600 text-white"
-                placeholder="Digite o saldo"
-              />
-            </div>
-            
             <div className="flex items-center space-x-2">
               <Switch
                 id="is_active"
@@ -842,6 +770,10 @@ export default function UsersPage() {
               />
               <Label htmlFor="is_active" className="text-neutral-300">Usuário Ativo</Label>
             </div>
+
+            <p className="text-neutral-500 text-xs">O saldo é alterado pela ação "Ajustar saldo", que registra o ajuste na auditoria.</p>
+
+            <ReasonField id="editReason" value={editReason} onChange={setEditReason} disabled={editLoading} />
           </div>
           
           <div className="flex gap-3 pt-4">
@@ -895,6 +827,7 @@ export default function UsersPage() {
                   disabled={adjustLoading}
                 />
               </div>
+              <ReasonField id="adjustReason" value={adjustReason} onChange={setAdjustReason} disabled={adjustLoading} />
               {adjustError && <div className="text-red-400 text-sm">{adjustError}</div>}
               <div className="flex gap-3 pt-2">
                 <Button
@@ -934,6 +867,7 @@ export default function UsersPage() {
           {affiliateUser && (
             <div className="space-y-6">
               {/* Editar Comissão */}
+              {can('affiliates:edit') && (
               <div className="bg-neutral-700 border border-neutral-600 rounded-lg p-4 mb-2">
                 <div className="flex flex-col sm:flex-row sm:items-end gap-3">
                   <div className="flex-1">
@@ -960,8 +894,12 @@ export default function UsersPage() {
                     )}
                   </Button>
                 </div>
+                <div className="mt-3">
+                  <ReasonField id="commissionReason" value={commissionReason} onChange={setCommissionReason} disabled={commissionLoading} />
+                </div>
                 {commissionError && <div className="text-red-400 text-sm mt-2">{commissionError}</div>}
               </div>
+              )}
               {/* Listagem de convidados */}
               <div className="bg-neutral-700 border border-neutral-600 rounded-lg p-4">
                 <h3 className="text-white font-semibold text-base mb-3">Usuários Convidados</h3>
@@ -1142,6 +1080,8 @@ export default function UsersPage() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <ReasonDialog {...dialogProps} />
     </div>
   );
-}
\ No newline at end of file
+}
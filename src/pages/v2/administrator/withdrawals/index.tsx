@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { AppSidebar } from "@/components/app-sidebar"
 import {
@@ -27,10 +27,21 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import { Search, ArrowDownLeft, Clock, CreditCard, DollarSign, Loader2, Check, X, Eye } from "lucide-react"
+import { Search, ArrowDownLeft, Clock, CreditCard, DollarSign, Loader2, Check, X, Eye, Zap } from "lucide-react"
+import Link from 'next/link'
 import { Poppins } from 'next/font/google'
 import { toast } from 'sonner';
-import { apiUrl } from '@/lib/api';
+import { api } from '@/lib/api';
+import { useAdminPermissions } from '@/hooks/use-admin-permissions';
+import { useReasonPrompt } from '@/hooks/use-reason-prompt';
+import { useWithdrawalRisk } from '@/hooks/use-withdrawal-risk';
+import { ReasonDialog } from '@/components/reason-dialog';
+import WithdrawalReviewQueue from '@/components/withdrawal-review-queue';
+import ExportMenu from '@/components/export-menu';
+import { useTableExport } from '@/hooks/use-table-export';
+import type { ExportColumn } from '@/lib/export';
+import { WITHDRAWAL_STATUS_LABELS, getWithdrawalStatus, isWithdrawalPending } from '@/lib/withdrawal';
+import type { UserSummary, Withdrawal, WithdrawalStatus } from '@/lib/types';
 
 
 const poppins = Poppins({ 
@@ -38,44 +49,7 @@ const poppins = Poppins({
   weight: ["100", "200", "300","400","500", "600", "700"],
 })
 
-// Interfaces para os dados da API
-interface User {
-  id: string;
-  username: string;
-  email: string;
-}
-
-interface Withdrawal {
-  id: string;
-  userId: string;
-  walletId: string;
-  amount: string;
-  document: string;
-  pix_key: string;
-  pix_type: string;
-  currency: string;
-  symbol: string;
-  status: boolean;
-  payment_method: string;
-  metadata: any;
-  processed_at: string | null;
-  created_at: string;
-  updated_at: string;
-  user: User;
-}
-
-interface WithdrawalsResponse {
-  success: boolean;
-  data: {
-    withdrawals: Withdrawal[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      pages: number;
-    };
-  };
-}
+type AdminWithdrawal = Withdrawal & { user: UserSummary };
 
 // Função para formatar valores monetários
 const formatCurrency = (amount: string, symbol: string = 'R$') => {
@@ -99,12 +73,41 @@ const formatDate = (dateString: string) => {
   });
 };
 
+const matchesSearch = (withdrawal: AdminWithdrawal, searchTerm: string) =>
+  withdrawal.user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  withdrawal.user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  withdrawal.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  withdrawal.amount.includes(searchTerm) ||
+  withdrawal.pix_key.toLowerCase().includes(searchTerm.toLowerCase()) ||
+  withdrawal.document.includes(searchTerm);
+
+const EXPORT_COLUMNS: ExportColumn<AdminWithdrawal>[] = [
+  { header: 'ID do saque', value: (withdrawal) => withdrawal.id },
+  { header: 'Status', value: (withdrawal) => WITHDRAWAL_STATUS_LABELS[getWithdrawalStatus(withdrawal)] },
+  { header: 'Regra automática', value: (withdrawal) => withdrawal.auto_approval_rule?.name },
+  { header: 'Motivo da rejeição', value: (withdrawal) => withdrawal.rejection_reason },
+  { header: 'Usuário', value: (withdrawal) => withdrawal.user.username },
+  { header: 'Email', value: (withdrawal) => withdrawal.user.email },
+  { header: 'Valor', value: (withdrawal) => withdrawal.amount, type: 'currency' },
+  { header: 'Moeda', value: (withdrawal) => withdrawal.currency },
+  { header: 'Chave PIX', value: (withdrawal) => withdrawal.pix_key },
+  { header: 'Tipo PIX', value: (withdrawal) => withdrawal.pix_type },
+  { header: 'Documento', value: (withdrawal) => withdrawal.document },
+  { header: 'Data de criação', value: (withdrawal) => withdrawal.created_at, type: 'date' },
+  { header: 'Data de revisão', value: (withdrawal) => withdrawal.reviewed_at, type: 'date' },
+  { header: 'Data de processamento', value: (withdrawal) => withdrawal.processed_at, type: 'date' },
+];
+
 export default function WithdrawalsPage() {
   const { token, isLoading: authLoading } = useAuth();
+  const { can } = useAdminPermissions();
+  const { promptReason, dialogProps } = useReasonPrompt();
   const [searchTerm, setSearchTerm] = useState('');
-  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [withdrawals, setWithdrawals] = useState<AdminWithdrawal[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Aprovação/rejeição em andamento (individual ou em lote)
+  const [processing, setProcessing] = useState(false);
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 20,
@@ -122,28 +125,9 @@ export default function WithdrawalsPage() {
         throw new Error('Token de autenticação não encontrado');
       }
       
-      const response = await fetch(apiUrl(`/v1/api/admin/withdrawals?page=${page}&limit=20`), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Token inválido ou expirado');
-        }
-        throw new Error('Erro ao carregar saques');
-      }
-      
-      const data: WithdrawalsResponse = await response.json();
-      
-      if (data.success) {
-        setWithdrawals(data.data.withdrawals);
-        setPagination(data.data.pagination);
-      } else {
-        throw new Error('Erro na resposta da API');
-      }
+      const data = await api.admin.withdrawals.list(token, { page, limit: 20 });
+      setWithdrawals(data.withdrawals);
+      setPagination(data.pagination);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Erro desconhecido');
       console.error('Erro ao buscar saques:', err);
@@ -161,14 +145,22 @@ export default function WithdrawalsPage() {
     }
   }, [token, authLoading]);
 
-  const filteredWithdrawals = withdrawals.filter(withdrawal => 
-    withdrawal.user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    withdrawal.user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    withdrawal.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    withdrawal.amount.includes(searchTerm) ||
-    withdrawal.pix_key.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    withdrawal.document.includes(searchTerm)
-  );
+  const pendingWithdrawals = useMemo(() => withdrawals.filter(isWithdrawalPending), [withdrawals]);
+  const { risks, loading: riskLoading } = useWithdrawalRisk(token, pendingWithdrawals);
+
+  const filteredWithdrawals = withdrawals.filter(withdrawal => matchesSearch(withdrawal, searchTerm));
+
+  const tableExport = useTableExport({
+    filename: 'saques',
+    sheetName: 'Saques',
+    columns: EXPORT_COLUMNS,
+    rows: filteredWithdrawals,
+    fetchPage: async (page, limit) => {
+      if (!token) throw new Error('Token de autenticação não encontrado');
+      const data = await api.admin.withdrawals.list(token, { page, limit });
+      return { rows: data.withdrawals.filter(withdrawal => matchesSearch(withdrawal, searchTerm)), pagination: data.pagination };
+    },
+  });
 
   // Calcular estatísticas
   const stats = {
@@ -176,7 +168,7 @@ export default function WithdrawalsPage() {
       .filter(w => w.status === true)
       .reduce((sum, w) => sum + parseFloat(w.amount), 0),
     totalPending: withdrawals
-      .filter(w => w.status === false)
+      .filter(isWithdrawalPending)
       .reduce((sum, w) => sum + parseFloat(w.amount), 0),
     totalRequests: withdrawals.length
   };
@@ -205,14 +197,24 @@ export default function WithdrawalsPage() {
     }
   ];
 
-  const getStatusColor = (status: boolean) => {
-    return status
-      ? 'bg-green-500/10 text-green-400 border-green-500/20'
-      : 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+  const getStatusColor = (withdrawal: Withdrawal) => {
+    const colors: Record<WithdrawalStatus, string> = {
+      PENDING: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+      UNDER_REVIEW: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+      PAID: 'bg-green-500/10 text-green-400 border-green-500/20',
+      REJECTED: 'bg-red-500/10 text-red-400 border-red-500/20',
+    };
+    return colors[getWithdrawalStatus(withdrawal)];
   };
 
-  const getStatusText = (status: boolean) => {
-    return status ? 'Processado' : 'Pendente';
+  const getStatusText = (withdrawal: Withdrawal) => {
+    const labels: Record<WithdrawalStatus, string> = {
+      PENDING: 'Pendente',
+      UNDER_REVIEW: 'Em análise',
+      PAID: 'Processado',
+      REJECTED: 'Rejeitado',
+    };
+    return labels[getWithdrawalStatus(withdrawal)];
   };
 
   const getPixTypeColor = (pixType: string) => {
@@ -226,62 +228,68 @@ export default function WithdrawalsPage() {
     return colors[pixType as keyof typeof colors] || 'bg-gray-500/10 text-gray-400 border-gray-500/20';
   };
 
-  // Função para aprovar saque
-  const handleApprove = async (withdrawalId: string) => {
-    try {
-      if (!token) {
-        throw new Error('Token de autenticação não encontrado');
-      }
-
-      const response = await fetch(apiUrl(`/v1/api/admin/withdrawals/${withdrawalId}/approve`), {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({})
-      });
+  /**
+   * Aprova ou rejeita um ou mais saques com o mesmo motivo. Os pedidos são enviados
+   * um por vez para que uma falha não interrompa os demais nem duplique pagamentos.
+   */
+  const handleReview = async (withdrawalIds: string[], action: 'approve' | 'reject') => {
+    if (withdrawalIds.length === 0 || processing) return;
 
-      if (!response.ok) {
-        throw new Error('Erro ao aprovar saque');
-      }
+    const count = withdrawalIds.length;
+    const isApprove = action === 'approve';
+    const reason = await promptReason(count === 1
+      ? {
+          title: isApprove ? 'Aprovar saque' : 'Negar saque',
+          description: isApprove
+            ? 'O valor será enviado ao jogador. Informe o motivo da aprovação.'
+            : 'Informe o motivo da rejeição.',
+          confirmLabel: isApprove ? 'Aprovar saque' : 'Negar saque',
+          destructive: !isApprove,
+        }
+      : {
+          title: isApprove ? `Aprovar ${count} saques` : `Negar ${count} saques`,
+          description: isApprove
+            ? 'Os valores serão enviados aos jogadores. O motivo fica registrado em cada saque.'
+            : 'O motivo da rejeição fica registrado em cada saque.',
+          confirmLabel: isApprove ? `Aprovar ${count} saques` : `Negar ${count} saques`,
+          destructive: !isApprove,
+        });
+    if (!reason) return;
 
-      // Recarregar a lista após aprovação
-      await fetchWithdrawals(pagination.page);
-      toast.success('Saque aprovado com sucesso!');
-    } catch (err) {
-      console.error('Erro ao aprovar saque:', err);
-      toast.error('Erro ao aprovar saque. Tente novamente.');
+    if (!token) {
+      toast.error('Token de autenticação não encontrado');
+      return;
     }
-  };
-
-  // Função para negar saque
-  const handleReject = async (withdrawalId: string) => {
-    try {
-      if (!token) {
-        throw new Error('Token de autenticação não encontrado');
-      }
 
-      const response = await fetch(apiUrl(`/v1/api/admin/withdrawals/${withdrawalId}/reject`), {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({})
-      });
-
-      if (!response.ok) {
-        throw new Error('Erro ao negar saque');
+    setProcessing(true);
+    let failed = 0;
+    for (const withdrawalId of withdrawalIds) {
+      try {
+        if (isApprove) {
+          await api.admin.withdrawals.approve(token, withdrawalId, reason);
+        } else {
+          await api.admin.withdrawals.reject(token, withdrawalId, reason);
+        }
+      } catch (err) {
+        failed += 1;
+        console.error(isApprove ? 'Erro ao aprovar saque:' : 'Erro ao negar saque:', err);
       }
+    }
+    setProcessing(false);
 
-      // Recarregar a lista após rejeição
-      await fetchWithdrawals(pagination.page);
-      toast.success('Saque rejeitado com sucesso!');
-    } catch (err) {
-      console.error('Erro ao negar saque:', err);
-      toast.error('Erro ao negar saque. Tente novamente.');
+    const done = count - failed;
+    if (failed === 0) {
+      toast.success(count === 1
+        ? (isApprove ? 'Saque aprovado com sucesso!' : 'Saque rejeitado com sucesso!')
+        : `${done} saques ${isApprove ? 'aprovados' : 'rejeitados'} com sucesso!`);
+    } else if (done === 0) {
+      toast.error(isApprove ? 'Erro ao aprovar saque. Tente novamente.' : 'Erro ao negar saque. Tente novamente.');
+    } else {
+      toast.warning(`${done} de ${count} saques ${isApprove ? 'aprovados' : 'rejeitados'}; ${failed} falharam.`);
     }
+
+    // Recarregar a lista após a revisão
+    await fetchWithdrawals(pagination.page);
   };
 
   // Função para visualizar detalhes
@@ -330,6 +338,23 @@ export default function WithdrawalsPage() {
                   </p>
                 </div>
               </div>
+              <div className="flex items-center gap-2">
+                <ExportMenu
+                  exporting={tableExport.exporting}
+                  progress={tableExport.progress}
+                  disabled={loading || !!error}
+                  onExport={tableExport.exportTable}
+                  onCancel={tableExport.cancel}
+                />
+                {can('withdrawals:review') && (
+                  <Button asChild variant="outline" className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600">
+                    <Link href="/v2/administrator/withdrawals/rules">
+                      <Zap className="w-4 h-4 mr-2" />
+                      Regras de aprovação
+                    </Link>
+                  </Button>
+                )}
+              </div>
             </div>
 
             {/* Stats Cards */}
@@ -352,6 +377,19 @@ export default function WithdrawalsPage() {
               </div>
             )}
 
+            {/* Review Queue */}
+            {!loading && !error && (
+              <WithdrawalReviewQueue
+                withdrawals={pendingWithdrawals}
+                risks={risks}
+                riskLoading={riskLoading}
+                canReview={can('withdrawals:review')}
+                processing={processing}
+                onApprove={(ids) => handleReview(ids, 'approve')}
+                onReject={(ids) => handleReview(ids, 'reject')}
+              />
+            )}
+
             {/* Search Section */}
             <Card className="bg-neutral-800 border-neutral-700 p-6">
               <div className="flex items-center gap-4">
@@ -422,9 +460,14 @@ export default function WithdrawalsPage() {
                                 {withdrawal.id.substring(0, 8)}...{withdrawal.id.substring(withdrawal.id.length - 8)}
                               </TableCell>
                               <TableCell>
-                                <Badge className={getStatusColor(withdrawal.status)}>
-                                  {getStatusText(withdrawal.status)}
+                                <Badge className={getStatusColor(withdrawal)}>
+                                  {getStatusText(withdrawal)}
                                 </Badge>
+                                {withdrawal.auto_approval_rule && (
+                                  <p className="text-neutral-500 text-xs mt-1" title="Aprovado automaticamente">
+                                    Automático: {withdrawal.auto_approval_rule.name}
+                                  </p>
+                                )}
                               </TableCell>
                               <TableCell className="text-white font-medium">{withdrawal.user.username}</TableCell>
                               <TableCell className="text-neutral-300">{withdrawal.user.email}</TableCell>
@@ -457,12 +500,13 @@ export default function WithdrawalsPage() {
                                   >
                                     <Eye className="w-4 h-4" />
                                   </Button>
-                                  {!withdrawal.status && (
+                                  {isWithdrawalPending(withdrawal) && can('withdrawals:review') && (
                                     <>
                                       <Button
                                         variant="ghost"
                                         size="sm"
-                                        onClick={() => handleApprove(withdrawal.id)}
+                                        onClick={() => handleReview([withdrawal.id], 'approve')}
+                                        disabled={processing}
                                         className="text-green-400 hover:text-green-300 hover:bg-green-500/10"
                                         title="Aprovar saque"
                                       >
@@ -471,7 +515,8 @@ export default function WithdrawalsPage() {
                                       <Button
                                         variant="ghost"
                                         size="sm"
-                                        onClick={() => handleReject(withdrawal.id)}
+                                        onClick={() => handleReview([withdrawal.id], 'reject')}
+                                        disabled={processing}
                                         className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
                                         title="Negar saque"
                                       >
@@ -503,6 +548,8 @@ export default function WithdrawalsPage() {
           </div>
         </SidebarInset>
       </SidebarProvider>
+
+      <ReasonDialog {...dialogProps} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,788 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AppSidebar } from '@/components/app-sidebar';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Separator } from '@/components/ui/separator';
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Zap, Plus, Edit, Trash2, Loader2, FlaskConical, AlertTriangle } from 'lucide-react';
+import { Poppins } from 'next/font/google';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReasonDialog, ReasonField } from '@/components/reason-dialog';
+import { DRY_RUN_WITHDRAWAL_LIMIT, useWithdrawalRuleDryRun, type DryRunSample } from '@/hooks/use-withdrawal-rule-dry-run';
+import { api, getErrorMessage } from '@/lib/api';
+import { isValidReason } from '@/lib/audit';
+import { WITHDRAWAL_STATUS_COLORS, WITHDRAWAL_STATUS_LABELS, getWithdrawalStatus } from '@/lib/withdrawal';
+import {
+  describeWithdrawalRule,
+  evaluateWithdrawalRule,
+  getMatchingWithdrawalRule,
+  hasRuleConditions,
+  sortWithdrawalRules,
+} from '@/lib/withdrawal-rules';
+import type { WithdrawalAutoApprovalRule, WithdrawalAutoApprovalRuleInput } from '@/lib/types';
+
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["100", "200", "300", "400", "500", "600", "700"],
+});
+
+interface RuleForm {
+  name: string;
+  priority: string;
+  // Campos vazios desligam a condição
+  max_amount: string;
+  min_account_age_days: string;
+  no_adjustments_hours: string;
+  enabled: boolean;
+}
+
+// Regras novas nascem desligadas para serem simuladas antes de valer
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '1',
+  max_amount: '100',
+  min_account_age_days: '30',
+  no_adjustments_hours: '24',
+  enabled: false,
+};
+
+// Valor da seleção do simulador que mostra o resultado combinado das regras ativas
+const ALL_ACTIVE_RULES = 'active';
+
+const formatCurrency = (amount: string | number) =>
+  `R$ ${Number(amount).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const toForm = (rule: WithdrawalAutoApprovalRule): RuleForm => ({
+  name: rule.name,
+  priority: String(rule.priority),
+  max_amount: rule.max_amount === null ? '' : String(parseFloat(rule.max_amount)),
+  min_account_age_days: rule.min_account_age_days === null ? '' : String(rule.min_account_age_days),
+  no_adjustments_hours: rule.no_adjustments_hours === null ? '' : String(rule.no_adjustments_hours),
+  enabled: rule.enabled,
+});
+
+const parseOptional = (value: string) => (value.trim() ? parseFloat(value.replace(',', '.')) : null);
+
+// Converte o formulário no corpo da API, ou devolve a mensagem do primeiro campo inválido
+const toInput = (form: RuleForm): WithdrawalAutoApprovalRuleInput | string => {
+  const priority = parseInt(form.priority, 10);
+  const maxAmount = parseOptional(form.max_amount);
+  const minAccountAge = parseOptional(form.min_account_age_days);
+  const noAdjustmentsHours = parseOptional(form.no_adjustments_hours);
+
+  if (form.name.trim().length < 3) return 'O nome deve ter pelo menos 3 caracteres';
+  if (!Number.isInteger(priority) || priority < 1) return 'A prioridade deve ser um número inteiro maior que zero';
+  if (maxAmount !== null && !(maxAmount > 0)) return 'O valor máximo deve ser maior que zero';
+  if (minAccountAge !== null && !(Number.isInteger(minAccountAge) && minAccountAge >= 0)) {
+    return 'A idade mínima da conta deve ser um número inteiro de dias';
+  }
+  if (noAdjustmentsHours !== null && !(Number.isInteger(noAdjustmentsHours) && noAdjustmentsHours > 0)) {
+    return 'A janela sem ajustes deve ser um número inteiro de horas';
+  }
+  if (maxAmount === null && minAccountAge === null && noAdjustmentsHours === null) {
+    return 'Defina ao menos uma condição';
+  }
+
+  return {
+    name: form.name.trim(),
+    priority,
+    max_amount: maxAmount,
+    min_account_age_days: minAccountAge,
+    no_adjustments_hours: noAdjustmentsHours,
+    enabled: form.enabled,
+  };
+};
+
+// Regra provisória para simular o formulário antes de salvar
+const toDraftRule = (input: WithdrawalAutoApprovalRuleInput, editing: WithdrawalAutoApprovalRule | null): WithdrawalAutoApprovalRule => ({
+  id: editing?.id ?? 'draft',
+  created_at: editing?.created_at ?? new Date().toISOString(),
+  updated_at: editing?.updated_at ?? new Date().toISOString(),
+  ...input,
+  max_amount: input.max_amount === null ? null : String(input.max_amount),
+});
+
+const summarizeMatches = (matches: DryRunSample[]) => ({
+  count: matches.length,
+  total: matches.reduce((sum, sample) => sum + sample.context.amount, 0),
+  rejected: matches.filter((sample) => getWithdrawalStatus(sample.withdrawal) === 'REJECTED').length,
+});
+
+export default function WithdrawalRulesPage() {
+  const { token } = useAuth();
+  const [rules, setRules] = useState<WithdrawalAutoApprovalRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Modal de criação/edição; editing null = nova regra
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<WithdrawalAutoApprovalRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formReason, setFormReason] = useState('');
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [toggleTarget, setToggleTarget] = useState<WithdrawalAutoApprovalRule | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<WithdrawalAutoApprovalRule | null>(null);
+
+  // Modo de simulação: avalia as regras contra os saques recentes, sem aprovar nada
+  const dryRun = useWithdrawalRuleDryRun(token);
+  const [dryRunRuleId, setDryRunRuleId] = useState(ALL_ACTIVE_RULES);
+
+  const fetchRules = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError('');
+    try {
+      setRules(await api.admin.withdrawalRules.list(token));
+    } catch (err) {
+      const message = getErrorMessage(err, 'Erro ao carregar regras de saque');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const sortedRules = useMemo(() => sortWithdrawalRules(rules), [rules]);
+  const activeCount = rules.filter((rule) => rule.enabled).length;
+
+  const loadDryRun = () => {
+    const windows = rules.map((rule) => rule.no_adjustments_hours ?? 0);
+    dryRun.load(Math.max(24, ...windows));
+  };
+
+  // Saques que cada regra aprovaria isoladamente
+  const matchesByRule = useMemo(() => {
+    const result = new Map<string, DryRunSample[]>();
+    if (!dryRun.samples) return result;
+    rules.forEach((rule) => {
+      result.set(rule.id, dryRun.samples!.filter((sample) => evaluateWithdrawalRule(rule, sample.context).matched));
+    });
+    return result;
+  }, [rules, dryRun.samples]);
+
+  // Com todas as regras ativas, a primeira que casa é a que aprova
+  const combinedMatches = useMemo(() => {
+    if (!dryRun.samples) return [];
+    return dryRun.samples
+      .map((sample) => ({ sample, rule: getMatchingWithdrawalRule(rules, sample.context) }))
+      .filter((entry): entry is { sample: DryRunSample; rule: WithdrawalAutoApprovalRule } => entry.rule !== null);
+  }, [rules, dryRun.samples]);
+
+  const selectedDryRunRule = rules.find((rule) => rule.id === dryRunRuleId) ?? null;
+  const dryRunRows = selectedDryRunRule
+    ? (matchesByRule.get(selectedDryRunRule.id) || []).map((sample) => ({ sample, rule: selectedDryRunRule }))
+    : combinedMatches;
+  const dryRunSummary = summarizeMatches(dryRunRows.map((row) => row.sample));
+
+  const handleFormChange = <K extends keyof RuleForm>(field: K, value: RuleForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const openForm = (rule: WithdrawalAutoApprovalRule | null) => {
+    setEditing(rule);
+    setForm(rule
+      ? toForm(rule)
+      : { ...EMPTY_FORM, priority: String(Math.max(0, ...rules.map((item) => item.priority)) + 1) });
+    setFormReason('');
+    setFormError('');
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+
+    const input = toInput(form);
+    if (typeof input === 'string') {
+      setFormError(input);
+      return;
+    }
+    if (!isValidReason(formReason)) {
+      setFormError('Informe o motivo da alteração');
+      return;
+    }
+
+    setSaving(true);
+    setFormError('');
+    try {
+      if (editing) {
+        const updated = await api.admin.withdrawalRules.update(token, editing.id, input, formReason.trim());
+        setRules((prev) => prev.map((rule) => (rule.id === editing.id ? updated : rule)));
+        toast.success(`Regra "${updated.name}" atualizada`);
+      } else {
+        const created = await api.admin.withdrawalRules.create(token, input, formReason.trim());
+        setRules((prev) => [...prev, created]);
+        toast.success(`Regra "${created.name}" criada`);
+      }
+      closeForm();
+    } catch (err) {
+      setFormError(getErrorMessage(err, 'Erro ao salvar regra de saque'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmToggle = async (reason: string) => {
+    const target = toggleTarget;
+    setToggleTarget(null);
+    if (!token || !target) return;
+
+    try {
+      const updated = await api.admin.withdrawalRules.update(token, target.id, { enabled: !target.enabled }, reason);
+      setRules((prev) => prev.map((rule) => (rule.id === target.id ? updated : rule)));
+      toast.success(`Regra "${target.name}" ${updated.enabled ? 'ativada' : 'desativada'}`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao alterar status da regra'));
+    }
+  };
+
+  const handleConfirmDelete = async (reason: string) => {
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    if (!token || !target) return;
+
+    try {
+      await api.admin.withdrawalRules.remove(token, target.id, reason);
+      setRules((prev) => prev.filter((rule) => rule.id !== target.id));
+      if (dryRunRuleId === target.id) setDryRunRuleId(ALL_ACTIVE_RULES);
+      toast.success(`Regra "${target.name}" excluída`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Erro ao excluir regra de saque'));
+    }
+  };
+
+  // Prévia do formulário contra os saques já carregados no simulador
+  const draftInput = toInput(form);
+  const draftSummary = dryRun.samples && typeof draftInput !== 'string'
+    ? summarizeMatches(dryRun.samples.filter((sample) => evaluateWithdrawalRule(toDraftRule(draftInput, editing), sample.context).matched))
+    : null;
+
+  return (
+    <div className={poppins.className}>
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b border-neutral-700 bg-neutral-800 px-4">
+            <SidebarTrigger className="-ml-1 text-neutral-400 hover:text-white" />
+            <Separator orientation="vertical" className="mr-2 h-4 bg-neutral-600" />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="#" className="text-neutral-400 hover:text-white">
+                    Administração
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/v2/administrator/withdrawals" className="text-neutral-400 hover:text-white">
+                    Saques
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block text-neutral-600" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-white font-medium">Regras de aprovação</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </header>
+
+          <div className="flex flex-1 flex-col gap-6 p-6 bg-neutral-900">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 bg-neutral-700 rounded-lg flex items-center justify-center">
+                  <Zap className="w-5 h-5 text-neutral-300" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-white">Aprovação automática</h1>
+                  <p className="text-neutral-400 text-sm">
+                    {loading ? 'Carregando...' : `${activeCount} de ${rules.length} regras ativas`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={loadDryRun}
+                  disabled={dryRun.loading || loading}
+                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                >
+                  {dryRun.loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-2" />}
+                  {dryRun.samples ? 'Atualizar simulação' : 'Simular'}
+                </Button>
+                <Button onClick={() => openForm(null)} className="bg-yellow-600 hover:bg-yellow-700 text-white">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nova regra
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-neutral-400 text-sm">
+              Ao receber um pedido de saque, a API aplica a primeira regra ativa (menor prioridade) cujas condições sejam
+              todas atendidas. Pedidos que não se encaixam em nenhuma regra seguem para a fila de revisão, e cada aprovação
+              automática fica registrada na auditoria com a regra aplicada.
+            </p>
+
+            <Card className="bg-neutral-800 border-neutral-700">
+              {loading ? (
+                <div className="p-8 text-center">
+                  <Loader2 className="w-8 h-8 text-neutral-400 animate-spin mx-auto mb-4" />
+                  <p className="text-neutral-400">Carregando regras...</p>
+                </div>
+              ) : error ? (
+                <div className="p-8 text-center">
+                  <p className="text-red-400 text-sm mb-4">{error}</p>
+                  <Button onClick={fetchRules} className="bg-yellow-600 hover:bg-yellow-700">
+                    Tentar novamente
+                  </Button>
+                </div>
+              ) : sortedRules.length === 0 ? (
+                <div className="p-8 text-center">
+                  <div className="w-16 h-16 bg-neutral-700 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Zap className="w-8 h-8 text-neutral-400" />
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-2">Nenhuma regra cadastrada</h3>
+                  <p className="text-neutral-400 text-sm">Todos os saques passam pela revisão manual</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <div style={{ minWidth: '900px' }}>
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                          <TableHead className="text-neutral-300 font-medium">Prioridade</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Regra</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Simulação</TableHead>
+                          <TableHead className="text-neutral-300 font-medium">Status</TableHead>
+                          <TableHead className="text-neutral-300 font-medium text-right">Ações</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sortedRules.map((rule) => {
+                          const matches = matchesByRule.get(rule.id);
+                          const summary = matches ? summarizeMatches(matches) : null;
+
+                          return (
+                            <TableRow key={rule.id} className="border-neutral-700 hover:bg-neutral-700/30">
+                              <TableCell className="text-neutral-300 font-mono">{rule.priority}</TableCell>
+                              <TableCell>
+                                <p className="text-white font-medium">{rule.name}</p>
+                                <p className="text-neutral-500 text-xs">{describeWithdrawalRule(rule)}</p>
+                              </TableCell>
+                              <TableCell>
+                                {summary ? (
+                                  <button
+                                    type="button"
+                                    onClick={() => setDryRunRuleId(rule.id)}
+                                    className="text-left hover:underline"
+                                  >
+                                    <span className="text-neutral-200 text-sm">
+                                      {summary.count} saques · {formatCurrency(summary.total)}
+                                    </span>
+                                    {summary.rejected > 0 && (
+                                      <span className="block text-red-400 text-xs">{summary.rejected} rejeitados manualmente</span>
+                                    )}
+                                  </button>
+                                ) : (
+                                  <span className="text-neutral-500 text-sm">—</span>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Switch checked={rule.enabled} onCheckedChange={() => setToggleTarget(rule)} />
+                                  <Badge className={rule.enabled
+                                    ? 'bg-green-500/10 text-green-400 border-green-500/20'
+                                    : 'bg-neutral-500/10 text-neutral-400 border-neutral-500/20'}
+                                  >
+                                    {rule.enabled ? 'Ativa' : 'Inativa'}
+                                  </Badge>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <div className="flex justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => openForm(rule)}
+                                    className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setDeleteTarget(rule)}
+                                    className="bg-neutral-700 border-neutral-600 text-red-400 hover:bg-red-500/10"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </Card>
+
+            {/* Resultado da simulação */}
+            {(dryRun.samples || dryRun.error) && (
+              <Card className="bg-neutral-800 border-neutral-700">
+                <div className="p-6 border-b border-neutral-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                      <FlaskConical className="w-5 h-5 text-neutral-400" />
+                      Simulação
+                    </h3>
+                    <p className="text-neutral-400 text-sm">
+                      {dryRun.samples
+                        ? `${dryRunSummary.count} de ${dryRun.samples.length} saques recentes seriam aprovados (${formatCurrency(dryRunSummary.total)})`
+                        : 'Não foi possível carregar os saques'}
+                    </p>
+                  </div>
+                  {dryRun.samples && (
+                    <Select value={dryRunRuleId} onValueChange={setDryRunRuleId}>
+                      <SelectTrigger className="w-full md:w-64 bg-neutral-700 border-neutral-600 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-neutral-700 border-neutral-600">
+                        <SelectItem value={ALL_ACTIVE_RULES} className="text-white hover:bg-neutral-600">
+                          Todas as regras ativas
+                        </SelectItem>
+                        {sortedRules.map((rule) => (
+                          <SelectItem key={rule.id} value={rule.id} className="text-white hover:bg-neutral-600">
+                            {rule.name}{!rule.enabled && ' (inativa)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+
+                {dryRun.error ? (
+                  <div className="p-8 text-center">
+                    <p className="text-red-400 text-sm mb-4">{dryRun.error}</p>
+                    <Button onClick={loadDryRun} className="bg-yellow-600 hover:bg-yellow-700">
+                      Tentar novamente
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    {!dryRun.adjustmentsAvailable && (
+                      <div className="mx-6 mt-4 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 text-amber-400 mt-0.5 shrink-0" />
+                        <p className="text-amber-400 text-sm">
+                          Não foi possível consultar os ajustes de saldo: regras com essa condição não casam na simulação.
+                        </p>
+                      </div>
+                    )}
+                    {dryRun.skipped > 0 && (
+                      <div className="mx-6 mt-4 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 text-amber-400 mt-0.5 shrink-0" />
+                        <p className="text-amber-400 text-sm">
+                          {dryRun.skipped} saque(s) ficaram fora da simulação porque o cadastro do jogador não pôde ser carregado.
+                        </p>
+                      </div>
+                    )}
+                    {dryRunSummary.rejected > 0 && (
+                      <div className="mx-6 mt-4 bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5 shrink-0" />
+                        <p className="text-red-400 text-sm">
+                          {dryRunSummary.rejected} dos saques aprovados na simulação foram rejeitados manualmente.
+                        </p>
+                      </div>
+                    )}
+
+                    {dryRunRows.length === 0 ? (
+                      <p className="p-8 text-center text-neutral-400 text-sm">
+                        Nenhum dos últimos {DRY_RUN_WITHDRAWAL_LIMIT} saques seria aprovado automaticamente
+                      </p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <div style={{ minWidth: '900px' }}>
+                          <Table>
+                            <TableHeader>
+                              <TableRow className="border-neutral-700 hover:bg-neutral-700/50">
+                                <TableHead className="text-neutral-300 font-medium">Jogador</TableHead>
+                                <TableHead className="text-neutral-300 font-medium">Valor</TableHead>
+                                <TableHead className="text-neutral-300 font-medium">Solicitado em</TableHead>
+                                <TableHead className="text-neutral-300 font-medium">Regra</TableHead>
+                                <TableHead className="text-neutral-300 font-medium">Condições</TableHead>
+                                <TableHead className="text-neutral-300 font-medium">Decisão real</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {dryRunRows.map(({ sample, rule }) => {
+                                const { withdrawal } = sample;
+                                const status = getWithdrawalStatus(withdrawal);
+                                const evaluation = evaluateWithdrawalRule(rule, sample.context);
+
+                                return (
+                                  <TableRow
+                                    key={withdrawal.id}
+                                    className={`border-neutral-700 ${status === 'REJECTED' ? 'bg-red-500/5' : 'hover:bg-neutral-700/30'}`}
+                                  >
+                                    <TableCell>
+                                      <p className="text-white text-sm font-medium">{withdrawal.user.username}</p>
+                                      <p className="text-neutral-400 text-xs">{withdrawal.user.email}</p>
+                                    </TableCell>
+                                    <TableCell className="text-green-400 font-medium">{formatCurrency(withdrawal.amount)}</TableCell>
+                                    <TableCell className="text-neutral-300 text-sm whitespace-nowrap">{formatDate(withdrawal.created_at)}</TableCell>
+                                    <TableCell className="text-neutral-300 text-sm">{rule.name}</TableCell>
+                                    <TableCell className="text-neutral-400 text-xs">
+                                      {evaluation.conditions.map((condition) => condition.detail).join(' · ')}
+                                    </TableCell>
+                                    <TableCell>
+                                      <span className={`text-sm font-medium ${WITHDRAWAL_STATUS_COLORS[status]}`}>
+                                        {WITHDRAWAL_STATUS_LABELS[status]}
+                                      </span>
+                                      {withdrawal.auto_approval_rule && (
+                                        <p className="text-neutral-500 text-xs">Automático: {withdrawal.auto_approval_rule.name}</p>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                );
+                              })}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </Card>
+            )}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+
+      {/* Modal de criação/edição */}
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-2xl bg-neutral-800 border-neutral-700 text-white max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-lg font-bold text-white flex items-center gap-2">
+              <Zap className="w-5 h-5" />
+              {editing ? `Editar ${editing.name}` : 'Nova regra de aprovação'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {formError && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+              <p className="text-red-400 text-sm">{formError}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name" className="text-neutral-300">Nome</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => handleFormChange('name', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                placeholder="Saques pequenos de contas antigas"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="priority" className="text-neutral-300">Prioridade (menor avalia primeiro)</Label>
+              <Input
+                id="priority"
+                type="number"
+                step="1"
+                value={form.priority}
+                onChange={(e) => handleFormChange('priority', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_amount" className="text-neutral-300">Valor máximo (R$)</Label>
+              <Input
+                id="max_amount"
+                type="number"
+                step="0.01"
+                value={form.max_amount}
+                onChange={(e) => handleFormChange('max_amount', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                placeholder="Sem condição"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min_account_age_days" className="text-neutral-300">Conta com mais de (dias)</Label>
+              <Input
+                id="min_account_age_days"
+                type="number"
+                step="1"
+                value={form.min_account_age_days}
+                onChange={(e) => handleFormChange('min_account_age_days', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                placeholder="Sem condição"
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="no_adjustments_hours" className="text-neutral-300">Sem ajustes de saldo nas últimas (horas)</Label>
+              <Input
+                id="no_adjustments_hours"
+                type="number"
+                step="1"
+                value={form.no_adjustments_hours}
+                onChange={(e) => handleFormChange('no_adjustments_hours', e.target.value)}
+                className="bg-neutral-700 border-neutral-600 text-white"
+                placeholder="Sem condição"
+                disabled={saving}
+              />
+            </div>
+            <div className="flex items-center space-x-2 md:pt-8">
+              <Switch
+                id="enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => handleFormChange('enabled', checked)}
+                disabled={saving}
+              />
+              <Label htmlFor="enabled" className="text-neutral-300">Regra ativa</Label>
+            </div>
+          </div>
+
+          {/* Prévia da simulação */}
+          <div className="bg-neutral-700/50 border border-neutral-600 rounded-lg p-4 text-sm">
+            {draftSummary && dryRun.samples ? (
+              <p className="text-neutral-300">
+                Esta regra teria aprovado <span className="text-white font-semibold">{draftSummary.count}</span> dos{' '}
+                {dryRun.samples.length} saques recentes ({formatCurrency(draftSummary.total)})
+                {draftSummary.rejected > 0 && (
+                  <span className="text-red-400">, incluindo {draftSummary.rejected} rejeitados manualmente</span>
+                )}
+                .
+              </p>
+            ) : dryRun.samples ? (
+              <p className="text-neutral-400">Preencha as condições para ver a simulação.</p>
+            ) : (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-neutral-400">Simule a regra contra os saques recentes antes de ativá-la.</p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={loadDryRun}
+                  disabled={dryRun.loading}
+                  className="bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+                >
+                  {dryRun.loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Simular'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <ReasonField id="ruleReason" value={formReason} onChange={setFormReason} disabled={saving} />
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              variant="outline"
+              onClick={closeForm}
+              className="flex-1 bg-neutral-700 border-neutral-600 text-white hover:bg-neutral-600"
+              disabled={saving}
+            >
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleSave}
+              className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white"
+              disabled={saving}
+            >
+              {saving ? (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                'Salvar'
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ReasonDialog
+        open={toggleTarget !== null}
+        title={toggleTarget?.enabled ? `Desativar ${toggleTarget.name}` : `Ativar ${toggleTarget?.name ?? ''}`}
+        description={toggleTarget?.enabled
+          ? 'Os saques que esta regra aprovaria voltam para a fila de revisão manual.'
+          : toggleTarget && !hasRuleConditions(toggleTarget)
+            ? 'Esta regra não tem condições e não aprovará nenhum saque.'
+            : 'Novos saques que atendam às condições serão aprovados automaticamente.'}
+        confirmLabel={toggleTarget?.enabled ? 'Desativar' : 'Ativar'}
+        destructive={toggleTarget?.enabled}
+        onConfirm={handleConfirmToggle}
+        onCancel={() => setToggleTarget(null)}
+      />
+
+      <ReasonDialog
+        open={deleteTarget !== null}
+        title={`Excluir ${deleteTarget?.name ?? ''}`}
+        description="A regra será removida. Saques já aprovados por ela e o histórico da auditoria não são afetados."
+        confirmLabel="Excluir"
+        destructive
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
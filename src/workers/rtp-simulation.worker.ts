@@ -0,0 +1,15 @@
+// Worker da simulação de RTP; recebe um SimulationInput e responde com SimulationMessage
+import { runSimulation, type SimulationInput, type SimulationMessage } from '@/lib/rtp-simulation';
+
+const scope = self as unknown as Worker;
+
+const post = (message: SimulationMessage) => scope.postMessage(message);
+
+scope.addEventListener('message', (event: MessageEvent<SimulationInput>) => {
+  try {
+    const result = runSimulation(event.data, (done, total) => post({ type: 'progress', done, total }));
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Erro ao simular' });
+  }
+});